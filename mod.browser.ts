@@ -5,4 +5,7 @@
  */
 
 export * from "./src/store/storage/kv/kv_driver_indexeddb.ts";
+export * from "./src/store/storage/kv/kv_driver_opfs.ts";
 export * from "./src/store/storage/payload_drivers/indexeddb.ts";
+export * from "./src/store/storage/payload_drivers/opfs.ts";
+export * from "./src/store/storage/auth_token_drivers/indexeddb.ts";
@@ -6,3 +6,4 @@
 
 export * from "./src/store/storage/kv/kv_driver_deno.ts";
 export * from "./src/store/storage/payload_drivers/filesystem.ts";
+export * from "./src/store/storage/payload_drivers/hybrid.ts";
@@ -0,0 +1,7 @@
+/**
+ * Modules for storing data with SQLite, in either Deno or Node.
+ *
+ * @module
+ */
+
+export * from "./src/store/storage/kv/kv_driver_sqlite.ts";
@@ -12,7 +12,12 @@
  */
 
 export type {
+  AreaStats,
   AuthorisationScheme,
+  DeleteEvent,
+  DeleteEventNoOp,
+  DeleteEventSuccess,
+  Deletion,
   FingerprintScheme,
   IngestEvent,
   IngestEventFailure,
@@ -25,10 +30,26 @@ export type {
   LengthyEntry,
   NamespaceScheme,
   Payload,
+  PayloadEviction,
+  PayloadEvictionOrder,
+  PayloadRetentionPolicy,
   PayloadScheme,
+  PayloadTreeScheme,
+  PayloadVerifier,
+  QueryCursor,
+  QueryOpts,
+  QueryPage,
+  QueryPageOpts,
+  SubscribeOpts,
+  SubscriptionEvent,
+  SubscriptionEventAdded,
+  SubscriptionEventExisting,
+  SubscriptionEventPayload,
+  SubscriptionEventRemoved,
   SubspaceScheme,
 } from "./src/store/types.ts";
 export * from "./src/store/store.ts";
+export * from "./src/store/store_manager.ts";
 export * from "./src/store/events.ts";
 
 export * from "./src/store/storage/types.ts";
@@ -38,8 +59,16 @@ export * from "./src/store/storage/entry_drivers/kv_store.ts";
 export type { KvBatch, KvDriver, KvKey } from "./src/store/storage/kv/types.ts";
 export * from "./src/store/storage/kv/prefixed_driver.ts";
 export * from "./src/store/storage/kv/kv_driver_in_memory.ts";
+export * from "./src/store/storage/kv/staging_driver.ts";
+export * from "./src/store/storage/kv/encrypted_driver.ts";
 
 export * from "./src/store/storage/payload_drivers/memory.ts";
+export * from "./src/store/storage/payload_drivers/chunked.ts";
+export * from "./src/store/storage/payload_drivers/encrypted.ts";
+export type { ChunkerOpts } from "./src/store/storage/payload_drivers/chunker.ts";
+
+export * from "./src/store/storage/auth_token_drivers/memory.ts";
+export * from "./src/store/storage/auth_token_drivers/kv.ts";
 
 export * from "./src/store/storage/prefix_iterators/types.ts";
 export * from "./src/store/storage/prefix_iterators/simple_key_iterator.ts";
@@ -75,6 +104,7 @@ export type {
   Transport,
 } from "./src/wgps/types.ts";
 export * from "./src/wgps/wgps_messenger.ts";
+export * from "./src/wgps/events.ts";
 export * from "./src/wgps/transports/in_memory.ts";
 export * from "./src/wgps/transports/websocket.ts";
 
@@ -25,6 +25,7 @@ function getStore(namespace: TestNamespace) {
   return new Store({
     entryDriver: new EntryDriverKvStore({
       kvDriver: new KvDriverInMemory(),
+      namespace,
       namespaceScheme: testSchemeNamespace,
       subspaceScheme: testSchemeSubspace,
       pathScheme: testSchemePath,
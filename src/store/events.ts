@@ -1,5 +1,5 @@
 import type { Entry } from "@earthstar/willow-utils";
-import type { Payload } from "./types.ts";
+import type { Deletion, Payload } from "./types.ts";
 
 export const StoreEvents = {
   EntryIngest: "entryingest",
@@ -83,16 +83,20 @@ export class EntryIngestEvent<
   {
     entry: Entry<NamespacePublicKey, SubspacePublicKey, PayloadDigest>;
     authToken: AuthorisationToken;
+    /** An ID representing the source of the entry, if one was given when it was ingested. */
+    externalSourceId?: string;
   }
 > {
   constructor(
     entry: Entry<NamespacePublicKey, SubspacePublicKey, PayloadDigest>,
     authToken: AuthorisationToken,
+    externalSourceId?: string,
   ) {
     super(StoreEvents.EntryIngest, {
       detail: {
         entry,
         authToken,
+        externalSourceId,
       },
     });
   }
@@ -108,17 +112,21 @@ export class PayloadIngestEvent<
   entry: Entry<NamespacePublicKey, SubspacePublicKey, PayloadDigest>;
   authToken: AuthorisationToken;
   payload: Payload;
+  /** An ID representing the source of the payload, if one was given when it was ingested. */
+  externalSourceId?: string;
 }> {
   constructor(
     entry: Entry<NamespacePublicKey, SubspacePublicKey, PayloadDigest>,
     authToken: AuthorisationToken,
     payload: Payload,
+    externalSourceId?: string,
   ) {
     super(StoreEvents.PayloadIngest, {
       detail: {
         entry,
         authToken,
         payload,
+        externalSourceId,
       },
     });
   }
@@ -137,6 +145,8 @@ export class EntryRemoveEvent<
       entry: Entry<NamespacePublicKey, SubspacePublicKey, PayloadDigest>;
       authToken: AuthorisationToken;
     };
+    /** The deletion which caused this removal, if the removing entry was written by {@linkcode Store.delete} or {@linkcode Store.deletePrefix}. */
+    deletion?: Deletion<SubspacePublicKey>;
   }
 > {
   constructor(
@@ -145,11 +155,13 @@ export class EntryRemoveEvent<
       entry: Entry<NamespacePublicKey, SubspacePublicKey, PayloadDigest>;
       authToken: AuthorisationToken;
     },
+    deletion?: Deletion<SubspacePublicKey>,
   ) {
     super(StoreEvents.EntryRemove, {
       detail: {
         removed,
         removedBy,
+        deletion,
       },
     });
   }
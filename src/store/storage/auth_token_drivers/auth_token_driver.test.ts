@@ -0,0 +1,100 @@
+import type { AuthTokenDriver } from "../types.ts";
+import { AuthTokenDriverMemory } from "./memory.ts";
+import { AuthTokenDriverKv } from "./kv.ts";
+import { AuthTokenDriverIndexedDb } from "./indexeddb.ts";
+import { KvDriverInMemory } from "../kv/kv_driver_in_memory.ts";
+import { testSchemePayload } from "../../../test/test_schemes.ts";
+import "https://deno.land/x/indexeddb@1.3.5/polyfill_memory.ts";
+import { assert, assertArrayIncludes, assertEquals } from "@std/assert";
+import { delay } from "@std/async";
+
+testAuthTokenDriver("Memory", () => {
+  return new AuthTokenDriverMemory(testSchemePayload);
+});
+
+testAuthTokenDriver("KV", () => {
+  return new AuthTokenDriverKv(new KvDriverInMemory(), testSchemePayload);
+});
+
+testAuthTokenDriver("IndexedDB", () => {
+  return new AuthTokenDriverIndexedDb("test", testSchemePayload);
+});
+
+function testAuthTokenDriver(
+  name: string,
+  makeDriver: () => AuthTokenDriver<ArrayBuffer>,
+) {
+  Deno.test(`set and get (${name})`, async () => {
+    const driver = makeDriver();
+
+    const encoded = crypto.getRandomValues(new Uint8Array(16));
+    const digest = await testSchemePayload.fromBytes(encoded);
+
+    assertEquals(await driver.get(digest), undefined);
+
+    await driver.set(digest, encoded);
+
+    assertEquals(await driver.get(digest), encoded);
+    assertEquals(await driver.count(digest), 0);
+
+    await delay(0);
+  });
+
+  Deno.test(`Reference counting (${name})`, async () => {
+    const driver = makeDriver();
+
+    const encoded = crypto.getRandomValues(new Uint8Array(16));
+    const digest = await testSchemePayload.fromBytes(encoded);
+
+    // Tokens which aren't stored can't be referred to.
+    assertEquals(await driver.increment(digest), 0);
+
+    await driver.set(digest, encoded);
+
+    assertEquals(await driver.increment(digest), 1);
+    assertEquals(await driver.increment(digest), 2);
+
+    // Setting a token again leaves its count alone.
+    await driver.set(digest, encoded);
+    assertEquals(await driver.count(digest), 2);
+
+    assertEquals(await driver.decrement(digest), 1);
+    assertEquals(await driver.decrement(digest), 0);
+    assertEquals(await driver.decrement(digest), 0);
+
+    // The token is kept until erased, even once nothing refers to it.
+    assertEquals(await driver.get(digest), encoded);
+
+    await delay(0);
+  });
+
+  Deno.test(`erase, digests, and clear (${name})`, async () => {
+    const driver = makeDriver();
+
+    const encoded = crypto.getRandomValues(new Uint8Array(16));
+    const digest = await testSchemePayload.fromBytes(encoded);
+
+    await driver.set(digest, encoded);
+    await driver.increment(digest);
+
+    const digests = [];
+
+    for await (const held of driver.digests()) {
+      digests.push(testSchemePayload.encode(held));
+    }
+
+    assertArrayIncludes(digests, [testSchemePayload.encode(digest)]);
+
+    assert(await driver.erase(digest));
+    assert(!(await driver.erase(digest)));
+    assertEquals(await driver.get(digest), undefined);
+    assertEquals(await driver.count(digest), 0);
+
+    await driver.set(digest, encoded);
+    await driver.clear();
+
+    assertEquals(await driver.get(digest), undefined);
+
+    await delay(0);
+  });
+}
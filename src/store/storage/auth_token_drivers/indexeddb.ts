@@ -0,0 +1,224 @@
+import { WillowError } from "../../../errors.ts";
+import type { PayloadScheme } from "../../types.ts";
+import type { AuthTokenDriver } from "../types.ts";
+
+const TOKEN_STORE = "tokens";
+
+/** An authorisation token as written to IndexedDB. */
+type StoredAuthToken = { encoded: Uint8Array; count: number };
+
+/** Implements {@linkcode AuthTokenDriver} on top of [IndexedDB](https://developer.mozilla.org/en-US/docs/Web/API/IndexedDB_API). */
+export class AuthTokenDriverIndexedDb<PayloadDigest>
+  implements AuthTokenDriver<PayloadDigest> {
+  private db = Promise.withResolvers<IDBDatabase>();
+
+  constructor(
+    id: string,
+    readonly payloadScheme: PayloadScheme<PayloadDigest>,
+  ) {
+    // deno-lint-ignore no-explicit-any
+    const request = ((window as any).indexedDB as IDBFactory).open(
+      `willow_auth_tokens_${id}`,
+      1,
+    );
+
+    request.onerror = () => {
+      throw new WillowError(
+        `Could not open IndexedDB.`,
+      );
+    };
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+
+      // Storing digest / token and reference count pairs.
+      db.createObjectStore(TOKEN_STORE);
+    };
+
+    request.onsuccess = () => {
+      this.db.resolve(request.result);
+    };
+  }
+
+  private getKey(digest: PayloadDigest) {
+    return this.payloadScheme.encode(digest);
+  }
+
+  // Read a stored token, and write its replacement (if any) within the same transaction.
+  private async update<T>(
+    digest: PayloadDigest,
+    fn: (token: StoredAuthToken | undefined) => {
+      next: StoredAuthToken | undefined;
+      result: T;
+    },
+  ): Promise<T> {
+    const db = await this.db.promise;
+
+    const tokenStore = db.transaction([TOKEN_STORE], "readwrite")
+      .objectStore(
+        TOKEN_STORE,
+      );
+
+    const key = this.getKey(digest);
+
+    const didUpdate = Promise.withResolvers<T>();
+
+    const getOp = tokenStore.get(key);
+
+    getOp.onsuccess = () => {
+      const { next, result } = fn(getOp.result);
+
+      const writeOp = next ? tokenStore.put(next, key) : tokenStore.delete(key);
+
+      writeOp.onsuccess = () => {
+        didUpdate.resolve(result);
+      };
+
+      writeOp.onerror = () => {
+        didUpdate.reject();
+      };
+    };
+
+    getOp.onerror = () => {
+      didUpdate.reject();
+    };
+
+    return didUpdate.promise;
+  }
+
+  async get(digest: PayloadDigest): Promise<Uint8Array | undefined> {
+    const db = await this.db.promise;
+
+    const tokenStore = db.transaction([TOKEN_STORE], "readonly")
+      .objectStore(
+        TOKEN_STORE,
+      );
+
+    const didGet = Promise.withResolvers<StoredAuthToken | undefined>();
+
+    const getOp = tokenStore.get(this.getKey(digest));
+
+    getOp.onsuccess = () => {
+      didGet.resolve(getOp.result);
+    };
+
+    getOp.onerror = () => {
+      didGet.reject();
+    };
+
+    const token = await didGet.promise;
+
+    return token?.encoded;
+  }
+
+  set(digest: PayloadDigest, encoded: Uint8Array): Promise<void> {
+    return this.update(digest, (token) => ({
+      next: { encoded, count: token?.count ?? 0 },
+      result: undefined,
+    }));
+  }
+
+  increment(digest: PayloadDigest): Promise<number> {
+    return this.update(digest, (token) => {
+      if (!token) {
+        return { next: undefined, result: 0 };
+      }
+
+      const count = token.count + 1;
+
+      return { next: { ...token, count }, result: count };
+    });
+  }
+
+  decrement(digest: PayloadDigest): Promise<number> {
+    return this.update(digest, (token) => {
+      if (!token) {
+        return { next: undefined, result: 0 };
+      }
+
+      const count = Math.max(token.count - 1, 0);
+
+      return { next: { ...token, count }, result: count };
+    });
+  }
+
+  async count(digest: PayloadDigest): Promise<number> {
+    const db = await this.db.promise;
+
+    const tokenStore = db.transaction([TOKEN_STORE], "readonly")
+      .objectStore(
+        TOKEN_STORE,
+      );
+
+    const didGet = Promise.withResolvers<StoredAuthToken | undefined>();
+
+    const getOp = tokenStore.get(this.getKey(digest));
+
+    getOp.onsuccess = () => {
+      didGet.resolve(getOp.result);
+    };
+
+    getOp.onerror = () => {
+      didGet.reject();
+    };
+
+    const token = await didGet.promise;
+
+    return token?.count ?? 0;
+  }
+
+  erase(digest: PayloadDigest): Promise<boolean> {
+    return this.update(digest, (token) => ({
+      next: undefined,
+      result: token !== undefined,
+    }));
+  }
+
+  async *digests(): AsyncIterable<PayloadDigest> {
+    const db = await this.db.promise;
+
+    const tokenStore = db.transaction([TOKEN_STORE], "readonly")
+      .objectStore(
+        TOKEN_STORE,
+      );
+
+    const didGetKeys = Promise.withResolvers<IDBValidKey[]>();
+
+    const request = tokenStore.getAllKeys();
+
+    request.onsuccess = () => {
+      didGetKeys.resolve(request.result);
+    };
+
+    request.onerror = () => {
+      didGetKeys.reject();
+    };
+
+    for (const key of await didGetKeys.promise) {
+      yield this.payloadScheme.decode(new Uint8Array(key as ArrayBuffer));
+    }
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.db.promise;
+
+    const tokenStore = db.transaction([TOKEN_STORE], "readwrite")
+      .objectStore(
+        TOKEN_STORE,
+      );
+
+    const didClear = Promise.withResolvers<void>();
+
+    const request = tokenStore.clear();
+
+    request.onsuccess = () => {
+      didClear.resolve();
+    };
+
+    request.onerror = () => {
+      didClear.reject();
+    };
+
+    return didClear.promise;
+  }
+}
@@ -0,0 +1,91 @@
+import type { PayloadScheme } from "../../types.ts";
+import type { KvDriver } from "../kv/types.ts";
+import type { AuthTokenDriver } from "../types.ts";
+
+/** An authorisation token as written to the key-value store. */
+type StoredAuthToken = { encoded: Uint8Array; count: number };
+
+/** Stores and retrieves authorisation tokens with a {@linkcode KvDriver}.
+ *
+ * Every key is a single encoded digest, so the driver should be given a `PrefixedDriver` when sharing a `KvDriver` with others.
+ */
+export class AuthTokenDriverKv<PayloadDigest>
+  implements AuthTokenDriver<PayloadDigest> {
+  constructor(
+    readonly kvDriver: KvDriver,
+    readonly payloadScheme: PayloadScheme<PayloadDigest>,
+  ) {}
+
+  async get(digest: PayloadDigest): Promise<Uint8Array | undefined> {
+    const token = await this.kvDriver.get<StoredAuthToken>([
+      this.payloadScheme.encode(digest),
+    ]);
+
+    return token?.encoded;
+  }
+
+  async set(digest: PayloadDigest, encoded: Uint8Array): Promise<void> {
+    const key = [this.payloadScheme.encode(digest)];
+
+    const token = await this.kvDriver.get<StoredAuthToken>(key);
+
+    await this.kvDriver.set<StoredAuthToken>(key, {
+      encoded,
+      count: token?.count ?? 0,
+    });
+  }
+
+  async increment(digest: PayloadDigest): Promise<number> {
+    const key = [this.payloadScheme.encode(digest)];
+
+    const token = await this.kvDriver.get<StoredAuthToken>(key);
+
+    if (!token) {
+      return 0;
+    }
+
+    const count = token.count + 1;
+
+    await this.kvDriver.set<StoredAuthToken>(key, { ...token, count });
+
+    return count;
+  }
+
+  async decrement(digest: PayloadDigest): Promise<number> {
+    const key = [this.payloadScheme.encode(digest)];
+
+    const token = await this.kvDriver.get<StoredAuthToken>(key);
+
+    if (!token) {
+      return 0;
+    }
+
+    const count = Math.max(token.count - 1, 0);
+
+    await this.kvDriver.set<StoredAuthToken>(key, { ...token, count });
+
+    return count;
+  }
+
+  async count(digest: PayloadDigest): Promise<number> {
+    const token = await this.kvDriver.get<StoredAuthToken>([
+      this.payloadScheme.encode(digest),
+    ]);
+
+    return token?.count ?? 0;
+  }
+
+  erase(digest: PayloadDigest): Promise<boolean> {
+    return this.kvDriver.delete([this.payloadScheme.encode(digest)]);
+  }
+
+  async *digests(): AsyncIterable<PayloadDigest> {
+    for await (const { key } of this.kvDriver.list({})) {
+      yield this.payloadScheme.decode(key[0] as Uint8Array);
+    }
+  }
+
+  clear(): Promise<void> {
+    return this.kvDriver.clear();
+  }
+}
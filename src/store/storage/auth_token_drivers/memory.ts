@@ -0,0 +1,71 @@
+import type { PayloadScheme } from "../../types.ts";
+import type { AuthTokenDriver } from "../types.ts";
+import { decodeBase64, encodeBase64 } from "@std/encoding/base64";
+
+/** Stores and retrieves authorisation tokens in memory. */
+export class AuthTokenDriverMemory<PayloadDigest>
+  implements AuthTokenDriver<PayloadDigest> {
+  private tokens = new Map<string, { encoded: Uint8Array; count: number }>();
+
+  constructor(readonly payloadScheme: PayloadScheme<PayloadDigest>) {}
+
+  private getKey(digest: PayloadDigest) {
+    return encodeBase64(this.payloadScheme.encode(digest));
+  }
+
+  get(digest: PayloadDigest): Promise<Uint8Array | undefined> {
+    return Promise.resolve(this.tokens.get(this.getKey(digest))?.encoded);
+  }
+
+  set(digest: PayloadDigest, encoded: Uint8Array): Promise<void> {
+    const key = this.getKey(digest);
+
+    this.tokens.set(key, { encoded, count: this.tokens.get(key)?.count ?? 0 });
+
+    return Promise.resolve();
+  }
+
+  increment(digest: PayloadDigest): Promise<number> {
+    const token = this.tokens.get(this.getKey(digest));
+
+    if (!token) {
+      return Promise.resolve(0);
+    }
+
+    token.count += 1;
+
+    return Promise.resolve(token.count);
+  }
+
+  decrement(digest: PayloadDigest): Promise<number> {
+    const token = this.tokens.get(this.getKey(digest));
+
+    if (!token) {
+      return Promise.resolve(0);
+    }
+
+    token.count = Math.max(token.count - 1, 0);
+
+    return Promise.resolve(token.count);
+  }
+
+  count(digest: PayloadDigest): Promise<number> {
+    return Promise.resolve(this.tokens.get(this.getKey(digest))?.count ?? 0);
+  }
+
+  erase(digest: PayloadDigest): Promise<boolean> {
+    return Promise.resolve(this.tokens.delete(this.getKey(digest)));
+  }
+
+  async *digests(): AsyncIterable<PayloadDigest> {
+    for (const key of this.tokens.keys()) {
+      yield this.payloadScheme.decode(decodeBase64(key));
+    }
+  }
+
+  clear(): Promise<void> {
+    this.tokens.clear();
+
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,47 @@
+import { concat } from "@std/bytes";
+import { WillowError } from "../../errors.ts";
+
+/** The length of the random initialisation vector prepended to each encrypted value. */
+const IV_LENGTH = 12;
+
+/** Encrypt some bytes with AES-GCM, binding them to some additional data (which must be given again to decrypt them). */
+export async function encryptBytes(
+  key: CryptoKey,
+  bytes: Uint8Array,
+  additionalData: Uint8Array,
+): Promise<Uint8Array> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+
+  const encrypted = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData },
+    key,
+    bytes,
+  );
+
+  return concat([iv, new Uint8Array(encrypted)]);
+}
+
+/** Decrypt bytes encrypted with {@linkcode encryptBytes}, throwing if they (or the additional data) were tampered with. */
+export async function decryptBytes(
+  key: CryptoKey,
+  encrypted: Uint8Array,
+  additionalData: Uint8Array,
+): Promise<Uint8Array> {
+  try {
+    const decrypted = await crypto.subtle.decrypt(
+      {
+        name: "AES-GCM",
+        iv: encrypted.subarray(0, IV_LENGTH),
+        additionalData,
+      },
+      key,
+      encrypted.subarray(IV_LENGTH),
+    );
+
+    return new Uint8Array(decrypted);
+  } catch {
+    throw new WillowError(
+      "Could not decrypt stored data: the wrong key was used, or it was tampered with.",
+    );
+  }
+}
@@ -0,0 +1,363 @@
+// deno test --unstable-kv ./src/store/storage/entry_drivers/kv_store.test.ts
+
+import { assert, assertEquals } from "@std/assert";
+import { fullArea } from "@earthstar/willow-utils";
+import { Store } from "../../store.ts";
+import {
+  TestNamespace,
+  testSchemeAuthorisation,
+  testSchemeFingerprint,
+  testSchemeNamespace,
+  testSchemePath,
+  testSchemePayload,
+  testSchemeSubspace,
+  TestSubspace,
+} from "../../../test/test_schemes.ts";
+import { KvDriverDeno } from "../kv/kv_driver_deno.ts";
+import { KvDriverInMemory } from "../kv/kv_driver_in_memory.ts";
+import type { KvBatch, KvDriver } from "../kv/types.ts";
+import { PayloadDriverMemory } from "../payload_drivers/memory.ts";
+import { EntryDriverKvStore, namespaceKeyPrefix } from "./kv_store.ts";
+
+function makeEntryDriver(
+  namespace: TestNamespace,
+  kvDriver: KvDriver,
+  payloadDriver: PayloadDriverMemory<ArrayBuffer>,
+) {
+  return new EntryDriverKvStore({
+    namespace,
+    kvDriver,
+    namespaceScheme: testSchemeNamespace,
+    subspaceScheme: testSchemeSubspace,
+    pathScheme: testSchemePath,
+    payloadScheme: testSchemePayload,
+    fingerprintScheme: testSchemeFingerprint,
+    getPayloadLength: (digest) => payloadDriver.length(digest),
+  });
+}
+
+function makeStore(
+  namespace: TestNamespace,
+  entryDriver: EntryDriverKvStore<
+    TestNamespace,
+    TestSubspace,
+    ArrayBuffer,
+    Uint8Array,
+    Uint8Array
+  >,
+  payloadDriver: PayloadDriverMemory<ArrayBuffer>,
+) {
+  return new Store({
+    namespace,
+    entryDriver,
+    payloadDriver,
+    schemes: {
+      namespace: testSchemeNamespace,
+      subspace: testSchemeSubspace,
+      path: testSchemePath,
+      payload: testSchemePayload,
+      authorisation: testSchemeAuthorisation,
+      fingerprint: testSchemeFingerprint,
+    },
+  });
+}
+
+async function queryAll(
+  store: Store<
+    TestNamespace,
+    TestSubspace,
+    ArrayBuffer,
+    TestSubspace,
+    Uint8Array,
+    Uint8Array,
+    Uint8Array
+  >,
+) {
+  const entries = [];
+
+  for await (
+    const [entry, payload] of store.query({
+      area: fullArea(),
+      maxCount: 0,
+      maxSize: BigInt(0),
+    }, "path")
+  ) {
+    entries.push({ entry, bytes: await payload?.bytes() });
+  }
+
+  return entries;
+}
+
+Deno.test("EntryDriverKvStore isolates namespaces sharing a KvDriver", async (test) => {
+  const kv = new KvDriverDeno(await Deno.openKv(":memory:"));
+
+  const namespaces = [
+    TestNamespace.Family,
+    TestNamespace.Project,
+    TestNamespace.Bookclub,
+  ];
+
+  const stores = namespaces.map((namespace) => {
+    const payloadDriver = new PayloadDriverMemory(testSchemePayload);
+
+    return makeStore(
+      namespace,
+      makeEntryDriver(namespace, kv, payloadDriver),
+      payloadDriver,
+    );
+  });
+
+  await test.step("Entries at the same path do not collide", async () => {
+    for (let i = 0; i < stores.length; i++) {
+      const res = await stores[i].set({
+        path: [new Uint8Array([1]), new Uint8Array([2])],
+        payload: new Uint8Array([i]),
+        subspace: TestSubspace.Alfie,
+        timestamp: BigInt(100),
+      }, TestSubspace.Alfie);
+
+      assert(res.kind === "success");
+      assertEquals(res.pruned, []);
+    }
+
+    for (let i = 0; i < stores.length; i++) {
+      const entries = await queryAll(stores[i]);
+
+      assertEquals(entries.length, 1);
+      assertEquals(entries[0].entry.namespaceId, namespaces[i]);
+      assertEquals(entries[0].bytes, new Uint8Array([i]));
+    }
+  });
+
+  await test.step("Prefix pruning does not cross namespaces", async () => {
+    const res = await stores[0].set({
+      path: [new Uint8Array([1])],
+      payload: new Uint8Array([7]),
+      subspace: TestSubspace.Alfie,
+      timestamp: BigInt(200),
+    }, TestSubspace.Alfie);
+
+    assert(res.kind === "success");
+    assertEquals(res.pruned.length, 1);
+
+    assertEquals((await queryAll(stores[0])).length, 1);
+    assertEquals((await queryAll(stores[1])).length, 1);
+    assertEquals((await queryAll(stores[2])).length, 1);
+
+    // A newer prefix in one namespace does not make entries obsolete in another.
+    const res2 = await stores[1].set({
+      path: [new Uint8Array([1]), new Uint8Array([3])],
+      payload: new Uint8Array([8]),
+      subspace: TestSubspace.Alfie,
+      timestamp: BigInt(150),
+    }, TestSubspace.Alfie);
+
+    assert(res2.kind === "success");
+    assertEquals((await queryAll(stores[1])).length, 2);
+  });
+
+  await test.step("Keys are all written under namespace prefixes", async () => {
+    for await (const { key } of kv.list({ prefix: [] })) {
+      assertEquals(key[0], "namespace");
+    }
+  });
+
+  kv.close();
+});
+
+Deno.test("EntryDriverKvStore.migrateLegacyKeys", async () => {
+  const namespace = TestNamespace.Gardening;
+
+  const payloadDriver = new PayloadDriverMemory(testSchemePayload);
+  const oldKv = new KvDriverDeno(await Deno.openKv(":memory:"));
+  const store = makeStore(
+    namespace,
+    makeEntryDriver(namespace, oldKv, payloadDriver),
+    payloadDriver,
+  );
+
+  for (let i = 0; i < 8; i++) {
+    await store.set({
+      path: [new Uint8Array([i])],
+      payload: new Uint8Array([i, i]),
+      subspace: TestSubspace.Betty,
+    }, TestSubspace.Betty);
+  }
+
+  // Recreate the layout of a database written before keys were namespaced.
+  const legacyKv = new KvDriverDeno(await Deno.openKv(":memory:"));
+  const prefix = namespaceKeyPrefix(testSchemeNamespace, namespace);
+
+  for await (const { key, value } of oldKv.list({ prefix })) {
+    await legacyKv.set(key.slice(prefix.length), value);
+  }
+
+  const migratingDriver = makeEntryDriver(namespace, legacyKv, payloadDriver);
+  const migrated = await migratingDriver.migrateLegacyKeys();
+
+  assert(migrated > 0);
+
+  for await (const { key } of legacyKv.list({ prefix: [] })) {
+    assertEquals(key[0], "namespace");
+  }
+
+  const migratedStore = makeStore(namespace, migratingDriver, payloadDriver);
+
+  assertEquals(await queryAll(migratedStore), await queryAll(store));
+
+  // Migrating again does nothing.
+  assertEquals(await migratingDriver.migrateLegacyKeys(), 0);
+
+  oldKv.close();
+  legacyKv.close();
+});
+
+Deno.test("EntryDriverKvStore rebuilds summaries of an older format", async () => {
+  const namespace = TestNamespace.Gardening;
+
+  const payloadDriver = new PayloadDriverMemory(testSchemePayload);
+  const kv = new KvDriverInMemory();
+  const store = makeStore(
+    namespace,
+    makeEntryDriver(namespace, kv, payloadDriver),
+    payloadDriver,
+  );
+
+  for (let i = 0; i < 8; i++) {
+    await store.set({
+      path: [new Uint8Array([i])],
+      payload: new Uint8Array([i, i]),
+      subspace: TestSubspace.Betty,
+    }, TestSubspace.Betty);
+  }
+
+  // Recreate the layout of a database written before summaries included payload lengths.
+  const oldKv = new KvDriverInMemory();
+  const prefix = namespaceKeyPrefix(testSchemeNamespace, namespace);
+
+  for await (
+    const { key, value } of kv.list<
+      { summary?: [[Uint8Array, unknown], number] }
+    >({ prefix })
+  ) {
+    const kind = key[prefix.length];
+
+    if (kind === "summaryVersion") {
+      continue;
+    }
+
+    await oldKv.set(
+      key,
+      kind === "entries"
+        ? { ...value, summary: [value.summary![0][0], value.summary![1]] }
+        : value,
+    );
+  }
+
+  const rebuiltStore = makeStore(
+    namespace,
+    makeEntryDriver(namespace, oldKv, payloadDriver),
+    payloadDriver,
+  );
+
+  const range = await store.areaOfInterestToRange({
+    area: fullArea(),
+    maxCount: 0,
+    maxSize: BigInt(0),
+  });
+
+  assertEquals(
+    await rebuiltStore.summarise(range),
+    await store.summarise(range),
+  );
+  assertEquals(
+    await rebuiltStore.stats(fullArea()),
+    await store.stats(fullArea()),
+  );
+  assertEquals(await queryAll(rebuiltStore), await queryAll(store));
+});
+
+Deno.test("EntryDriverKvStore.transaction", async (test) => {
+  class CountingDriver extends KvDriverInMemory {
+    batches = 0;
+
+    override batch(): KvBatch {
+      this.batches += 1;
+
+      return super.batch();
+    }
+  }
+
+  const namespace = TestNamespace.Vibes;
+
+  await test.step("Writes a batch of ingested entries with a single batch", async () => {
+    const sourcePayloadDriver = new PayloadDriverMemory(testSchemePayload);
+    const source = makeStore(
+      namespace,
+      makeEntryDriver(namespace, new KvDriverInMemory(), sourcePayloadDriver),
+      sourcePayloadDriver,
+    );
+
+    const entries = [];
+
+    for (let i = 0; i < 16; i++) {
+      const res = await source.set({
+        path: [new Uint8Array([i])],
+        payload: new Uint8Array([i]),
+        subspace: TestSubspace.Alfie,
+      }, TestSubspace.Alfie);
+
+      assert(res.kind === "success");
+
+      entries.push({ entry: res.entry, authToken: res.authToken });
+    }
+
+    const kv = new CountingDriver();
+    const payloadDriver = new PayloadDriverMemory(testSchemePayload);
+    const store = makeStore(
+      namespace,
+      makeEntryDriver(namespace, kv, payloadDriver),
+      payloadDriver,
+    );
+
+    const results = await store.ingestEntries(entries);
+
+    assert(results.every((result) => result.kind === "success"));
+    assertEquals(kv.batches, 1);
+
+    assertEquals(await queryAll(store), await queryAll(source));
+  });
+
+  await test.step("Writes nothing if the function rejects", async () => {
+    const kv = new KvDriverInMemory();
+    const payloadDriver = new PayloadDriverMemory(testSchemePayload);
+    const entryDriver = makeEntryDriver(namespace, kv, payloadDriver);
+
+    let rejected = false;
+
+    try {
+      await entryDriver.transaction(async () => {
+        await entryDriver.payloadReferenceCounter.increment(new ArrayBuffer(1));
+
+        assertEquals(
+          await entryDriver.payloadReferenceCounter.count(new ArrayBuffer(1)),
+          1,
+        );
+
+        throw new Error("Oops");
+      });
+    } catch {
+      rejected = true;
+    }
+
+    assert(rejected);
+    assertEquals(
+      await entryDriver.payloadReferenceCounter.count(new ArrayBuffer(1)),
+      0,
+    );
+
+    for await (const _ of kv.list({ prefix: [] })) {
+      assert(false, "Nothing should have been written.");
+    }
+  });
+});
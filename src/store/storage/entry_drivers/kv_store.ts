@@ -5,6 +5,7 @@ import {
   type PathScheme,
 } from "@earthstar/willow-utils";
 import { equals as equalsBytes } from "@std/bytes";
+import { WillowError } from "../../../errors.ts";
 import type {
   FingerprintScheme,
   NamespaceScheme,
@@ -12,16 +13,22 @@ import type {
   SubspaceScheme,
 } from "../../types.ts";
 import { PrefixedDriver } from "../kv/prefixed_driver.ts";
-import type { KvDriver } from "../kv/types.ts";
+import { StagingDriver } from "../kv/staging_driver.ts";
+import type { KvDriver, KvKey } from "../kv/types.ts";
 import { SimpleKeyIterator } from "../prefix_iterators/simple_key_iterator.ts";
 import type { PrefixIterator } from "../prefix_iterators/types.ts";
 import { TripleStorage } from "../storage_3d/triple_storage.ts";
 import type { Storage3d } from "../storage_3d/types.ts";
+import { ZOrderStorage } from "../storage_3d/z_order_storage.ts";
+import type { LiftingMonoid } from "../summarisable_storage/lifting_monoid.ts";
 import { Skiplist } from "../summarisable_storage/monoid_skiplist.ts";
+import { AuthTokenDriverKv } from "../auth_token_drivers/kv.ts";
 import type {
+  AuthTokenDriver,
   EntryDriver,
+  JournalStep,
   PayloadReferenceCounter,
-  WriteAheadFlag,
+  WriteAheadJournal,
 } from "../types.ts";
 
 type EntryDriverKvOpts<
@@ -32,6 +39,8 @@ type EntryDriverKvOpts<
   Fingerprint,
 > = {
   kvDriver: KvDriver;
+  /** The namespace whose entries this driver stores. Every key written by this driver is prefixed with this namespace's encoding, so that many namespaces can share the same `KvDriver`. */
+  namespace: NamespaceId;
   namespaceScheme: NamespaceScheme<NamespaceId>;
   subspaceScheme: SubspaceScheme<SubspaceId>;
   payloadScheme: PayloadScheme<PayloadDigest>;
@@ -44,9 +53,34 @@ type EntryDriverKvOpts<
     Fingerprint
   >;
   getPayloadLength: (digest: PayloadDigest) => Promise<bigint>;
+  /** How entries are laid out in the key-value store. `"triple"` keeps three copies of each entry, ordered by subspace, path, and timestamp respectively. `"zOrder"` keeps a single copy of each entry in Z-order. Defaults to `"triple"`, and must not change for an existing store. */
+  layout?: "triple" | "zOrder";
+  /** Where the authorisation tokens of entries are stored. Defaults to storing them with the given `kvDriver`, so that they are written in the same transactions as entries. */
+  authTokenDriver?: AuthTokenDriver<PayloadDigest>;
 };
 
-/** Store and retrieve entries in a key-value store. */
+/** A {@linkcode JournalStep} as written to the key-value store. */
+type EncodedJournalStep = {
+  kind: JournalStep<unknown, unknown, unknown>["kind"];
+  entry?: Uint8Array;
+  digest?: Uint8Array;
+};
+
+/** The top-level key parts of entry drivers which predate namespaced keys. */
+const LEGACY_KEY_PREFIXES = ["entries", "prefix", "waf", "payloadRefCount"];
+
+/** Returns the prefix under which an {@linkcode EntryDriverKvStore} writes all of a given namespace's keys. */
+export function namespaceKeyPrefix<NamespaceId>(
+  namespaceScheme: NamespaceScheme<NamespaceId>,
+  namespace: NamespaceId,
+): KvKey {
+  return ["namespace", namespaceScheme.encode(namespace)];
+}
+
+/** Store and retrieve entries in a key-value store.
+ *
+ * All keys are scoped by the driver's namespace, so drivers for different namespaces can be backed by the same {@linkcode KvDriver}.
+ */
 export class EntryDriverKvStore<
   NamespaceId,
   SubspaceId,
@@ -72,15 +106,24 @@ export class EntryDriverKvStore<
     Fingerprint
   >;
 
-  private kvDriver: KvDriver;
+  private namespace: NamespaceId;
+
+  /** The driver this entry driver was given, without any namespace prefix. */
+  private rootKvDriver: KvDriver;
+  /** A driver scoped to this entry driver's namespace, which stages writes during transactions. */
+  private kvDriver: StagingDriver;
   prefixIterator: PrefixIterator<Uint8Array>;
 
-  private wafDriver: KvDriver;
+  private journalDriver: KvDriver;
 
   private getPayloadLength: (digest: PayloadDigest) => Promise<bigint>;
 
+  private layout: "triple" | "zOrder";
+
   payloadReferenceCounter: PayloadReferenceCounter<PayloadDigest>;
 
+  authTokenDriver: AuthTokenDriver<PayloadDigest>;
+
   constructor(
     opts: EntryDriverKvOpts<
       NamespaceId,
@@ -96,16 +139,31 @@ export class EntryDriverKvStore<
     this.pathScheme = opts.pathScheme;
     this.fingerprintScheme = opts.fingerprintScheme;
 
-    this.kvDriver = opts.kvDriver;
+    this.namespace = opts.namespace;
+
+    this.rootKvDriver = opts.kvDriver;
+    this.kvDriver = new StagingDriver(
+      new PrefixedDriver(
+        namespaceKeyPrefix(opts.namespaceScheme, opts.namespace),
+        opts.kvDriver,
+      ),
+    );
 
     const prefixedKvDriver = new PrefixedDriver(["prefix"], this.kvDriver);
 
-    this.wafDriver = new PrefixedDriver(["waf"], this.kvDriver);
+    this.journalDriver = new PrefixedDriver(["journal"], this.kvDriver);
 
     this.prefixIterator = new SimpleKeyIterator<Uint8Array>(prefixedKvDriver);
 
     this.getPayloadLength = opts.getPayloadLength;
 
+    this.layout = opts.layout ?? "triple";
+
+    this.authTokenDriver = opts.authTokenDriver ?? new AuthTokenDriverKv(
+      new PrefixedDriver(["authToken"], this.kvDriver),
+      opts.payloadScheme,
+    );
+
     const refKvDriver = new PrefixedDriver(["payloadRefCount"], this.kvDriver);
 
     this.payloadReferenceCounter = {
@@ -153,11 +211,17 @@ export class EntryDriverKvStore<
   makeStorage(
     namespace: NamespaceId,
   ): Storage3d<NamespaceId, SubspaceId, PayloadDigest, Prefingerprint> {
-    return new TripleStorage({
+    if (!this.namespaceScheme.isEqual(namespace, this.namespace)) {
+      throw new WillowError(
+        "Tried to make storage for a namespace other than the entry driver's.",
+      );
+    }
+
+    const opts = {
       namespace,
-      createSummarisableStorage: (
-        monoid,
-        id,
+      createSummarisableStorage: <SummaryData>(
+        monoid: LiftingMonoid<[KvKey, Uint8Array], SummaryData>,
+        id: string,
       ) => {
         const prefixedStorageDriver = new PrefixedDriver(
           ["entries", id],
@@ -175,108 +239,174 @@ export class EntryDriverKvStore<
       payloadScheme: this.payloadScheme,
       subspaceScheme: this.subspaceScheme,
       getPayloadLength: this.getPayloadLength,
-    });
+      summaryVersions: new PrefixedDriver(["summaryVersion"], this.kvDriver),
+    };
+
+    return this.layout === "zOrder"
+      ? new ZOrderStorage(opts)
+      : new TripleStorage(opts);
   }
 
-  writeAheadFlag = {
-    wasInserting: async () => {
-      const maybeInsertion = await this.wafDriver.get<Uint8Array>([
-        "waf",
-        "insert",
-      ]);
+  async clear(): Promise<void> {
+    await this.kvDriver.clear();
+    await this.authTokenDriver.clear();
+  }
 
-      if (!maybeInsertion) {
-        return;
-      }
+  /** Stages all writes made by the function, and commits them to the key-value store in a single batch once it resolves. */
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    this.kvDriver.stage();
 
-      const probablyAuthTokenHash = await this.wafDriver.get<Uint8Array>([
-        "waf",
-        "insert",
-        "authTokenHash",
-      ]);
+    let result: T;
 
-      if (!probablyAuthTokenHash) {
-        console.warn(
-          "Write ahead flag: an insertion was detected, but no corresponding auth token was found.",
-        );
+    try {
+      result = await fn();
+    } catch (err) {
+      await this.kvDriver.discard();
+
+      throw err;
+    }
+
+    await this.kvDriver.commit();
+
+    return result;
+  }
 
-        return;
+  /** Move all keys written by a version of this driver which did not scope its keys by namespace into this driver's namespace.
+   *
+   * Only use this with a `KvDriver` which was previously used to store the entries of this driver's namespace and no other. Must be called before a {@linkcode Store} is created with this driver.
+   *
+   * @returns The number of keys which were migrated.
+   */
+  async migrateLegacyKeys(): Promise<number> {
+    const prefix = namespaceKeyPrefix(this.namespaceScheme, this.namespace);
+
+    let migrated = 0;
+
+    for (const legacyPrefix of LEGACY_KEY_PREFIXES) {
+      const batch = this.rootKvDriver.batch();
+
+      for await (
+        const { key, value } of this.rootKvDriver.list({
+          prefix: [legacyPrefix],
+        })
+      ) {
+        batch.set([...prefix, ...key], value);
+        batch.delete(key);
+
+        migrated += 1;
       }
 
-      const entry = decodeEntry({
-        namespaceScheme: this.namespaceScheme,
-        subspaceScheme: this.subspaceScheme,
-        payloadScheme: this.payloadScheme,
-        pathScheme: this.pathScheme,
-      }, maybeInsertion);
+      await batch.commit();
+    }
 
-      const authTokenHash = this.payloadScheme.decode(probablyAuthTokenHash);
+    return migrated;
+  }
 
-      return {
-        entry,
-        authTokenHash,
-      };
-    },
-    wasRemoving: async () => {
-      const maybeRemoval = await this.wafDriver.get<Uint8Array>([
-        "waf",
-        "remove",
-      ]);
-
-      if (!maybeRemoval) {
-        return;
+  writeAheadJournal = {
+    pending: async () => {
+      const steps: JournalStep<NamespaceId, SubspaceId, PayloadDigest>[] = [];
+
+      for await (
+        const { value } of this.journalDriver.list<EncodedJournalStep>({
+          prefix: ["step"],
+        })
+      ) {
+        steps.push(this.decodeJournalStep(value));
       }
 
-      const entry = decodeEntry({
-        namespaceScheme: this.namespaceScheme,
-        subspaceScheme: this.subspaceScheme,
-        payloadScheme: this.payloadScheme,
-        pathScheme: this.pathScheme,
-      }, maybeRemoval);
+      if (steps.length === 0) {
+        return undefined;
+      }
+
+      const committed = await this.journalDriver.get<boolean>(["committed"]);
 
-      return entry;
+      return { steps, committed: committed === true };
     },
-    flagInsertion: async (
-      entry: Entry<NamespaceId, SubspaceId, PayloadDigest>,
-      authTokenHash: PayloadDigest,
+    record: async (
+      steps: JournalStep<NamespaceId, SubspaceId, PayloadDigest>[],
     ) => {
-      const entryEncoded = encodeEntry({
-        encodeNamespace: this.namespaceScheme.encode,
-        encodeSubspace: this.subspaceScheme.encode,
-        pathScheme: this.pathScheme,
-        encodePayload: this.payloadScheme.encode,
-      }, entry);
-
-      const authHashEncoded = this.payloadScheme.encode(authTokenHash);
-
-      await this.wafDriver.set(
-        ["waf", "insert"],
-        entryEncoded,
-      );
+      await this.journalDriver.clear();
 
-      await this.wafDriver.set(
-        ["waf", "insert", "authTokenHash"],
-        authHashEncoded,
-      );
-    },
+      const batch = this.journalDriver.batch();
 
-    flagRemoval: (entry: Entry<NamespaceId, SubspaceId, PayloadDigest>) => {
-      const entryEncoded = encodeEntry({
-        encodeNamespace: this.namespaceScheme.encode,
-        encodeSubspace: this.subspaceScheme.encode,
-        pathScheme: this.pathScheme,
-        encodePayload: this.payloadScheme.encode,
-      }, entry);
+      for (let index = 0; index < steps.length; index++) {
+        batch.set(["step", index], this.encodeJournalStep(steps[index]));
+      }
 
-      return this.wafDriver.set(["waf", "remove"], entryEncoded);
+      await batch.commit();
     },
-
-    unflagInsertion: async () => {
-      await this.wafDriver.delete(["waf", "insert"]);
-      await this.wafDriver.delete(["waf", "insert", "authTokenHash"]);
+    markCommitted: () => {
+      return this.journalDriver.set(["committed"], true);
     },
-    unflagRemoval: async () => {
-      await this.wafDriver.delete(["waf", "remove"]);
+    clear: () => {
+      return this.journalDriver.clear();
     },
-  } as WriteAheadFlag<NamespaceId, SubspaceId, PayloadDigest>;
+  } as WriteAheadJournal<NamespaceId, SubspaceId, PayloadDigest>;
+
+  private encodeJournalStep(
+    step: JournalStep<NamespaceId, SubspaceId, PayloadDigest>,
+  ): EncodedJournalStep {
+    switch (step.kind) {
+      case "insert":
+        return {
+          kind: step.kind,
+          entry: this.encodeJournalEntry(step.entry),
+          digest: this.payloadScheme.encode(step.authTokenHash),
+        };
+      case "remove":
+        return { kind: step.kind, entry: this.encodeJournalEntry(step.entry) };
+      case "erase_auth_token":
+      case "erase_payload":
+        return {
+          kind: step.kind,
+          digest: this.payloadScheme.encode(step.digest),
+        };
+    }
+  }
+
+  private decodeJournalStep(
+    encoded: EncodedJournalStep,
+  ): JournalStep<NamespaceId, SubspaceId, PayloadDigest> {
+    switch (encoded.kind) {
+      case "insert":
+        return {
+          kind: encoded.kind,
+          entry: this.decodeJournalEntry(encoded.entry!),
+          authTokenHash: this.payloadScheme.decode(encoded.digest!),
+        };
+      case "remove":
+        return {
+          kind: encoded.kind,
+          entry: this.decodeJournalEntry(encoded.entry!),
+        };
+      case "erase_auth_token":
+      case "erase_payload":
+        return {
+          kind: encoded.kind,
+          digest: this.payloadScheme.decode(encoded.digest!),
+        };
+    }
+  }
+
+  private encodeJournalEntry(
+    entry: Entry<NamespaceId, SubspaceId, PayloadDigest>,
+  ): Uint8Array {
+    return encodeEntry({
+      encodeNamespace: this.namespaceScheme.encode,
+      encodeSubspace: this.subspaceScheme.encode,
+      pathScheme: this.pathScheme,
+      encodePayload: this.payloadScheme.encode,
+    }, entry);
+  }
+
+  private decodeJournalEntry(
+    encoded: Uint8Array,
+  ): Entry<NamespaceId, SubspaceId, PayloadDigest> {
+    return decodeEntry({
+      namespaceScheme: this.namespaceScheme,
+      subspaceScheme: this.subspaceScheme,
+      payloadScheme: this.payloadScheme,
+      pathScheme: this.pathScheme,
+    }, encoded);
+  }
 }
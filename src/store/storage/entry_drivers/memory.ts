@@ -3,16 +3,15 @@ import type {
   PayloadScheme,
   SubspaceScheme,
 } from "../../types.ts";
-import type { LiftingMonoid } from "../summarisable_storage/lifting_monoid.ts";
 import { KvDriverInMemory } from "../kv/kv_driver_in_memory.ts";
-import type { EntryDriver } from "../types.ts";
+import type { AuthTokenDriver, EntryDriver, JournalStep } from "../types.ts";
 import type { Storage3d } from "../storage_3d/types.ts";
 import { TripleStorage } from "../storage_3d/triple_storage.ts";
 import { RadixTree } from "../prefix_iterators/radix_tree.ts";
-import type { KvKey } from "../kv/types.ts";
 import { LinearStorage } from "../summarisable_storage/linear_summarisable_storage.ts";
-import type { Entry, PathScheme } from "@earthstar/willow-utils";
+import type { PathScheme } from "@earthstar/willow-utils";
 import { encodeBase64 } from "@std/encoding/base64";
+import { AuthTokenDriverMemory } from "../auth_token_drivers/memory.ts";
 
 type EntryDriverMemoryOpts<
   NamespaceId,
@@ -51,28 +50,36 @@ export class EntryDriverMemory<
       Prefingerprint,
       Fingerprint
     >,
-  ) {}
+  ) {
+    this.authTokenDriver = new AuthTokenDriverMemory(opts.payloadScheme);
+  }
 
-  private wafInsert:
-    | [Entry<NamespaceId, SubspaceId, PayloadDigest>, PayloadDigest]
-    | undefined;
-  private wafRemove:
-    | Entry<NamespaceId, SubspaceId, PayloadDigest>
+  authTokenDriver: AuthTokenDriver<PayloadDigest>;
+
+  private journal:
+    | {
+      steps: JournalStep<NamespaceId, SubspaceId, PayloadDigest>[];
+      committed: boolean;
+    }
     | undefined;
 
   private payloadRefCounts = new Map<string, number>();
 
+  private storageKvDrivers: KvDriverInMemory[] = [];
+
   makeStorage(
     namespace: NamespaceId,
   ): Storage3d<NamespaceId, SubspaceId, PayloadDigest, Prefingerprint> {
     return new TripleStorage({
       namespace,
-      createSummarisableStorage: (
-        monoid: LiftingMonoid<[KvKey, Uint8Array], Prefingerprint>,
-      ) => {
+      createSummarisableStorage: (monoid) => {
+        const kv = new KvDriverInMemory();
+
+        this.storageKvDrivers.push(kv);
+
         return new LinearStorage({
           monoid,
-          kv: new KvDriverInMemory(),
+          kv,
         });
       },
       fingerprintScheme: this.opts.fingerprintScheme,
@@ -82,42 +89,45 @@ export class EntryDriverMemory<
       getPayloadLength: this.opts.getPayloadLength,
     });
   }
-  writeAheadFlag = {
-    wasInserting: () => {
-      if (!this.wafInsert) {
-        return Promise.resolve(undefined);
-      }
-
-      const [entry, authTokenHash] = this.wafInsert;
-
-      return Promise.resolve({ entry, authTokenHash });
-    },
-    wasRemoving: () => {
-      return Promise.resolve(this.wafRemove);
+  writeAheadJournal = {
+    pending: () => {
+      return Promise.resolve(this.journal);
     },
-    flagInsertion: (
-      entry: Entry<NamespaceId, SubspaceId, PayloadDigest>,
-      authTokenHash: PayloadDigest,
-    ) => {
-      this.wafInsert = [entry, authTokenHash];
+    record: (steps: JournalStep<NamespaceId, SubspaceId, PayloadDigest>[]) => {
+      this.journal = { steps, committed: false };
 
       return Promise.resolve();
     },
-    flagRemoval: (entry: Entry<NamespaceId, SubspaceId, PayloadDigest>) => {
-      this.wafRemove = entry;
+    markCommitted: () => {
+      if (this.journal) {
+        this.journal.committed = true;
+      }
 
       return Promise.resolve();
     },
-    unflagInsertion: () => {
-      this.wafInsert = undefined;
-      return Promise.resolve();
-    },
-    unflagRemoval: () => {
-      this.wafRemove = undefined;
+    clear: () => {
+      this.journal = undefined;
+
       return Promise.resolve();
     },
   };
   prefixIterator = new RadixTree<Uint8Array>();
+
+  async clear(): Promise<void> {
+    for (const kv of this.storageKvDrivers) {
+      await kv.clear();
+    }
+
+    this.journal = undefined;
+    this.payloadRefCounts.clear();
+    this.prefixIterator = new RadixTree<Uint8Array>();
+    await this.authTokenDriver.clear();
+  }
+
+  /** As nothing is persisted, writes are applied as they are made. */
+  transaction<T>(fn: () => Promise<T>): Promise<T> {
+    return fn();
+  }
   payloadReferenceCounter = {
     count: (digest: PayloadDigest) => {
       const encoded = this.opts.payloadScheme.encode(digest);
@@ -0,0 +1,111 @@
+import { pack } from "./key_codec/kv_key_codec.ts";
+import type { KvBatch, KvDriver, KvKey } from "./types.ts";
+import { decryptBytes, encryptBytes } from "../encryption.ts";
+import { decodeValue, encodeValue } from "./value_codec.ts";
+
+/** Takes an existing {@link KvDriver} and encrypts every value written to it with AES-GCM, using the given [`CryptoKey`](https://developer.mozilla.org/en-US/docs/Web/API/CryptoKey).
+ *
+ * Values are encoded as bytes before being encrypted, so they must be `undefined`, `null`, booleans, numbers, bigints, strings, `Uint8Array`, or arrays and plain objects of these. Each value is bound to its key, so values can't be swapped between keys without being detected.
+ *
+ * Keys are left as they are so that the wrapped driver can still order them, and are **not** encrypted.
+ */
+export class EncryptedKvDriver implements KvDriver {
+  private parentDriver: KvDriver;
+  private key: CryptoKey;
+
+  constructor(driver: KvDriver, key: CryptoKey) {
+    this.parentDriver = driver;
+    this.key = key;
+  }
+
+  private encrypt(key: KvKey, value: unknown): Promise<Uint8Array> {
+    return encryptBytes(this.key, encodeValue(value), pack(key));
+  }
+
+  private async decrypt<Value>(
+    key: KvKey,
+    encrypted: Uint8Array,
+  ): Promise<Value> {
+    return decodeValue(
+      await decryptBytes(this.key, encrypted, pack(key)),
+    ) as Value;
+  }
+
+  async get<Value>(key: KvKey): Promise<Value | undefined> {
+    const encrypted = await this.parentDriver.get<Uint8Array>(key);
+
+    if (encrypted === undefined) {
+      return undefined;
+    }
+
+    return this.decrypt(key, encrypted);
+  }
+
+  async set<Value>(key: KvKey, value: Value): Promise<void> {
+    await this.parentDriver.set(key, await this.encrypt(key, value));
+  }
+
+  delete(key: KvKey): Promise<boolean> {
+    return this.parentDriver.delete(key);
+  }
+
+  async *list<Value>(
+    selector: { start?: KvKey; end?: KvKey; prefix?: KvKey },
+    opts?: {
+      reverse?: boolean;
+      limit?: number;
+      batchSize?: number;
+    },
+  ): AsyncIterable<{ key: KvKey; value: Value }> {
+    for await (
+      const entry of this.parentDriver.list<Uint8Array>(selector, opts)
+    ) {
+      yield {
+        key: entry.key,
+        value: await this.decrypt<Value>(entry.key, entry.value),
+      };
+    }
+  }
+
+  clear(
+    opts?: { prefix?: KvKey; start?: KvKey; end?: KvKey },
+  ): Promise<void> {
+    return this.parentDriver.clear(opts);
+  }
+
+  batch(): KvBatch {
+    // Values can only be encrypted asynchronously, so operations are collected until the batch is committed.
+    const operations: BatchOperation[] = [];
+
+    return {
+      set: <Value>(key: KvKey, value: Value) => {
+        operations.push({ kind: "set", key, value });
+      },
+      delete: (key: KvKey) => {
+        operations.push({ kind: "delete", key });
+      },
+      commit: async () => {
+        const batch = this.parentDriver.batch();
+
+        for (const operation of operations) {
+          if (operation.kind === "set") {
+            batch.set(
+              operation.key,
+              await this.encrypt(operation.key, operation.value),
+            );
+          } else {
+            batch.delete(operation.key);
+          }
+        }
+
+        await batch.commit();
+      },
+    };
+  }
+}
+
+type BatchOperation = {
+  kind: "set";
+  key: KvKey;
+  value: unknown;
+} | { kind: "delete"; key: KvKey };
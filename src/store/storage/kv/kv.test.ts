@@ -12,7 +12,12 @@ import {
 import { KvDriverInMemory } from "./kv_driver_in_memory.ts";
 import { KvDriverDeno } from "./kv_driver_deno.ts";
 import { KvDriverIndexedDB } from "./kv_driver_indexeddb.ts";
-import { assertEquals } from "@std/assert";
+import { KvDriverSqlite } from "./kv_driver_sqlite.ts";
+import { EncryptedKvDriver } from "./encrypted_driver.ts";
+import { KvDriverOpfs } from "./kv_driver_opfs.ts";
+import { appendToShimFile, createOpfsRoot } from "../../../test/opfs_shim.ts";
+import { DatabaseSync } from "node:sqlite";
+import { assert, assertEquals, assertRejects } from "@std/assert";
 import { delay } from "@std/async";
 
 Deno.test("Test control kv store", async (t) => {
@@ -36,6 +41,116 @@ Deno.test("Test IndexedDB kv store", async (t) => {
   await testKvStore(t, store);
 });
 
+Deno.test("Test SQLite kv store", async (t) => {
+  const store = new KvDriverSqlite(new DatabaseSync(":memory:"));
+  await testKvStore(t, store);
+  store.close();
+});
+
+Deno.test("Test encrypted kv store", async (t) => {
+  const store = new EncryptedKvDriver(
+    new KvDriverInMemory(),
+    await crypto.subtle.generateKey(
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"],
+    ),
+  );
+  await testKvStore(t, store);
+});
+
+Deno.test("Encrypted kv store encrypts values", async () => {
+  const generateKey = () =>
+    crypto.subtle.generateKey(
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"],
+    );
+
+  const parent = new KvDriverInMemory();
+  const store = new EncryptedKvDriver(parent, await generateKey());
+
+  await store.set([1, "a"], "secret");
+
+  // Keys are kept as they are, but values are not.
+  const [stored] = await collect(parent.list({ prefix: [] }));
+
+  assertEquals(stored.key, [1, "a"]);
+  assert(stored.value instanceof Uint8Array);
+  assert(!new TextDecoder().decode(stored.value).includes("secret"));
+
+  // Values can't be moved to other keys.
+  await parent.set([2], stored.value);
+  await assertRejects(() => store.get([2]));
+
+  // Or read with another key.
+  const otherStore = new EncryptedKvDriver(parent, await generateKey());
+  await assertRejects(() => otherStore.get([1, "a"]));
+});
+
+Deno.test("Test OPFS kv store", async (t) => {
+  const store = new KvDriverOpfs("test", createOpfsRoot());
+  await testKvStore(t, store);
+  await store.close();
+});
+
+Deno.test("OPFS kv store persists its log", async () => {
+  const root = createOpfsRoot();
+
+  const value = {
+    bytes: new Uint8Array([1, 2, 3]),
+    big: 12345678901234567890n,
+    nested: [null, undefined, true, 1.5, "a"],
+  };
+
+  const store = new KvDriverOpfs("test", root);
+
+  await store.set([1, "a"], value);
+  await store.set([2], "two");
+  await store.set([3], "three");
+  await store.delete([2]);
+  await store.clear({ start: [3] });
+  await store.close();
+
+  // Reopening replays the log.
+  const reopened = new KvDriverOpfs("test", root);
+
+  assertEquals(await collect(reopened.list({ prefix: [] })), [
+    { key: [1, "a"], value },
+  ]);
+
+  // Compacting keeps every entry.
+  await reopened.set([4], 4);
+  await reopened.compact();
+  await reopened.close();
+
+  const compacted = new KvDriverOpfs("test", root);
+
+  assertEquals(await compacted.get([1, "a"]), value);
+  assertEquals(await compacted.get([4]), 4);
+
+  await compacted.close();
+
+  // A write which was interrupted partway through is discarded.
+  const directory = await root.getDirectoryHandle("test");
+
+  for (const name of ["log_0", "log_1"]) {
+    await appendToShimFile(directory, name, new Uint8Array([0, 0, 1, 0, 0]));
+  }
+
+  const interrupted = new KvDriverOpfs("test", root);
+
+  assertEquals(await collect(interrupted.list({ prefix: [] })), [
+    { key: [1, "a"], value },
+    { key: [4], value: 4 },
+  ]);
+
+  await interrupted.set([5], 5);
+  await interrupted.close();
+
+  assertEquals(await new KvDriverOpfs("test", root).get([5]), 5);
+});
+
 async function testKvStore(
   t: Deno.TestContext,
   store: KvDriver,
@@ -855,6 +970,32 @@ Deno.test({
   },
 });
 
+Deno.test({
+  name: "Random Tests SQLite",
+  async fn() {
+    const numKeys = 16;
+    const iterations = 50;
+
+    for (let i = 0; i < iterations; i++) {
+      for (let numOps = 5; numOps < 40; numOps++) {
+        const ops: Operation<number, number>[] = [];
+        for (let opNr = 0; opNr < numOps; opNr++) {
+          ops.push(randomOperation(numKeys));
+        }
+
+        const queries: Query<number>[] = [];
+        for (let summariseNr = 0; summariseNr < 8; summariseNr++) {
+          queries.push(randomQuery(numKeys));
+        }
+
+        const sqliteKv = new KvDriverSqlite(new DatabaseSync(":memory:"));
+        await runTestCase(ops, queries, sqliteKv);
+        sqliteKv.close();
+      }
+    }
+  },
+});
+
 Deno.test({
   name: "Random Tests Deno",
   async fn() {
@@ -187,7 +187,7 @@ export class KvDriverDeno implements KvDriver {
       },
       async commit() {
         await Promise.all([
-          fullBatches.map((batch) => batch.commit()),
+          ...fullBatches.map((batch) => batch.commit()),
           currentAtomicOperation.commit(),
         ]);
       },
@@ -1,15 +1,8 @@
-import {
-  compareKeys,
-  isFirstKeyPrefixOfSecondKey,
-  type KvBatch,
-  type KvDriver,
-  type KvKey,
-} from "./types.ts";
+import type { KvBatch, KvDriver, KvKey } from "./types.ts";
 import { pack, unpack } from "./key_codec/kv_key_codec.ts";
+import { packSelector } from "./packed_selector.ts";
 import { WillowError } from "../../../errors.ts";
 import { FIFO } from "@korkje/fifo";
-import { successorBytesFixedWidth } from "@earthstar/willow-utils";
-import { equals as equalsBytes } from "@std/bytes";
 
 const KV_STORE = "kv";
 const END_LIST = Symbol("end_list");
@@ -269,90 +262,22 @@ class BatchIndexedDB implements KvBatch {
   }
 }
 
-function selectorToIdbBound({ start, end, prefix }: {
+function selectorToIdbBound(selector: {
   start?: KvKey;
   end?: KvKey;
   prefix?: KvKey;
 }): IDBKeyRange | undefined | "notMatchingAnything" {
-  function isPrefixRelevant(prefix?: KvKey): boolean {
-    return prefix !== undefined && prefix.length !== 0;
-  }
+  const range = packSelector(selector);
 
-  if (
-    !isPrefixRelevant(prefix) &&
-    start === undefined && end === undefined
-  ) {
-    // No constraints at all.
-    return undefined;
+  if (range === undefined || range === "notMatchingAnything") {
+    return range;
   }
 
-  if (isPrefixRelevant(prefix)) {
-    // We have a prefix. That complicates things a bit, because IndexDB has no built-in support for working with prefixes.
-
-    // If start is strictly less than the prefix, then use the prefix instead of start. Else, if start is prefixed by the prefix, we can ignore the prefix (for start-purposes, it might still determine the end). Else (start greater than prefix and not prefixed by it), the range will not match anything.
-    let actualStart = prefix;
-    if (start !== undefined) {
-      if (isFirstKeyPrefixOfSecondKey(prefix!, start)) {
-        actualStart = start;
-      } else if (compareKeys(start, prefix!) > 0) {
-        return "notMatchingAnything";
-      }
-    }
-    const actualPackedStart = actualStart === undefined
-      ? undefined
-      : pack(actualStart);
-
-    // For the end, we might need to compute an upper bound from the prefix.
-    // (To simplify the code, we just always compute it, but we might end up not using it).
-    const packedPrefix = pack(prefix!);
-    const exclusiveEndFromPrefix = successorBytesFixedWidth(packedPrefix);
-
-    // Similar reasoning applies to end.
-    let actualPackedEnd = exclusiveEndFromPrefix === null
-      ? undefined
-      : exclusiveEndFromPrefix;
-    if (end !== undefined) {
-      if (isFirstKeyPrefixOfSecondKey(prefix!, end)) {
-        // Can ignore prefix, just use end instead.
-        actualPackedEnd = pack(end);
-      } else if (compareKeys(end, prefix!) < 0) {
-        return "notMatchingAnything";
-        // And else, if end is greater than prefix and but prefix is not a prefix o end, than we use exclusiveEndFromPrefix.
-      }
-    }
-
-    if (
-      actualPackedStart && actualPackedEnd &&
-      equalsBytes(actualPackedStart, actualPackedEnd)
-    ) {
-      return "notMatchingAnything";
-    }
-
-    return IDBKeyRange.bound(
-      actualPackedStart,
-      actualPackedEnd,
-      false,
-      true,
-    );
-  } else {
-    // The simple cases: no prefix to consider.
-    if (
-      start && end === undefined
-    ) {
-      const lowerKey = pack(start);
-      return IDBKeyRange.lowerBound(lowerKey);
-    } else if (
-      start === undefined && end
-    ) {
-      const upperKey = pack(end);
-      return IDBKeyRange.upperBound(upperKey, true);
-    } else if (
-      start && end
-    ) {
-      const lowerKey = pack(start);
-      const upperKey = pack(end);
-
-      return IDBKeyRange.bound(lowerKey, upperKey, false, true);
-    }
+  if (range.start && range.end) {
+    return IDBKeyRange.bound(range.start, range.end, false, true);
+  } else if (range.start) {
+    return IDBKeyRange.lowerBound(range.start);
+  } else if (range.end) {
+    return IDBKeyRange.upperBound(range.end, true);
   }
 }
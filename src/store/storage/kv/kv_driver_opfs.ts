@@ -0,0 +1,413 @@
+import { concat } from "@std/bytes";
+import { WillowError } from "../../../errors.ts";
+import Mutex from "../../mutex.ts";
+import { openSyncAccessHandle, type SyncAccessHandle } from "../opfs.ts";
+import { pack, unpack } from "./key_codec/kv_key_codec.ts";
+import { KvDriverInMemory } from "./kv_driver_in_memory.ts";
+import type { KvBatch, KvDriver, KvKey } from "./types.ts";
+import { decodeValue, encodeValue } from "./value_codec.ts";
+
+// The log is compacted once it is this many bytes long, and more than twice as long as it was after it was last compacted.
+const COMPACTION_THRESHOLD = 1024 * 1024;
+
+type Selector = { prefix?: KvKey; start?: KvKey; end?: KvKey };
+
+type Operation =
+  | { kind: "set"; key: KvKey; value: unknown }
+  | { kind: "delete"; key: KvKey }
+  | { kind: "clear"; selector: Selector };
+
+// The two files the log alternates between each time it is compacted.
+const LOG_FILES = ["log_0", "log_1"];
+
+type LogState = {
+  memory: KvDriverInMemory;
+  logs: SyncAccessHandle[];
+  /** Which of the two log files is current. */
+  current: number;
+  generation: number;
+  size: number;
+  compactedSize: number;
+};
+
+/** Implements {@linkcode KvDriver} with an append-only log in the [Origin Private File System](https://developer.mozilla.org/en-US/docs/Web/API/File_System_API/Origin_private_file_system).
+ *
+ * Every write is appended to the log as a single record, and the log is replayed into memory when the driver is opened. Writes which were interrupted partway through are discarded on replay, so each write (and batch) is atomic.
+ *
+ * Once the log has grown large enough, it is compacted into a snapshot of its entries, written to a second file so that an interrupted compaction loses nothing.
+ *
+ * The log is written with sync access handles, so this driver must be used in a [dedicated worker](https://developer.mozilla.org/en-US/docs/Web/API/Web_Workers_API). Values are encoded with {@linkcode encodeValue}.
+ */
+export class KvDriverOpfs implements KvDriver {
+  private state: Promise<LogState>;
+  private mutex = new Mutex();
+
+  constructor(
+    /** The name of the directory the log is stored in. */
+    name: string,
+    /** The directory the log's directory is created in. Defaults to the root of the origin private file system. */
+    root: FileSystemDirectoryHandle | Promise<FileSystemDirectoryHandle> =
+      navigator.storage.getDirectory(),
+  ) {
+    this.state = Promise.resolve(root).then((root) => open(root, name));
+  }
+
+  /** Close the log files, releasing their locks. */
+  async close(): Promise<void> {
+    const state = await this.state;
+
+    for (const log of state.logs) {
+      log.close();
+    }
+  }
+
+  /** Rewrite the log as a snapshot of its current entries. */
+  compact(): Promise<void> {
+    return this.exclusive(compact);
+  }
+
+  // Run a function with the log, once no other function is writing to it.
+  private async exclusive<T>(fn: (state: LogState) => Promise<T>): Promise<T> {
+    const state = await this.state;
+
+    const acquisitionId = await this.mutex.acquire();
+
+    try {
+      return await fn(state);
+    } finally {
+      this.mutex.release(acquisitionId);
+    }
+  }
+
+  // Append operations to the log, and then apply them.
+  private write(operations: Operation[]): Promise<void> {
+    return this.exclusive((state) => append(state, operations));
+  }
+
+  async get<Value>(key: KvKey): Promise<Value | undefined> {
+    const state = await this.state;
+
+    return state.memory.get<Value>(key);
+  }
+
+  set<Value>(key: KvKey, value: Value): Promise<void> {
+    return this.write([{ kind: "set", key, value }]);
+  }
+
+  delete(key: KvKey): Promise<boolean> {
+    return this.exclusive(async (state) => {
+      if (await state.memory.get(key) === undefined) {
+        return false;
+      }
+
+      await append(state, [{ kind: "delete", key }]);
+
+      return true;
+    });
+  }
+
+  async *list<Value>(
+    selector: { start?: KvKey; end?: KvKey; prefix?: KvKey },
+    opts?: {
+      reverse?: boolean;
+      limit?: number;
+      batchSize?: number;
+    },
+  ): AsyncIterable<{ key: KvKey; value: Value }> {
+    const state = await this.state;
+
+    yield* state.memory.list<Value>(selector, opts);
+  }
+
+  clear(
+    opts?: { prefix?: KvKey; start?: KvKey; end?: KvKey },
+  ): Promise<void> {
+    return this.write([{ kind: "clear", selector: opts ?? {} }]);
+  }
+
+  batch(): KvBatch {
+    const operations: Operation[] = [];
+
+    return {
+      set: <Value>(key: KvKey, value: Value) => {
+        operations.push({ kind: "set", key, value });
+      },
+      delete: (key: KvKey) => {
+        operations.push({ kind: "delete", key });
+      },
+      commit: () => this.write(operations),
+    };
+  }
+}
+
+// Open both log files, and replay the newest complete one into memory.
+async function open(
+  root: FileSystemDirectoryHandle,
+  name: string,
+): Promise<LogState> {
+  const directory = await root.getDirectoryHandle(name, { create: true });
+
+  const logs = [];
+
+  for (const file of LOG_FILES) {
+    logs.push(
+      await openSyncAccessHandle(
+        await directory.getFileHandle(file, { create: true }),
+      ),
+    );
+  }
+
+  const readLogs = logs.map(readLog);
+
+  const current = readLogs[1] &&
+      (!readLogs[0] || readLogs[1].generation > readLogs[0].generation)
+    ? 1
+    : 0;
+
+  const state: LogState = {
+    memory: new KvDriverInMemory(),
+    logs,
+    current,
+    generation: readLogs[current]?.generation ?? 0,
+    size: 0,
+    compactedSize: 0,
+  };
+
+  const read = readLogs[current];
+
+  if (!read) {
+    // Neither log has been written yet (or the first write never finished).
+    await compact(state);
+
+    return state;
+  }
+
+  for (const operations of read.records) {
+    await apply(state.memory, operations);
+  }
+
+  // Discard an interrupted write (if any), and whatever is left of the other log.
+  logs[current].truncate(read.size);
+  logs[current].flush();
+  logs[1 - current].truncate(0);
+  logs[1 - current].flush();
+
+  state.size = read.size;
+  state.compactedSize = read.snapshotSize;
+
+  return state;
+}
+
+// Append operations to the log, and then apply them, compacting the log if it has grown large enough.
+async function append(state: LogState, operations: Operation[]) {
+  const record = encodeRecord(operations);
+  const log = state.logs[state.current];
+
+  log.write(record, { at: state.size });
+  log.flush();
+
+  state.size += record.byteLength;
+
+  await apply(state.memory, operations);
+
+  if (
+    state.size > COMPACTION_THRESHOLD && state.size > state.compactedSize * 2
+  ) {
+    await compact(state);
+  }
+}
+
+// Write a snapshot of all entries to the other log file, and then switch to it.
+async function compact(state: LogState) {
+  const operations: Operation[] = [];
+
+  for await (const { key, value } of state.memory.list({})) {
+    operations.push({ kind: "set", key, value });
+  }
+
+  const generation = state.generation + 1;
+  const next = 1 - state.current;
+
+  const header = new Uint8Array(4);
+  new DataView(header.buffer).setUint32(0, generation);
+
+  const snapshot = concat([header, encodeRecord(operations)]);
+
+  state.logs[next].truncate(0);
+  state.logs[next].write(snapshot, { at: 0 });
+  state.logs[next].flush();
+
+  state.logs[state.current].truncate(0);
+  state.logs[state.current].flush();
+
+  state.current = next;
+  state.generation = generation;
+  state.size = snapshot.byteLength;
+  state.compactedSize = snapshot.byteLength;
+}
+
+async function apply(memory: KvDriverInMemory, operations: Operation[]) {
+  for (const operation of operations) {
+    switch (operation.kind) {
+      case "set":
+        await memory.set(operation.key, operation.value);
+        break;
+      case "delete":
+        await memory.delete(operation.key);
+        break;
+      case "clear":
+        await memory.clear(operation.selector);
+        break;
+    }
+  }
+}
+
+// Read a log file, returning undefined if it doesn't start with a complete snapshot.
+function readLog(log: SyncAccessHandle):
+  | {
+    generation: number;
+    records: Operation[][];
+    size: number;
+    snapshotSize: number;
+  }
+  | undefined {
+  const bytes = new Uint8Array(log.getSize());
+
+  log.read(bytes, { at: 0 });
+
+  if (bytes.byteLength < 4) {
+    return undefined;
+  }
+
+  const view = new DataView(bytes.buffer);
+
+  const generation = view.getUint32(0);
+  const records = [];
+
+  let position = 4;
+  let snapshotSize = 0;
+
+  while (position + 4 <= bytes.byteLength) {
+    const length = view.getUint32(position);
+    const end = position + 4 + length;
+
+    // The rest of the log was never written.
+    if (end > bytes.byteLength) {
+      break;
+    }
+
+    records.push(decodeRecord(bytes.subarray(position + 4, end)));
+
+    position = end;
+
+    if (snapshotSize === 0) {
+      snapshotSize = position;
+    }
+  }
+
+  if (records.length === 0) {
+    return undefined;
+  }
+
+  return { generation, records, size: position, snapshotSize };
+}
+
+function encodeBytes(bytes: Uint8Array): Uint8Array[] {
+  const length = new Uint8Array(4);
+
+  new DataView(length.buffer).setUint32(0, bytes.byteLength);
+
+  return [length, bytes];
+}
+
+// A record is the length of its operations, followed by the operations.
+function encodeRecord(operations: Operation[]): Uint8Array {
+  const parts: Uint8Array[] = [];
+
+  for (const operation of operations) {
+    switch (operation.kind) {
+      case "set":
+        parts.push(
+          new Uint8Array([0]),
+          ...encodeBytes(pack(operation.key)),
+          ...encodeBytes(encodeValue(operation.value)),
+        );
+        break;
+      case "delete":
+        parts.push(new Uint8Array([1]), ...encodeBytes(pack(operation.key)));
+        break;
+      case "clear": {
+        const { prefix, start, end } = operation.selector;
+
+        // Which parts of the selector are present.
+        const flags = (prefix ? 1 : 0) | (start ? 2 : 0) | (end ? 4 : 0);
+
+        parts.push(new Uint8Array([2, flags]));
+
+        for (const key of [prefix, start, end]) {
+          if (key) {
+            parts.push(...encodeBytes(pack(key)));
+          }
+        }
+      }
+    }
+  }
+
+  return concat(encodeBytes(concat(parts)));
+}
+
+function decodeRecord(bytes: Uint8Array): Operation[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const operations: Operation[] = [];
+
+  let position = 0;
+
+  const readBytes = () => {
+    const length = view.getUint32(position);
+    const start = position + 4;
+
+    position = start + length;
+
+    return bytes.subarray(start, start + length);
+  };
+
+  const readKey = () => unpack(readBytes()) as KvKey;
+
+  while (position < bytes.byteLength) {
+    const kind = bytes[position];
+
+    position += 1;
+
+    switch (kind) {
+      case 0:
+        operations.push({
+          kind: "set",
+          key: readKey(),
+          value: decodeValue(readBytes()),
+        });
+        break;
+      case 1:
+        operations.push({ kind: "delete", key: readKey() });
+        break;
+      case 2: {
+        const flags = bytes[position];
+
+        position += 1;
+
+        operations.push({
+          kind: "clear",
+          selector: {
+            prefix: flags & 1 ? readKey() : undefined,
+            start: flags & 2 ? readKey() : undefined,
+            end: flags & 4 ? readKey() : undefined,
+          },
+        });
+        break;
+      }
+      default:
+        throw new WillowError("Could not decode a record of the KV log.");
+    }
+  }
+
+  return operations;
+}
@@ -0,0 +1,234 @@
+import { deserialize, serialize } from "node:v8";
+import { pack, unpack } from "./key_codec/kv_key_codec.ts";
+import { packSelector } from "./packed_selector.ts";
+import type { KvBatch, KvDriver, KvKey } from "./types.ts";
+
+/** A value which can be bound to a parameter of an SQLite statement. */
+type SqliteParam = Uint8Array | number;
+
+/** The parts of a prepared statement's API used by {@linkcode KvDriverSqlite}. */
+export interface SqliteStatement {
+  run(...params: SqliteParam[]): unknown;
+  get(...params: SqliteParam[]): unknown;
+  all(...params: SqliteParam[]): unknown[];
+}
+
+/** The parts of a synchronous SQLite database's API used by {@linkcode KvDriverSqlite}.
+ *
+ * Implemented by `DatabaseSync` from `node:sqlite` (in both Deno and Node), as well as by `Database` from `jsr:@db/sqlite` and `better-sqlite3`.
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteStatement;
+  close(): unknown;
+}
+
+type Row = { key: Uint8Array; value: Uint8Array };
+
+const DEFAULT_BATCH_SIZE = 100;
+
+/** Implements {@linkcode KvDriver} on top of an [SQLite](https://sqlite.org) database.
+ *
+ * Keys are encoded with the same key codec as the IndexedDB driver, so that their byte ordering matches `compareKeys`. Values are serialised with the structured clone algorithm.
+ */
+export class KvDriverSqlite implements KvDriver {
+  private db: SqliteDatabase;
+
+  private getStatement: SqliteStatement;
+  private setStatement: SqliteStatement;
+  private deleteStatement: SqliteStatement;
+
+  constructor(db: SqliteDatabase) {
+    this.db = db;
+
+    this.db.exec(
+      "CREATE TABLE IF NOT EXISTS kv (key BLOB PRIMARY KEY, value BLOB NOT NULL) WITHOUT ROWID",
+    );
+
+    this.getStatement = this.db.prepare("SELECT value FROM kv WHERE key = ?");
+    this.setStatement = this.db.prepare(
+      "INSERT OR REPLACE INTO kv (key, value) VALUES (?, ?)",
+    );
+    this.deleteStatement = this.db.prepare(
+      "DELETE FROM kv WHERE key = ? RETURNING key",
+    );
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  get<Value>(key: KvKey): Promise<Value | undefined> {
+    const row = this.getStatement.get(pack(key)) as
+      | Pick<Row, "value">
+      | undefined;
+
+    return Promise.resolve(
+      row === undefined ? undefined : deserialize(row.value) as Value,
+    );
+  }
+
+  set<Value>(key: KvKey, value: Value): Promise<void> {
+    this.setStatement.run(pack(key), serialize(value));
+
+    return Promise.resolve();
+  }
+
+  delete(key: KvKey): Promise<boolean> {
+    const deleted = this.deleteStatement.all(pack(key));
+
+    return Promise.resolve(deleted.length > 0);
+  }
+
+  async *list<Value>(
+    selector: { start?: KvKey; end?: KvKey; prefix?: KvKey },
+    opts: {
+      reverse?: boolean;
+      limit?: number;
+      batchSize?: number;
+    } = {},
+  ): AsyncIterable<{ key: KvKey; value: Value }> {
+    const range = packSelector(selector);
+
+    if (range === "notMatchingAnything" || opts.limit === 0) {
+      return;
+    }
+
+    const batchSize = opts.batchSize ?? DEFAULT_BATCH_SIZE;
+
+    let lower = range?.start;
+    let lowerInclusive = true;
+    let upper = range?.end;
+
+    let count = 0;
+
+    // Read the range in pages, so that large ranges are never held in memory at once.
+    while (true) {
+      const pageSize = opts.limit === undefined
+        ? batchSize
+        : Math.min(batchSize, opts.limit - count);
+
+      const conditions: string[] = [];
+      const params: SqliteParam[] = [];
+
+      if (lower) {
+        conditions.push(lowerInclusive ? "key >= ?" : "key > ?");
+        params.push(lower);
+      }
+
+      if (upper) {
+        conditions.push("key < ?");
+        params.push(upper);
+      }
+
+      const where = conditions.length > 0
+        ? ` WHERE ${conditions.join(" AND ")}`
+        : "";
+
+      const rows = this.db.prepare(
+        `SELECT key, value FROM kv${where} ORDER BY key ${
+          opts.reverse ? "DESC" : "ASC"
+        } LIMIT ?`,
+      ).all(...params, pageSize) as Row[];
+
+      for (const row of rows) {
+        yield {
+          key: unpack(row.key) as KvKey,
+          value: deserialize(row.value) as Value,
+        };
+      }
+
+      count += rows.length;
+
+      if (
+        rows.length < pageSize ||
+        (opts.limit !== undefined && count >= opts.limit)
+      ) {
+        return;
+      }
+
+      const lastKey = rows[rows.length - 1].key;
+
+      if (opts.reverse) {
+        upper = lastKey;
+      } else {
+        lower = lastKey;
+        lowerInclusive = false;
+      }
+    }
+  }
+
+  clear(
+    opts: { prefix?: KvKey; start?: KvKey; end?: KvKey } = {},
+  ): Promise<void> {
+    const range = packSelector(opts);
+
+    if (range === "notMatchingAnything") {
+      return Promise.resolve();
+    }
+
+    const conditions: string[] = [];
+    const params: SqliteParam[] = [];
+
+    if (range?.start) {
+      conditions.push("key >= ?");
+      params.push(range.start);
+    }
+
+    if (range?.end) {
+      conditions.push("key < ?");
+      params.push(range.end);
+    }
+
+    const where = conditions.length > 0
+      ? ` WHERE ${conditions.join(" AND ")}`
+      : "";
+
+    this.db.prepare(`DELETE FROM kv${where}`).run(...params);
+
+    return Promise.resolve();
+  }
+
+  batch(): KvBatch {
+    const operations: BatchOperation[] = [];
+
+    return {
+      set: <Value>(key: KvKey, value: Value) => {
+        operations.push({ kind: "set", key, value });
+      },
+      delete: (key: KvKey) => {
+        operations.push({ kind: "delete", key });
+      },
+      commit: () => {
+        this.db.exec("BEGIN IMMEDIATE");
+
+        try {
+          for (const operation of operations) {
+            if (operation.kind === "set") {
+              this.setStatement.run(
+                pack(operation.key),
+                serialize(operation.value),
+              );
+            } else {
+              this.deleteStatement.all(pack(operation.key));
+            }
+          }
+
+          this.db.exec("COMMIT");
+        } catch (err) {
+          this.db.exec("ROLLBACK");
+
+          return Promise.reject(err);
+        }
+
+        return Promise.resolve();
+      },
+    };
+  }
+}
+
+type BatchOperation = {
+  kind: "set";
+  key: KvKey;
+  value: unknown;
+} | { kind: "delete"; key: KvKey };
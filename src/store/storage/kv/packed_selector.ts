@@ -0,0 +1,93 @@
+import { successorBytesFixedWidth } from "@earthstar/willow-utils";
+import { equals as equalsBytes } from "@std/bytes";
+import { pack } from "./key_codec/kv_key_codec.ts";
+import {
+  compareKeys,
+  isFirstKeyPrefixOfSecondKey,
+  type KvKey,
+} from "./types.ts";
+
+/** A range of packed keys. `start` is inclusive, `end` is exclusive, and a missing bound is open. */
+export type PackedRange = { start?: Uint8Array; end?: Uint8Array };
+
+/** Converts a {@linkcode KvDriver.list} selector into a range of keys encoded with the key codec, with an inclusive start and exclusive end.
+ *
+ * Returns `undefined` if the selector has no constraints, and `"notMatchingAnything"` if no keys can match it.
+ */
+export function packSelector({ start, end, prefix }: {
+  start?: KvKey;
+  end?: KvKey;
+  prefix?: KvKey;
+}): PackedRange | undefined | "notMatchingAnything" {
+  function isPrefixRelevant(prefix?: KvKey): boolean {
+    return prefix !== undefined && prefix.length !== 0;
+  }
+
+  if (
+    !isPrefixRelevant(prefix) &&
+    start === undefined && end === undefined
+  ) {
+    // No constraints at all.
+    return undefined;
+  }
+
+  if (isPrefixRelevant(prefix)) {
+    // We have a prefix. That complicates things a bit, because IndexDB has no built-in support for working with prefixes.
+
+    // If start is strictly less than the prefix, then use the prefix instead of start. Else, if start is prefixed by the prefix, we can ignore the prefix (for start-purposes, it might still determine the end). Else (start greater than prefix and not prefixed by it), the range will not match anything.
+    let actualStart = prefix;
+    if (start !== undefined) {
+      if (isFirstKeyPrefixOfSecondKey(prefix!, start)) {
+        actualStart = start;
+      } else if (compareKeys(start, prefix!) > 0) {
+        return "notMatchingAnything";
+      }
+    }
+    const actualPackedStart = actualStart === undefined
+      ? undefined
+      : pack(actualStart);
+
+    // For the end, we might need to compute an upper bound from the prefix.
+    // (To simplify the code, we just always compute it, but we might end up not using it).
+    const packedPrefix = pack(prefix!);
+    const exclusiveEndFromPrefix = successorBytesFixedWidth(packedPrefix);
+
+    // Similar reasoning applies to end.
+    let actualPackedEnd = exclusiveEndFromPrefix === null
+      ? undefined
+      : exclusiveEndFromPrefix;
+    if (end !== undefined) {
+      if (isFirstKeyPrefixOfSecondKey(prefix!, end)) {
+        // Can ignore prefix, just use end instead.
+        actualPackedEnd = pack(end);
+      } else if (compareKeys(end, prefix!) < 0) {
+        return "notMatchingAnything";
+        // And else, if end is greater than prefix and but prefix is not a prefix o end, than we use exclusiveEndFromPrefix.
+      }
+    }
+
+    if (
+      actualPackedStart && actualPackedEnd &&
+      equalsBytes(actualPackedStart, actualPackedEnd)
+    ) {
+      return "notMatchingAnything";
+    }
+
+    return { start: actualPackedStart, end: actualPackedEnd };
+  } else {
+    // The simple cases: no prefix to consider.
+    if (
+      start && end === undefined
+    ) {
+      return { start: pack(start) };
+    } else if (
+      start === undefined && end
+    ) {
+      return { end: pack(end) };
+    } else if (
+      start && end
+    ) {
+      return { start: pack(start), end: pack(end) };
+    }
+  }
+}
@@ -0,0 +1,221 @@
+import { KvDriverInMemory } from "./kv_driver_in_memory.ts";
+import { compareKeys } from "./types.ts";
+import type { KvBatch, KvDriver, KvKey } from "./types.ts";
+
+/** A staged write: either a new value for a key, or its deletion. */
+type StagedValue = { deleted: false; value: unknown } | { deleted: true };
+
+/** Takes an existing {@link KvDriver} and, while staging, keeps all write operations in memory instead of passing them on. Reads take staged writes into account.
+ *
+ * Staged writes are written to the existing driver with a single {@linkcode KvBatch} when committed, or dropped when discarded.
+ */
+export class StagingDriver implements KvDriver {
+  private parentDriver: KvDriver;
+  private staged = new KvDriverInMemory();
+  private isStaging = false;
+
+  constructor(driver: KvDriver) {
+    this.parentDriver = driver;
+  }
+
+  /** Begin keeping writes in memory. Throws if already staging. */
+  stage() {
+    if (this.isStaging) {
+      throw new Error("Already staging writes.");
+    }
+
+    this.isStaging = true;
+  }
+
+  /** Write all staged writes to the underlying driver with a single batch, and stop staging. */
+  async commit(): Promise<void> {
+    const batch = this.parentDriver.batch();
+
+    for await (
+      const { key, value } of this.staged.list<StagedValue>({})
+    ) {
+      if (value.deleted) {
+        batch.delete(key);
+      } else {
+        batch.set(key, value.value);
+      }
+    }
+
+    await batch.commit();
+
+    await this.staged.clear();
+    this.isStaging = false;
+  }
+
+  /** Drop all staged writes, and stop staging. */
+  async discard(): Promise<void> {
+    await this.staged.clear();
+    this.isStaging = false;
+  }
+
+  async get<Value>(key: KvKey): Promise<Value | undefined> {
+    if (this.isStaging) {
+      const staged = await this.staged.get<StagedValue>(key);
+
+      if (staged) {
+        return staged.deleted ? undefined : staged.value as Value;
+      }
+    }
+
+    return this.parentDriver.get(key);
+  }
+
+  set<Value>(key: KvKey, value: Value): Promise<void> {
+    if (this.isStaging) {
+      return this.staged.set<StagedValue>(key, { deleted: false, value });
+    }
+
+    return this.parentDriver.set(key, value);
+  }
+
+  async delete(key: KvKey): Promise<boolean> {
+    if (this.isStaging) {
+      const existed = await this.get(key) !== undefined;
+
+      await this.staged.set<StagedValue>(key, { deleted: true });
+
+      return existed;
+    }
+
+    return this.parentDriver.delete(key);
+  }
+
+  async *list<Value>(
+    selector: { start?: KvKey; end?: KvKey; prefix?: KvKey },
+    opts?: {
+      reverse?: boolean;
+      limit?: number;
+      batchSize?: number;
+    },
+  ): AsyncIterable<{ key: KvKey; value: Value }> {
+    if (!this.isStaging) {
+      yield* this.parentDriver.list<Value>(selector, opts);
+      return;
+    }
+
+    const reverse = opts?.reverse ?? false;
+    const limit = opts?.limit;
+
+    if (limit === 0) {
+      return;
+    }
+
+    // Merge the staged writes into the parent's entries, with staged writes taking precedence.
+    const parent = this.parentDriver.list<Value>(selector, {
+      reverse,
+      batchSize: opts?.batchSize,
+    })[Symbol.asyncIterator]();
+    const staged = this.staged.list<StagedValue>(selector, { reverse })
+      [Symbol.asyncIterator]();
+
+    let nextParent = await parent.next();
+    let nextStaged = await staged.next();
+
+    let count = 0;
+
+    while (!nextParent.done || !nextStaged.done) {
+      let order: number;
+
+      if (nextParent.done) {
+        order = 1;
+      } else if (nextStaged.done) {
+        order = -1;
+      } else {
+        order = compareKeys(nextParent.value.key, nextStaged.value.key);
+
+        if (reverse) {
+          order = -order;
+        }
+      }
+
+      if (order < 0) {
+        // Only the parent has this key.
+        const item = nextParent.value as { key: KvKey; value: Value };
+        nextParent = await parent.next();
+
+        yield item;
+      } else {
+        // The staged write shadows the parent's entry, if there is one.
+        const { key, value } = nextStaged.value as {
+          key: KvKey;
+          value: StagedValue;
+        };
+
+        if (order === 0) {
+          nextParent = await parent.next();
+        }
+
+        nextStaged = await staged.next();
+
+        if (value.deleted) {
+          continue;
+        }
+
+        yield { key, value: value.value as Value };
+      }
+
+      count += 1;
+
+      if (limit !== undefined && count >= limit) {
+        return;
+      }
+    }
+  }
+
+  async clear(
+    opts?: { prefix?: KvKey; start?: KvKey; end?: KvKey },
+  ): Promise<void> {
+    if (!this.isStaging) {
+      return this.parentDriver.clear(opts);
+    }
+
+    const keys: KvKey[] = [];
+
+    for await (const { key } of this.list(opts || {})) {
+      keys.push(key);
+    }
+
+    for (const key of keys) {
+      await this.staged.set<StagedValue>(key, { deleted: true });
+    }
+  }
+
+  batch(): KvBatch {
+    const operations: { key: KvKey; value: StagedValue }[] = [];
+
+    return {
+      set: <Value>(key: KvKey, value: Value) => {
+        operations.push({ key, value: { deleted: false, value } });
+      },
+      delete: (key: KvKey) => {
+        operations.push({ key, value: { deleted: true } });
+      },
+      commit: async () => {
+        if (this.isStaging) {
+          for (const { key, value } of operations) {
+            await this.staged.set(key, value);
+          }
+
+          return;
+        }
+
+        const batch = this.parentDriver.batch();
+
+        for (const { key, value } of operations) {
+          if (value.deleted) {
+            batch.delete(key);
+          } else {
+            batch.set(key, value.value);
+          }
+        }
+
+        await batch.commit();
+      },
+    };
+  }
+}
@@ -0,0 +1,181 @@
+import { concat } from "@std/bytes";
+import { WillowError } from "../../../errors.ts";
+
+// Each encoded value starts with one of these tags.
+enum Tag {
+  Undefined,
+  Null,
+  False,
+  True,
+  Number,
+  BigInt,
+  String,
+  Bytes,
+  Array,
+  Object,
+}
+
+/** Encode a value as bytes, for drivers which can only store bytes.
+ *
+ * Supports `undefined`, `null`, booleans, numbers, bigints, strings, `Uint8Array`, and arrays and plain objects of these.
+ */
+export function encodeValue(value: unknown): Uint8Array {
+  const parts: Uint8Array[] = [];
+
+  encodeInto(value, parts);
+
+  return concat(parts);
+}
+
+/** Decode a value encoded with {@linkcode encodeValue}. */
+export function decodeValue(bytes: Uint8Array): unknown {
+  const [value] = decodeFrom(bytes, 0);
+
+  return value;
+}
+
+function encodeLength(length: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+
+  new DataView(bytes.buffer).setUint32(0, length);
+
+  return bytes;
+}
+
+function encodeString(string: string, parts: Uint8Array[]) {
+  const encoded = new TextEncoder().encode(string);
+
+  parts.push(encodeLength(encoded.byteLength), encoded);
+}
+
+function encodeInto(value: unknown, parts: Uint8Array[]) {
+  if (value === undefined) {
+    parts.push(new Uint8Array([Tag.Undefined]));
+  } else if (value === null) {
+    parts.push(new Uint8Array([Tag.Null]));
+  } else if (typeof value === "boolean") {
+    parts.push(new Uint8Array([value ? Tag.True : Tag.False]));
+  } else if (typeof value === "number") {
+    const bytes = new Uint8Array(9);
+
+    bytes[0] = Tag.Number;
+    new DataView(bytes.buffer).setFloat64(1, value);
+
+    parts.push(bytes);
+  } else if (typeof value === "bigint") {
+    parts.push(new Uint8Array([Tag.BigInt]));
+    encodeString(value.toString(), parts);
+  } else if (typeof value === "string") {
+    parts.push(new Uint8Array([Tag.String]));
+    encodeString(value, parts);
+  } else if (value instanceof Uint8Array) {
+    parts.push(
+      new Uint8Array([Tag.Bytes]),
+      encodeLength(value.byteLength),
+      value.slice(),
+    );
+  } else if (Array.isArray(value)) {
+    parts.push(new Uint8Array([Tag.Array]), encodeLength(value.length));
+
+    for (const item of value) {
+      encodeInto(item, parts);
+    }
+  } else if (
+    typeof value === "object" &&
+    Object.getPrototypeOf(value) === Object.prototype
+  ) {
+    const entries = Object.entries(value);
+
+    parts.push(new Uint8Array([Tag.Object]), encodeLength(entries.length));
+
+    for (const [key, item] of entries) {
+      encodeString(key, parts);
+      encodeInto(item, parts);
+    }
+  } else {
+    throw new WillowError(`Can't encode a value of type ${typeof value}.`);
+  }
+}
+
+function decodeLength(bytes: Uint8Array, position: number): number {
+  return new DataView(bytes.buffer, bytes.byteOffset + position, 4)
+    .getUint32(0);
+}
+
+function decodeString(bytes: Uint8Array, position: number): [string, number] {
+  const length = decodeLength(bytes, position);
+  const start = position + 4;
+
+  return [
+    new TextDecoder().decode(bytes.subarray(start, start + length)),
+    start + length,
+  ];
+}
+
+// Decode the value at a position, returning it along with the position after it.
+function decodeFrom(bytes: Uint8Array, position: number): [unknown, number] {
+  const tag = bytes[position];
+  const next = position + 1;
+
+  switch (tag) {
+    case Tag.Undefined:
+      return [undefined, next];
+    case Tag.Null:
+      return [null, next];
+    case Tag.False:
+      return [false, next];
+    case Tag.True:
+      return [true, next];
+    case Tag.Number:
+      return [
+        new DataView(bytes.buffer, bytes.byteOffset + next, 8).getFloat64(0),
+        next + 8,
+      ];
+    case Tag.BigInt: {
+      const [string, end] = decodeString(bytes, next);
+
+      return [BigInt(string), end];
+    }
+    case Tag.String:
+      return decodeString(bytes, next);
+    case Tag.Bytes: {
+      const length = decodeLength(bytes, next);
+      const start = next + 4;
+
+      return [bytes.slice(start, start + length), start + length];
+    }
+    case Tag.Array: {
+      const length = decodeLength(bytes, next);
+      const array = [];
+
+      let end = next + 4;
+
+      for (let i = 0; i < length; i++) {
+        const [item, itemEnd] = decodeFrom(bytes, end);
+
+        array.push(item);
+        end = itemEnd;
+      }
+
+      return [array, end];
+    }
+    case Tag.Object: {
+      const length = decodeLength(bytes, next);
+      const object: Record<string, unknown> = {};
+
+      let end = next + 4;
+
+      for (let i = 0; i < length; i++) {
+        const [key, keyEnd] = decodeString(bytes, end);
+        const [item, itemEnd] = decodeFrom(bytes, keyEnd);
+
+        object[key] = item;
+        end = itemEnd;
+      }
+
+      return [object, end];
+    }
+    default:
+      throw new WillowError("Could not decode a stored value.");
+  }
+}
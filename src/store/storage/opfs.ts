@@ -0,0 +1,96 @@
+/** A [`FileSystemSyncAccessHandle`](https://developer.mozilla.org/en-US/docs/Web/API/FileSystemSyncAccessHandle), which is missing from the DOM type definitions as it is only available in dedicated workers. */
+export type SyncAccessHandle = {
+  read(buffer: Uint8Array, opts?: { at?: number }): number;
+  write(buffer: Uint8Array, opts?: { at?: number }): number;
+  truncate(size: number): void;
+  getSize(): number;
+  flush(): void;
+  close(): void;
+};
+
+/** A {@linkcode FileSystemFileHandle} with the methods missing from the DOM type definitions. */
+type OpfsFileHandle = FileSystemFileHandle & {
+  createSyncAccessHandle(): Promise<SyncAccessHandle>;
+  /** Not available in every browser. */
+  move?(destination: FileSystemDirectoryHandle, name: string): Promise<void>;
+};
+
+/** Open a sync access handle for a file in the [Origin Private File System](https://developer.mozilla.org/en-US/docs/Web/API/File_System_API/Origin_private_file_system). Only possible in dedicated workers.
+ *
+ * The handle locks the file until it is closed.
+ */
+export function openSyncAccessHandle(
+  handle: FileSystemFileHandle,
+): Promise<SyncAccessHandle> {
+  return (handle as OpfsFileHandle).createSyncAccessHandle();
+}
+
+/** Write some bytes to a file from an offset onwards, truncating the file at the offset first. Returns the length of the file afterwards. */
+export async function writeToFile(
+  handle: FileSystemFileHandle,
+  bytes: Uint8Array | AsyncIterable<Uint8Array>,
+  offset: number,
+  /** Stop writing once the file is at least this long. */
+  maxLength = Infinity,
+): Promise<number> {
+  const access = await openSyncAccessHandle(handle);
+
+  try {
+    access.truncate(offset);
+
+    let position = offset;
+
+    for await (
+      const chunk of bytes instanceof Uint8Array ? [bytes] : bytes
+    ) {
+      position += access.write(chunk, { at: position });
+
+      if (position >= maxLength) {
+        break;
+      }
+    }
+
+    access.flush();
+
+    return position;
+  } finally {
+    access.close();
+  }
+}
+
+/** Move a file to another directory (or rename it), replacing any file already there.
+ *
+ * Browsers which can't move files have the file copied instead.
+ */
+export async function moveFile(
+  handle: FileSystemFileHandle,
+  from: FileSystemDirectoryHandle,
+  to: FileSystemDirectoryHandle,
+  name: string,
+): Promise<void> {
+  const movable = handle as OpfsFileHandle;
+
+  if (movable.move) {
+    await movable.move(to, name);
+
+    return;
+  }
+
+  const copy = await to.getFileHandle(name, { create: true });
+
+  await writeToFile(copy, (await handle.getFile()).stream(), 0);
+
+  await from.removeEntry(handle.name);
+}
+
+/** Get a file's handle, or `undefined` if it doesn't exist. */
+export async function getFileHandle(
+  directory: FileSystemDirectoryHandle,
+  name: string,
+): Promise<FileSystemFileHandle | undefined> {
+  try {
+    return await directory.getFileHandle(name);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,561 @@
+import { encodeBase64 } from "@std/encoding/base64";
+import { ValidationError, WillowError } from "../../../errors.ts";
+import type { Payload, PayloadScheme, PayloadVerifier } from "../../types.ts";
+import type { KvDriver, KvKey } from "../kv/types.ts";
+import Mutex from "../../mutex.ts";
+import type { PayloadDriver } from "../types.ts";
+import { chunkContent, type ChunkerOpts } from "./chunker.ts";
+import { collectUint8Arrays, verifyChunks } from "./util.ts";
+
+type PayloadDriverChunkedOpts<PayloadDigest> = {
+  /** The driver chunks, and the lists of chunks making up each payload, are stored with. */
+  kvDriver: KvDriver;
+  payloadScheme: PayloadScheme<PayloadDigest>;
+  /** Where payloads are cut into chunks. Must not change for existing payloads to share chunks with new ones. */
+  chunker?: ChunkerOpts;
+};
+
+/** How much space a {@linkcode PayloadDriverChunked} saves by storing the chunks shared between payloads only once. */
+export type DeduplicationStats = {
+  /** The total length of all held complete and partial payloads. */
+  payloadBytes: bigint;
+  /** The total length of all stored chunks. */
+  storedBytes: bigint;
+  /** How many fewer bytes are stored than if every payload was stored in full. */
+  savedBytes: bigint;
+};
+
+/** A chunk of a payload, as listed by the payload's start offset of the chunk. */
+type ChunkRef = { chunk: Uint8Array; length: number };
+
+/** Whether a list of chunks makes up a complete or partial payload. */
+type PayloadKind = "payload" | "partial";
+
+/** A list of chunks to write for a payload, or `undefined` to erase the payload's list. */
+type ChunkListUpdate = {
+  kind: PayloadKind;
+  key: Uint8Array;
+  list?: { chunks: ({ start: number } & ChunkRef)[]; length: number };
+};
+
+const CHUNK_LIST_PREFIXES: Record<PayloadKind, string> = {
+  payload: "payloadChunks",
+  partial: "partialChunks",
+};
+
+/** Splits payloads into content-defined chunks, and stores every distinct chunk once with a {@linkcode KvDriver}.
+ *
+ * Payloads which share content, such as different versions of the same document, share the chunks of that content. Each chunk is erased once no payload is made of it.
+ */
+export class PayloadDriverChunked<PayloadDigest>
+  implements PayloadDriver<PayloadDigest> {
+  private kvDriver: KvDriver;
+  private payloadScheme: PayloadScheme<PayloadDigest>;
+  private chunkerOpts: ChunkerOpts;
+
+  // Chunks written by payloads which are not yet committed or rejected, by the number of those payloads.
+  private pendingChunks = new Map<string, number>();
+
+  // Held while chunks, their reference counts, and the pending chunks are read and then written, so that concurrent writes don't lose each other's changes.
+  private chunksMutex = new Mutex();
+
+  constructor(opts: PayloadDriverChunkedOpts<PayloadDigest>) {
+    this.kvDriver = opts.kvDriver;
+    this.payloadScheme = opts.payloadScheme;
+    this.chunkerOpts = opts.chunker ?? {};
+  }
+
+  private getKey(payloadHash: PayloadDigest) {
+    return this.payloadScheme.encode(payloadHash);
+  }
+
+  private async withChunksLocked<T>(fn: () => Promise<T>): Promise<T> {
+    const acquisitionId = await this.chunksMutex.acquire();
+
+    try {
+      return await fn();
+    } finally {
+      this.chunksMutex.release(acquisitionId);
+    }
+  }
+
+  // Keep a chunk until the payload staging it is committed or rejected, even if no stored payload is made of it.
+  // Must be called with the chunks locked.
+  private keepPendingChunk(chunk: Uint8Array, staged: Uint8Array[]) {
+    const pendingKey = encodeBase64(chunk);
+
+    this.pendingChunks.set(
+      pendingKey,
+      (this.pendingChunks.get(pendingKey) ?? 0) + 1,
+    );
+
+    staged.push(chunk);
+  }
+
+  private getPayload(
+    kind: PayloadKind,
+    key: Uint8Array,
+    length: number,
+  ): Payload {
+    return {
+      bytes: (offset) =>
+        collectUint8Arrays(this.readChunks(kind, key, offset ?? 0)),
+      stream: (offset) =>
+        Promise.resolve(this.readChunks(kind, key, offset ?? 0)),
+      length: () => Promise.resolve(BigInt(length)),
+    };
+  }
+
+  // Yield the bytes of a payload from an offset onwards, chunk by chunk.
+  private async *readChunks(
+    kind: PayloadKind,
+    key: Uint8Array,
+    offset: number,
+  ): AsyncIterable<Uint8Array> {
+    const prefix = [CHUNK_LIST_PREFIXES[kind], key];
+
+    // The chunk which includes the offset is the last one starting at or before it.
+    let start: KvKey = prefix;
+
+    for await (
+      const { key: chunkKey } of this.kvDriver.list({
+        prefix,
+        end: [...prefix, offset + 1],
+      }, { reverse: true, limit: 1 })
+    ) {
+      start = chunkKey;
+    }
+
+    for await (
+      const { key: chunkKey, value } of this.kvDriver.list<ChunkRef>({
+        prefix,
+        start,
+      })
+    ) {
+      const chunkStart = chunkKey[2] as number;
+
+      const bytes = await this.kvDriver.get<Uint8Array>(["chunk", value.chunk]);
+
+      if (!bytes) {
+        throw new WillowError("Could not find a chunk of a stored payload.");
+      }
+
+      yield chunkStart < offset ? bytes.subarray(offset - chunkStart) : bytes;
+    }
+  }
+
+  // List the chunks a payload is made of, by their start offset.
+  private async listChunks(
+    kind: PayloadKind,
+    key: Uint8Array,
+  ): Promise<({ start: number } & ChunkRef)[]> {
+    const chunks = [];
+
+    for await (
+      const { key: chunkKey, value } of this.kvDriver.list<ChunkRef>({
+        prefix: [CHUNK_LIST_PREFIXES[kind], key],
+      })
+    ) {
+      chunks.push({ start: chunkKey[2] as number, ...value });
+    }
+
+    return chunks;
+  }
+
+  // Store the chunks of some content, yielding each of them once stored so that the payload's digest can be computed at the same time.
+  // The chunks are kept until the payload is committed or rejected, even if no stored payload is made of them.
+  private async *stageChunks(
+    content: AsyncIterable<Uint8Array>,
+    start: number,
+    chunks: ({ start: number } & ChunkRef)[],
+    staged: Uint8Array[],
+  ): AsyncIterable<Uint8Array> {
+    let offset = start;
+
+    for await (const bytes of chunkContent(content, this.chunkerOpts)) {
+      const chunk = this.payloadScheme.encode(
+        await this.payloadScheme.fromBytes(bytes),
+      );
+
+      await this.withChunksLocked(async () => {
+        this.keepPendingChunk(chunk, staged);
+
+        if (await this.kvDriver.get(["chunk", chunk]) === undefined) {
+          await this.kvDriver.set(["chunk", chunk], bytes);
+        }
+      });
+
+      chunks.push({ start: offset, chunk, length: bytes.byteLength });
+
+      offset += bytes.byteLength;
+
+      yield bytes;
+    }
+  }
+
+  // Stop keeping staged chunks, erasing those no stored payload is made of.
+  private releaseChunks(staged: Uint8Array[]) {
+    return this.withChunksLocked(async () => {
+      for (const chunk of staged) {
+        const pendingKey = encodeBase64(chunk);
+        const pending = (this.pendingChunks.get(pendingKey) ?? 1) - 1;
+
+        if (pending > 0) {
+          this.pendingChunks.set(pendingKey, pending);
+
+          continue;
+        }
+
+        this.pendingChunks.delete(pendingKey);
+
+        if (!(await this.kvDriver.get<number>(["chunkRefs", chunk]))) {
+          await this.kvDriver.delete(["chunk", chunk]);
+        }
+      }
+    });
+  }
+
+  // Replace (or erase) the lists of chunks of some payloads, returning whether each payload had a list before.
+  // The lists and the reference counts of their chunks are all written in a single batch. Chunks which no payload is made of any more (and which aren't being staged) are erased in the same batch.
+  private writeChunkLists(updates: ChunkListUpdate[]): Promise<boolean[]> {
+    return this.withChunksLocked(async () => {
+      const batch = this.kvDriver.batch();
+
+      // How much the reference count of each chunk changes.
+      const changes = new Map<string, { chunk: Uint8Array; change: number }>();
+
+      const changeCount = (chunk: Uint8Array, change: number) => {
+        const changeKey = encodeBase64(chunk);
+        const existing = changes.get(changeKey);
+
+        changes.set(changeKey, {
+          chunk,
+          change: (existing?.change ?? 0) + change,
+        });
+      };
+
+      const existed: boolean[] = [];
+
+      for (const { kind, key, list } of updates) {
+        existed.push(await this.kvDriver.get([kind, key]) !== undefined);
+
+        const starts = new Set(list?.chunks.map(({ start }) => start));
+
+        for (const { start, chunk } of await this.listChunks(kind, key)) {
+          changeCount(chunk, -1);
+
+          if (!starts.has(start)) {
+            batch.delete([CHUNK_LIST_PREFIXES[kind], key, start]);
+          }
+        }
+
+        if (!list) {
+          batch.delete([kind, key]);
+
+          continue;
+        }
+
+        for (const { start, chunk, length } of list.chunks) {
+          changeCount(chunk, 1);
+
+          batch.set<ChunkRef>([CHUNK_LIST_PREFIXES[kind], key, start], {
+            chunk,
+            length,
+          });
+        }
+
+        batch.set([kind, key], list.length);
+      }
+
+      for (const [changeKey, { chunk, change }] of changes) {
+        if (change === 0) {
+          continue;
+        }
+
+        const count =
+          (await this.kvDriver.get<number>(["chunkRefs", chunk]) ?? 0) +
+          change;
+
+        if (count > 0) {
+          batch.set(["chunkRefs", chunk], count);
+
+          continue;
+        }
+
+        batch.delete(["chunkRefs", chunk]);
+
+        if (!this.pendingChunks.has(changeKey)) {
+          batch.delete(["chunk", chunk]);
+        }
+      }
+
+      await batch.commit();
+
+      return existed;
+    });
+  }
+
+  async get(
+    payloadHash: PayloadDigest,
+  ): Promise<Payload | undefined> {
+    const key = this.getKey(payloadHash);
+
+    const length = await this.kvDriver.get<number>(["payload", key]);
+
+    if (length === undefined) {
+      return undefined;
+    }
+
+    return this.getPayload("payload", key, length);
+  }
+
+  async erase(payloadHash: PayloadDigest): Promise<true | ValidationError> {
+    const [existed] = await this.writeChunkLists([
+      { kind: "payload", key: this.getKey(payloadHash) },
+    ]);
+
+    if (existed) {
+      return true;
+    }
+
+    return new ValidationError("No payload with that digest found.");
+  }
+
+  async *digests(): AsyncIterable<PayloadDigest> {
+    for await (const { key } of this.kvDriver.list({ prefix: ["payload"] })) {
+      yield this.payloadScheme.decode(key[1] as Uint8Array);
+    }
+  }
+
+  async *partials(): AsyncIterable<{ digest: PayloadDigest; length: bigint }> {
+    for await (
+      const { key, value } of this.kvDriver.list<number>({
+        prefix: ["partial"],
+      })
+    ) {
+      yield {
+        digest: this.payloadScheme.decode(key[1] as Uint8Array),
+        length: BigInt(value),
+      };
+    }
+  }
+
+  async erasePartial(
+    digest: PayloadDigest,
+  ): Promise<true | ValidationError> {
+    const [existed] = await this.writeChunkLists([
+      { kind: "partial", key: this.getKey(digest) },
+    ]);
+
+    if (existed) {
+      return true;
+    }
+
+    return new ValidationError("No partial payload with that digest found.");
+  }
+
+  async length(payloadHash: PayloadDigest): Promise<bigint> {
+    const length = await this.kvDriver.get<number>([
+      "payload",
+      this.getKey(payloadHash),
+    ]);
+
+    return BigInt(length ?? 0);
+  }
+
+  async set(
+    payload: Uint8Array | AsyncIterable<Uint8Array>,
+  ): Promise<{ digest: PayloadDigest; length: bigint; payload: Payload }> {
+    const chunks: ({ start: number } & ChunkRef)[] = [];
+    const staged: Uint8Array[] = [];
+
+    try {
+      const digest = await this.payloadScheme.fromBytes(
+        this.stageChunks(withPrefix([], payload), 0, chunks, staged),
+      );
+
+      const key = this.getKey(digest);
+      const length = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+
+      await this.writeChunkLists([
+        { kind: "payload", key, list: { chunks, length } },
+      ]);
+
+      return {
+        digest,
+        length: BigInt(length),
+        payload: this.getPayload("payload", key, length),
+      };
+    } finally {
+      await this.releaseChunks(staged);
+    }
+  }
+
+  async receive(
+    opts: {
+      payload: AsyncIterable<Uint8Array> | Uint8Array;
+      offset: number;
+      expectedLength: bigint;
+      expectedDigest: PayloadDigest;
+      verifier?: PayloadVerifier;
+    },
+  ): Promise<
+    {
+      digest: PayloadDigest;
+      length: bigint;
+      failedVerification: boolean;
+      commit: (isCompletePayload: boolean) => Promise<void>;
+      reject: () => Promise<void>;
+    }
+  > {
+    const key = this.getKey(opts.expectedDigest);
+
+    // The chunks of the partial payload which are kept as they are.
+    const kept: ({ start: number } & ChunkRef)[] = [];
+    const keptBytes: Uint8Array[] = [];
+
+    // The bytes of the partial payload which are chunked again, along with the received bytes.
+    let carried = new Uint8Array();
+
+    const staged: Uint8Array[] = [];
+
+    if (opts.offset > 0) {
+      // A partial payload's last chunk was cut where its bytes ran out rather than by its content,
+      // so the chunk ending at the offset is chunked again too.
+      // The kept chunks are staged, so that they aren't erased if the partial payload is erased before this one is committed.
+      try {
+        await this.withChunksLocked(async () => {
+          for (const chunk of await this.listChunks("partial", key)) {
+            const bytes = await this.kvDriver.get<Uint8Array>([
+              "chunk",
+              chunk.chunk,
+            ]);
+
+            if (!bytes) {
+              throw new WillowError(
+                "Could not find a chunk of a stored payload.",
+              );
+            }
+
+            if (chunk.start + chunk.length < opts.offset) {
+              this.keepPendingChunk(chunk.chunk, staged);
+
+              kept.push(chunk);
+              keptBytes.push(bytes);
+
+              continue;
+            }
+
+            carried = bytes.slice(0, opts.offset - chunk.start);
+
+            break;
+          }
+        });
+      } catch (err) {
+        await this.releaseChunks(staged);
+
+        throw err;
+      }
+    }
+
+    const verified = opts.verifier
+      ? verifyChunks(
+        opts.payload,
+        opts.offset,
+        opts.expectedLength,
+        opts.verifier,
+      )
+      : undefined;
+
+    const start = kept.reduce((sum, chunk) => sum + chunk.length, 0);
+    const chunks = [...kept];
+
+    let digest: PayloadDigest;
+
+    try {
+      digest = await this.payloadScheme.fromBytes(
+        withPrefix(
+          keptBytes,
+          this.stageChunks(
+            withPrefix([carried], verified?.payload ?? opts.payload),
+            start,
+            chunks,
+            staged,
+          ),
+        ),
+      );
+    } catch (err) {
+      await this.releaseChunks(staged);
+
+      throw err;
+    }
+
+    const length = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+
+    return {
+      digest,
+      length: BigInt(length),
+      failedVerification: verified?.failed() ?? false,
+      commit: async (isCompletePayload) => {
+        try {
+          await this.writeChunkLists(
+            isCompletePayload
+              ? [
+                { kind: "payload", key, list: { chunks, length } },
+                { kind: "partial", key },
+              ]
+              : [{ kind: "partial", key, list: { chunks, length } }],
+          );
+        } finally {
+          await this.releaseChunks(staged);
+        }
+      },
+      reject: () => this.releaseChunks(staged),
+    };
+  }
+
+  /** Report how many bytes are saved by storing the chunks shared between payloads once. */
+  async stats(): Promise<DeduplicationStats> {
+    let payloadBytes = BigInt(0);
+
+    for (const kind of ["payload", "partial"]) {
+      for await (
+        const { value } of this.kvDriver.list<number>({ prefix: [kind] })
+      ) {
+        payloadBytes += BigInt(value);
+      }
+    }
+
+    let storedBytes = BigInt(0);
+
+    for await (
+      const { value } of this.kvDriver.list<Uint8Array>({ prefix: ["chunk"] })
+    ) {
+      storedBytes += BigInt(value.byteLength);
+    }
+
+    return {
+      payloadBytes,
+      storedBytes,
+      savedBytes: payloadBytes - storedBytes,
+    };
+  }
+}
+
+/** Yields the given chunks, followed by the given content. */
+async function* withPrefix(
+  chunks: Uint8Array[],
+  content: Uint8Array | AsyncIterable<Uint8Array>,
+): AsyncIterable<Uint8Array> {
+  for (const chunk of chunks) {
+    if (chunk.byteLength > 0) {
+      yield chunk;
+    }
+  }
+
+  if (content instanceof Uint8Array) {
+    yield content;
+  } else {
+    yield* content;
+  }
+}
@@ -0,0 +1,62 @@
+import { chunkContent } from "./chunker.ts";
+import { assert, assertEquals } from "@std/assert";
+import { concat } from "@std/bytes";
+
+const opts = { minSize: 64, avgSize: 256, maxSize: 1024 };
+
+async function collectChunks(
+  content: Uint8Array | AsyncIterable<Uint8Array>,
+): Promise<Uint8Array[]> {
+  const chunks = [];
+
+  for await (const chunk of chunkContent(content, opts)) {
+    chunks.push(chunk);
+  }
+
+  return chunks;
+}
+
+Deno.test("chunkContent", async (test) => {
+  const bytes = crypto.getRandomValues(new Uint8Array(16384));
+
+  await test.step("Chunks make up the content", async () => {
+    const chunks = await collectChunks(bytes);
+
+    assertEquals(concat(chunks), bytes);
+
+    for (const chunk of chunks.slice(0, -1)) {
+      assert(chunk.byteLength >= opts.minSize);
+      assert(chunk.byteLength <= opts.maxSize);
+    }
+  });
+
+  await test.step("Cuts content the same however it is streamed", async () => {
+    const streamed = await collectChunks(new Blob([bytes]).stream());
+    const whole = await collectChunks(bytes);
+
+    assertEquals(streamed, whole);
+  });
+
+  await test.step("Edits only change the chunks around them", async () => {
+    const edited = concat([new Uint8Array([1, 2, 3]), bytes]);
+
+    const original = await collectChunks(bytes);
+    const chunks = await collectChunks(edited);
+
+    // Once a cut lines up with one in the original content, every chunk after it is the same.
+    const shared = chunks.filter((chunk) =>
+      original.some((other) =>
+        other.byteLength === chunk.byteLength &&
+        other.every((byte, i) => byte === chunk[i])
+      )
+    );
+
+    const sharedBytes = shared.reduce(
+      (sum, chunk) => sum + chunk.byteLength,
+      0,
+    );
+
+    assert(sharedBytes >= bytes.byteLength * 3 / 4);
+    assertEquals(shared[shared.length - 1], chunks[chunks.length - 1]);
+  });
+});
@@ -0,0 +1,140 @@
+import { concat } from "@std/bytes";
+import { WillowError } from "../../../errors.ts";
+
+/** Configures where {@linkcode chunkContent} cuts content into chunks. */
+export type ChunkerOpts = {
+  /** Chunks are never shorter than this many bytes, unless the content ends first. Defaults to 2048. */
+  minSize?: number;
+  /** The length chunks are normalised towards. Must be a power of two. Defaults to 8192. */
+  avgSize?: number;
+  /** Chunks are never longer than this many bytes. Defaults to 65536. */
+  maxSize?: number;
+};
+
+// The random values the gear hash is computed with, generated with a fixed xorshift sequence.
+// Changing them changes where content is cut, and stops new chunks from being deduplicated with those already stored.
+const GEAR = (() => {
+  const table = new Uint32Array(256);
+
+  let state = 0x9e3779b9;
+
+  for (let i = 0; i < table.length; i++) {
+    state = (state ^ (state << 13)) >>> 0;
+    state = (state ^ (state >>> 17)) >>> 0;
+    state = (state ^ (state << 5)) >>> 0;
+
+    table[i] = state;
+  }
+
+  return table;
+})();
+
+// A mask of the given number of most significant bits, which depend on the most bytes of the gear hash.
+function highBits(count: number): number {
+  return count === 0 ? 0 : (~0 << (32 - count));
+}
+
+// Find the length of the next chunk at the start of some bytes, using FastCDC's normalised chunking: cut points are harder to find before the average length, and easier after it.
+function findCutPoint(
+  bytes: Uint8Array,
+  minSize: number,
+  avgSize: number,
+  maxSize: number,
+  maskSmall: number,
+  maskLarge: number,
+): number {
+  const length = Math.min(bytes.byteLength, maxSize);
+
+  if (length <= minSize) {
+    return length;
+  }
+
+  const normal = Math.min(avgSize, length);
+
+  let hash = 0;
+  let i = minSize;
+
+  for (; i < normal; i++) {
+    hash = ((hash << 1) + GEAR[bytes[i]]) >>> 0;
+
+    if ((hash & maskSmall) === 0) {
+      return i + 1;
+    }
+  }
+
+  for (; i < length; i++) {
+    hash = ((hash << 1) + GEAR[bytes[i]]) >>> 0;
+
+    if ((hash & maskLarge) === 0) {
+      return i + 1;
+    }
+  }
+
+  return length;
+}
+
+/** Splits content into chunks with [FastCDC](https://www.usenix.org/conference/atc16/technical-sessions/presentation/xia), a content-defined chunking algorithm.
+ *
+ * Where content is cut depends only on the bytes around the cut, so an edit to some content only changes the chunks around the edit.
+ */
+export async function* chunkContent(
+  content: Uint8Array | AsyncIterable<Uint8Array>,
+  opts: ChunkerOpts = {},
+): AsyncIterable<Uint8Array> {
+  const minSize = opts.minSize ?? 2048;
+  const avgSize = opts.avgSize ?? 8192;
+  const maxSize = opts.maxSize ?? 65536;
+
+  if ((avgSize & (avgSize - 1)) !== 0 || avgSize < 2) {
+    throw new WillowError("The average chunk size must be a power of two.");
+  }
+
+  if (minSize > avgSize || avgSize > maxSize) {
+    throw new WillowError(
+      "Chunk sizes must satisfy minSize <= avgSize <= maxSize.",
+    );
+  }
+
+  const bits = Math.log2(avgSize);
+  const maskSmall = highBits(Math.min(bits + 1, 31));
+  const maskLarge = highBits(bits - 1);
+
+  let buffer = new Uint8Array();
+
+  for await (
+    const bytes of content instanceof Uint8Array ? [content] : content
+  ) {
+    buffer = buffer.byteLength === 0 ? bytes : concat([buffer, bytes]);
+
+    // Only cut once enough bytes are buffered to be sure of the cut point.
+    while (buffer.byteLength >= maxSize) {
+      const cut = findCutPoint(
+        buffer,
+        minSize,
+        avgSize,
+        maxSize,
+        maskSmall,
+        maskLarge,
+      );
+
+      yield buffer.slice(0, cut);
+
+      buffer = buffer.subarray(cut);
+    }
+  }
+
+  while (buffer.byteLength > 0) {
+    const cut = findCutPoint(
+      buffer,
+      minSize,
+      avgSize,
+      maxSize,
+      maskSmall,
+      maskLarge,
+    );
+
+    yield buffer.slice(0, cut);
+
+    buffer = buffer.subarray(cut);
+  }
+}
@@ -0,0 +1,464 @@
+import { concat, equals } from "@std/bytes";
+import { ValidationError, WillowError } from "../../../errors.ts";
+import type { Payload, PayloadScheme, PayloadVerifier } from "../../types.ts";
+import { decryptBytes, encryptBytes } from "../encryption.ts";
+import { pack } from "../kv/key_codec/kv_key_codec.ts";
+import type { KvBatch, KvDriver, KvKey } from "../kv/types.ts";
+import type { PayloadDriver } from "../types.ts";
+import { collectUint8Arrays, verifyChunks } from "./util.ts";
+
+type EncryptedPayloadDriverOpts<PayloadDigest> = {
+  /** The driver encrypted chunks of payloads are stored with. */
+  kvDriver: KvDriver;
+  /** The AES-GCM key payloads are encrypted with. */
+  key: CryptoKey;
+  payloadScheme: PayloadScheme<PayloadDigest>;
+  /** How many bytes of a payload are encrypted together. Reading a payload from an offset only decrypts from the chunk the offset is in. Defaults to 65536. */
+  chunkSize?: number;
+};
+
+/** Where the encrypted chunks of a stored payload are, and how long it is. */
+type StoredPayload = { id: Uint8Array; length: number };
+
+/** Whether a payload is complete or partial. */
+type PayloadKind = "payload" | "partial";
+
+/** Stores payloads encrypted at rest with a {@linkcode KvDriver}.
+ *
+ * Payloads are split into chunks which are encrypted separately with AES-GCM, so that payloads can be read from any offset without decrypting everything before it. Each chunk is bound to its position in its payload and to whether it is the final chunk, so chunks can't be moved, swapped or cut off without being detected.
+ *
+ * Bytes received for a partial payload are appended to its chunks, so only the chunk they start in (and the chunk which was final until then) is encrypted again.
+ *
+ * Unlike `EncryptedKvDriver`, this does not wrap another driver of the same kind: a {@linkcode PayloadDriver} computes digests from the bytes it is given, which would then be the encrypted ones. Encrypted chunks are stored with a {@linkcode KvDriver} instead.
+ *
+ * The digests and lengths of payloads are **not** encrypted.
+ */
+export class EncryptedPayloadDriver<PayloadDigest>
+  implements PayloadDriver<PayloadDigest> {
+  private kvDriver: KvDriver;
+  private key: CryptoKey;
+  private payloadScheme: PayloadScheme<PayloadDigest>;
+  private chunkSize: number;
+
+  constructor(opts: EncryptedPayloadDriverOpts<PayloadDigest>) {
+    this.kvDriver = opts.kvDriver;
+    this.key = opts.key;
+    this.payloadScheme = opts.payloadScheme;
+    this.chunkSize = opts.chunkSize ?? 65536;
+  }
+
+  private getKey(payloadHash: PayloadDigest) {
+    return this.payloadScheme.encode(payloadHash);
+  }
+
+  private getPayload(stored: StoredPayload): Payload {
+    return {
+      bytes: (offset) => collectUint8Arrays(this.readChunks(stored, offset)),
+      stream: (offset) => Promise.resolve(this.readChunks(stored, offset)),
+      length: () => Promise.resolve(BigInt(stored.length)),
+    };
+  }
+
+  // The number of chunks holding a payload of the given length.
+  private chunkCount(length: number): number {
+    return Math.ceil(length / this.chunkSize);
+  }
+
+  // The additional data a chunk is encrypted with.
+  private chunkData(id: Uint8Array, index: number, isFinal: boolean) {
+    return pack([id, index, isFinal]);
+  }
+
+  // Decrypt the bytes of a payload from an offset onwards, chunk by chunk.
+  private async *readChunks(
+    stored: StoredPayload,
+    offset = 0,
+  ): AsyncIterable<Uint8Array> {
+    const firstIndex = Math.floor(offset / this.chunkSize);
+    const finalIndex = this.chunkCount(stored.length) - 1;
+
+    let nextIndex = firstIndex;
+
+    for await (
+      const { key, value } of this.kvDriver.list<Uint8Array>({
+        prefix: ["chunks", stored.id],
+        start: ["chunks", stored.id, firstIndex],
+      })
+    ) {
+      const index = key[2] as number;
+
+      if (index !== nextIndex || index > finalIndex) {
+        break;
+      }
+
+      const chunk = await decryptBytes(
+        this.key,
+        value,
+        this.chunkData(stored.id, index, index === finalIndex),
+      );
+
+      nextIndex += 1;
+
+      yield index === firstIndex
+        ? chunk.subarray(offset - index * this.chunkSize)
+        : chunk;
+    }
+
+    if (nextIndex <= finalIndex) {
+      throw new WillowError(
+        "Could not read stored payload: some of its chunks are missing.",
+      );
+    }
+  }
+
+  // Encrypt the chunks of some content as the chunks of the payload with the given id, yielding the content as it goes so that its digest can be computed at the same time.
+  // Chunks before `fromIndex` are already stored and are only written again if one of them is the final chunk. The others are written under the `into` prefix.
+  private async *encryptChunks(
+    content: AsyncIterable<Uint8Array>,
+    id: Uint8Array,
+    into: KvKey,
+    fromIndex: number,
+    staged: { length: number },
+  ): AsyncIterable<Uint8Array> {
+    let index = 0;
+    let buffer = new Uint8Array();
+
+    // A chunk is only written once it is known whether it is the final one.
+    let held: Uint8Array | undefined;
+
+    const writeChunk = async (chunk: Uint8Array, isFinal: boolean) => {
+      if (index >= fromIndex || isFinal) {
+        await this.kvDriver.set(
+          [...into, index],
+          await encryptBytes(
+            this.key,
+            chunk,
+            this.chunkData(id, index, isFinal),
+          ),
+        );
+      }
+
+      index += 1;
+      staged.length += chunk.byteLength;
+    };
+
+    for await (const bytes of content) {
+      buffer = buffer.byteLength === 0 ? bytes : concat([buffer, bytes]);
+
+      while (buffer.byteLength >= this.chunkSize) {
+        if (held) {
+          await writeChunk(held, false);
+        }
+
+        held = buffer.slice(0, this.chunkSize);
+
+        yield held;
+
+        buffer = buffer.subarray(this.chunkSize);
+      }
+    }
+
+    if (held) {
+      await writeChunk(held, buffer.byteLength === 0);
+    }
+
+    if (buffer.byteLength > 0) {
+      await writeChunk(buffer, true);
+
+      yield buffer;
+    }
+  }
+
+  // Move the chunks staged for a partial payload into place, and erase those past its new end.
+  private async moveStagedChunks(
+    batch: KvBatch,
+    stagedPrefix: KvKey,
+    stored: StoredPayload,
+    previous: StoredPayload,
+  ) {
+    for await (
+      const { key, value } of this.kvDriver.list<Uint8Array>({
+        prefix: stagedPrefix,
+      })
+    ) {
+      batch.set(["chunks", stored.id, key[2] as number], value);
+      batch.delete(key);
+    }
+
+    for (
+      let index = this.chunkCount(stored.length);
+      index < this.chunkCount(previous.length);
+      index++
+    ) {
+      batch.delete(["chunks", stored.id, index]);
+    }
+  }
+
+  // Point a complete or partial payload at its encrypted chunks, erasing the chunks it replaces. Anything added to the batch by `prepare` is committed along with it.
+  private async writeStored(
+    kind: PayloadKind,
+    key: Uint8Array,
+    stored: StoredPayload,
+    prepare?: (batch: KvBatch) => Promise<void>,
+  ) {
+    const replaced = [await this.kvDriver.get<StoredPayload>([kind, key])];
+
+    const batch = this.kvDriver.batch();
+
+    await prepare?.(batch);
+
+    batch.set([kind, key], stored);
+
+    if (kind === "payload") {
+      // A completed payload replaces its partial payload.
+      replaced.push(await this.kvDriver.get<StoredPayload>(["partial", key]));
+
+      batch.delete(["partial", key]);
+    }
+
+    await batch.commit();
+
+    for (const previous of replaced) {
+      if (previous && !equals(previous.id, stored.id)) {
+        await this.kvDriver.clear({ prefix: ["chunks", previous.id] });
+      }
+    }
+  }
+
+  private async eraseStored(
+    kind: PayloadKind,
+    key: Uint8Array,
+  ): Promise<boolean> {
+    const stored = await this.kvDriver.get<StoredPayload>([kind, key]);
+
+    if (!stored) {
+      return false;
+    }
+
+    await this.kvDriver.delete([kind, key]);
+    await this.kvDriver.clear({ prefix: ["chunks", stored.id] });
+
+    return true;
+  }
+
+  async get(
+    payloadHash: PayloadDigest,
+  ): Promise<Payload | undefined> {
+    const stored = await this.kvDriver.get<StoredPayload>([
+      "payload",
+      this.getKey(payloadHash),
+    ]);
+
+    if (!stored) {
+      return undefined;
+    }
+
+    return this.getPayload(stored);
+  }
+
+  async erase(payloadHash: PayloadDigest): Promise<true | ValidationError> {
+    if (await this.eraseStored("payload", this.getKey(payloadHash))) {
+      return true;
+    }
+
+    return new ValidationError("No payload with that digest found.");
+  }
+
+  async *digests(): AsyncIterable<PayloadDigest> {
+    for await (const { key } of this.kvDriver.list({ prefix: ["payload"] })) {
+      yield this.payloadScheme.decode(key[1] as Uint8Array);
+    }
+  }
+
+  async *partials(): AsyncIterable<{ digest: PayloadDigest; length: bigint }> {
+    for await (
+      const { key, value } of this.kvDriver.list<StoredPayload>({
+        prefix: ["partial"],
+      })
+    ) {
+      yield {
+        digest: this.payloadScheme.decode(key[1] as Uint8Array),
+        length: BigInt(value.length),
+      };
+    }
+  }
+
+  async erasePartial(
+    digest: PayloadDigest,
+  ): Promise<true | ValidationError> {
+    if (await this.eraseStored("partial", this.getKey(digest))) {
+      return true;
+    }
+
+    return new ValidationError("No partial payload with that digest found.");
+  }
+
+  async length(payloadHash: PayloadDigest): Promise<bigint> {
+    const stored = await this.kvDriver.get<StoredPayload>([
+      "payload",
+      this.getKey(payloadHash),
+    ]);
+
+    return BigInt(stored?.length ?? 0);
+  }
+
+  async set(
+    payload: Uint8Array | AsyncIterable<Uint8Array>,
+  ): Promise<{ digest: PayloadDigest; length: bigint; payload: Payload }> {
+    const id = crypto.getRandomValues(new Uint8Array(16));
+    const staged = { length: 0 };
+
+    let digest: PayloadDigest;
+
+    try {
+      digest = await this.payloadScheme.fromBytes(
+        this.encryptChunks(
+          withPrefix(undefined, payload),
+          id,
+          ["chunks", id],
+          0,
+          staged,
+        ),
+      );
+    } catch (err) {
+      await this.kvDriver.clear({ prefix: ["chunks", id] });
+
+      throw err;
+    }
+
+    const stored = { id, length: staged.length };
+
+    await this.writeStored("payload", this.getKey(digest), stored);
+
+    return {
+      digest,
+      length: BigInt(stored.length),
+      payload: this.getPayload(stored),
+    };
+  }
+
+  async receive(
+    opts: {
+      payload: AsyncIterable<Uint8Array> | Uint8Array;
+      offset: number;
+      expectedLength: bigint;
+      expectedDigest: PayloadDigest;
+      verifier?: PayloadVerifier;
+    },
+  ): Promise<
+    {
+      digest: PayloadDigest;
+      length: bigint;
+      failedVerification: boolean;
+      commit: (isCompletePayload: boolean) => Promise<void>;
+      reject: () => Promise<void>;
+    }
+  > {
+    const key = this.getKey(opts.expectedDigest);
+
+    const existing = opts.offset > 0
+      ? await this.kvDriver.get<StoredPayload>(["partial", key])
+      : undefined;
+
+    // The bytes already held are read again to compute the digest, but the chunks holding them are kept, apart from the one the offset falls in and the one which was final.
+    // Rewritten chunks are staged, so that the partial payload is left as it was until the received bytes are committed.
+    const id = existing?.id ?? crypto.getRandomValues(new Uint8Array(16));
+
+    const into: KvKey = existing
+      ? ["staged", crypto.getRandomValues(new Uint8Array(16))]
+      : ["chunks", id];
+
+    const fromIndex = existing
+      ? Math.min(
+        Math.floor(opts.offset / this.chunkSize),
+        this.chunkCount(existing.length) - 1,
+      )
+      : 0;
+
+    const verified = opts.verifier
+      ? verifyChunks(
+        opts.payload,
+        opts.offset,
+        opts.expectedLength,
+        opts.verifier,
+      )
+      : undefined;
+
+    const staged = { length: 0 };
+
+    let digest: PayloadDigest;
+
+    try {
+      digest = await this.payloadScheme.fromBytes(
+        this.encryptChunks(
+          withPrefix(
+            existing
+              ? takeBytes(this.readChunks(existing), opts.offset)
+              : undefined,
+            verified?.payload ?? opts.payload,
+          ),
+          id,
+          into,
+          fromIndex,
+          staged,
+        ),
+      );
+    } catch (err) {
+      await this.kvDriver.clear({ prefix: into });
+
+      throw err;
+    }
+
+    const stored = { id, length: staged.length };
+
+    return {
+      digest,
+      length: BigInt(stored.length),
+      failedVerification: verified?.failed() ?? false,
+      commit: (isCompletePayload) =>
+        this.writeStored(
+          isCompletePayload ? "payload" : "partial",
+          key,
+          stored,
+          existing
+            ? (batch) => this.moveStagedChunks(batch, into, stored, existing)
+            : undefined,
+        ),
+      reject: () => this.kvDriver.clear({ prefix: into }),
+    };
+  }
+}
+
+/** Yields the bytes of a prefix (if any), followed by the given content. */
+async function* withPrefix(
+  prefix: AsyncIterable<Uint8Array> | undefined,
+  content: Uint8Array | AsyncIterable<Uint8Array>,
+): AsyncIterable<Uint8Array> {
+  if (prefix) {
+    yield* prefix;
+  }
+
+  if (content instanceof Uint8Array) {
+    yield content;
+  } else {
+    yield* content;
+  }
+}
+
+/** Yields no more than the first `length` bytes of some content. */
+async function* takeBytes(
+  content: AsyncIterable<Uint8Array>,
+  length: number,
+): AsyncIterable<Uint8Array> {
+  let remaining = length;
+
+  for await (const bytes of content) {
+    if (remaining <= 0) {
+      return;
+    }
+
+    yield bytes.subarray(0, remaining);
+
+    remaining -= bytes.byteLength;
+  }
+}
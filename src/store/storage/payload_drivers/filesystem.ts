@@ -1,9 +1,10 @@
 import { ValidationError, WillowError } from "../../../errors.ts";
-import type { Payload, PayloadScheme } from "../../types.ts";
+import type { Payload, PayloadScheme, PayloadVerifier } from "../../types.ts";
 import type { PayloadDriver } from "../types.ts";
 import { join } from "@std/path";
 import { ensureDir, move } from "@std/fs";
-import { encodeBase32 } from "@std/encoding/base32";
+import { decodeBase32, encodeBase32 } from "@std/encoding/base32";
+import { verifyChunks } from "./util.ts";
 
 /** Stores and retrieves payloads from the filesystem. */
 export class PayloadDriverFilesystem<PayloadDigest>
@@ -88,6 +89,53 @@ export class PayloadDriverFilesystem<PayloadDigest>
     }
   }
 
+  async *digests(): AsyncIterable<PayloadDigest> {
+    try {
+      await Deno.lstat(this.path);
+    } catch {
+      return;
+    }
+
+    for await (const dirEntry of Deno.readDir(this.path)) {
+      // Skip the staging and partial directories.
+      if (!dirEntry.isFile) {
+        continue;
+      }
+
+      yield this.payloadScheme.decode(decodeBase32(dirEntry.name));
+    }
+  }
+
+  async *partials(): AsyncIterable<{ digest: PayloadDigest; length: bigint }> {
+    const partialPath = join(this.path, "partial");
+
+    try {
+      await Deno.lstat(partialPath);
+    } catch {
+      return;
+    }
+
+    for await (const dirEntry of Deno.readDir(partialPath)) {
+      const stats = await Deno.lstat(join(partialPath, dirEntry.name));
+
+      yield {
+        digest: this.payloadScheme.decode(decodeBase32(dirEntry.name)),
+        length: BigInt(stats.size),
+      };
+    }
+  }
+
+  async erasePartial(
+    digest: PayloadDigest,
+  ): Promise<true | ValidationError> {
+    try {
+      await Deno.remove(join(this.path, "partial", this.getKey(digest)));
+      return true;
+    } catch {
+      return new ValidationError("No partial payload with that digest found.");
+    }
+  }
+
   async set(
     payload: Uint8Array | AsyncIterable<Uint8Array>,
   ): Promise<{ digest: PayloadDigest; payload: Payload; length: bigint }> {
@@ -162,11 +210,13 @@ export class PayloadDriverFilesystem<PayloadDigest>
       offset: number;
       expectedLength: bigint;
       expectedDigest: PayloadDigest;
+      verifier?: PayloadVerifier;
     },
   ): Promise<
     {
       digest: PayloadDigest;
       length: bigint;
+      failedVerification: boolean;
       commit: (isCompletePayload: boolean) => Promise<void>;
       reject: () => Promise<void>;
     }
@@ -212,12 +262,23 @@ export class PayloadDriverFilesystem<PayloadDigest>
 
       let receivedLength = BigInt(opts.offset);
 
-      if (opts.payload instanceof Uint8Array) {
-        receivedLength += BigInt(opts.payload.byteLength);
+      const verified = opts.verifier
+        ? verifyChunks(
+          opts.payload,
+          opts.offset,
+          opts.expectedLength,
+          opts.verifier,
+        )
+        : undefined;
+
+      const payload = verified?.payload ?? opts.payload;
+
+      if (payload instanceof Uint8Array) {
+        receivedLength += BigInt(payload.byteLength);
 
-        await writer.write(opts.payload);
+        await writer.write(payload);
       } else {
-        for await (const chunk of opts.payload) {
+        for await (const chunk of payload) {
           await writer.write(chunk);
 
           receivedLength += BigInt(chunk.byteLength);
@@ -235,6 +296,7 @@ export class PayloadDriverFilesystem<PayloadDigest>
       return {
         digest,
         length: BigInt(receivedLength),
+        failedVerification: verified?.failed() ?? false,
         commit: async (isCompletePayload) => {
           await this.ensureDir("partial");
 
@@ -0,0 +1,309 @@
+import { concat } from "@std/bytes";
+import { ValidationError } from "../../../errors.ts";
+import type { Payload, PayloadScheme, PayloadVerifier } from "../../types.ts";
+import type { KvDriver } from "../kv/types.ts";
+import type { PayloadDriver } from "../types.ts";
+import { PayloadDriverFilesystem } from "./filesystem.ts";
+import { verifyChunks } from "./util.ts";
+
+type PayloadDriverHybridOpts<PayloadDigest> = {
+  /** The driver small payloads are stored with. */
+  kvDriver: KvDriver;
+  /** The directory large payloads are stored in. */
+  path: string;
+  payloadScheme: PayloadScheme<PayloadDigest>;
+  /** Payloads with fewer bytes than this are stored with the `KvDriver`, all others on the filesystem. Defaults to 4096. */
+  threshold?: number;
+};
+
+/** Stores and retrieves small payloads with a {@linkcode KvDriver}, and larger payloads from the filesystem.
+ *
+ * Partial payloads are moved to the filesystem as soon as they grow past the threshold.
+ */
+export class PayloadDriverHybrid<PayloadDigest>
+  implements PayloadDriver<PayloadDigest> {
+  private kvDriver: KvDriver;
+  private fileDriver: PayloadDriverFilesystem<PayloadDigest>;
+  private payloadScheme: PayloadScheme<PayloadDigest>;
+  private threshold: number;
+
+  constructor(opts: PayloadDriverHybridOpts<PayloadDigest>) {
+    this.kvDriver = opts.kvDriver;
+    this.fileDriver = new PayloadDriverFilesystem(
+      opts.path,
+      opts.payloadScheme,
+    );
+    this.payloadScheme = opts.payloadScheme;
+    this.threshold = opts.threshold ?? 4096;
+  }
+
+  private getKey(payloadHash: PayloadDigest) {
+    return this.payloadScheme.encode(payloadHash);
+  }
+
+  private getPayload(bytes: Uint8Array): Payload {
+    return {
+      bytes: (offset) => Promise.resolve(bytes.slice(offset)),
+      stream: (offset) =>
+        Promise.resolve(new Blob([bytes.slice(offset)]).stream()),
+      length: () => Promise.resolve(BigInt(bytes.byteLength)),
+    };
+  }
+
+  // Read chunks from a payload until it reaches the threshold, returning the chunks read and whatever remains.
+  private async readUntilThreshold(
+    payload: Uint8Array | AsyncIterable<Uint8Array>,
+    initialLength: number,
+  ): Promise<
+    { chunks: Uint8Array[]; rest: AsyncIterator<Uint8Array> | undefined }
+  > {
+    if (payload instanceof Uint8Array) {
+      return { chunks: [payload], rest: undefined };
+    }
+
+    const iterator = payload[Symbol.asyncIterator]();
+    const chunks: Uint8Array[] = [];
+    let length = initialLength;
+
+    while (length < this.threshold) {
+      const next = await iterator.next();
+
+      if (next.done) {
+        return { chunks, rest: undefined };
+      }
+
+      chunks.push(next.value);
+      length += next.value.byteLength;
+    }
+
+    return { chunks, rest: iterator };
+  }
+
+  // Erase a complete or partial payload from the KvDriver, returning whether it was stored there.
+  // Not every KvDriver reports whether a deleted key existed, so this is checked first.
+  private async eraseFromKv(
+    kind: "payload" | "partial",
+    key: Uint8Array,
+  ): Promise<boolean> {
+    if (await this.kvDriver.get([kind, key]) === undefined) {
+      return false;
+    }
+
+    await this.kvDriver.delete([kind, key]);
+
+    return true;
+  }
+
+  async get(
+    payloadHash: PayloadDigest,
+  ): Promise<Payload | undefined> {
+    const bytes = await this.kvDriver.get<Uint8Array>([
+      "payload",
+      this.getKey(payloadHash),
+    ]);
+
+    if (bytes) {
+      return this.getPayload(bytes);
+    }
+
+    return this.fileDriver.get(payloadHash);
+  }
+
+  async erase(payloadHash: PayloadDigest): Promise<true | ValidationError> {
+    if (await this.eraseFromKv("payload", this.getKey(payloadHash))) {
+      return true;
+    }
+
+    const result = await this.fileDriver.erase(payloadHash);
+
+    if (result instanceof ValidationError) {
+      return new ValidationError("No payload with that digest found.");
+    }
+
+    return result;
+  }
+
+  async *digests(): AsyncIterable<PayloadDigest> {
+    for await (
+      const { key } of this.kvDriver.list({ prefix: ["payload"] })
+    ) {
+      yield this.payloadScheme.decode(key[1] as Uint8Array);
+    }
+
+    yield* this.fileDriver.digests();
+  }
+
+  async *partials(): AsyncIterable<{ digest: PayloadDigest; length: bigint }> {
+    for await (
+      const { key, value } of this.kvDriver.list<Uint8Array>({
+        prefix: ["partial"],
+      })
+    ) {
+      yield {
+        digest: this.payloadScheme.decode(key[1] as Uint8Array),
+        length: BigInt(value.byteLength),
+      };
+    }
+
+    yield* this.fileDriver.partials();
+  }
+
+  async erasePartial(
+    digest: PayloadDigest,
+  ): Promise<true | ValidationError> {
+    if (await this.eraseFromKv("partial", this.getKey(digest))) {
+      return true;
+    }
+
+    return this.fileDriver.erasePartial(digest);
+  }
+
+  async length(payloadHash: PayloadDigest): Promise<bigint> {
+    const bytes = await this.kvDriver.get<Uint8Array>([
+      "payload",
+      this.getKey(payloadHash),
+    ]);
+
+    if (bytes) {
+      return BigInt(bytes.byteLength);
+    }
+
+    return this.fileDriver.length(payloadHash);
+  }
+
+  async set(
+    payload: Uint8Array | AsyncIterable<Uint8Array>,
+  ): Promise<{ digest: PayloadDigest; length: bigint; payload: Payload }> {
+    const { chunks, rest } = await this.readUntilThreshold(payload, 0);
+
+    const bytes = concat(chunks);
+
+    if (rest || bytes.byteLength >= this.threshold) {
+      return this.fileDriver.set(rest ? withRest(chunks, rest) : bytes);
+    }
+
+    const digest = await this.payloadScheme.fromBytes(bytes);
+
+    await this.kvDriver.set(["payload", this.getKey(digest)], bytes);
+
+    return {
+      digest,
+      length: BigInt(bytes.byteLength),
+      payload: this.getPayload(bytes),
+    };
+  }
+
+  async receive(
+    opts: {
+      payload: AsyncIterable<Uint8Array> | Uint8Array;
+      offset: number;
+      expectedLength: bigint;
+      expectedDigest: PayloadDigest;
+      verifier?: PayloadVerifier;
+    },
+  ): Promise<
+    {
+      digest: PayloadDigest;
+      length: bigint;
+      failedVerification: boolean;
+      commit: (isCompletePayload: boolean) => Promise<void>;
+      reject: () => Promise<void>;
+    }
+  > {
+    const key = this.getKey(opts.expectedDigest);
+
+    let existingBytes = new Uint8Array();
+
+    if (opts.offset > 0) {
+      const partial = await this.kvDriver.get<Uint8Array>(["partial", key]);
+
+      if (!partial) {
+        // The partial payload (if any) has already been moved to the filesystem.
+        return this.fileDriver.receive(opts);
+      }
+
+      existingBytes = partial.slice(0, opts.offset);
+    }
+
+    const verified = opts.verifier
+      ? verifyChunks(
+        opts.payload,
+        opts.offset,
+        opts.expectedLength,
+        opts.verifier,
+      )
+      : undefined;
+
+    const { chunks, rest } = await this.readUntilThreshold(
+      verified?.payload ?? opts.payload,
+      existingBytes.byteLength,
+    );
+
+    const finalBytes = concat([existingBytes, ...chunks]);
+
+    if (rest || finalBytes.byteLength >= this.threshold) {
+      // The payload has grown too big for the KvDriver, so move it to the filesystem.
+      const received = await this.fileDriver.receive({
+        payload: rest ? withRest([finalBytes], rest) : finalBytes,
+        offset: 0,
+        expectedLength: opts.expectedLength,
+        expectedDigest: opts.expectedDigest,
+      });
+
+      return {
+        ...received,
+        failedVerification: verified?.failed() ?? false,
+        commit: async (isCompletePayload) => {
+          await received.commit(isCompletePayload);
+
+          await this.kvDriver.delete(["partial", key]);
+        },
+      };
+    }
+
+    const digest = await this.payloadScheme.fromBytes(finalBytes);
+
+    return {
+      digest,
+      length: BigInt(finalBytes.byteLength),
+      failedVerification: verified?.failed() ?? false,
+      commit: async (isCompletePayload) => {
+        if (!isCompletePayload) {
+          await this.kvDriver.set(["partial", key], finalBytes);
+
+          return;
+        }
+
+        const batch = this.kvDriver.batch();
+
+        batch.set(["payload", key], finalBytes);
+        batch.delete(["partial", key]);
+
+        await batch.commit();
+      },
+      reject: () => Promise.resolve(),
+    };
+  }
+}
+
+/** Yields the given chunks, followed by the rest of an iterator (if any). */
+async function* withRest(
+  chunks: Uint8Array[],
+  rest: AsyncIterator<Uint8Array> | undefined,
+): AsyncIterable<Uint8Array> {
+  yield* chunks;
+
+  if (!rest) {
+    return;
+  }
+
+  while (true) {
+    const next = await rest.next();
+
+    if (next.done) {
+      return;
+    }
+
+    yield next.value;
+  }
+}
@@ -1,7 +1,7 @@
 import { ValidationError, WillowError } from "../../../errors.ts";
-import type { Payload, PayloadScheme } from "../../types.ts";
+import type { Payload, PayloadScheme, PayloadVerifier } from "../../types.ts";
 import type { PayloadDriver } from "../types.ts";
-import { collectUint8Arrays } from "./util.ts";
+import { collectUint8Arrays, verifyChunks } from "./util.ts";
 import { concat } from "@std/bytes";
 
 const PAYLOAD_STORE = "payload";
@@ -159,6 +159,109 @@ export class PayloadDriverIndexedDb<PayloadDigest>
     return isDeleted;
   }
 
+  async *digests(): AsyncIterable<PayloadDigest> {
+    const db = await this.db.promise;
+
+    const payloadStore = db.transaction([PAYLOAD_STORE], "readonly")
+      .objectStore(
+        PAYLOAD_STORE,
+      );
+
+    const didGetKeys = Promise.withResolvers<IDBValidKey[]>();
+
+    const request = payloadStore.getAllKeys();
+
+    request.onsuccess = () => {
+      didGetKeys.resolve(request.result);
+    };
+
+    request.onerror = () => {
+      didGetKeys.reject();
+    };
+
+    for (const key of await didGetKeys.promise) {
+      yield this.payloadScheme.decode(new Uint8Array(key as ArrayBuffer));
+    }
+  }
+
+  async *partials(): AsyncIterable<{ digest: PayloadDigest; length: bigint }> {
+    const db = await this.db.promise;
+
+    const partialStore = db.transaction([PARTIAL_STORE], "readonly")
+      .objectStore(
+        PARTIAL_STORE,
+      );
+
+    const didGetPartials = Promise.withResolvers<
+      { key: IDBValidKey; bytes: Uint8Array }[]
+    >();
+
+    const partials: { key: IDBValidKey; bytes: Uint8Array }[] = [];
+
+    const request = partialStore.openCursor();
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+
+      if (!cursor) {
+        didGetPartials.resolve(partials);
+        return;
+      }
+
+      partials.push({ key: cursor.key, bytes: cursor.value });
+      cursor.continue();
+    };
+
+    request.onerror = () => {
+      didGetPartials.reject();
+    };
+
+    for (const { key, bytes } of await didGetPartials.promise) {
+      yield {
+        digest: this.payloadScheme.decode(new Uint8Array(key as ArrayBuffer)),
+        length: BigInt(bytes.byteLength),
+      };
+    }
+  }
+
+  async erasePartial(
+    digest: PayloadDigest,
+  ): Promise<true | ValidationError> {
+    const db = await this.db.promise;
+
+    const partialStore = db.transaction([PARTIAL_STORE], "readonly")
+      .objectStore(
+        PARTIAL_STORE,
+      );
+
+    const key = this.getKey(digest);
+
+    const exists = Promise.withResolvers<boolean>();
+
+    const countReq = partialStore.count(key);
+
+    countReq.onsuccess = () => {
+      exists.resolve(countReq.result > 0);
+    };
+
+    if (!(await exists.promise)) {
+      return new ValidationError("No partial payload with that digest found.");
+    }
+
+    const didDelete = Promise.withResolvers<true>();
+
+    const deleteOp = db.transaction([PARTIAL_STORE], "readwrite")
+      .objectStore(
+        PARTIAL_STORE,
+      ).delete(key);
+
+    deleteOp.onsuccess = () => {
+      didDelete.resolve(true);
+    };
+
+    return didDelete.promise;
+  }
+
   async length(payloadHash: PayloadDigest): Promise<bigint> {
     const db = await this.db.promise;
 
@@ -229,11 +332,13 @@ export class PayloadDriverIndexedDb<PayloadDigest>
       offset: number;
       expectedLength: bigint;
       expectedDigest: PayloadDigest;
+      verifier?: PayloadVerifier;
     },
   ): Promise<
     {
       digest: PayloadDigest;
       length: bigint;
+      failedVerification: boolean;
       commit: (isCompletePayload: boolean) => Promise<void>;
       reject: () => Promise<void>;
     }
@@ -270,9 +375,20 @@ export class PayloadDriverIndexedDb<PayloadDigest>
       }
     }
 
-    const receivedBytes = opts.payload instanceof Uint8Array
-      ? opts.payload
-      : await collectUint8Arrays(opts.payload);
+    const verified = opts.verifier
+      ? verifyChunks(
+        opts.payload,
+        opts.offset,
+        opts.expectedLength,
+        opts.verifier,
+      )
+      : undefined;
+
+    const payload = verified?.payload ?? opts.payload;
+
+    const receivedBytes = payload instanceof Uint8Array
+      ? payload
+      : await collectUint8Arrays(payload);
 
     const finalBytes = concat([existingBytes, receivedBytes]);
 
@@ -283,6 +399,7 @@ export class PayloadDriverIndexedDb<PayloadDigest>
     return {
       digest,
       length: BigInt(finalBytes.byteLength),
+      failedVerification: verified?.failed() ?? false,
       commit: (isCompletePayload) => {
         if (isCompletePayload) {
           const payloadStore = db.transaction([PAYLOAD_STORE], "readwrite")
@@ -1,9 +1,9 @@
 import { concat } from "@std/bytes";
 import { ValidationError } from "../../../errors.ts";
-import type { Payload, PayloadScheme } from "../../types.ts";
+import type { Payload, PayloadScheme, PayloadVerifier } from "../../types.ts";
 import type { PayloadDriver } from "../types.ts";
-import { collectUint8Arrays } from "./util.ts";
-import { encodeBase64 } from "@std/encoding/base64";
+import { collectUint8Arrays, verifyChunks } from "./util.ts";
+import { decodeBase64, encodeBase64 } from "@std/encoding/base64";
 
 /** Stores and retrieves payloads in memory. */
 export class PayloadDriverMemory<PayloadDigest>
@@ -80,6 +80,31 @@ export class PayloadDriverMemory<PayloadDigest>
     );
   }
 
+  async *digests(): AsyncIterable<PayloadDigest> {
+    for (const key of this.payloadMap.keys()) {
+      yield this.payloadScheme.decode(decodeBase64(key));
+    }
+  }
+
+  async *partials(): AsyncIterable<{ digest: PayloadDigest; length: bigint }> {
+    for (const [key, bytes] of this.partialMap) {
+      yield {
+        digest: this.payloadScheme.decode(decodeBase64(key)),
+        length: BigInt(bytes.byteLength),
+      };
+    }
+  }
+
+  erasePartial(digest: PayloadDigest): Promise<true | ValidationError> {
+    if (this.partialMap.delete(this.getKey(digest))) {
+      return Promise.resolve(true as true);
+    }
+
+    return Promise.resolve(
+      new ValidationError("No partial payload with that digest found."),
+    );
+  }
+
   length(payloadHash: PayloadDigest): Promise<bigint> {
     const key = this.getKey(payloadHash);
 
@@ -118,11 +143,13 @@ export class PayloadDriverMemory<PayloadDigest>
       offset: number;
       expectedLength: bigint;
       expectedDigest: PayloadDigest;
+      verifier?: PayloadVerifier;
     },
   ): Promise<
     {
       digest: PayloadDigest;
       length: bigint;
+      failedVerification: boolean;
       commit: (isCompletePayload: boolean) => Promise<void>;
       reject: () => Promise<void>;
     }
@@ -130,9 +157,20 @@ export class PayloadDriverMemory<PayloadDigest>
     const finalKey = this.getKey(opts.expectedDigest);
     const existingBytes = this.partialMap.get(finalKey) || new Uint8Array();
 
-    const collectedBytes = opts.payload instanceof Uint8Array
-      ? opts.payload
-      : await collectUint8Arrays(opts.payload);
+    const verified = opts.verifier
+      ? verifyChunks(
+        opts.payload,
+        opts.offset,
+        opts.expectedLength,
+        opts.verifier,
+      )
+      : undefined;
+
+    const payload = verified?.payload ?? opts.payload;
+
+    const collectedBytes = payload instanceof Uint8Array
+      ? payload
+      : await collectUint8Arrays(payload);
 
     const assembled = concat(
       [existingBytes.slice(0, opts.offset), collectedBytes],
@@ -143,6 +181,7 @@ export class PayloadDriverMemory<PayloadDigest>
     return {
       digest,
       length: BigInt(assembled.byteLength),
+      failedVerification: verified?.failed() ?? false,
       commit: (isCompletePayload) => {
         if (isCompletePayload) {
           this.payloadMap.set(finalKey, assembled);
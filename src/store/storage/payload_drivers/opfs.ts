@@ -0,0 +1,272 @@
+import { ValidationError, WillowError } from "../../../errors.ts";
+import type { Payload, PayloadScheme, PayloadVerifier } from "../../types.ts";
+import type { PayloadDriver } from "../types.ts";
+import { decodeBase32, encodeBase32 } from "@std/encoding/base32";
+import { getFileHandle, moveFile, writeToFile } from "../opfs.ts";
+import { verifyChunks } from "./util.ts";
+
+/** Stores and retrieves payloads as files in the [Origin Private File System](https://developer.mozilla.org/en-US/docs/Web/API/File_System_API/Origin_private_file_system).
+ *
+ * Payloads are written with sync access handles, so this driver must be used in a [dedicated worker](https://developer.mozilla.org/en-US/docs/Web/API/Web_Workers_API). Payloads are read from files as they are needed, so they can be much larger than would fit in memory.
+ */
+export class PayloadDriverOpfs<PayloadDigest>
+  implements PayloadDriver<PayloadDigest> {
+  private directory: Promise<FileSystemDirectoryHandle>;
+
+  constructor(
+    /** The name of the directory payloads are stored in. */
+    name: string,
+    readonly payloadScheme: PayloadScheme<PayloadDigest>,
+    /** The directory the payloads' directory is created in. Defaults to the root of the origin private file system. */
+    root: FileSystemDirectoryHandle | Promise<FileSystemDirectoryHandle> =
+      navigator.storage.getDirectory(),
+  ) {
+    this.directory = Promise.resolve(root).then((root) =>
+      root.getDirectoryHandle(name, { create: true })
+    );
+  }
+
+  private getKey(hash: PayloadDigest): string {
+    return encodeBase32(this.payloadScheme.encode(hash));
+  }
+
+  // Complete payloads are stored at the top of the directory, with partial and staged payloads in their own directories.
+  private async getDirectory(
+    subdirectory?: "partial" | "staging",
+  ): Promise<FileSystemDirectoryHandle> {
+    const directory = await this.directory;
+
+    if (!subdirectory) {
+      return directory;
+    }
+
+    return directory.getDirectoryHandle(subdirectory, { create: true });
+  }
+
+  private getPayload(handle: FileSystemFileHandle): Payload {
+    return {
+      bytes: async (offset) => {
+        const file = await handle.getFile();
+
+        return new Uint8Array(await file.slice(offset ?? 0).arrayBuffer());
+      },
+      stream: async (offset) => {
+        const file = await handle.getFile();
+
+        return file.slice(offset ?? 0).stream();
+      },
+      length: async () => {
+        const file = await handle.getFile();
+
+        return BigInt(file.size);
+      },
+    };
+  }
+
+  // Write some bytes to a new file in the staging directory.
+  private async stage(
+    bytes: Uint8Array | AsyncIterable<Uint8Array>,
+    offset: number,
+    maxLength?: number,
+    prefix?: FileSystemFileHandle,
+  ): Promise<{ handle: FileSystemFileHandle; length: number }> {
+    const staging = await this.getDirectory("staging");
+
+    const handle = await staging.getFileHandle(
+      encodeBase32(crypto.getRandomValues(new Uint8Array(32))),
+      { create: true },
+    );
+
+    if (prefix) {
+      await writeToFile(
+        handle,
+        (await prefix.getFile()).slice(0, offset).stream(),
+        0,
+      );
+    }
+
+    const length = await writeToFile(handle, bytes, offset, maxLength);
+
+    return { handle, length };
+  }
+
+  async get(
+    payloadHash: PayloadDigest,
+  ): Promise<Payload | undefined> {
+    const handle = await getFileHandle(
+      await this.getDirectory(),
+      this.getKey(payloadHash),
+    );
+
+    if (!handle) {
+      return undefined;
+    }
+
+    return this.getPayload(handle);
+  }
+
+  async erase(payloadHash: PayloadDigest): Promise<true | ValidationError> {
+    try {
+      await (await this.getDirectory()).removeEntry(this.getKey(payloadHash));
+
+      return true;
+    } catch {
+      return new ValidationError("No payload with that digest found.");
+    }
+  }
+
+  async *digests(): AsyncIterable<PayloadDigest> {
+    for await (const [name, handle] of (await this.getDirectory()).entries()) {
+      // Skip the staging and partial directories.
+      if (handle.kind !== "file") {
+        continue;
+      }
+
+      yield this.payloadScheme.decode(decodeBase32(name));
+    }
+  }
+
+  async *partials(): AsyncIterable<{ digest: PayloadDigest; length: bigint }> {
+    for await (
+      const [name, handle] of (await this.getDirectory("partial")).entries()
+    ) {
+      const file = await (handle as FileSystemFileHandle).getFile();
+
+      yield {
+        digest: this.payloadScheme.decode(decodeBase32(name)),
+        length: BigInt(file.size),
+      };
+    }
+  }
+
+  async erasePartial(
+    digest: PayloadDigest,
+  ): Promise<true | ValidationError> {
+    try {
+      await (await this.getDirectory("partial")).removeEntry(
+        this.getKey(digest),
+      );
+
+      return true;
+    } catch {
+      return new ValidationError("No partial payload with that digest found.");
+    }
+  }
+
+  async length(payloadHash: PayloadDigest): Promise<bigint> {
+    const handle = await getFileHandle(
+      await this.getDirectory(),
+      this.getKey(payloadHash),
+    );
+
+    if (!handle) {
+      return BigInt(0);
+    }
+
+    return BigInt((await handle.getFile()).size);
+  }
+
+  async set(
+    payload: Uint8Array | AsyncIterable<Uint8Array>,
+  ): Promise<{ digest: PayloadDigest; length: bigint; payload: Payload }> {
+    try {
+      const { handle, length } = await this.stage(payload, 0);
+
+      const digest = await this.payloadScheme.fromBytes(
+        (await handle.getFile()).stream(),
+      );
+
+      const directory = await this.getDirectory();
+      const key = this.getKey(digest);
+
+      await moveFile(
+        handle,
+        await this.getDirectory("staging"),
+        directory,
+        key,
+      );
+
+      return {
+        digest,
+        length: BigInt(length),
+        payload: this.getPayload(await directory.getFileHandle(key)),
+      };
+    } catch (err) {
+      throw new WillowError("Payload driver error: " + err);
+    }
+  }
+
+  async receive(
+    opts: {
+      payload: AsyncIterable<Uint8Array> | Uint8Array;
+      offset: number;
+      expectedLength: bigint;
+      expectedDigest: PayloadDigest;
+      verifier?: PayloadVerifier;
+    },
+  ): Promise<
+    {
+      digest: PayloadDigest;
+      length: bigint;
+      failedVerification: boolean;
+      commit: (isCompletePayload: boolean) => Promise<void>;
+      reject: () => Promise<void>;
+    }
+  > {
+    try {
+      const key = this.getKey(opts.expectedDigest);
+
+      const partial = opts.offset > 0
+        ? await getFileHandle(await this.getDirectory("partial"), key)
+        : undefined;
+
+      const verified = opts.verifier
+        ? verifyChunks(
+          opts.payload,
+          opts.offset,
+          opts.expectedLength,
+          opts.verifier,
+        )
+        : undefined;
+
+      const { handle, length } = await this.stage(
+        verified?.payload ?? opts.payload,
+        opts.offset,
+        Number(opts.expectedLength),
+        partial,
+      );
+
+      const digest = await this.payloadScheme.fromBytes(
+        (await handle.getFile()).stream(),
+      );
+
+      return {
+        digest,
+        length: BigInt(length),
+        failedVerification: verified?.failed() ?? false,
+        commit: async (isCompletePayload) => {
+          const staging = await this.getDirectory("staging");
+          const partials = await this.getDirectory("partial");
+
+          if (!isCompletePayload) {
+            await moveFile(handle, staging, partials, key);
+
+            return;
+          }
+
+          await moveFile(handle, staging, await this.getDirectory(), key);
+
+          // The completed payload replaces its partial payload.
+          if (await getFileHandle(partials, key)) {
+            await partials.removeEntry(key);
+          }
+        },
+        reject: async () => {
+          await (await this.getDirectory("staging")).removeEntry(handle.name);
+        },
+      };
+    } catch (err) {
+      throw new WillowError("Payload driver error: " + err);
+    }
+  }
+}
@@ -4,9 +4,23 @@ import { PayloadDriverMemory } from "./memory.ts";
 import { testSchemePayload } from "../../../test/test_schemes.ts";
 import { PayloadDriverFilesystem } from "./filesystem.ts";
 import { PayloadDriverIndexedDb } from "./indexeddb.ts";
+import { PayloadDriverHybrid } from "./hybrid.ts";
+import { PayloadDriverChunked } from "./chunked.ts";
+import { EncryptedPayloadDriver } from "./encrypted.ts";
+import { PayloadDriverOpfs } from "./opfs.ts";
+import { KvDriverInMemory } from "../kv/kv_driver_in_memory.ts";
+import { KvDriverDeno } from "../kv/kv_driver_deno.ts";
 import "https://deno.land/x/indexeddb@1.3.5/polyfill_memory.ts";
+import { createOpfsRoot } from "../../../test/opfs_shim.ts";
 import { notErr } from "../../../errors.ts";
-import { assert, assertEquals, assertNotEquals } from "@std/assert";
+import {
+  assert,
+  assertArrayIncludes,
+  assertEquals,
+  assertNotEquals,
+  assertRejects,
+} from "@std/assert";
+import { concat, equals } from "@std/bytes";
 import { delay } from "@std/async";
 
 testPayloadDriver("Memory", () => {
@@ -23,6 +37,238 @@ testPayloadDriver("IndexedDB", () => {
   return new PayloadDriverIndexedDb('test', testSchemePayload);
 }, () => Promise.resolve());
 
+// A threshold of 12 bytes stores the 16 byte payloads used below as files,
+// and moves their 8 byte partial payloads to the filesystem once they are completed.
+testPayloadDriver("Hybrid", () => {
+  return new PayloadDriverHybrid({
+    kvDriver: new KvDriverInMemory(),
+    path: "test_hybrid",
+    payloadScheme: testSchemePayload,
+    threshold: 12,
+  });
+}, async () => {
+  await Deno.remove("test_hybrid", { recursive: true });
+});
+
+const denoKvDriver = new KvDriverDeno(await Deno.openKv(":memory:"));
+
+testPayloadDriver("Hybrid (Deno KV)", () => {
+  return new PayloadDriverHybrid({
+    kvDriver: denoKvDriver,
+    path: "test_hybrid",
+    payloadScheme: testSchemePayload,
+    threshold: 12,
+  });
+}, async () => {
+  await denoKvDriver.clear();
+  await Deno.remove("test_hybrid", { recursive: true });
+});
+
+Deno.test("Stores small payloads in the KvDriver (Hybrid)", async () => {
+  const kvDriver = new KvDriverInMemory();
+
+  const driver = new PayloadDriverHybrid({
+    kvDriver,
+    path: "test_hybrid_small",
+    payloadScheme: testSchemePayload,
+    threshold: 12,
+  });
+
+  const small = crypto.getRandomValues(new Uint8Array(8));
+
+  const { digest } = await driver.set(new Blob([small]).stream());
+
+  assertEquals(
+    await kvDriver.get(["payload", testSchemePayload.encode(digest)]),
+    small,
+  );
+
+  const result = await driver.get(digest);
+
+  assert(result);
+  assertEquals(await result.bytes(4), small.slice(4));
+  assertEquals(await driver.length(digest), 8n);
+
+  assert(notErr(await driver.erase(digest)));
+  assertEquals(await driver.get(digest), undefined);
+  assert(!notErr(await driver.erase(digest)));
+
+  // Nothing was written to the filesystem.
+  let wroteFiles = true;
+
+  try {
+    await Deno.lstat("test_hybrid_small");
+  } catch {
+    wroteFiles = false;
+  }
+
+  assert(!wroteFiles);
+});
+
+// Chunks of 4 to 16 bytes split the 16 byte payloads used below into several chunks.
+testPayloadDriver("Chunked", () => {
+  return new PayloadDriverChunked({
+    kvDriver: new KvDriverInMemory(),
+    payloadScheme: testSchemePayload,
+    chunker: { minSize: 4, avgSize: 8, maxSize: 16 },
+  });
+}, () => Promise.resolve());
+
+const encryptionKey = await crypto.subtle.generateKey(
+  { name: "AES-GCM", length: 256 },
+  false,
+  ["encrypt", "decrypt"],
+);
+
+// Chunks of 5 bytes make reads (and resumed transfers) from the 8 byte offsets used below start partway through a chunk.
+testPayloadDriver("Encrypted", () => {
+  return new EncryptedPayloadDriver({
+    kvDriver: new KvDriverInMemory(),
+    key: encryptionKey,
+    payloadScheme: testSchemePayload,
+    chunkSize: 5,
+  });
+}, () => Promise.resolve());
+
+testPayloadDriver("OPFS", () => {
+  return new PayloadDriverOpfs("test", testSchemePayload, createOpfsRoot());
+}, () => Promise.resolve());
+
+Deno.test("Stores shared chunks once (Chunked)", async () => {
+  const kvDriver = new KvDriverInMemory();
+
+  const driver = new PayloadDriverChunked({
+    kvDriver,
+    payloadScheme: testSchemePayload,
+    chunker: { minSize: 64, avgSize: 128, maxSize: 256 },
+  });
+
+  const shared = crypto.getRandomValues(new Uint8Array(4096));
+
+  const first = concat([shared, new Uint8Array([1, 2, 3])]);
+  const second = concat([shared, new Uint8Array([4, 5, 6])]);
+
+  const { digest: firstDigest } = await driver.set(first);
+  const { digest: secondDigest } = await driver.set(second);
+
+  const stats = await driver.stats();
+
+  assertEquals(stats.payloadBytes, BigInt(first.byteLength * 2));
+  assert(stats.savedBytes > 0n);
+
+  // Erasing one payload keeps the chunks the other is made of.
+  assert(notErr(await driver.erase(firstDigest)));
+  assertEquals(await (await driver.get(secondDigest))?.bytes(), second);
+  assertEquals(
+    await (await driver.get(secondDigest))?.bytes(4000),
+    second.slice(4000),
+  );
+
+  // Erasing the last payload erases all its chunks.
+  assert(notErr(await driver.erase(secondDigest)));
+  assertEquals((await driver.stats()).storedBytes, 0n);
+});
+
+Deno.test("Counts references to shared chunks written concurrently (Chunked)", async () => {
+  const driver = new PayloadDriverChunked({
+    kvDriver: new KvDriverInMemory(),
+    payloadScheme: testSchemePayload,
+    chunker: { minSize: 64, avgSize: 128, maxSize: 256 },
+  });
+
+  const shared = crypto.getRandomValues(new Uint8Array(2048));
+
+  const payloads = Array.from(
+    { length: 8 },
+    (_, i) => concat([shared, new Uint8Array([i, i, i])]),
+  );
+
+  const digests = (await Promise.all(
+    payloads.map((payload) => driver.set(payload)),
+  )).map(({ digest }) => digest);
+
+  await Promise.all(digests.slice(1).map((digest) => driver.erase(digest)));
+
+  assertEquals(await (await driver.get(digests[0]))?.bytes(), payloads[0]);
+
+  assert(notErr(await driver.erase(digests[0])));
+  assertEquals((await driver.stats()).storedBytes, 0n);
+});
+
+Deno.test("Appends received bytes to partial payloads (Encrypted)", async () => {
+  const kvDriver = new KvDriverInMemory();
+
+  const driver = new EncryptedPayloadDriver({
+    kvDriver,
+    key: encryptionKey,
+    payloadScheme: testSchemePayload,
+    chunkSize: 4,
+  });
+
+  const payload = crypto.getRandomValues(new Uint8Array(30));
+  const digest = await testSchemePayload.fromBytes(payload);
+
+  const listChunks = async () => {
+    const chunks = await collect(
+      kvDriver.list<Uint8Array>({ prefix: ["chunks"] }),
+    );
+
+    return chunks.map(({ value }) => value);
+  };
+
+  const first = await driver.receive({
+    payload: payload.slice(0, 10),
+    offset: 0,
+    expectedLength: BigInt(30),
+    expectedDigest: digest,
+  });
+
+  await first.commit(false);
+
+  const before = await listChunks();
+
+  const second = await driver.receive({
+    payload: payload.slice(10, 20),
+    offset: 10,
+    expectedLength: BigInt(30),
+    expectedDigest: digest,
+  });
+
+  // Nothing changes until the received bytes are committed.
+  assertEquals(await listChunks(), before);
+
+  await second.commit(false);
+
+  const after = await listChunks();
+
+  // Only the chunk the offset fell in was encrypted again.
+  assertEquals(after.length, 5);
+  assertEquals(after.slice(0, 2), before.slice(0, 2));
+  assertNotEquals(after[2], before[2]);
+
+  const third = await driver.receive({
+    payload: payload.slice(20),
+    offset: 20,
+    expectedLength: BigInt(30),
+    expectedDigest: digest,
+  });
+
+  await third.commit(true);
+
+  assertEquals(await (await driver.get(digest))?.bytes(), payload);
+  assertEquals(await (await driver.get(digest))?.bytes(13), payload.slice(13));
+
+  // Cutting off the final chunk is detected, even if the length is changed to match.
+  const [{ key, value }] = await collect(
+    kvDriver.list<{ id: Uint8Array; length: number }>({ prefix: ["payload"] }),
+  );
+
+  await kvDriver.set(key, { ...value, length: 28 });
+  await kvDriver.delete(["chunks", value.id, 7]);
+
+  await assertRejects(async () => await (await driver.get(digest))?.bytes());
+});
+
 function testPayloadDriver(
   name: string,
   makeDriver: () => PayloadDriver<ArrayBuffer>,
@@ -156,6 +402,130 @@ function testPayloadDriver(
     await delay(0);
   });
 
+  Deno.test(`receive with a verifier (${name})`, async () => {
+    const driver = makeDriver();
+
+    const bytes = crypto.getRandomValues(new Uint8Array(16));
+    const digest = await testSchemePayload.fromBytes(bytes);
+
+    // Accepts chunks of four bytes matching the payload's.
+    const verifier = {
+      chunkSize: 4,
+      verifyChunk: (index: number, chunk: Uint8Array) =>
+        Promise.resolve(
+          equals(chunk, bytes.subarray(index * 4, index * 4 + 4)),
+        ),
+    };
+
+    const tampered = bytes.slice();
+    tampered[9] ^= 0xff;
+
+    // Only the chunks before the tampered one are kept.
+    const resTampered = await driver.receive({
+      expectedDigest: digest,
+      expectedLength: 16n,
+      offset: 0,
+      payload: new Blob([tampered]).stream(),
+      verifier,
+    });
+
+    assert(resTampered.failedVerification);
+    assertEquals(resTampered.length, 8n);
+
+    await resTampered.commit(false);
+
+    // The rest can be received from the end of the verified chunks.
+    const resRest = await driver.receive({
+      expectedDigest: digest,
+      expectedLength: 16n,
+      offset: 8,
+      payload: bytes.subarray(8),
+      verifier,
+    });
+
+    assert(!resRest.failedVerification);
+    assertEquals(resRest.length, 16n);
+    assertEquals(resRest.digest, digest);
+
+    await resRest.commit(true);
+
+    assertEquals(await (await driver.get(digest))?.bytes(), bytes);
+
+    await delay(0);
+  });
+
+  Deno.test(`digests (${name})`, async () => {
+    const driver = makeDriver();
+
+    const bytes = crypto.getRandomValues(new Uint8Array(16));
+    const { digest } = await driver.set(bytes);
+
+    const partialBytes = crypto.getRandomValues(new Uint8Array(16));
+    const partialDigest = await testSchemePayload.fromBytes(partialBytes);
+
+    const received = await driver.receive({
+      expectedDigest: partialDigest,
+      expectedLength: 16n,
+      offset: 0,
+      payload: partialBytes.subarray(0, 8),
+    });
+
+    await received.commit(false);
+
+    const digests = [];
+
+    for await (const held of driver.digests()) {
+      digests.push(testSchemePayload.encode(held));
+    }
+
+    // Only complete payloads are included.
+    assertArrayIncludes(digests, [testSchemePayload.encode(digest)]);
+    assert(
+      !digests.some((held) =>
+        equals(held, testSchemePayload.encode(partialDigest))
+      ),
+    );
+
+    await delay(0);
+  });
+
+  Deno.test(`partials and erasePartial (${name})`, async () => {
+    const driver = makeDriver();
+
+    const bytes = crypto.getRandomValues(new Uint8Array(16));
+    const digest = await testSchemePayload.fromBytes(bytes);
+
+    const received = await driver.receive({
+      expectedDigest: digest,
+      expectedLength: 16n,
+      offset: 0,
+      payload: bytes.subarray(0, 8),
+    });
+
+    await received.commit(false);
+
+    const findPartial = async () => {
+      for await (const partial of driver.partials()) {
+        if (
+          equals(
+            testSchemePayload.encode(partial.digest),
+            testSchemePayload.encode(digest),
+          )
+        ) {
+          return partial;
+        }
+      }
+    };
+
+    assertEquals((await findPartial())?.length, 8n);
+
+    assert(notErr(await driver.erasePartial(digest)));
+    assertEquals(await findPartial(), undefined);
+    assert(!notErr(await driver.erasePartial(digest)));
+
+    await delay(0);
+  });
+
   Deno.test(`Partial payloads (${name})`, async () => {
     const driver = makeDriver();
 
@@ -228,3 +598,16 @@ function testPayloadDriver(
     await dispose();
   });
 }
+
+/**
+ * Collect an async iterator into an array.
+ */
+async function collect<T>(iter: AsyncIterable<T>): Promise<T[]> {
+  const arr: T[] = [];
+
+  for await (const item of iter) {
+    arr.push(item);
+  }
+
+  return arr;
+}
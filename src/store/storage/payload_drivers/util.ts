@@ -1,3 +1,6 @@
+import { concat } from "@std/bytes";
+import type { PayloadVerifier } from "../../types.ts";
+
 export async function collectUint8Arrays(
   it: AsyncIterable<Uint8Array>,
 ): Promise<Uint8Array> {
@@ -19,3 +22,56 @@ export async function collectUint8Arrays(
   }
   return collected;
 }
+
+/** Passes on the received bytes of a payload which a {@linkcode PayloadVerifier} accepts, chunk by chunk, stopping at the first chunk it rejects.
+ *
+ * An incomplete chunk at the end of the received bytes can't be verified, so it is not passed on. Nor is anything past the expected length.
+ */
+export function verifyChunks(
+  payload: Uint8Array | AsyncIterable<Uint8Array>,
+  offset: number,
+  expectedLength: bigint,
+  verifier: PayloadVerifier,
+): { payload: AsyncIterable<Uint8Array>; failed: () => boolean } {
+  let failed = false;
+
+  async function* verified(): AsyncIterable<Uint8Array> {
+    const end = Number(expectedLength);
+
+    let start = offset;
+    let buffer = new Uint8Array();
+
+    for await (
+      const bytes of payload instanceof Uint8Array ? [payload] : payload
+    ) {
+      buffer = buffer.byteLength === 0 ? bytes : concat([buffer, bytes]);
+
+      while (start < end) {
+        const length = Math.min(verifier.chunkSize, end - start);
+
+        if (buffer.byteLength < length) {
+          break;
+        }
+
+        const chunk = buffer.slice(0, length);
+
+        if (!(await verifier.verifyChunk(start / verifier.chunkSize, chunk))) {
+          failed = true;
+
+          return;
+        }
+
+        yield chunk;
+
+        start += length;
+        buffer = buffer.subarray(length);
+      }
+
+      if (start >= end) {
+        return;
+      }
+    }
+  }
+
+  return { payload: verified(), failed: () => failed };
+}
@@ -19,12 +19,14 @@ import {
 } from "../../../test/utils.ts";
 import type { LengthyEntry, QueryOrder, StoreSchemes } from "../../types.ts";
 import { TripleStorage } from "./triple_storage.ts";
+import { ZOrderStorage } from "./z_order_storage.ts";
 import type { RangeOfInterest, Storage3d } from "./types.ts";
 import { sample } from "@std/collections";
 import { Store } from "../../store.ts";
 import { RadixTree } from "../prefix_iterators/radix_tree.ts";
 import { Skiplist } from "../summarisable_storage/monoid_skiplist.ts";
 import { KvDriverInMemory } from "../kv/kv_driver_in_memory.ts";
+import { AuthTokenDriverMemory } from "../auth_token_drivers/memory.ts";
 import { assert, assertEquals } from "@std/assert";
 import {
   ANY_SUBSPACE,
@@ -124,7 +126,49 @@ const tripleStorageScenario = {
   },
 };
 
-const scenarios = [tripleStorageScenario];
+const zOrderStorageScenario = {
+  name: "Z-order storage",
+  makeScenario: <
+    NamespaceId,
+    SubspaceId,
+    PayloadDigest,
+    AuthorisationOpts,
+    AuthorisationToken,
+    Prefingerprint,
+    Fingerprint,
+  >(
+    namespace: NamespaceId,
+    params: StoreSchemes<
+      NamespaceId,
+      SubspaceId,
+      PayloadDigest,
+      AuthorisationOpts,
+      AuthorisationToken,
+      Prefingerprint,
+      Fingerprint
+    >,
+  ) => {
+    const storage = new ZOrderStorage({
+      namespace,
+      pathScheme: params.path,
+      subspaceScheme: params.subspace,
+      payloadScheme: params.payload,
+      fingerprintScheme: params.fingerprint,
+      createSummarisableStorage: (monoid) => {
+        return new Skiplist({
+          monoid,
+          kv: new KvDriverInMemory(),
+          logicalValueEq: equalsBytes,
+        });
+      },
+      getPayloadLength: () => Promise.resolve(BigInt(0)),
+    });
+
+    return Promise.resolve({ storage, dispose: () => Promise.resolve() });
+  },
+};
+
+const scenarios = [tripleStorageScenario, zOrderStorageScenario];
 
 Deno.test("Storage3d.insert, get, and remove", async (test) => {
   for (const scenario of scenarios) {
@@ -594,19 +638,19 @@ Deno.test("Storage3d.query", async (test) => {
           return storage;
         },
         prefixIterator: new RadixTree<Uint8Array>(),
-        writeAheadFlag: {
-          wasInserting: () => Promise.resolve(undefined),
-          wasRemoving: () => Promise.resolve(undefined),
-          flagInsertion: () => Promise.resolve(),
-          flagRemoval: () => Promise.resolve(),
-          unflagInsertion: () => Promise.resolve(),
-          unflagRemoval: () => Promise.resolve(),
+        writeAheadJournal: {
+          pending: () => Promise.resolve(undefined),
+          record: () => Promise.resolve(),
+          markCommitted: () => Promise.resolve(),
+          clear: () => Promise.resolve(),
         },
+        transaction: (fn) => fn(),
         payloadReferenceCounter: {
           count: () => Promise.resolve(0),
           increment: () => Promise.resolve(0),
           decrement: () => Promise.resolve(0),
         },
+        authTokenDriver: new AuthTokenDriverMemory(testSchemePayload),
       },
     });
 
@@ -1006,19 +1050,19 @@ Deno.test("Storage3d.splitRange", async () => {
             return storage;
           },
           prefixIterator: new RadixTree<Uint8Array>(),
-          writeAheadFlag: {
-            wasInserting: () => Promise.resolve(undefined),
-            wasRemoving: () => Promise.resolve(undefined),
-            flagInsertion: () => Promise.resolve(),
-            flagRemoval: () => Promise.resolve(),
-            unflagInsertion: () => Promise.resolve(),
-            unflagRemoval: () => Promise.resolve(),
+          writeAheadJournal: {
+            pending: () => Promise.resolve(undefined),
+            record: () => Promise.resolve(),
+            markCommitted: () => Promise.resolve(),
+            clear: () => Promise.resolve(),
           },
+          transaction: (fn) => fn(),
           payloadReferenceCounter: {
             count: () => Promise.resolve(0),
             increment: () => Promise.resolve(0),
             decrement: () => Promise.resolve(0),
           },
+          authTokenDriver: new AuthTokenDriverMemory(testSchemePayload),
         },
       });
 
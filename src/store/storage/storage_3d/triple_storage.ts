@@ -1,14 +1,18 @@
 import type {
+  AreaStats,
   FingerprintScheme,
   PayloadScheme,
   QueryOrder,
   SubspaceScheme,
 } from "../../types.ts";
-import type { LiftingMonoid } from "../summarisable_storage/lifting_monoid.ts";
+import {
+  combineMonoid,
+  type LiftingMonoid,
+} from "../summarisable_storage/lifting_monoid.ts";
 import type { SummarisableStorage } from "../summarisable_storage/types.ts";
 import type { RangeOfInterest, Storage3d } from "./types.ts";
 import { WillowError } from "../../../errors.ts";
-import type { KvKey } from "../kv/types.ts";
+import { compareKeys, type KvDriver, type KvKey } from "../kv/types.ts";
 import {
   type AreaOfInterest,
   areaTo3dRange,
@@ -26,7 +30,8 @@ import {
   type Range3d,
   successorPath,
 } from "@earthstar/willow-utils";
-import { concat } from "@std/bytes";
+import { concat, equals } from "@std/bytes";
+import { encodeBase64 } from "@std/encoding/base64";
 
 export type TripleStorageOpts<
   NamespaceId,
@@ -37,10 +42,10 @@ export type TripleStorageOpts<
 > = {
   namespace: NamespaceId;
   /** Creates a {@link SummarisableStorage} with a given ID, used for storing entries and their data. */
-  createSummarisableStorage: (
-    monoid: LiftingMonoid<[KvKey, Uint8Array], Prefingerprint>,
+  createSummarisableStorage: <SummaryData>(
+    monoid: LiftingMonoid<[KvKey, Uint8Array], SummaryData>,
     id: string,
-  ) => SummarisableStorage<KvKey, Uint8Array, Prefingerprint>;
+  ) => SummarisableStorage<KvKey, Uint8Array, SummaryData>;
   subspaceScheme: SubspaceScheme<SubspaceId>;
   payloadScheme: PayloadScheme<PayloadDigest>;
   pathScheme: PathScheme;
@@ -52,6 +57,19 @@ export type TripleStorageOpts<
     Fingerprint
   >;
   getPayloadLength: (digest: PayloadDigest) => Promise<bigint>;
+  /** Where to record the format of the summaries persisted by each `SummarisableStorage`. Storages whose summaries were written in an older format (or by a version which did not record it) are rebuilt before they are first used. Omit if the storages do not persist their summaries. */
+  summaryVersions?: KvDriver;
+};
+
+// The format of the summaries held by each storage. Increment whenever their shape changes, so that persisted storages are rebuilt.
+// 0: The entries' prefingerprints.
+// 1: The entries' prefingerprints and their payload lengths.
+const SUMMARY_VERSION = 1;
+
+/** The total declared and locally available payload lengths of a set of entries. */
+type PayloadLengths = {
+  declared: bigint;
+  available: bigint;
 };
 
 /** A `Storage3d` made up of three `SummarisableStorage` holding the same data in three different orders: subspace, path, and timestamp. */
@@ -70,9 +88,26 @@ export class TripleStorage<
   > {
   private namespace: NamespaceId;
 
-  private ptsStorage: SummarisableStorage<KvKey, Uint8Array, Prefingerprint>;
-  private sptStorage: SummarisableStorage<KvKey, Uint8Array, Prefingerprint>;
-  private tspStorage: SummarisableStorage<KvKey, Uint8Array, Prefingerprint>;
+  private ptsStorage: SummarisableStorage<
+    KvKey,
+    Uint8Array,
+    [Prefingerprint, PayloadLengths]
+  >;
+  private sptStorage: SummarisableStorage<
+    KvKey,
+    Uint8Array,
+    [Prefingerprint, PayloadLengths]
+  >;
+  private tspStorage: SummarisableStorage<
+    KvKey,
+    Uint8Array,
+    [Prefingerprint, PayloadLengths]
+  >;
+  /** Summarises entries into their fingerprint and payload lengths. */
+  private summaryMonoid: LiftingMonoid<
+    [KvKey, Uint8Array],
+    [Prefingerprint, PayloadLengths]
+  >;
   private subspaceScheme: SubspaceScheme<SubspaceId>;
   private payloadScheme: PayloadScheme<PayloadDigest>;
   private fingerprintScheme: FingerprintScheme<
@@ -84,6 +119,9 @@ export class TripleStorage<
   >;
   private pathScheme: PathScheme;
 
+  // Resolves once every storage holds summaries of the current format.
+  private ready: Promise<void>;
+
   constructor(
     opts: TripleStorageOpts<
       NamespaceId,
@@ -126,26 +164,90 @@ export class TripleStorage<
       return opts.fingerprintScheme.fingerprintSingleton({ entry, available });
     };
 
-    this.ptsStorage = opts.createSummarisableStorage({
-      lift: ([key, value]) => lift(key, value, "path"),
-      combine: opts.fingerprintScheme.fingerprintCombine,
-      neutral: opts.fingerprintScheme.neutral,
-    }, "pts");
-    this.sptStorage = opts.createSummarisableStorage({
-      lift: ([key, value]) => lift(key, value, "subspace"),
-      combine: opts.fingerprintScheme.fingerprintCombine,
-      neutral: opts.fingerprintScheme.neutral,
-    }, "spt");
-    this.tspStorage = opts.createSummarisableStorage({
-      lift: ([key, value]) => lift(key, value, "timestamp"),
-      combine: opts.fingerprintScheme.fingerprintCombine,
-      neutral: opts.fingerprintScheme.neutral,
-    }, "tsp");
+    const payloadLengthMonoid: LiftingMonoid<
+      [KvKey, Uint8Array],
+      PayloadLengths
+    > = {
+      lift: async ([, value]) => {
+        const values = decodeKvValue(value, this.payloadScheme);
+
+        return {
+          declared: values.payloadLength,
+          available: await opts.getPayloadLength(values.payloadHash) ||
+            BigInt(0),
+        };
+      },
+      combine: (a, b) => ({
+        declared: a.declared + b.declared,
+        available: a.available + b.available,
+      }),
+      neutral: { declared: BigInt(0), available: BigInt(0) },
+    };
+
+    const makeMonoid = (order: "path" | "subspace" | "timestamp") =>
+      combineMonoid<[KvKey, Uint8Array], Prefingerprint, PayloadLengths>(
+        {
+          lift: ([key, value]) => lift(key, value, order),
+          combine: opts.fingerprintScheme.fingerprintCombine,
+          neutral: opts.fingerprintScheme.neutral,
+        },
+        payloadLengthMonoid,
+      );
+
+    // All three share the same combine function and neutral element.
+    this.summaryMonoid = makeMonoid("timestamp");
+
+    this.ptsStorage = opts.createSummarisableStorage(makeMonoid("path"), "pts");
+    this.sptStorage = opts.createSummarisableStorage(
+      makeMonoid("subspace"),
+      "spt",
+    );
+    this.tspStorage = opts.createSummarisableStorage(
+      this.summaryMonoid,
+      "tsp",
+    );
 
     this.subspaceScheme = opts.subspaceScheme;
     this.payloadScheme = opts.payloadScheme;
     this.fingerprintScheme = opts.fingerprintScheme;
     this.pathScheme = opts.pathScheme;
+
+    this.ready = opts.summaryVersions
+      ? this.rebuildOutdatedStorages(opts.summaryVersions)
+      : Promise.resolve();
+  }
+
+  // Rebuild the storages whose summaries are not of the current format.
+  // Each storage is rebuilt from the entries of one which is not being rebuilt, and its version is recorded once it is complete. So if a rebuild is interrupted, the next one picks up where it left off.
+  private async rebuildOutdatedStorages(summaryVersions: KvDriver) {
+    const orderings = [
+      { id: "tsp", order: "timestamp", storage: this.tspStorage },
+      { id: "pts", order: "path", storage: this.ptsStorage },
+      { id: "spt", order: "subspace", storage: this.sptStorage },
+    ] as const;
+
+    // The timestamp ordering is rebuilt first, from the subspace ordering. Every ordering after it is rebuilt from the one before.
+    let source: typeof orderings[number] = orderings[2];
+
+    for (const ordering of orderings) {
+      const version = await summaryVersions.get<number>([ordering.id]);
+
+      if (version !== SUMMARY_VERSION) {
+        await ordering.storage.clear();
+
+        for await (const { key, value } of source.storage.allEntries()) {
+          const keys = this.encodeEntryKeys(
+            this.decodeEntryKey(key, source.order),
+          );
+
+          await ordering.storage.insert(keys[ordering.id]!, value);
+        }
+
+        await summaryVersions.set([ordering.id], SUMMARY_VERSION);
+      }
+
+      source = ordering;
+    }
   }
 
   async get(
@@ -191,6 +293,8 @@ export class TripleStorage<
       authTokenDigest: PayloadDigest;
     },
   ): Promise<void> {
+    await this.ready;
+
     const keys = this.encodeEntryKeys(
       {
         path,
@@ -218,6 +322,8 @@ export class TripleStorage<
   async remove(
     entry: Entry<NamespaceId, SubspaceId, PayloadDigest>,
   ): Promise<boolean> {
+    await this.ready;
+
     const keys = this.encodeEntryKeys(
       {
         path: entry.path,
@@ -238,7 +344,84 @@ export class TripleStorage<
   async summarise(
     range: Range3d<SubspaceId>,
   ): Promise<{ fingerprint: Prefingerprint; size: number }> {
-    let prefingerprint = this.fingerprintScheme.neutral;
+    const { fingerprint: [prefingerprint], size } = await this
+      .summariseRange(range);
+
+    return {
+      fingerprint: prefingerprint,
+      size,
+    };
+  }
+
+  async stats(range: Range3d<SubspaceId>): Promise<AreaStats> {
+    const { fingerprint: [, lengths], size } = await this.summariseRange(
+      range,
+    );
+
+    return {
+      count: size,
+      payloadLength: lengths.declared,
+      availablePayloadLength: lengths.available,
+    };
+  }
+
+  /** Summarise the entries included by a range into both their fingerprint and their payload lengths. */
+  private async summariseRange(
+    range: Range3d<SubspaceId>,
+  ): Promise<{ fingerprint: [Prefingerprint, PayloadLengths]; size: number }> {
+    await this.ready;
+
+    const isAnyTime = range.timeRange.start === BigInt(0) &&
+      range.timeRange.end === OPEN_END;
+
+    const isAnySubspace = this.subspaceScheme.order(
+          range.subspaceRange.start,
+          this.subspaceScheme.minimalSubspaceId,
+        ) === 0 && range.subspaceRange.end === OPEN_END;
+
+    const subspaceSuccessor = this.subspaceScheme.successor(
+      range.subspaceRange.start,
+    );
+
+    const isSingleSubspace = range.subspaceRange.end === OPEN_END
+      ? subspaceSuccessor === null
+      : subspaceSuccessor !== null &&
+        this.subspaceScheme.order(
+            subspaceSuccessor,
+            range.subspaceRange.end,
+          ) === 0;
+
+    const encodedPathEnd = range.pathRange.end !== OPEN_END
+      ? encodePathWithSeparators(range.pathRange.end)
+      : undefined;
+
+    // Where a range only constrains paths, the entries it includes are contiguous in the path-timestamp-subspace ordering.
+    if (isAnyTime && isAnySubspace) {
+      return this.ptsStorage.summarise(
+        [encodePathWithSeparators(range.pathRange.start)],
+        encodedPathEnd ? [encodedPathEnd] : undefined,
+      );
+    }
+
+    // Where a range constrains paths within a single subspace, the entries it includes are contiguous in the subspace-path-timestamp ordering.
+    if (isAnyTime && isSingleSubspace) {
+      const encodedSubspace = this.subspaceScheme.encode(
+        range.subspaceRange.start,
+      );
+
+      const subspaceEnd = successorBytes(encodedSubspace);
+
+      return this.sptStorage.summarise(
+        [encodedSubspace, encodePathWithSeparators(range.pathRange.start)],
+        encodedPathEnd
+          ? [encodedSubspace, encodedPathEnd]
+          : subspaceEnd
+          ? [subspaceEnd]
+          : undefined,
+      );
+    }
+
+    let summary = this.summaryMonoid.neutral;
 
     /** The size of the fingerprint. */
     let size = 0;
@@ -265,15 +448,15 @@ export class TripleStorage<
 
     /** Run this when we detect a contiguous range of included entries. */
     const updateFingerprint = async (start: KvKey) => {
-      const { fingerprint: includedFp, size: includedSize } = await this
+      const { fingerprint: includedSummary, size: includedSize } = await this
         .tspStorage.summarise(
           start,
           leastExcluded,
         );
 
-      prefingerprint = this.fingerprintScheme.fingerprintCombine(
-        prefingerprint,
-        includedFp,
+      summary = this.summaryMonoid.combine(
+        summary,
+        includedSummary,
       );
 
       size += includedSize;
@@ -327,7 +510,7 @@ export class TripleStorage<
     }
 
     return {
-      fingerprint: prefingerprint,
+      fingerprint: summary,
       size,
     };
   }
@@ -347,6 +530,8 @@ export class TripleStorage<
       return range;
     }
 
+    await this.ready;
+
     let countUsed = 0;
     let sizeUsed = BigInt(0);
 
@@ -482,21 +667,49 @@ export class TripleStorage<
     rangeOfInterest: RangeOfInterest<SubspaceId>,
     order: QueryOrder,
     reverse = false,
+    after?: { subspace: SubspaceId; path: Path; timestamp: bigint },
   ): AsyncIterable<{
     entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
     authTokenHash: PayloadDigest;
   }> {
+    await this.ready;
+
     const storage = order === "subspace"
       ? this.sptStorage
       : order === "path"
       ? this.ptsStorage
       : this.tspStorage;
 
-    const { lowerBound, upperBound } = this.createBounds(
+    let { lowerBound, upperBound } = this.createBounds(
       rangeOfInterest.range,
       order,
     );
 
+    // Narrow the bounds so that iteration begins right after the given position.
+    if (after) {
+      const afterKeys = this.encodeEntryKeys(after);
+
+      const afterKey = order === "subspace"
+        ? afterKeys.spt!
+        : order === "path"
+        ? afterKeys.pts!
+        : afterKeys.tsp!;
+
+      if (reverse) {
+        // Upper bounds are exclusive, so this skips the entry at the given position.
+        if (!upperBound || compareKeys(afterKey, upperBound) < 0) {
+          upperBound = afterKey;
+        }
+      } else {
+        // All entry keys have three parts, so this is the least key greater than the given position's.
+        const successorKey = [...afterKey, new Uint8Array()];
+
+        if (!lowerBound || compareKeys(successorKey, lowerBound) > 0) {
+          lowerBound = successorKey;
+        }
+      }
+    }
+
     let entriesYielded = 0;
     let payloadBytesYielded = BigInt(0);
 
@@ -717,6 +930,77 @@ export class TripleStorage<
     // this way we won't exceed their limits.
   }
 
+  async *unindexedEntries(): AsyncIterable<
+    {
+      entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
+      authTokenHash: PayloadDigest;
+    }
+  > {
+    await this.ready;
+
+    const orderings = [
+      { order: "subspace", storage: this.sptStorage },
+      { order: "path", storage: this.ptsStorage },
+      { order: "timestamp", storage: this.tspStorage },
+    ] as const;
+
+    // The values stored for each entry in each ordering, keyed by the entry's `spt` key.
+    const stored = new Map<
+      string,
+      {
+        position: { subspace: SubspaceId; path: Path; timestamp: bigint };
+        values: (Uint8Array | undefined)[];
+      }
+    >();
+
+    for (const [index, { order, storage }] of orderings.entries()) {
+      for await (const { key, value } of storage.allEntries()) {
+        const position = this.decodeEntryKey(key, order);
+
+        const id = this.encodeEntryKeys(position).spt!.map((part) =>
+          encodeBase64(part as Uint8Array)
+        ).join(",");
+
+        const existing = stored.get(id) ?? {
+          position,
+          values: [undefined, undefined, undefined],
+        };
+
+        existing.values[index] = value;
+
+        stored.set(id, existing);
+      }
+    }
+
+    for (const { position, values } of stored.values()) {
+      const [first, ...rest] = values;
+
+      if (
+        first !== undefined &&
+        rest.every((value) => value !== undefined && equals(value, first))
+      ) {
+        continue;
+      }
+
+      const decoded = decodeKvValue(
+        values.find((value) => value !== undefined)!,
+        this.payloadScheme,
+      );
+
+      yield {
+        entry: {
+          namespaceId: this.namespace,
+          subspaceId: position.subspace,
+          path: position.path,
+          payloadDigest: decoded.payloadHash,
+          payloadLength: decoded.payloadLength,
+          timestamp: position.timestamp,
+        },
+        authTokenHash: decoded.authTokenHash,
+      };
+    }
+  }
+
   async updateAvailablePayload(
     subspace: SubspaceId,
     path: Path,
@@ -871,6 +1155,18 @@ export class TripleStorage<
   }
 }
 
+/** Returns the least byte string greater than all byte strings prefixed by the given one, or `undefined` if there is none. */
+export function successorBytes(bytes: Uint8Array): Uint8Array | undefined {
+  for (let i = bytes.byteLength - 1; i >= 0; i--) {
+    if (bytes[i] !== 255) {
+      const successor = bytes.slice(0, i + 1);
+      successor[i] += 1;
+
+      return successor;
+    }
+  }
+}
+
 /** Encodes some values associated with an entry to a single value to be stored in KV. */
 export function encodeKvValue<PayloadDigest>(
   {
@@ -4,7 +4,7 @@ import type {
   Path,
   Range3d,
 } from "@earthstar/willow-utils";
-import type { QueryOrder } from "../../types.ts";
+import type { AreaStats, QueryOrder } from "../../types.ts";
 
 /** A type exclusive to this implementation, used to make our lives easier. */
 export type RangeOfInterest<SubspaceId> = {
@@ -41,7 +41,7 @@ export interface Storage3d<
     authTokenDigest: PayloadDigest;
   }): Promise<void>;
 
-  /** Update the available payload bytes for a given entry. */
+  /** Update the available payload bytes for the entry at a subspace and path, so that summaries of ranges including it (and their fingerprints) reflect how much of its payload is currently held. Called whenever an entry's payload is ingested or evicted. Returns whether an entry is stored there. */
   updateAvailablePayload(
     subspace: SubspaceId,
     path: Path,
@@ -59,6 +59,9 @@ export interface Storage3d<
     range: Range3d<SubspaceId>,
   ): Promise<{ fingerprint: PreFingerprint; size: number }>;
 
+  /** Count the entries included by a given `Range3d`, and sum up their payload lengths. */
+  stats(range: Range3d<SubspaceId>): Promise<AreaStats>;
+
   /** Split a range into two smaller ranges. */
   splitRange(
     range: Range3d<SubspaceId>,
@@ -70,11 +73,21 @@ export interface Storage3d<
     areaOfInterest: AreaOfInterest<SubspaceId>,
   ): Promise<Range3d<SubspaceId>>;
 
+  /** Return all entries which are missing from, or stored differently in, any of this storage's internal orderings. Inserting such an entry again restores it to all orderings. */
+  unindexedEntries(): AsyncIterable<
+    {
+      entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
+      authTokenHash: PayloadDigest;
+    }
+  >;
+
   /** Return an async iterator of entries included by a `RangeOfInterest`. */
   query(
     rangeOfInterest: RangeOfInterest<SubspaceId>,
     order: QueryOrder,
     reverse?: boolean,
+    /** If given, only entries which come strictly after this position in the given order (or before it, if reversed) are returned. */
+    after?: { subspace: SubspaceId; path: Path; timestamp: bigint },
   ): AsyncIterable<
     {
       entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
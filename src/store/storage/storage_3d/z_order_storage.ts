@@ -0,0 +1,1224 @@
+import type {
+  AreaStats,
+  FingerprintScheme,
+  PayloadScheme,
+  QueryOrder,
+  SubspaceScheme,
+} from "../../types.ts";
+import {
+  combineMonoid,
+  type LiftingMonoid,
+} from "../summarisable_storage/lifting_monoid.ts";
+import type { SummarisableStorage } from "../summarisable_storage/types.ts";
+import type { RangeOfInterest, Storage3d } from "./types.ts";
+import { WillowError } from "../../../errors.ts";
+import { compareKeys, type KvKey } from "../kv/types.ts";
+import {
+  type AreaOfInterest,
+  areaTo3dRange,
+  bigintToBytes,
+  type Entry,
+  isIncluded3d,
+  isPathPrefixed,
+  OPEN_END,
+  orderPath,
+  type Path,
+  type PathScheme,
+  type Range3d,
+  successorPath,
+} from "@earthstar/willow-utils";
+import {
+  decodeKvValue,
+  decodePathWithSeparators,
+  encodeKvValue,
+  encodePathWithSeparators,
+  successorBytes,
+} from "./triple_storage.ts";
+
+export type ZOrderStorageOpts<
+  NamespaceId,
+  SubspaceId,
+  PayloadDigest,
+  Prefingerprint,
+  Fingerprint,
+> = {
+  namespace: NamespaceId;
+  /** Creates the {@link SummarisableStorage} used for storing entries and their data. */
+  createSummarisableStorage: <SummaryData>(
+    monoid: LiftingMonoid<[KvKey, Uint8Array], SummaryData>,
+    id: string,
+  ) => SummarisableStorage<KvKey, Uint8Array, SummaryData>;
+  subspaceScheme: SubspaceScheme<SubspaceId>;
+  payloadScheme: PayloadScheme<PayloadDigest>;
+  pathScheme: PathScheme;
+  fingerprintScheme: FingerprintScheme<
+    NamespaceId,
+    SubspaceId,
+    PayloadDigest,
+    Prefingerprint,
+    Fingerprint
+  >;
+  getPayloadLength: (digest: PayloadDigest) => Promise<bigint>;
+};
+
+/** The total declared and locally available payload lengths of a set of entries. */
+type PayloadLengths = {
+  declared: bigint;
+  available: bigint;
+};
+
+/** A point in the space of Z-order coordinates: subspace, path, and timestamp, in that order. */
+type Coordinates = [bigint, bigint, bigint];
+
+/** The smallest and greatest coordinates of a box. */
+type Box = [Coordinates, Coordinates];
+
+/** A run of consecutive stored keys, from `start` up to (but excluding) `end`. An `end` of `undefined` runs to the end of the storage. */
+type KeyRun = { start: KvKey; end: KvKey | undefined };
+
+/** An entry read from storage, along with whether it was included by the range being iterated over. */
+type BoxEntry<SubspaceId> = {
+  key: KvKey;
+  value: Uint8Array;
+  subspace: SubspaceId;
+  path: Path;
+  timestamp: bigint;
+  isIncluded: boolean;
+};
+
+/** How many bits of each dimension are interleaved into a Z-order key. */
+const DIMENSION_BITS = 64;
+
+/** The number of bytes of an interleaved Z-order key. */
+const Z_KEY_BYTES = DIMENSION_BITS * 3 / 8;
+
+const MAX_COORDINATE = (1n << BigInt(DIMENSION_BITS)) - 1n;
+
+const MAX_Z_KEY = (1n << BigInt(DIMENSION_BITS * 3)) - 1n;
+
+/** For each dimension, a mask of the bits belonging to it in an interleaved key. */
+const DIMENSION_MASKS: Coordinates = [0n, 0n, 0n];
+
+for (let bit = 0; bit < DIMENSION_BITS * 3; bit++) {
+  DIMENSION_MASKS[dimensionOfBit(bit)] |= 1n << BigInt(bit);
+}
+
+/** A `Storage3d` made up of a single `SummarisableStorage`, holding entries in Z-order.
+ *
+ * Keys begin with the bitwise interleaving of (the first eight bytes of) an entry's subspace, path, and timestamp, followed by the subspace, path, and timestamp themselves. Entries near each other in all three dimensions are near each other in storage, so that every entry only needs to be stored once.
+ *
+ * Queries must be returned in subspace, path, or timestamp order, so their results are collected and sorted in memory.
+ */
+export class ZOrderStorage<
+  NamespaceId,
+  SubspaceId,
+  PayloadDigest,
+  Prefingerprint,
+  Fingerprint,
+> implements
+  Storage3d<
+    NamespaceId,
+    SubspaceId,
+    PayloadDigest,
+    Prefingerprint
+  > {
+  private namespace: NamespaceId;
+
+  private storage: SummarisableStorage<
+    KvKey,
+    Uint8Array,
+    [Prefingerprint, PayloadLengths]
+  >;
+  /** Summarises entries into their fingerprint and payload lengths. */
+  private summaryMonoid: LiftingMonoid<
+    [KvKey, Uint8Array],
+    [Prefingerprint, PayloadLengths]
+  >;
+  private subspaceScheme: SubspaceScheme<SubspaceId>;
+  private payloadScheme: PayloadScheme<PayloadDigest>;
+  private pathScheme: PathScheme;
+
+  constructor(
+    opts: ZOrderStorageOpts<
+      NamespaceId,
+      SubspaceId,
+      PayloadDigest,
+      Prefingerprint,
+      Fingerprint
+    >,
+  ) {
+    this.namespace = opts.namespace;
+
+    const payloadLengthMonoid: LiftingMonoid<
+      [KvKey, Uint8Array],
+      PayloadLengths
+    > = {
+      lift: async ([, value]) => {
+        const values = decodeKvValue(value, this.payloadScheme);
+
+        return {
+          declared: values.payloadLength,
+          available: await opts.getPayloadLength(values.payloadHash) ||
+            BigInt(0),
+        };
+      },
+      combine: (a, b) => ({
+        declared: a.declared + b.declared,
+        available: a.available + b.available,
+      }),
+      neutral: { declared: BigInt(0), available: BigInt(0) },
+    };
+
+    this.summaryMonoid = combineMonoid<
+      [KvKey, Uint8Array],
+      Prefingerprint,
+      PayloadLengths
+    >(
+      {
+        lift: async ([key, value]) => {
+          const values = decodeKvValue(value, this.payloadScheme);
+
+          const { subspace, path, timestamp } = this.decodeEntryKey(key);
+
+          const entry: Entry<NamespaceId, SubspaceId, PayloadDigest> = {
+            namespaceId: this.namespace,
+            subspaceId: subspace,
+            path,
+            timestamp,
+            payloadDigest: values.payloadHash,
+            payloadLength: values.payloadLength,
+          };
+
+          const available = await opts.getPayloadLength(entry.payloadDigest) ||
+            BigInt(0);
+
+          return opts.fingerprintScheme.fingerprintSingleton({
+            entry,
+            available,
+          });
+        },
+        combine: opts.fingerprintScheme.fingerprintCombine,
+        neutral: opts.fingerprintScheme.neutral,
+      },
+      payloadLengthMonoid,
+    );
+
+    this.storage = opts.createSummarisableStorage(this.summaryMonoid, "zorder");
+
+    this.subspaceScheme = opts.subspaceScheme;
+    this.payloadScheme = opts.payloadScheme;
+    this.pathScheme = opts.pathScheme;
+  }
+
+  async get(
+    subspace: SubspaceId,
+    path: Path,
+  ): Promise<
+    {
+      entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
+      authTokenHash: PayloadDigest;
+    } | undefined
+  > {
+    const firstResult = this.query({
+      range: {
+        subspaceRange: {
+          start: subspace,
+          end: this.subspaceScheme.successor(subspace) || OPEN_END,
+        },
+        pathRange: {
+          start: path,
+          end: successorPath(path, this.pathScheme) || OPEN_END,
+        },
+        timeRange: {
+          start: BigInt(0),
+          end: OPEN_END,
+        },
+      },
+      maxCount: 1,
+      maxSize: BigInt(0),
+    }, "subspace");
+
+    for await (const result of firstResult) {
+      return result;
+    }
+  }
+
+  async insert(
+    { path, subspace, payloadDigest, timestamp, length, authTokenDigest }: {
+      path: Path;
+      subspace: SubspaceId;
+      payloadDigest: PayloadDigest;
+      timestamp: bigint;
+      length: bigint;
+      authTokenDigest: PayloadDigest;
+    },
+  ): Promise<void> {
+    const key = this.encodeEntryKey({ subspace, path, timestamp });
+
+    const toStore = encodeKvValue(
+      {
+        payloadDigest,
+        payloadLength: length,
+        authTokenDigest,
+        payloadScheme: this.payloadScheme,
+      },
+    );
+
+    await this.storage.insert(key, toStore);
+  }
+
+  remove(
+    entry: Entry<NamespaceId, SubspaceId, PayloadDigest>,
+  ): Promise<boolean> {
+    const key = this.encodeEntryKey({
+      subspace: entry.subspaceId,
+      path: entry.path,
+      timestamp: entry.timestamp,
+    });
+
+    return this.storage.remove(key);
+  }
+
+  async summarise(
+    range: Range3d<SubspaceId>,
+  ): Promise<{ fingerprint: Prefingerprint; size: number }> {
+    const { fingerprint: [prefingerprint], size } = await this
+      .summariseRange(range);
+
+    return {
+      fingerprint: prefingerprint,
+      size,
+    };
+  }
+
+  async stats(range: Range3d<SubspaceId>): Promise<AreaStats> {
+    const { fingerprint: [, lengths], size } = await this.summariseRange(
+      range,
+    );
+
+    return {
+      count: size,
+      payloadLength: lengths.declared,
+      availablePayloadLength: lengths.available,
+    };
+  }
+
+  /** Summarise the entries included by a range into both their fingerprint and their payload lengths.
+   *
+   * Included entries are summarised in contiguous runs, each of which only costs a single summarise op on the underlying storage.
+   */
+  private async summariseRange(
+    range: Range3d<SubspaceId>,
+  ): Promise<{ fingerprint: [Prefingerprint, PayloadLengths]; size: number }> {
+    const isAnyTime = range.timeRange.start === BigInt(0) &&
+      range.timeRange.end === OPEN_END;
+
+    const isAnySubspace = this.subspaceScheme.order(
+          range.subspaceRange.start,
+          this.subspaceScheme.minimalSubspaceId,
+        ) === 0 && range.subspaceRange.end === OPEN_END;
+
+    const isAnyPath = range.pathRange.start.length === 0 &&
+      range.pathRange.end === OPEN_END;
+
+    if (isAnyTime && isAnySubspace && isAnyPath) {
+      return this.storage.summarise();
+    }
+
+    let summary = this.summaryMonoid.neutral;
+    let size = 0;
+
+    for await (const { start, end } of this.includedRuns(range)) {
+      const { fingerprint: runSummary, size: runSize } = await this.storage
+        .summarise(start, end);
+
+      summary = this.summaryMonoid.combine(summary, runSummary);
+      size += runSize;
+    }
+
+    return {
+      fingerprint: summary,
+      size,
+    };
+  }
+
+  async removeInterest(
+    areaOfInterest: AreaOfInterest<SubspaceId>,
+  ): Promise<Range3d<SubspaceId>> {
+    const range = areaTo3dRange({
+      maxComponentCount: this.pathScheme.maxComponentCount,
+      maxPathComponentLength: this.pathScheme.maxComponentLength,
+      maxPathLength: this.pathScheme.maxPathLength,
+      minimalSubspace: this.subspaceScheme.minimalSubspaceId,
+      successorSubspace: this.subspaceScheme.successor,
+    }, areaOfInterest.area);
+
+    if (areaOfInterest.maxCount === 0 && areaOfInterest.maxSize === BigInt(0)) {
+      return range;
+    }
+
+    const included: BoxEntry<SubspaceId>[] = [];
+
+    for await (const entry of this.entriesInBox(range)) {
+      if (
+        entry.isIncluded &&
+        isPathPrefixed(areaOfInterest.area.pathPrefix, entry.path)
+      ) {
+        included.push(entry);
+      }
+    }
+
+    // Newest entries take precedence.
+    this.sortEntries(included, "timestamp", true);
+
+    let countUsed = 0;
+    let sizeUsed = BigInt(0);
+
+    let lowerBoundTime: bigint | undefined;
+    let lowerBoundSubspace: SubspaceId | undefined;
+    let lowerBoundPath: Path | undefined;
+
+    let upperBoundTime: bigint | undefined;
+    let upperBoundSubspace: SubspaceId | undefined;
+    let upperBoundPath: Path | undefined;
+
+    for (const { value, subspace, path, timestamp } of included) {
+      const { payloadLength } = decodeKvValue(value, this.payloadScheme);
+
+      const nextCountUsed = countUsed + 1;
+      const nextSizeUsed = sizeUsed + payloadLength;
+
+      if (
+        (areaOfInterest.maxCount !== 0 &&
+          nextCountUsed > areaOfInterest.maxCount) ||
+        (areaOfInterest.maxSize !== BigInt(0) &&
+          nextSizeUsed > areaOfInterest.maxSize)
+      ) {
+        break;
+      }
+
+      countUsed = nextCountUsed;
+      sizeUsed = nextSizeUsed;
+
+      if (
+        timestamp < MAX_COORDINATE &&
+        (upperBoundTime === undefined || timestamp >= upperBoundTime)
+      ) {
+        upperBoundTime = timestamp + BigInt(1);
+      }
+
+      if (
+        upperBoundSubspace === undefined ||
+        this.subspaceScheme.order(subspace, upperBoundSubspace) >= 0
+      ) {
+        upperBoundSubspace = this.subspaceScheme.successor(subspace) ??
+          undefined;
+      }
+
+      if (
+        upperBoundPath === undefined || orderPath(path, upperBoundPath) >= 0
+      ) {
+        upperBoundPath = successorPath(path, this.pathScheme) ?? undefined;
+      }
+
+      if (lowerBoundTime === undefined || timestamp < lowerBoundTime) {
+        lowerBoundTime = timestamp;
+      }
+
+      if (
+        lowerBoundSubspace === undefined ||
+        this.subspaceScheme.order(subspace, lowerBoundSubspace) === -1
+      ) {
+        lowerBoundSubspace = subspace;
+      }
+
+      if (
+        lowerBoundPath === undefined || orderPath(path, lowerBoundPath) === -1
+      ) {
+        lowerBoundPath = path;
+      }
+    }
+
+    return {
+      subspaceRange: {
+        start: lowerBoundSubspace ?? range.subspaceRange.start,
+        end: upperBoundSubspace ?? range.subspaceRange.end,
+      },
+      pathRange: {
+        start: lowerBoundPath ?? range.pathRange.start,
+        end: upperBoundPath ?? range.pathRange.end,
+      },
+      timeRange: {
+        start: lowerBoundTime ?? range.timeRange.start,
+        end: upperBoundTime ?? range.timeRange.end,
+      },
+    };
+  }
+
+  async *query(
+    rangeOfInterest: RangeOfInterest<SubspaceId>,
+    order: QueryOrder,
+    reverse = false,
+    after?: { subspace: SubspaceId; path: Path; timestamp: bigint },
+  ): AsyncIterable<{
+    entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
+    authTokenHash: PayloadDigest;
+  }> {
+    const afterKey = after ? this.encodeOrderKey(after, order) : undefined;
+
+    const included: BoxEntry<SubspaceId>[] = [];
+
+    for await (const entry of this.entriesInBox(rangeOfInterest.range)) {
+      if (!entry.isIncluded) {
+        continue;
+      }
+
+      if (afterKey) {
+        const relation = compareKeys(
+          this.encodeOrderKey(entry, order),
+          afterKey,
+        );
+
+        if (reverse ? relation >= 0 : relation <= 0) {
+          continue;
+        }
+      }
+
+      included.push(entry);
+    }
+
+    this.sortEntries(included, order, reverse);
+
+    let entriesYielded = 0;
+    let payloadBytesYielded = BigInt(0);
+
+    for (const { value, subspace, path, timestamp } of included) {
+      const values = decodeKvValue(value, this.payloadScheme);
+
+      entriesYielded += 1;
+      payloadBytesYielded += values.payloadLength;
+
+      if (
+        rangeOfInterest.maxSize !== BigInt(0) &&
+        payloadBytesYielded >= rangeOfInterest.maxSize
+      ) {
+        break;
+      }
+
+      yield {
+        entry: {
+          namespaceId: this.namespace,
+          subspaceId: subspace,
+          path,
+          payloadDigest: values.payloadHash,
+          payloadLength: values.payloadLength,
+          timestamp,
+        },
+        authTokenHash: values.authTokenHash,
+      };
+
+      if (
+        rangeOfInterest.maxCount !== 0 &&
+        entriesYielded >= rangeOfInterest.maxCount
+      ) {
+        break;
+      }
+    }
+  }
+
+  /** Splits a range in two at its median entry in Z-order.
+   *
+   * The split is made along the dimension in which the median entry first differs from the entry preceding it, so that each half holds at least one of the range's entries.
+   */
+  async splitRange(
+    range: Range3d<SubspaceId>,
+    knownSize: number,
+  ): Promise<[Range3d<SubspaceId>, Range3d<SubspaceId>]> {
+    if (knownSize < 2) {
+      throw new WillowError(
+        "Tried to split a range which doesn't need splitting",
+      );
+    }
+
+    const medianIndex = Math.floor(knownSize / 2);
+
+    let previous: BoxEntry<SubspaceId> | undefined;
+    let median: BoxEntry<SubspaceId> | undefined;
+
+    // The number of included entries in the runs before the current one.
+    let preceding = 0;
+    let previousRun: KeyRun | undefined;
+
+    for await (const run of this.includedRuns(range)) {
+      const { size } = await this.storage.summarise(run.start, run.end);
+
+      if (preceding + size <= medianIndex) {
+        preceding += size;
+        previousRun = run;
+
+        continue;
+      }
+
+      const index = medianIndex - preceding;
+
+      median = await this.entryOfRun(run, index);
+
+      // The entry preceding the median is either in the same run, or the last of the run before.
+      const precedingRun = index > 0
+        ? { start: run.start, end: median.key }
+        : previousRun;
+
+      if (precedingRun) {
+        for await (
+          const { key, value } of this.storage.entries(
+            precedingRun.start,
+            precedingRun.end,
+            { reverse: true, limit: 1 },
+          )
+        ) {
+          previous = this.boxEntry(key, value);
+        }
+      }
+
+      break;
+    }
+
+    if (!previous || !median) {
+      // The range holds fewer entries than we were told, so split its time range down the middle instead.
+      const end = range.timeRange.end === OPEN_END
+        ? MAX_COORDINATE
+        : range.timeRange.end;
+      const mid = (range.timeRange.start + end) / BigInt(2);
+
+      return [
+        { ...range, timeRange: { start: range.timeRange.start, end: mid } },
+        { ...range, timeRange: { start: mid, end: range.timeRange.end } },
+      ];
+    }
+
+    switch (this.firstDifferingDimension(previous, median)) {
+      case 0:
+        return [
+          {
+            ...range,
+            subspaceRange: {
+              start: range.subspaceRange.start,
+              end: median.subspace,
+            },
+          },
+          {
+            ...range,
+            subspaceRange: {
+              start: median.subspace,
+              end: range.subspaceRange.end,
+            },
+          },
+        ];
+      case 1:
+        return [
+          {
+            ...range,
+            pathRange: { start: range.pathRange.start, end: median.path },
+          },
+          {
+            ...range,
+            pathRange: { start: median.path, end: range.pathRange.end },
+          },
+        ];
+      case 2:
+        return [
+          {
+            ...range,
+            timeRange: { start: range.timeRange.start, end: median.timestamp },
+          },
+          {
+            ...range,
+            timeRange: { start: median.timestamp, end: range.timeRange.end },
+          },
+        ];
+    }
+  }
+
+  // Every entry is stored exactly once, so it can't go missing from only some orderings.
+  async *unindexedEntries(): AsyncIterable<
+    {
+      entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
+      authTokenHash: PayloadDigest;
+    }
+  > {}
+
+  async updateAvailablePayload(
+    subspace: SubspaceId,
+    path: Path,
+  ): Promise<boolean> {
+    const result = await this.get(subspace, path);
+
+    if (!result) {
+      return false;
+    }
+
+    const { entry, authTokenHash } = result;
+
+    await this.remove(result.entry);
+    await this.insert({
+      subspace: entry.subspaceId,
+      path: entry.path,
+      timestamp: entry.timestamp,
+      payloadDigest: entry.payloadDigest,
+      length: entry.payloadLength,
+      authTokenDigest: authTokenHash,
+    });
+
+    return true;
+  }
+
+  /** Iterates over all stored entries whose Z-order coordinates fall within the bounding box of a range, in Z-order.
+   *
+   * Whenever an entry outside of the bounding box is encountered, it is yielded (as excluded), and iteration jumps ahead to the next key within the box.
+   */
+  private async *entriesInBox(
+    range: Range3d<SubspaceId>,
+  ): AsyncIterable<BoxEntry<SubspaceId>> {
+    const box = this.boxesOfRange(range);
+
+    if (!box) {
+      return;
+    }
+
+    const [min, max] = box.outer;
+
+    const zMin = interleave(min);
+    const zMax = interleave(max);
+
+    const upperBoundBytes = successorBytes(zKeyToBytes(zMax));
+    const upperBound = upperBoundBytes ? [upperBoundBytes] : undefined;
+
+    let lowerBound: KvKey = [zKeyToBytes(zMin)];
+
+    while (true) {
+      let next: bigint | undefined;
+
+      for await (
+        const { key, value } of this.storage.entries(lowerBound, upperBound)
+      ) {
+        const { subspace, path, timestamp } = this.decodeEntryKey(key);
+
+        const coordinates: Coordinates = [
+          bytesCoordinate(key[1] as Uint8Array),
+          bytesCoordinate(key[2] as Uint8Array),
+          timestamp,
+        ];
+
+        const isInBox = coordinates.every((coordinate, dimension) =>
+          coordinate >= min[dimension] && coordinate <= max[dimension]
+        );
+
+        yield {
+          key,
+          value,
+          subspace,
+          path,
+          timestamp,
+          isIncluded: isInBox &&
+            isIncluded3d(this.subspaceScheme.order, range, {
+              subspace,
+              path,
+              time: timestamp,
+            }),
+        };
+
+        if (!isInBox) {
+          next = nextZKeyInBox(
+            bytesToBigint(key[0] as Uint8Array),
+            zMin,
+            zMax,
+          );
+          break;
+        }
+      }
+
+      if (next === undefined) {
+        return;
+      }
+
+      lowerBound = [zKeyToBytes(next)];
+    }
+  }
+
+  /** Iterates over the runs of consecutive stored keys (in Z-order) whose entries are all included by a range.
+   *
+   * Every key within the inner box of the range belongs to a run, so the runs there are found without reading their keys one by one: the end of a run is computed from the box, and iteration jumps ahead to the next key after it. Only the keys on the faces of the outer box (whose truncated coordinates don't tell whether they are included) are read and checked individually, and iteration jumps ahead past keys outside of the outer box as in {@linkcode entriesInBox}.
+   */
+  private async *includedRuns(
+    range: Range3d<SubspaceId>,
+  ): AsyncIterable<KeyRun> {
+    const box = this.boxesOfRange(range);
+
+    if (!box) {
+      return;
+    }
+
+    const [min, max] = box.outer;
+
+    const zMin = interleave(min);
+    const zMax = interleave(max);
+
+    const inner = box.inner &&
+      [interleave(box.inner[0]), interleave(box.inner[1])];
+
+    const upperBoundBytes = successorBytes(zKeyToBytes(zMax));
+    const upperBound = upperBoundBytes ? [upperBoundBytes] : undefined;
+
+    let lowerBound: KvKey | undefined = [zKeyToBytes(zMin)];
+
+    let run: KeyRun | undefined;
+
+    while (lowerBound) {
+      const current: KvKey = lowerBound;
+      lowerBound = undefined;
+
+      for await (
+        const { key } of this.storage.entries(current, upperBound)
+      ) {
+        const zKey = bytesToBigint(key[0] as Uint8Array);
+
+        if (inner && isZKeyInBox(zKey, inner[0], inner[1])) {
+          const last = lastZKeyOfRun(zKey, inner[0], inner[1]);
+
+          const end = last < MAX_Z_KEY ? [zKeyToBytes(last + 1n)] : undefined;
+
+          run = { start: run?.start ?? key, end };
+          lowerBound = end;
+
+          break;
+        }
+
+        const { subspace, path, timestamp } = this.decodeEntryKey(key);
+
+        const coordinates: Coordinates = [
+          bytesCoordinate(key[1] as Uint8Array),
+          bytesCoordinate(key[2] as Uint8Array),
+          timestamp,
+        ];
+
+        const isInBox = coordinates.every((coordinate, dimension) =>
+          coordinate >= min[dimension] && coordinate <= max[dimension]
+        );
+
+        if (
+          isInBox &&
+          isIncluded3d(this.subspaceScheme.order, range, {
+            subspace,
+            path,
+            time: timestamp,
+          })
+        ) {
+          // All entry keys have four parts, so this is the least key greater than this one.
+          run = { start: run?.start ?? key, end: [...key, new Uint8Array()] };
+
+          continue;
+        }
+
+        // An excluded entry ends the current run.
+        if (run) {
+          yield { start: run.start, end: key };
+          run = undefined;
+        }
+
+        if (!isInBox) {
+          const next = nextZKeyInBox(zKey, zMin, zMax);
+
+          lowerBound = next !== undefined ? [zKeyToBytes(next)] : undefined;
+
+          break;
+        }
+      }
+    }
+
+    if (run) {
+      yield run;
+    }
+  }
+
+  /** Returns the boxes of coordinates spanned by a range, or `undefined` if the range is empty.
+   *
+   * Coordinates are truncated, so an entry with the same coordinate as a range's start or end may or may not be included by it. Every entry included by the range lies within the `outer` box, and every entry within the `inner` box is included by the range. The `inner` box is `undefined` if it is empty.
+   */
+  private boxesOfRange(
+    range: Range3d<SubspaceId>,
+  ): { outer: Box; inner: Box | undefined } | undefined {
+    const dimensions = [
+      boundsOfBytesRange(
+        this.subspaceScheme.encode(range.subspaceRange.start),
+        range.subspaceRange.end === OPEN_END
+          ? OPEN_END
+          : this.subspaceScheme.encode(range.subspaceRange.end),
+      ),
+      boundsOfBytesRange(
+        encodePathWithSeparators(range.pathRange.start),
+        range.pathRange.end === OPEN_END
+          ? OPEN_END
+          : encodePathWithSeparators(range.pathRange.end),
+      ),
+    ];
+
+    // Timestamps are never truncated.
+    const timeMax = range.timeRange.end === OPEN_END
+      ? MAX_COORDINATE
+      : range.timeRange.end - BigInt(1);
+
+    dimensions.push({
+      min: range.timeRange.start,
+      max: timeMax,
+      innerMin: range.timeRange.start,
+      innerMax: timeMax,
+    });
+
+    if (dimensions.some(({ min, max }) => min > max)) {
+      return undefined;
+    }
+
+    const outer: Box = [
+      dimensions.map(({ min }) => min) as Coordinates,
+      dimensions.map(({ max }) => max) as Coordinates,
+    ];
+
+    const inner: Box | undefined =
+      dimensions.some(({ innerMin, innerMax }) => innerMin > innerMax)
+        ? undefined
+        : [
+          dimensions.map(({ innerMin }) => innerMin) as Coordinates,
+          dimensions.map(({ innerMax }) => innerMax) as Coordinates,
+        ];
+
+    return { outer, inner };
+  }
+
+  /** Returns the entry at a given index of a run of keys.
+   *
+   * The index is found by a binary search over the interleaved keys of the run, so that only a logarithmic number of summarise ops are needed instead of reading every entry up to it.
+   */
+  private async entryOfRun(
+    run: KeyRun,
+    index: number,
+  ): Promise<BoxEntry<SubspaceId>> {
+    // The number of keys from the start of the run up to the first key with the given interleaved key.
+    const countBefore = async (zKey: bigint) => {
+      const { size } = await this.storage.summarise(run.start, [
+        zKeyToBytes(zKey),
+      ]);
+
+      return size;
+    };
+
+    // Invariant: fewer than `index + 1` keys precede `low`, and more than `index` keys precede `high`.
+    let low = bytesToBigint(run.start[0] as Uint8Array);
+    let high = run.end
+      ? bytesToBigint(run.end[0] as Uint8Array) + 1n
+      : MAX_Z_KEY + 1n;
+    let lowCount = 0;
+
+    while (high - low > 1n) {
+      const mid = (low + high) / 2n;
+      const count = await countBefore(mid);
+
+      if (count <= index) {
+        low = mid;
+        lowCount = count;
+      } else {
+        high = mid;
+      }
+    }
+
+    const start = lowCount === 0 ? run.start : [zKeyToBytes(low)];
+
+    let entry: BoxEntry<SubspaceId> | undefined;
+
+    for await (
+      const { key, value } of this.storage.entries(start, run.end, {
+        limit: index - lowCount + 1,
+      })
+    ) {
+      entry = this.boxEntry(key, value);
+    }
+
+    if (!entry) {
+      throw new WillowError("Tried to get an entry beyond the end of a run.");
+    }
+
+    return entry;
+  }
+
+  /** Decodes a stored key and value into an included {@linkcode BoxEntry}. */
+  private boxEntry(key: KvKey, value: Uint8Array): BoxEntry<SubspaceId> {
+    return { key, value, ...this.decodeEntryKey(key), isIncluded: true };
+  }
+
+  /** Returns the dimension (0 for subspace, 1 for path, 2 for timestamp) in which two entries first differ in Z-order. */
+  private firstDifferingDimension(
+    a: BoxEntry<SubspaceId>,
+    b: BoxEntry<SubspaceId>,
+  ): 0 | 1 | 2 {
+    const difference = bytesToBigint(a.key[0] as Uint8Array) ^
+      bytesToBigint(b.key[0] as Uint8Array);
+
+    if (difference !== BigInt(0)) {
+      return dimensionOfBit(difference.toString(2).length - 1);
+    }
+
+    // The interleaved coordinates are equal, so compare the full subspaces, paths, and timestamps.
+    if (this.subspaceScheme.order(a.subspace, b.subspace) !== 0) {
+      return 0;
+    }
+
+    if (orderPath(a.path, b.path) !== 0) {
+      return 1;
+    }
+
+    return 2;
+  }
+
+  /** Sorts entries in the given query order. */
+  private sortEntries(
+    entries: BoxEntry<SubspaceId>[],
+    order: QueryOrder,
+    reverse: boolean,
+  ) {
+    const keyed = entries.map((entry) => ({
+      entry,
+      orderKey: this.encodeOrderKey(entry, order),
+    }));
+
+    keyed.sort((a, b) => {
+      const relation = compareKeys(a.orderKey, b.orderKey);
+
+      return reverse ? -relation : relation;
+    });
+
+    for (let i = 0; i < keyed.length; i++) {
+      entries[i] = keyed[i].entry;
+    }
+  }
+
+  /** Encodes the subspace, path, and time of an entry into a key which sorts entries in Z-order. */
+  encodeEntryKey(
+    opts: {
+      subspace: SubspaceId;
+      path: Path;
+      timestamp: bigint;
+    },
+  ): KvKey {
+    const encodedSubspace = this.subspaceScheme.encode(opts.subspace);
+    const encodedPath = encodePathWithSeparators(opts.path);
+
+    const zKey = interleave([
+      bytesCoordinate(encodedSubspace),
+      bytesCoordinate(encodedPath),
+      opts.timestamp,
+    ]);
+
+    return [
+      zKeyToBytes(zKey),
+      encodedSubspace,
+      encodedPath,
+      bigintToBytes(opts.timestamp),
+    ];
+  }
+
+  /** Decodes a key back into subspace, path, and timestamp. */
+  decodeEntryKey(
+    encoded: KvKey,
+  ): {
+    subspace: SubspaceId;
+    path: Path;
+    timestamp: bigint;
+  } {
+    const encodedTimestamp = encoded[3] as Uint8Array;
+
+    return {
+      subspace: this.subspaceScheme.decode(encoded[1] as Uint8Array),
+      path: decodePathWithSeparators(encoded[2] as Uint8Array),
+      timestamp: new DataView(
+        encodedTimestamp.buffer,
+        encodedTimestamp.byteOffset,
+        encodedTimestamp.byteLength,
+      ).getBigUint64(0),
+    };
+  }
+
+  /** Encodes the subspace, path, and time of an entry into a key which sorts entries in the given query order. */
+  private encodeOrderKey(
+    opts: { subspace: SubspaceId; path: Path; timestamp: bigint },
+    order: QueryOrder,
+  ): KvKey {
+    const encodedSubspace = this.subspaceScheme.encode(opts.subspace);
+    const encodedPath = encodePathWithSeparators(opts.path);
+    const encodedTime = bigintToBytes(opts.timestamp);
+
+    switch (order) {
+      case "subspace":
+        return [encodedSubspace, encodedPath, encodedTime];
+      case "path":
+        return [encodedPath, encodedTime, encodedSubspace];
+      case "timestamp":
+        return [encodedTime, encodedSubspace, encodedPath];
+    }
+  }
+}
+
+/** Returns the dimension a bit of an interleaved key belongs to, counting bits from the least significant. */
+function dimensionOfBit(bit: number): 0 | 1 | 2 {
+  return (2 - bit % 3) as 0 | 1 | 2;
+}
+
+/** Interleaves the bits of three coordinates, most significant bits first. */
+function interleave(coordinates: Coordinates): bigint {
+  let zKey = BigInt(0);
+
+  for (let bit = DIMENSION_BITS - 1; bit >= 0; bit--) {
+    for (const coordinate of coordinates) {
+      zKey = (zKey << 1n) | ((coordinate >> BigInt(bit)) & 1n);
+    }
+  }
+
+  return zKey;
+}
+
+/** Returns the least interleaved key greater than `zKey` which lies within the box spanned by `zMin` and `zMax`, or `undefined` if there is none.
+ *
+ * This is the BIGMIN computation described by Tropf and Herzog in "Multidimensional Range Search in Dynamically Balanced Trees".
+ */
+function nextZKeyInBox(
+  zKey: bigint,
+  zMin: bigint,
+  zMax: bigint,
+): bigint | undefined {
+  let bigMin: bigint | undefined;
+  let min = zMin;
+  let max = zMax;
+
+  for (let bit = DIMENSION_BITS * 3 - 1; bit >= 0; bit--) {
+    const mask = 1n << BigInt(bit);
+    // The less significant bits of the same dimension.
+    const lowerMask = DIMENSION_MASKS[dimensionOfBit(bit)] & (mask - 1n);
+
+    const keyBit = (zKey & mask) !== BigInt(0);
+    const minBit = (min & mask) !== BigInt(0);
+    const maxBit = (max & mask) !== BigInt(0);
+
+    if (!keyBit && !minBit && maxBit) {
+      // The box straddles this bit: the upper half holds a candidate, and the search continues in the lower half.
+      bigMin = (min & ~lowerMask) | mask;
+      max = (max & ~mask) | lowerMask;
+    } else if (!keyBit && minBit && maxBit) {
+      return min;
+    } else if (keyBit && !minBit && !maxBit) {
+      return bigMin;
+    } else if (keyBit && !minBit && maxBit) {
+      min = (min & ~lowerMask) | mask;
+    }
+  }
+
+  return bigMin;
+}
+
+/** Returns whether an interleaved key lies within the box spanned by `zMin` and `zMax`.
+ *
+ * The bits of each dimension keep their order when masked out of an interleaved key, so coordinates can be compared without deinterleaving them.
+ */
+function isZKeyInBox(zKey: bigint, zMin: bigint, zMax: bigint): boolean {
+  return DIMENSION_MASKS.every((mask) =>
+    (zKey & mask) >= (zMin & mask) && (zKey & mask) <= (zMax & mask)
+  );
+}
+
+/** Returns the greatest interleaved key such that it, `zKey`, and every key between them lie within the box spanned by `zMin` and `zMax`. `zKey` must lie within the box.
+ *
+ * The run is extended by the largest aligned blocks of keys which lie within the box. Each block spans a box of its own, so it lies within the box if its first and last keys do.
+ */
+function lastZKeyOfRun(zKey: bigint, zMin: bigint, zMax: bigint): bigint {
+  let last = zKey;
+
+  while (last < MAX_Z_KEY) {
+    const next = last + 1n;
+
+    if (!isZKeyInBox(next, zMin, zMax)) {
+      return last;
+    }
+
+    // The largest block of keys aligned to `next`, halved until it fits.
+    let blockSize = next & -next;
+
+    while (!isZKeyInBox(next + blockSize - 1n, zMin, zMax)) {
+      blockSize >>= 1n;
+    }
+
+    last = next + blockSize - 1n;
+  }
+
+  return last;
+}
+
+/** Returns the coordinates spanned by a range of byte strings in a dimension, as in {@linkcode ZOrderStorage.boxesOfRange}. */
+function boundsOfBytesRange(
+  start: Uint8Array,
+  end: Uint8Array | typeof OPEN_END,
+): { min: bigint; max: bigint; innerMin: bigint; innerMax: bigint } {
+  const min = bytesCoordinate(start);
+  const innerMin = isLeastWithCoordinate(start) ? min : min + 1n;
+
+  if (end === OPEN_END) {
+    return { min, max: MAX_COORDINATE, innerMin, innerMax: MAX_COORDINATE };
+  }
+
+  const endCoordinate = bytesCoordinate(end);
+
+  // Every byte string with the same coordinate as the end is excluded if the end is the least of them.
+  return {
+    min,
+    max: isLeastWithCoordinate(end) ? endCoordinate - 1n : endCoordinate,
+    innerMin,
+    innerMax: endCoordinate - 1n,
+  };
+}
+
+/** Returns whether no byte string with the same coordinate is less than the given one. That least byte string is the coordinate without its trailing zeroes. */
+function isLeastWithCoordinate(bytes: Uint8Array): boolean {
+  return bytes.byteLength <= DIMENSION_BITS / 8 &&
+    bytes[bytes.byteLength - 1] !== 0;
+}
+
+/** Returns the first `DIMENSION_BITS` bits of a byte string, padded with zeroes if it is shorter. */
+function bytesCoordinate(bytes: Uint8Array): bigint {
+  let coordinate = BigInt(0);
+
+  for (let i = 0; i < DIMENSION_BITS / 8; i++) {
+    coordinate = (coordinate << 8n) | BigInt(bytes[i] ?? 0);
+  }
+
+  return coordinate;
+}
+
+function bytesToBigint(bytes: Uint8Array): bigint {
+  let value = BigInt(0);
+
+  for (const byte of bytes) {
+    value = (value << 8n) | BigInt(byte);
+  }
+
+  return value;
+}
+
+/** Encodes an interleaved key as a fixed-width big-endian byte string. */
+function zKeyToBytes(zKey: bigint): Uint8Array {
+  const bytes = new Uint8Array(Z_KEY_BYTES);
+
+  let remaining = zKey;
+
+  for (let i = Z_KEY_BYTES - 1; i >= 0; i--) {
+    bytes[i] = Number(remaining & 0xffn);
+    remaining >>= 8n;
+  }
+
+  return bytes;
+}
@@ -89,4 +89,8 @@ export class LinearStorage<
   ): AsyncIterable<{ key: Key; value: Value }> {
     return this.entries(undefined, undefined, { reverse });
   }
+
+  clear(): Promise<void> {
+    return this.kv.clear();
+  }
 }
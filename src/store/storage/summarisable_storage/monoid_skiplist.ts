@@ -905,6 +905,14 @@ export class Skiplist<
   ): AsyncIterable<{ key: LogicalKey; value: LogicalValue }> {
     return this.entries(undefined, undefined, { reverse });
   }
+
+  async clear(): Promise<void> {
+    await this.isSetup.promise;
+
+    await this.kv.clear();
+
+    this._maxHeight = 0;
+  }
 }
 
 function randomHeight() {
@@ -1006,4 +1014,8 @@ export class SingleKeySkiplist<
       yield { key: entry.key[0], value: entry.value };
     }
   }
+
+  clear(): Promise<void> {
+    return this.skiplist.clear();
+  }
 }
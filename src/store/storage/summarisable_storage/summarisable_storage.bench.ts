@@ -1,8 +1,29 @@
 // deno bench -A --unstable-kv ./src/store/storage/summarisable_storage/summarisable_storage.bench.ts
 
+import { equals as equalsBytes } from "@std/bytes";
+import { OPEN_END, type Range3d } from "@earthstar/willow-utils";
 import { KvDriverDeno } from "../kv/kv_driver_deno.ts";
+import { KvDriverInMemory } from "../kv/kv_driver_in_memory.ts";
+import { TripleStorage } from "../storage_3d/triple_storage.ts";
+import type { Storage3d } from "../storage_3d/types.ts";
+import { ZOrderStorage } from "../storage_3d/z_order_storage.ts";
+import type { KvKey } from "../kv/types.ts";
 import type { LiftingMonoid } from "./lifting_monoid.ts";
 import { Skiplist } from "./monoid_skiplist.ts";
+import {
+  type TestNamespace,
+  testSchemeFingerprint,
+  testSchemePath,
+  testSchemePayload,
+  testSchemeSubspace,
+  TestSubspace,
+} from "../../../test/test_schemes.ts";
+import {
+  randomNamespace,
+  randomPath,
+  randomSubspace,
+  randomTimestamp,
+} from "../../../test/utils.ts";
 
 const xormonoid: LiftingMonoid<[[number], Uint8Array], number> = {
   combine: (a, b) => a ^ b,
@@ -563,3 +584,160 @@ Deno.bench(
     await skipDriver.clear();
   },
 );
+
+// Storage3d
+
+type BenchStorage3d = Storage3d<
+  TestNamespace,
+  TestSubspace,
+  Uint8Array,
+  Uint8Array
+>;
+
+function makeStorage3d(kind: "triple" | "zOrder"): BenchStorage3d {
+  const opts = {
+    namespace: randomNamespace(),
+    subspaceScheme: testSchemeSubspace,
+    pathScheme: testSchemePath,
+    payloadScheme: testSchemePayload,
+    fingerprintScheme: testSchemeFingerprint,
+    createSummarisableStorage: <SummaryData>(
+      monoid: LiftingMonoid<[KvKey, Uint8Array], SummaryData>,
+    ) =>
+      new Skiplist<KvKey, Uint8Array, SummaryData>({
+        monoid,
+        kv: new KvDriverInMemory(),
+        logicalValueEq: equalsBytes,
+      }),
+    getPayloadLength: () => Promise.resolve(BigInt(0)),
+  };
+
+  return kind === "triple" ? new TripleStorage(opts) : new ZOrderStorage(opts);
+}
+
+async function fillStorage3d(
+  storage: BenchStorage3d,
+  count: number,
+  timestamp: () => bigint = randomTimestamp,
+) {
+  for (let i = 0; i < count; i++) {
+    await storage.insert({
+      subspace: randomSubspace(),
+      path: randomPath(),
+      timestamp: timestamp(),
+      payloadDigest: new Uint8Array(32),
+      authTokenDigest: new Uint8Array(32),
+      length: BigInt(8),
+    });
+  }
+}
+
+/** A range constraining all three dimensions, which no single ordering keeps contiguous. */
+const range3d: Range3d<TestSubspace> = {
+  subspaceRange: { start: TestSubspace.Betty, end: TestSubspace.Phoebe },
+  pathRange: { start: [new Uint8Array([64])], end: [new Uint8Array([192])] },
+  timeRange: { start: BigInt(0), end: OPEN_END },
+};
+
+/** A box spanning part of each dimension. */
+const subBox: Range3d<TestSubspace> = {
+  subspaceRange: { start: TestSubspace.Gemma, end: TestSubspace.Phoebe },
+  pathRange: { start: [new Uint8Array([32])], end: [new Uint8Array([160])] },
+  timeRange: { start: BigInt(2) ** BigInt(50), end: BigInt(2) ** BigInt(51) },
+};
+
+const largeStorages = new Map<"triple" | "zOrder", Promise<BenchStorage3d>>();
+
+/** Returns a storage of 10000 entries with timestamps spread like microseconds, filled the first time it is asked for. */
+function largeStorage3d(kind: "triple" | "zOrder"): Promise<BenchStorage3d> {
+  let storage = largeStorages.get(kind);
+
+  if (!storage) {
+    storage = (async () => {
+      const storage = makeStorage3d(kind);
+
+      await fillStorage3d(
+        storage,
+        10000,
+        () => BigInt(Math.floor(Math.random() * 2 ** 52)),
+      );
+
+      return storage;
+    })();
+
+    largeStorages.set(kind, storage);
+  }
+
+  return storage;
+}
+
+for (const kind of ["triple", "zOrder"] as const) {
+  const name = kind === "triple" ? "TripleStorage" : "ZOrderStorage";
+
+  Deno.bench(
+    `Insert 500th (${name})`,
+    { group: "Storage3d insert (500th)", baseline: kind === "triple" },
+    async (bench) => {
+      const storage = makeStorage3d(kind);
+
+      await fillStorage3d(storage, 499);
+
+      bench.start();
+
+      await fillStorage3d(storage, 1);
+
+      bench.end();
+    },
+  );
+
+  Deno.bench(
+    `Summarise 3d range of 500 (${name})`,
+    { group: "Storage3d summarise (3d range)", baseline: kind === "triple" },
+    async (bench) => {
+      const storage = makeStorage3d(kind);
+
+      await fillStorage3d(storage, 500);
+
+      bench.start();
+
+      await storage.summarise(range3d);
+
+      bench.end();
+    },
+  );
+
+  Deno.bench(
+    `Summarise sub-box of 10000 (${name})`,
+    {
+      group: "Storage3d summarise (sub-box of large store)",
+      baseline: kind === "triple",
+    },
+    async (bench) => {
+      const storage = await largeStorage3d(kind);
+
+      bench.start();
+
+      await storage.summarise(subBox);
+
+      bench.end();
+    },
+  );
+
+  Deno.bench(
+    `Split 3d range of 500 (${name})`,
+    { group: "Storage3d split (3d range)", baseline: kind === "triple" },
+    async (bench) => {
+      const storage = makeStorage3d(kind);
+
+      await fillStorage3d(storage, 500);
+
+      const { size } = await storage.summarise(range3d);
+
+      bench.start();
+
+      await storage.splitRange(range3d, size);
+
+      bench.end();
+    },
+  );
+}
@@ -18,4 +18,6 @@ export interface SummarisableStorage<LogicalKey, LogicalValue, SummaryData> {
     },
   ): AsyncIterable<{ key: LogicalKey; value: LogicalValue }>;
   allEntries(): AsyncIterable<{ key: LogicalKey; value: LogicalValue }>;
+  /** Remove all keys and summaries from the storage. */
+  clear(): Promise<void>;
 }
@@ -1,33 +1,49 @@
 import type { Entry } from "@earthstar/willow-utils";
 import type { ValidationError } from "../../errors.ts";
-import type { Payload } from "../types.ts";
+import type { Payload, PayloadVerifier } from "../types.ts";
 import type { PrefixIterator } from "./prefix_iterators/types.ts";
 import type { Storage3d } from "./storage_3d/types.ts";
 
-/** Writes and reads flags indicating write operations to the store, in order to recover from errors mid-write. */
-export interface WriteAheadFlag<
+/** A single step of a store mutation, as recorded in a {@link WriteAheadJournal}.
+ *
+ * - `insert` and `remove` write to the entry driver.
+ * - `erase_auth_token` erases an authorisation token from the entry driver's {@link AuthTokenDriver}, if no stored entry refers to it.
+ * - `erase_payload` erases a payload from the payload driver, if no stored entry refers to it.
+ */
+export type JournalStep<NamespaceId, SubspaceId, PayloadDigest> =
+  | {
+    kind: "insert";
+    entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
+    authTokenHash: PayloadDigest;
+  }
+  | {
+    kind: "remove";
+    entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
+  }
+  | { kind: "erase_auth_token"; digest: PayloadDigest }
+  | { kind: "erase_payload"; digest: PayloadDigest };
+
+/** Records the full plan of a store mutation before it is carried out, in order to complete it after an unexpected shutdown. */
+export interface WriteAheadJournal<
   NamespaceId,
   SubspaceId,
   PayloadDigest,
 > {
-  wasInserting(): Promise<
+  /** Returns the steps of a mutation which was never completed, and whether all of its writes to the entry driver were committed. */
+  pending(): Promise<
     {
-      entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
-      authTokenHash: PayloadDigest;
+      steps: JournalStep<NamespaceId, SubspaceId, PayloadDigest>[];
+      committed: boolean;
     } | undefined
   >;
-  wasRemoving(): Promise<
-    Entry<NamespaceId, SubspaceId, PayloadDigest> | undefined
-  >;
-  flagInsertion(
-    entry: Entry<NamespaceId, SubspaceId, PayloadDigest>,
-    authTokenHash: PayloadDigest,
+  /** Record the steps of a mutation before any of them are carried out, replacing any previously recorded steps. */
+  record(
+    steps: JournalStep<NamespaceId, SubspaceId, PayloadDigest>[],
   ): Promise<void>;
-  unflagInsertion: () => Promise<void>;
-  flagRemoval(
-    entry: Entry<NamespaceId, SubspaceId, PayloadDigest>,
-  ): Promise<void>;
-  unflagRemoval(): Promise<void>;
+  /** Record that all of the mutation's writes to the entry driver have been carried out. Called within the same {@link EntryDriver.transaction} as those writes. */
+  markCommitted(): Promise<void>;
+  /** Forget the recorded mutation once all of its steps have been carried out. */
+  clear(): Promise<void>;
 }
 
 /** Provides methods for storing and retrieving entries for a {@link Store}. */
@@ -45,7 +61,7 @@ export interface EntryDriver<
     Prefingerprint
   >;
   /** Helps a Store recover from unexpected shutdowns mid-write. */
-  writeAheadFlag: WriteAheadFlag<
+  writeAheadJournal: WriteAheadJournal<
     NamespaceId,
     SubspaceId,
     PayloadDigest
@@ -54,6 +70,15 @@ export interface EntryDriver<
   prefixIterator: PrefixIterator<Uint8Array>;
   /** Used to keep track of how many entries are referring to a single payload  */
   payloadReferenceCounter: PayloadReferenceCounter<PayloadDigest>;
+  /** Used to store the authorisation tokens of entries, and how many entries refer to each. */
+  authTokenDriver: AuthTokenDriver<PayloadDigest>;
+  /** Erase all entries, journaled steps, prefixes, reference counts, and authorisation tokens held by this driver. */
+  clear(): Promise<void>;
+  /** Run a function, applying all the writes it makes to this driver together once it resolves.
+   *
+   * Drivers which persist their data must write all of the function's changes at once, and none of them if it rejects.
+   */
+  transaction<T>(fn: () => Promise<T>): Promise<T>;
 }
 
 /** Keeps count of how many entries refer to a given payload, and is ablo to modify that count. */
@@ -63,6 +88,29 @@ export interface PayloadReferenceCounter<PayloadDigest> {
   count(digest: PayloadDigest): Promise<number>;
 }
 
+/** Stores encoded authorisation tokens by their digest, and keeps count of how many entries refer to each of them.
+ *
+ * A token is stored ahead of the entries referring to it, and is kept until erased, even once none refer to it.
+ */
+export interface AuthTokenDriver<PayloadDigest> {
+  /** Retrieve an encoded authorisation token by its digest. */
+  get(digest: PayloadDigest): Promise<Uint8Array | undefined>;
+  /** Store an encoded authorisation token, leaving its reference count unchanged. */
+  set(digest: PayloadDigest, encoded: Uint8Array): Promise<void>;
+  /** Count another entry referring to a stored authorisation token, returning how many now do. */
+  increment(digest: PayloadDigest): Promise<number>;
+  /** Count one less entry referring to an authorisation token, returning how many still do. */
+  decrement(digest: PayloadDigest): Promise<number>;
+  /** Return how many entries refer to an authorisation token. */
+  count(digest: PayloadDigest): Promise<number>;
+  /** Erase an authorisation token regardless of how many entries refer to it, returning whether it was held. */
+  erase(digest: PayloadDigest): Promise<boolean>;
+  /** Iterates over the digests of all held authorisation tokens. */
+  digests(): AsyncIterable<PayloadDigest>;
+  /** Erase all authorisation tokens. */
+  clear(): Promise<void>;
+}
+
 /** Provides methods for storing and retrieving {@link Payload}s. */
 export interface PayloadDriver<PayloadDigest> {
   /** Returns a payload for a given format and hash.*/
@@ -79,13 +127,17 @@ export interface PayloadDriver<PayloadDigest> {
     payload: Payload;
   }>;
 
-  /** Stores a possibly partial payload with an known digest, intended for an existing entry. */
+  /** Stores a possibly partial payload with an known digest, intended for an existing entry.
+   *
+   * If given a `verifier`, only the received chunks which it accepts are stored, up to the first it rejects.
+   */
   receive(
     opts: {
       payload: Uint8Array | AsyncIterable<Uint8Array>;
       offset: number;
       expectedLength: bigint;
       expectedDigest: PayloadDigest;
+      verifier?: PayloadVerifier;
     },
   ): Promise<
     {
@@ -93,6 +145,8 @@ export interface PayloadDriver<PayloadDigest> {
       digest: PayloadDigest;
       /** the length after ingestion */
       length: bigint;
+      /** Whether the verifier rejected a received chunk. */
+      failedVerification: boolean;
       /** Commits the payload, saving it. */
       commit: (isCompletePayload: boolean) => Promise<void>;
       /** Rejects the payload, deleting it. */
@@ -109,4 +163,15 @@ export interface PayloadDriver<PayloadDigest> {
   erase(
     digest: PayloadDigest,
   ): Promise<true | ValidationError>;
+
+  /** Iterates over the digests of all complete payloads held by this driver. */
+  digests(): AsyncIterable<PayloadDigest>;
+
+  /** Iterates over the expected digests of all partial payloads held by this driver, along with how many of their bytes are held. */
+  partials(): AsyncIterable<{ digest: PayloadDigest; length: bigint }>;
+
+  /** Erases a partial payload for a given expected digest. */
+  erasePartial(
+    digest: PayloadDigest,
+  ): Promise<true | ValidationError>;
 }
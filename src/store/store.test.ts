@@ -1,4 +1,5 @@
 import { Store } from "./store.ts";
+import { type EntryRemoveEvent, StoreEvents } from "./events.ts";
 import { crypto } from "@std/crypto";
 import {
   type TestNamespace,
@@ -7,11 +8,21 @@ import {
   testSchemeNamespace,
   testSchemePath,
   testSchemePayload,
+  testSchemePayloadTree,
   testSchemeSubspace,
   TestSubspace,
 } from "../test/test_schemes.ts";
-import { assert, assertEquals } from "@std/assert";
-import { fullArea, orderBytes, orderPath } from "@earthstar/willow-utils";
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { ValidationError } from "../errors.ts";
+import { encodeBase64 } from "@std/encoding/base64";
+import {
+  ANY_SUBSPACE,
+  type Area,
+  type AreaOfInterest,
+  fullArea,
+  OPEN_END,
+  orderBytes,
+} from "@earthstar/willow-utils";
 
 class TestStore extends Store<
   TestNamespace,
@@ -22,28 +33,44 @@ class TestStore extends Store<
   Uint8Array,
   Uint8Array
 > {
-  constructor(namespace = 0) {
+  constructor(namespace = 0, payloadScheme = testSchemePayload) {
     super({
       namespace,
       schemes: {
         namespace: testSchemeNamespace,
         subspace: testSchemeSubspace,
         path: testSchemePath,
-        payload: testSchemePayload,
+        payload: payloadScheme,
         authorisation: testSchemeAuthorisation,
         fingerprint: testSchemeFingerprint,
       },
     });
   }
 
-  writeAheadFlag() {
+  writeAheadJournal() {
+    /* @ts-ignore */
+    return this.entryDriver.writeAheadJournal;
+  }
+
+  triggerJournalReplay() {
     /* @ts-ignore */
-    return this.entryDriver.writeAheadFlag;
+    return this.replayJournal();
   }
 
-  triggerWriteAheadFlag() {
+  payloadReferenceCount(digest: Uint8Array) {
     /* @ts-ignore */
-    return this.checkWriteAheadFlag();
+    return this.entryDriver.payloadReferenceCounter.count(digest);
+  }
+
+  drivers() {
+    return {
+      /* @ts-ignore */
+      entryDriver: this.entryDriver,
+      /* @ts-ignore */
+      payloadDriver: this.payloadDriver,
+      /* @ts-ignore */
+      storage: this.storage,
+    };
   }
 }
 
@@ -556,6 +583,136 @@ Deno.test("Store.ingestEntry", async (test) => {
   });
 });
 
+Deno.test("Store.ingestEntries", async (test) => {
+  const alfie = TestSubspace.Alfie;
+
+  // Create an authorised entry without storing it anywhere it could be pruned.
+  async function makeEntry(path: Uint8Array[], timestamp: number) {
+    const res = await new TestStore().set({
+      path,
+      payload: new Uint8Array([timestamp]),
+      timestamp: BigInt(timestamp),
+      subspace: alfie,
+    }, alfie);
+
+    assert(res.kind === "success");
+
+    return { entry: res.entry, authToken: res.authToken };
+  }
+
+  await test.step("Resolves entries obsoleted within the batch regardless of order", async () => {
+    const store = new TestStore();
+
+    const prefix = await makeEntry([new Uint8Array([0])], 2);
+    const prefixed = await makeEntry(
+      [new Uint8Array([0]), new Uint8Array([1])],
+      1,
+    );
+    const older = await makeEntry([new Uint8Array([1])], 1);
+    const newer = await makeEntry([new Uint8Array([1])], 2);
+    const unauthorised = {
+      entry: (await makeEntry([new Uint8Array([2])], 1)).entry,
+      authToken: new Uint8Array([1, 2, 3]),
+    };
+
+    const results = await store.ingestEntries([
+      prefixed,
+      older,
+      unauthorised,
+      newer,
+      prefix,
+    ]);
+
+    assertEquals(results.map((result) => result.kind), [
+      "no_op",
+      "no_op",
+      "failure",
+      "success",
+      "success",
+    ]);
+
+    assert(results[0].kind === "no_op");
+    assertEquals(results[0].reason, "newer_prefix_found");
+    assert(results[1].kind === "no_op");
+    assertEquals(results[1].reason, "obsolete_from_same_subspace");
+
+    const entries = [];
+
+    for await (
+      const [entry] of store.query({
+        area: fullArea(),
+        maxCount: 0,
+        maxSize: BigInt(0),
+      }, "path")
+    ) {
+      entries.push(entry);
+    }
+
+    assertEquals(entries, [prefix.entry, newer.entry]);
+  });
+
+  await test.step("Replaces and prunes stored entries", async () => {
+    const store = new TestStore();
+
+    const storedPrefixed = await store.set({
+      path: [new Uint8Array([0]), new Uint8Array([1])],
+      payload: new Uint8Array([0]),
+      timestamp: BigInt(0),
+      subspace: alfie,
+    }, alfie);
+    const storedSamePath = await store.set({
+      path: [new Uint8Array([1])],
+      payload: new Uint8Array([0]),
+      timestamp: BigInt(0),
+      subspace: alfie,
+    }, alfie);
+    await store.set({
+      path: [new Uint8Array([2])],
+      payload: new Uint8Array([0]),
+      timestamp: BigInt(5),
+      subspace: alfie,
+    }, alfie);
+
+    assert(storedPrefixed.kind === "success");
+    assert(storedSamePath.kind === "success");
+
+    const removed: EntryRemoveEvent<
+      TestNamespace,
+      TestSubspace,
+      ArrayBuffer,
+      Uint8Array
+    >[] = [];
+
+    store.addEventListener(StoreEvents.EntryRemove, (event) => {
+      removed.push(
+        event as EntryRemoveEvent<
+          TestNamespace,
+          TestSubspace,
+          ArrayBuffer,
+          Uint8Array
+        >,
+      );
+    });
+
+    const results = await store.ingestEntries([
+      await makeEntry([new Uint8Array([0])], 1),
+      await makeEntry([new Uint8Array([1])], 1),
+      await makeEntry([new Uint8Array([2])], 1),
+    ]);
+
+    assert(results[0].kind === "success");
+    assertEquals(results[0].pruned, [storedPrefixed.entry]);
+    assert(results[1].kind === "success");
+    assertEquals(results[1].pruned, [storedSamePath.entry]);
+    assert(results[2].kind === "no_op");
+    assertEquals(results[2].reason, "obsolete_from_same_subspace");
+
+    assertEquals(removed.length, 2);
+
+    assertEquals(await store.count(fullArea()), 3);
+  });
+});
+
 // ==================================
 // ingestPayload
 
@@ -724,53 +881,141 @@ Deno.test("Store.ingestPayload", async (test) => {
 
     assertEquals(result, undefined);
   });
-});
 
-// ==================================
-// query
+  await test.step("verifies payloads chunk by chunk with an outboard", async () => {
+    const store = new TestStore(0, testSchemePayloadTree);
+    const otherStore = new TestStore(0, testSchemePayloadTree);
 
-// ==================================
-// WAF
+    const payload = crypto.getRandomValues(new Uint8Array(64));
+    const outboard = await testSchemePayloadTree.tree!.outboard(payload);
 
-Deno.test("Write-ahead flags", async (test) => {
-  const alfie = TestSubspace.Alfie;
+    const res = await otherStore.set({
+      path: [new Uint8Array([0, 2])],
+      payload,
+      subspace: alfie,
+    }, alfie);
 
-  await test.step("Insertion flag inserts (and removes prefixes...)", async () => {
-    const store = new TestStore();
-    const otherStore = new TestStore();
+    assert(res.kind === "success");
 
-    const res = await otherStore.set(
-      {
-        path: [new Uint8Array([0, 0, 0, 0])],
-        payload: new Uint8Array(32),
-        timestamp: BigInt(1000),
-        subspace: alfie,
-      },
-      alfie,
+    const res2 = await store.ingestEntry(res.entry, res.authToken);
+
+    assert(res2.kind === "success");
+
+    const entryDetails = {
+      path: res.entry.path,
+      subspace: res.entry.subspaceId,
+      timestamp: res.entry.timestamp,
+    };
+
+    // An outboard which doesn't match the entry's digest is rejected.
+    const badOutboard = await store.ingestPayload(
+      entryDetails,
+      new Blob([payload]).stream(),
+      false,
+      0,
+      new Uint8Array(outboard.byteLength),
     );
 
-    assert(res.kind === "success");
+    assert(badOutboard.kind === "failure");
+    assert(badOutboard.reason === "data_mismatch");
 
-    // Insert
+    // The two chunks before the tampered one are kept.
+    const tampered = payload.slice();
+    tampered[40] ^= 0xff;
 
-    const result = await store.set(
-      {
-        path: [new Uint8Array([0, 0, 0, 0, 1])],
-        payload: new Uint8Array(32),
-        timestamp: BigInt(500),
-        subspace: alfie,
-      },
-      alfie,
+    const res3 = await store.ingestPayload(
+      entryDetails,
+      new Blob([tampered]).stream(),
+      false,
+      0,
+      outboard,
     );
 
-    assert(result.kind === "success");
+    assert(res3.kind === "failure");
+    assert(res3.reason === "data_mismatch");
+
+    const partials = [];
+
+    for await (const partial of store.drivers().payloadDriver.partials()) {
+      partials.push(partial.length);
+    }
+
+    assertEquals(partials, [32n]);
 
-    await store.writeAheadFlag().flagInsertion(
-      result.entry,
-      result.authToken,
+    // So only the rest of the payload needs to be received.
+    const res4 = await store.ingestPayload(
+      entryDetails,
+      new Blob([payload.subarray(32)]).stream(),
+      false,
+      32,
+      outboard,
     );
 
-    await store.triggerWriteAheadFlag();
+    assert(res4.kind === "success");
+    assertEquals(await (await store.getPayload(res.entry))?.bytes(), payload);
+  });
+});
+
+// ==================================
+// delete
+
+Deno.test("Store.delete", async (test) => {
+  const alfie = TestSubspace.Alfie;
+
+  await test.step("Does nothing if there is no entry to delete", async () => {
+    const store = new TestStore();
+
+    const res = await store.delete({
+      subspace: alfie,
+      path: [new Uint8Array([0])],
+    }, alfie);
+
+    assert(res.kind === "no_op");
+    assertEquals(res.reason, "nothing_to_delete");
+  });
+
+  await test.step("Replaces an entry with a newer tombstone", async () => {
+    const store = new TestStore();
+
+    const setRes = await store.set({
+      path: [new Uint8Array([0])],
+      payload: new Uint8Array([1, 2, 3]),
+      subspace: alfie,
+      timestamp: BigInt(Date.now() * 1000) + BigInt(1000000),
+    }, alfie);
+
+    assert(setRes.kind === "success");
+
+    const removeEvents: EntryRemoveEvent<
+      TestNamespace,
+      TestSubspace,
+      ArrayBuffer,
+      Uint8Array
+    >[] = [];
+
+    store.addEventListener(StoreEvents.EntryRemove, (event) => {
+      removeEvents.push(event);
+    });
+
+    const res = await store.delete({
+      subspace: alfie,
+      path: [new Uint8Array([0])],
+    }, alfie);
+
+    assert(res.kind === "success");
+    assert(res.tombstone.timestamp > setRes.entry.timestamp);
+    assertEquals(res.tombstone.payloadLength, BigInt(0));
+    assertEquals(res.pruned, [setRes.entry]);
+
+    assertEquals(removeEvents.length, 1);
+    assertEquals(removeEvents[0].detail.removed, setRes.entry);
+    assertEquals(removeEvents[0].detail.deletion, {
+      kind: "entry",
+      subspace: alfie,
+      path: [new Uint8Array([0])],
+    });
+
+    assertEquals(await store.getPayload(setRes.entry), undefined);
 
     const entries = [];
 
@@ -784,48 +1029,1393 @@ Deno.test("Write-ahead flags", async (test) => {
       entries.push(entry);
     }
 
-    assertEquals(entries.length, 1);
-    assert(entries[0]);
+    assertEquals(entries, [res.tombstone]);
 
-    assert(
-      orderPath(
-        entries[0].path,
-        [new Uint8Array([0, 0, 0, 0, 1])],
-      ) === 0,
-    );
+    const visible = [];
+
+    for await (
+      const [entry] of store.query(
+        {
+          area: fullArea(),
+          maxCount: 0,
+          maxSize: BigInt(0),
+        },
+        "path",
+        false,
+        { hideTombstones: true },
+      )
+    ) {
+      visible.push(entry);
+    }
+
+    assertEquals(visible, []);
   });
+});
 
-  await test.step("Removal flag removes", async () => {
+Deno.test("Store.deletePrefix", async (test) => {
+  const alfie = TestSubspace.Alfie;
+  const betty = TestSubspace.Betty;
+
+  await test.step("Does nothing if no entries are prefixed by the path", async () => {
     const store = new TestStore();
 
-    const res = await store.set(
-      {
-        path: [new Uint8Array([0, 0, 0, 0])],
-        payload: new Uint8Array(32),
-        timestamp: BigInt(1000),
-        subspace: alfie,
-      },
-      alfie,
-    );
+    await store.set({
+      path: [new Uint8Array([1])],
+      payload: new Uint8Array([1]),
+      subspace: alfie,
+    }, alfie);
 
-    assert(res.kind === "success");
+    const res = await store.deletePrefix({
+      subspace: alfie,
+      pathPrefix: [new Uint8Array([0])],
+    }, alfie);
 
-    await store.writeAheadFlag().flagRemoval(res.entry);
+    assert(res.kind === "no_op");
+  });
 
-    await store.triggerWriteAheadFlag();
+  await test.step("Prunes all entries prefixed by the path in the subspace", async () => {
+    const store = new TestStore();
 
-    const entries = [];
+    const future = BigInt(Date.now() * 1000) + BigInt(1000000);
+
+    for (const subspace of [alfie, betty]) {
+      for (let i = 0; i < 3; i++) {
+        await store.set({
+          path: [new Uint8Array([0]), new Uint8Array([i])],
+          payload: new Uint8Array([i]),
+          subspace,
+          timestamp: future + BigInt(i),
+        }, subspace);
+      }
+    }
+
+    const res = await store.deletePrefix({
+      subspace: alfie,
+      pathPrefix: [new Uint8Array([0])],
+    }, alfie);
+
+    assert(res.kind === "success");
+    assertEquals(res.pruned.length, 3);
+    assert(res.tombstone.timestamp > future + BigInt(2));
+
+    const remaining = [];
 
     for await (
-      const [entry] of store.query({
-        area: fullArea(),
-        maxCount: 0,
-        maxSize: BigInt(0),
-      }, "path")
+      const [entry] of store.query(
+        {
+          area: fullArea(),
+          maxCount: 0,
+          maxSize: BigInt(0),
+        },
+        "subspace",
+        false,
+        { hideTombstones: true },
+      )
     ) {
-      entries.push(entry);
+      remaining.push(entry);
     }
 
-    assertEquals(entries.length, 0);
+    assertEquals(remaining.length, 3);
+    assert(remaining.every((entry) => entry.subspaceId === betty));
+  });
+});
+
+// ==================================
+// query
+
+Deno.test("Store.queryPage", async (test) => {
+  const store = new TestStore();
+
+  for (const subspace of [TestSubspace.Alfie, TestSubspace.Betty]) {
+    for (let i = 0; i < 5; i++) {
+      await store.set({
+        path: [new Uint8Array([i % 3]), new Uint8Array([i])],
+        payload: new Uint8Array([i]),
+        subspace,
+        timestamp: BigInt(100 - i * 10 + subspace),
+      }, subspace);
+    }
+  }
+
+  const areaOfInterest: AreaOfInterest<TestSubspace> = {
+    area: fullArea(),
+    maxCount: 0,
+    maxSize: BigInt(0),
+  };
+
+  for (const order of ["path", "subspace", "timestamp"] as const) {
+    for (const reverse of [false, true]) {
+      await test.step(`Pages through all entries in ${order} order${reverse ? ", reversed" : ""}`, async () => {
+        const expected = [];
+
+        for await (
+          const [entry] of store.query(areaOfInterest, order, reverse)
+        ) {
+          expected.push(entry);
+        }
+
+        const actual = [];
+        let cursor: string | undefined;
+        let pages = 0;
+
+        do {
+          const page = await store.queryPage(areaOfInterest, order, {
+            limit: 3,
+            reverse,
+            after: cursor,
+          });
+
+          actual.push(...page.results.map(([entry]) => entry));
+          cursor = page.cursor;
+          pages++;
+        } while (cursor);
+
+        assertEquals(expected.length, 10);
+        assertEquals(actual, expected);
+        assertEquals(pages, 4);
+      });
+    }
+  }
+
+  await test.step("Resumes strictly after the cursor's entry", async () => {
+    const first = await store.queryPage(areaOfInterest, "timestamp", {
+      limit: 1,
+    });
+
+    const [[entry]] = first.results;
+
+    assertEquals(first.cursor, store.queryCursor(entry, "timestamp"));
+
+    const second = await store.queryPage(areaOfInterest, "timestamp", {
+      limit: 1,
+      after: first.cursor,
+    });
+
+    assert(second.results[0][0].timestamp > entry.timestamp);
+  });
+
+  for (
+    const limited of [
+      { area: fullArea<TestSubspace>(), maxCount: 4, maxSize: BigInt(0) },
+      { area: fullArea<TestSubspace>(), maxCount: 0, maxSize: BigInt(6) },
+    ]
+  ) {
+    await test.step(`Does not exceed a limited area of interest across pages (maxCount ${limited.maxCount}, maxSize ${limited.maxSize})`, async () => {
+      const expected = [];
+
+      for await (const [entry] of store.query(limited, "path")) {
+        expected.push(entry);
+      }
+
+      const actual = [];
+      let cursor: string | undefined;
+
+      do {
+        const page = await store.queryPage(limited, "path", {
+          limit: 3,
+          after: cursor,
+        });
+
+        actual.push(...page.results.map(([entry]) => entry));
+        cursor = page.cursor;
+      } while (cursor);
+
+      assert(expected.length > 0 && expected.length < 10);
+      assertEquals(actual, expected);
+    });
+  }
+
+  await test.step("Rejects cursors for a different order", async () => {
+    const { cursor } = await store.queryPage(areaOfInterest, "path", {
+      limit: 1,
+    });
+
+    await assertRejects(
+      () =>
+        store.queryPage(areaOfInterest, "subspace", {
+          limit: 1,
+          after: cursor,
+        }),
+      ValidationError,
+    );
+  });
+});
+
+// ==================================
+// get
+
+Deno.test("Store.get", async (test) => {
+  const alfie = TestSubspace.Alfie;
+  const betty = TestSubspace.Betty;
+
+  const store = new TestStore();
+
+  const res = await store.set({
+    path: [new Uint8Array([1]), new Uint8Array([2])],
+    payload: new Uint8Array([1, 2, 3]),
+    subspace: alfie,
+  }, alfie);
+
+  assert(res.kind === "success");
+
+  await test.step("Returns the entry, payload, and auth token at a path", async () => {
+    const result = await store.get(alfie, [
+      new Uint8Array([1]),
+      new Uint8Array([2]),
+    ]);
+
+    assert(result);
+    assertEquals(result.entry, res.entry);
+    assertEquals(result.authToken, res.authToken);
+    assertEquals(await result.payload?.bytes(), new Uint8Array([1, 2, 3]));
+  });
+
+  await test.step("Returns undefined when nothing is at a path", async () => {
+    assertEquals(await store.get(betty, [new Uint8Array([1])]), undefined);
+    assertEquals(await store.get(alfie, [new Uint8Array([1])]), undefined);
+  });
+
+  await test.step("Retrieves many entries at once", async () => {
+    const results = await store.getMany([
+      { subspace: betty, path: [new Uint8Array([1]), new Uint8Array([2])] },
+      { subspace: alfie, path: [new Uint8Array([1]), new Uint8Array([2])] },
+    ]);
+
+    assertEquals(results.length, 2);
+    assertEquals(results[0], undefined);
+    assertEquals(results[1]?.entry, res.entry);
+  });
+
+  await test.step("Retrieves auth tokens only for the exact entry", async () => {
+    assertEquals(await store.getAuthToken(res.entry), res.authToken);
+
+    assertEquals(
+      await store.getAuthToken({
+        ...res.entry,
+        timestamp: res.entry.timestamp - BigInt(1),
+      }),
+      undefined,
+    );
+  });
+});
+
+// ==================================
+// stats
+
+Deno.test("Store.stats", async (test) => {
+  const alfie = TestSubspace.Alfie;
+  const betty = TestSubspace.Betty;
+
+  const store = new TestStore();
+  const otherStore = new TestStore();
+
+  for (const subspace of [alfie, betty]) {
+    for (let i = 0; i < 4; i++) {
+      await store.set({
+        path: [new Uint8Array([i % 2]), new Uint8Array([i])],
+        payload: new Uint8Array(i + 1),
+        subspace,
+        timestamp: BigInt(100 + i),
+      }, subspace);
+    }
+  }
+
+  // An entry without its payload.
+  const other = await otherStore.set({
+    path: [new Uint8Array([2])],
+    payload: new Uint8Array(10),
+    subspace: betty,
+    timestamp: BigInt(200),
+  }, betty);
+
+  assert(other.kind === "success");
+
+  await store.ingestEntry(other.entry, other.authToken);
+
+  const areas: Area<TestSubspace>[] = [
+    fullArea(),
+    {
+      includedSubspaceId: alfie,
+      pathPrefix: [],
+      timeRange: { start: BigInt(0), end: OPEN_END },
+    },
+    {
+      includedSubspaceId: betty,
+      pathPrefix: [new Uint8Array([1])],
+      timeRange: { start: BigInt(0), end: OPEN_END },
+    },
+    {
+      includedSubspaceId: ANY_SUBSPACE,
+      pathPrefix: [new Uint8Array([0])],
+      timeRange: { start: BigInt(0), end: OPEN_END },
+    },
+    {
+      includedSubspaceId: betty,
+      pathPrefix: [],
+      timeRange: { start: BigInt(101), end: BigInt(103) },
+    },
+    {
+      includedSubspaceId: ANY_SUBSPACE,
+      pathPrefix: [new Uint8Array([3])],
+      timeRange: { start: BigInt(0), end: OPEN_END },
+    },
+  ];
+
+  await test.step("Matches the entries returned by query", async () => {
+    for (const area of areas) {
+      let count = 0;
+      let payloadLength = BigInt(0);
+      let availablePayloadLength = BigInt(0);
+
+      for await (
+        const [entry, payload] of store.query({
+          area,
+          maxCount: 0,
+          maxSize: BigInt(0),
+        }, "subspace")
+      ) {
+        count += 1;
+        payloadLength += entry.payloadLength;
+        availablePayloadLength += payload ? await payload.length() : BigInt(0);
+      }
+
+      assertEquals(await store.stats(area), {
+        count,
+        payloadLength,
+        availablePayloadLength,
+      });
+
+      assertEquals(await store.count(area), count);
+    }
+  });
+
+  await test.step("Counts available payload bytes separately", async () => {
+    const stats = await store.stats(fullArea());
+
+    assertEquals(stats.count, 9);
+    assertEquals(stats.payloadLength, BigInt(2 * (1 + 2 + 3 + 4) + 10));
+    assertEquals(stats.availablePayloadLength, BigInt(2 * (1 + 2 + 3 + 4)));
+
+    await store.ingestPayload({
+      path: other.entry.path,
+      subspace: betty,
+      timestamp: other.entry.timestamp,
+    }, new Blob([new Uint8Array(10)]).stream());
+
+    assertEquals(
+      (await store.stats(fullArea())).availablePayloadLength,
+      stats.payloadLength,
+    );
+  });
+});
+
+// ==================================
+// subscribe
+
+Deno.test("Store.subscribe", async (test) => {
+  const alfie = TestSubspace.Alfie;
+  const betty = TestSubspace.Betty;
+
+  await test.step("Yields existing entries, then changes within the area", async () => {
+    const store = new TestStore();
+    const otherStore = new TestStore();
+
+    await store.set({
+      path: [new Uint8Array([1])],
+      payload: new Uint8Array([1]),
+      subspace: alfie,
+      timestamp: BigInt(10),
+    }, alfie);
+
+    await store.set({
+      path: [new Uint8Array([1])],
+      payload: new Uint8Array([1]),
+      subspace: betty,
+      timestamp: BigInt(10),
+    }, betty);
+
+    const controller = new AbortController();
+
+    const events = store.subscribe({
+      area: {
+        includedSubspaceId: alfie,
+        pathPrefix: [],
+        timeRange: { start: BigInt(0), end: OPEN_END },
+      },
+      maxCount: 0,
+      maxSize: BigInt(0),
+    }, { signal: controller.signal })[Symbol.asyncIterator]();
+
+    const existing = await events.next();
+
+    assert(!existing.done && existing.value.kind === "existing");
+    assertEquals(existing.value.entry.subspaceId, alfie);
+
+    // Outside of the area.
+    await store.set({
+      path: [new Uint8Array([2])],
+      payload: new Uint8Array([2]),
+      subspace: betty,
+    }, betty);
+
+    const tombstone = await store.delete({
+      subspace: alfie,
+      path: [new Uint8Array([1])],
+    }, alfie);
+
+    assert(tombstone.kind === "success");
+
+    const removed = await events.next();
+
+    assert(!removed.done && removed.value.kind === "removed");
+    assertEquals(removed.value.entry.timestamp, BigInt(10));
+    assertEquals(removed.value.reason, "pruned");
+    assertEquals(removed.value.deletion?.kind, "entry");
+
+    const added = await events.next();
+
+    assert(!added.done && added.value.kind === "added");
+    assertEquals(added.value.entry, tombstone.tombstone);
+
+    // From another peer, with the payload arriving later.
+    const other = await otherStore.set({
+      path: [new Uint8Array([3])],
+      payload: new Uint8Array([3, 3, 3]),
+      subspace: alfie,
+    }, alfie);
+
+    assert(other.kind === "success");
+
+    await store.ingestEntry(other.entry, other.authToken);
+
+    const ingested = await events.next();
+
+    assert(!ingested.done && ingested.value.kind === "added");
+    assertEquals(ingested.value.entry, other.entry);
+    assertEquals(ingested.value.payload, undefined);
+
+    await store.ingestPayload({
+      path: other.entry.path,
+      subspace: alfie,
+      timestamp: other.entry.timestamp,
+    }, new Blob([new Uint8Array([3, 3, 3])]).stream());
+
+    const payload = await events.next();
+
+    assert(!payload.done && payload.value.kind === "payload");
+    assertEquals(
+      await payload.value.payload.bytes(),
+      new Uint8Array([3, 3, 3]),
+    );
+
+    controller.abort();
+
+    assert((await events.next()).done);
+  });
+
+  await test.step("Can skip existing entries", async () => {
+    const store = new TestStore();
+
+    await store.set({
+      path: [new Uint8Array([1])],
+      payload: new Uint8Array([1]),
+      subspace: alfie,
+    }, alfie);
+
+    const controller = new AbortController();
+
+    const events = store.subscribe({
+      area: fullArea(),
+      maxCount: 0,
+      maxSize: BigInt(0),
+    }, { includeExisting: false, signal: controller.signal })[
+      Symbol.asyncIterator
+    ]();
+
+    const next = events.next();
+
+    await store.set({
+      path: [new Uint8Array([2])],
+      payload: new Uint8Array([2]),
+      subspace: alfie,
+    }, alfie);
+
+    const added = await next;
+
+    assert(!added.done && added.value.kind === "added");
+    assertEquals(added.value.entry.path, [new Uint8Array([2])]);
+    assertEquals(await added.value.payload?.bytes(), new Uint8Array([2]));
+
+    controller.abort();
+
+    assert((await events.next()).done);
+  });
+
+  await test.step("Respects the window of a limited area of interest", async () => {
+    const store = new TestStore();
+
+    for (let i = 0; i < 3; i++) {
+      await store.set({
+        path: [new Uint8Array([0]), new Uint8Array([i])],
+        payload: new Uint8Array([i]),
+        subspace: alfie,
+        timestamp: BigInt(10 + i),
+      }, alfie);
+    }
+
+    const controller = new AbortController();
+
+    const events = store.subscribe({
+      area: fullArea(),
+      maxCount: 2,
+      maxSize: BigInt(0),
+    }, { order: "timestamp", signal: controller.signal })[
+      Symbol.asyncIterator
+    ]();
+
+    const existing = [];
+
+    for (let i = 0; i < 2; i++) {
+      const next = await events.next();
+
+      assert(!next.done && next.value.kind === "existing");
+
+      existing.push(next.value.entry.timestamp);
+    }
+
+    assertEquals(existing, [BigInt(11), BigInt(12)]);
+
+    // Pushes the entry at timestamp 11 out of the window.
+    await store.set({
+      path: [new Uint8Array([1])],
+      payload: new Uint8Array([3]),
+      subspace: alfie,
+      timestamp: BigInt(13),
+    }, alfie);
+
+    const outOfWindow = await events.next();
+
+    assert(!outOfWindow.done && outOfWindow.value.kind === "removed");
+    assertEquals(outOfWindow.value.entry.timestamp, BigInt(11));
+    assertEquals(outOfWindow.value.reason, "out_of_window");
+
+    const added = await events.next();
+
+    assert(!added.done && added.value.kind === "added");
+    assertEquals(added.value.entry.timestamp, BigInt(13));
+
+    // Prunes the entries at timestamps 10 to 12, leaving only the newest two entries.
+    await store.set({
+      path: [new Uint8Array([0])],
+      payload: new Uint8Array([4]),
+      subspace: alfie,
+      timestamp: BigInt(14),
+    }, alfie);
+
+    const pruned = await events.next();
+
+    assert(!pruned.done && pruned.value.kind === "removed");
+    assertEquals(pruned.value.entry.timestamp, BigInt(12));
+    assertEquals(pruned.value.reason, "pruned");
+
+    const addedPrefix = await events.next();
+
+    assert(!addedPrefix.done && addedPrefix.value.kind === "added");
+    assertEquals(addedPrefix.value.entry.timestamp, BigInt(14));
+
+    controller.abort();
+
+    assert((await events.next()).done);
+  });
+});
+
+// ==================================
+// Write-ahead journal
+
+Deno.test("Write-ahead journal", async (test) => {
+  const alfie = TestSubspace.Alfie;
+
+  await test.step("Replays uncommitted steps, idempotently", async () => {
+    const store = new TestStore();
+
+    const res = await store.set(
+      {
+        path: [new Uint8Array([0, 0, 0, 0])],
+        payload: new Uint8Array([1, 2, 3]),
+        timestamp: BigInt(1000),
+        subspace: alfie,
+      },
+      alfie,
+    );
+
+    assert(res.kind === "success");
+
+    const authTokenHash = await testSchemePayload.fromBytes(
+      testSchemeAuthorisation.tokenEncoding.encode(res.authToken),
+    );
+
+    const { entryDriver } = store.drivers();
+
+    await store.writeAheadJournal().record([
+      { kind: "remove", entry: res.entry },
+    ]);
+    await store.triggerJournalReplay();
+
+    assertEquals(await store.get(alfie, res.entry.path), undefined);
+    assertEquals(await entryDriver.authTokenDriver.count(authTokenHash), 0);
+
+    for (let i = 0; i < 2; i++) {
+      await store.writeAheadJournal().record([
+        { kind: "insert", entry: res.entry, authTokenHash },
+      ]);
+      await store.triggerJournalReplay();
+    }
+
+    assertEquals(await store.writeAheadJournal().pending(), undefined);
+
+    const entries = [];
+
+    for await (
+      const [entry] of store.query({
+        area: fullArea(),
+        maxCount: 0,
+        maxSize: BigInt(0),
+      }, "path")
+    ) {
+      entries.push(entry);
+    }
+
+    assertEquals(entries.length, 1);
+    assertEquals(
+      await store.payloadReferenceCount(res.entry.payloadDigest),
+      1,
+    );
+    assertEquals(await entryDriver.authTokenDriver.count(authTokenHash), 1);
+  });
+
+  await test.step("Replays removals and erasures, idempotently", async () => {
+    const store = new TestStore();
+
+    const res = await store.set(
+      {
+        path: [new Uint8Array([0, 0, 0, 0])],
+        payload: new Uint8Array([1, 2, 3]),
+        timestamp: BigInt(1000),
+        subspace: alfie,
+      },
+      alfie,
+    );
+
+    assert(res.kind === "success");
+
+    const authTokenHash = await testSchemePayload.fromBytes(
+      testSchemeAuthorisation.tokenEncoding.encode(res.authToken),
+    );
+
+    const steps = [
+      { kind: "remove" as const, entry: res.entry },
+      { kind: "erase_auth_token" as const, digest: authTokenHash },
+      { kind: "erase_payload" as const, digest: res.entry.payloadDigest },
+    ];
+
+    for (let i = 0; i < 2; i++) {
+      await store.writeAheadJournal().record(steps);
+      await store.triggerJournalReplay();
+    }
+
+    const entries = [];
+
+    for await (
+      const [entry] of store.query({
+        area: fullArea(),
+        maxCount: 0,
+        maxSize: BigInt(0),
+      }, "path")
+    ) {
+      entries.push(entry);
+    }
+
+    assertEquals(entries.length, 0);
+    assertEquals(
+      await store.payloadReferenceCount(res.entry.payloadDigest),
+      0,
+    );
+    assertEquals(await store.getPayload(res.entry), undefined);
+    assertEquals(
+      await store.drivers().entryDriver.authTokenDriver.get(authTokenHash),
+      undefined,
+    );
+  });
+
+  await test.step("Does not replay committed steps", async () => {
+    const store = new TestStore();
+
+    const res = await store.set(
+      {
+        path: [new Uint8Array([0, 0, 0, 0])],
+        payload: new Uint8Array([1, 2, 3]),
+        timestamp: BigInt(1000),
+        subspace: alfie,
+      },
+      alfie,
+    );
+
+    assert(res.kind === "success");
+
+    // The entry was removed and the removal committed, but its payload was not yet erased.
+    await store.writeAheadJournal().record([
+      { kind: "remove", entry: res.entry },
+      { kind: "erase_payload", digest: res.entry.payloadDigest },
+    ]);
+    await store.writeAheadJournal().markCommitted();
+
+    await store.triggerJournalReplay();
+
+    // The removal is not replayed, so the entry (and its payload) remain.
+    assert(await store.get(alfie, res.entry.path));
+    assert(await store.getPayload(res.entry));
+  });
+});
+
+Deno.test("Auth token storage", async (test) => {
+  const alfie = TestSubspace.Alfie;
+
+  const authTokenHashOf = (authToken: Uint8Array) =>
+    testSchemePayload.fromBytes(
+      testSchemeAuthorisation.tokenEncoding.encode(authToken),
+    );
+
+  await test.step("Erases auth tokens along with their last entry", async () => {
+    const store = new TestStore();
+
+    const { entryDriver, payloadDriver } = store.drivers();
+
+    const res = await store.set({
+      path: [new Uint8Array([0])],
+      payload: new Uint8Array([1, 2, 3]),
+      timestamp: BigInt(1000),
+      subspace: alfie,
+    }, alfie);
+
+    assert(res.kind === "success");
+
+    const authTokenHash = await authTokenHashOf(res.authToken);
+
+    assertEquals(await entryDriver.authTokenDriver.count(authTokenHash), 1);
+    assertEquals(await payloadDriver.get(authTokenHash), undefined);
+
+    const newerRes = await store.set({
+      path: [new Uint8Array([0])],
+      payload: new Uint8Array([4, 5, 6]),
+      timestamp: BigInt(2000),
+      subspace: alfie,
+    }, alfie);
+
+    assert(newerRes.kind === "success");
+
+    assertEquals(
+      await entryDriver.authTokenDriver.get(authTokenHash),
+      undefined,
+    );
+    assertEquals(
+      await entryDriver.authTokenDriver.count(
+        await authTokenHashOf(newerRes.authToken),
+      ),
+      1,
+    );
+    assertEquals(await store.getAuthToken(newerRes.entry), newerRes.authToken);
+  });
+
+  await test.step("Migrates auth tokens out of the payload driver", async () => {
+    const store = new TestStore();
+
+    const { entryDriver, payloadDriver } = store.drivers();
+
+    const res = await store.set({
+      path: [new Uint8Array([0])],
+      payload: new Uint8Array([1, 2, 3]),
+      subspace: alfie,
+    }, alfie);
+
+    assert(res.kind === "success");
+
+    const authTokenHash = await authTokenHashOf(res.authToken);
+
+    // Where stores used to keep auth tokens.
+    await payloadDriver.set(
+      testSchemeAuthorisation.tokenEncoding.encode(res.authToken),
+    );
+    await entryDriver.authTokenDriver.erase(authTokenHash);
+
+    for (let i = 0; i < 2; i++) {
+      await store.triggerJournalReplay();
+    }
+
+    assertEquals(await store.getAuthToken(res.entry), res.authToken);
+    assertEquals(await entryDriver.authTokenDriver.count(authTokenHash), 1);
+    assertEquals(await payloadDriver.get(authTokenHash), undefined);
+    assert(await store.getPayload(res.entry));
+  });
+});
+
+Deno.test("Store.verify and Store.repair", async (test) => {
+  const alfie = TestSubspace.Alfie;
+
+  const emptyReport = {
+    unindexedEntries: [],
+    missingAuthTokens: [],
+    invalidAuthTokens: [],
+    corruptPayloads: [],
+    missingPrefixes: [],
+    orphanedPrefixes: [],
+    wrongReferenceCounts: [],
+    orphanedPayloads: [],
+    wrongAuthTokenCounts: [],
+  };
+
+  // Set an entry for each of the given payloads, at paths [0], [1], [2]...
+  async function setEntries(store: TestStore, payloads: Uint8Array[]) {
+    const entries = [];
+
+    for (let i = 0; i < payloads.length; i++) {
+      const res = await store.set(
+        {
+          path: [new Uint8Array([i])],
+          payload: payloads[i],
+          timestamp: BigInt(1000),
+          subspace: alfie,
+        },
+        alfie,
+      );
+
+      assert(res.kind === "success");
+
+      entries.push(res);
+    }
+
+    return entries;
+  }
+
+  await test.step("Reports nothing for a consistent store", async () => {
+    const store = new TestStore();
+
+    await setEntries(store, [
+      new Uint8Array([1, 2, 3]),
+      new Uint8Array([1, 2, 3]),
+      new Uint8Array([4, 5, 6]),
+    ]);
+
+    assertEquals(await store.verify(), emptyReport);
+    assertEquals(await store.repair(), emptyReport);
+  });
+
+  await test.step("Finds and repairs broken derived indexes", async () => {
+    const store = new TestStore();
+
+    const [first, second] = await setEntries(store, [
+      new Uint8Array([1, 2, 3]),
+      new Uint8Array([4, 5, 6]),
+    ]);
+
+    const { entryDriver, payloadDriver, storage } = store.drivers();
+
+    // Remove the first entry from one of the storage's orderings.
+    /* @ts-ignore */
+    const keys = storage.encodeEntryKeys({
+      subspace: first.entry.subspaceId,
+      path: first.entry.path,
+      timestamp: first.entry.timestamp,
+    });
+    /* @ts-ignore */
+    await storage.ptsStorage.remove(keys.pts);
+
+    // Remove the second entry's prefix, and add one for no entry.
+    await entryDriver.prefixIterator.remove([
+      testSchemeSubspace.encode(alfie),
+      ...second.entry.path,
+    ]);
+    await entryDriver.prefixIterator.insert(
+      [testSchemeSubspace.encode(alfie), new Uint8Array([7])],
+      new Uint8Array(8),
+    );
+
+    await entryDriver.payloadReferenceCounter.increment(
+      second.entry.payloadDigest,
+    );
+
+    const { digest: orphanDigest } = await payloadDriver.set(
+      new Uint8Array([7, 7, 7]),
+    );
+
+    const report = await store.verify();
+
+    assertEquals(report, {
+      ...emptyReport,
+      unindexedEntries: [first.entry],
+      missingPrefixes: [second.entry],
+      orphanedPrefixes: [[
+        testSchemeSubspace.encode(alfie),
+        new Uint8Array([7]),
+      ]],
+      wrongReferenceCounts: [{
+        digest: second.entry.payloadDigest,
+        expected: 1,
+        actual: 2,
+      }],
+      orphanedPayloads: [orphanDigest],
+    });
+
+    assertEquals(await store.repair(), report);
+    assertEquals(await store.verify(), emptyReport);
+
+    assertEquals(await payloadDriver.get(orphanDigest), undefined);
+
+    const entries = [];
+
+    for await (
+      const [entry] of store.query({
+        area: fullArea(),
+        maxCount: 0,
+        maxSize: BigInt(0),
+      }, "path")
+    ) {
+      entries.push(entry);
+    }
+
+    assertEquals(entries, [first.entry, second.entry]);
+
+    // The restored prefix prevents older entries beneath it from being ingested.
+    const olderRes = await store.set(
+      {
+        path: [...second.entry.path, new Uint8Array([9])],
+        payload: new Uint8Array([8]),
+        timestamp: BigInt(500),
+        subspace: alfie,
+      },
+      alfie,
+    );
+
+    assertEquals(olderRes.kind, "no_op");
+  });
+
+  await test.step(
+    "Removes entries with missing or invalid auth tokens, and erases corrupt payloads",
+    async () => {
+      const store = new TestStore();
+
+      const [corrupted, unauthorised, invalid] = await setEntries(store, [
+        new Uint8Array([1, 2, 3]),
+        new Uint8Array([4, 5, 6]),
+        new Uint8Array([7, 8, 9]),
+      ]);
+
+      const { entryDriver, payloadDriver } = store.drivers();
+
+      const authTokenHashOf = (authToken: Uint8Array) =>
+        testSchemePayload.fromBytes(
+          testSchemeAuthorisation.tokenEncoding.encode(authToken),
+        );
+
+      const keyOf = (digest: ArrayBuffer) =>
+        encodeBase64(testSchemePayload.encode(digest));
+
+      // Overwrite the first payload and the third auth token with other bytes.
+      /* @ts-ignore */
+      payloadDriver.payloadMap.set(
+        keyOf(corrupted.entry.payloadDigest),
+        new Uint8Array([0, 0, 0]),
+      );
+
+      const invalidAuthTokenHash = await authTokenHashOf(invalid.authToken);
+
+      await entryDriver.authTokenDriver.set(
+        invalidAuthTokenHash,
+        new Uint8Array([0, 0, 0]),
+      );
+
+      const unauthorisedAuthTokenHash = await authTokenHashOf(
+        unauthorised.authToken,
+      );
+
+      await entryDriver.authTokenDriver.erase(unauthorisedAuthTokenHash);
+
+      const report = await store.verify();
+
+      assertEquals(report, {
+        ...emptyReport,
+        missingAuthTokens: [unauthorised.entry],
+        invalidAuthTokens: [invalid.entry],
+        corruptPayloads: [corrupted.entry.payloadDigest],
+        wrongAuthTokenCounts: [{
+          digest: unauthorisedAuthTokenHash,
+          expected: 1,
+          actual: 0,
+        }],
+      });
+
+      assertEquals(await store.repair(), report);
+      assertEquals(await store.verify(), emptyReport);
+
+      assert(await store.get(alfie, corrupted.entry.path));
+      assertEquals(await store.getPayload(corrupted.entry), undefined);
+      assertEquals(await store.get(alfie, unauthorised.entry.path), undefined);
+      assertEquals(await store.get(alfie, invalid.entry.path), undefined);
+
+      // The payloads of the removed entries are erased along with them.
+      assertEquals(await store.getPayload(unauthorised.entry), undefined);
+      assertEquals(await store.getPayload(invalid.entry), undefined);
+      assertEquals(
+        await entryDriver.authTokenDriver.get(invalidAuthTokenHash),
+        undefined,
+      );
+
+      assertEquals(
+        await store.stats(fullArea()),
+        { count: 1, payloadLength: 3n, availablePayloadLength: 0n },
+      );
+    },
+  );
+});
+
+Deno.test("Store.collectGarbage", async (test) => {
+  const alfie = TestSubspace.Alfie;
+
+  await test.step("Erases payloads and partial payloads no entry refers to", async () => {
+    const store = new TestStore();
+    const otherStore = new TestStore();
+
+    const { entryDriver, payloadDriver } = store.drivers();
+
+    const res = await store.set({
+      path: [new Uint8Array([0])],
+      payload: new Uint8Array([1, 2, 3]),
+      subspace: alfie,
+    }, alfie);
+
+    assert(res.kind === "success");
+
+    // An entry whose payload is still arriving.
+    const payload = new Uint8Array([4, 5, 6, 7]);
+
+    const otherRes = await otherStore.set({
+      path: [new Uint8Array([1])],
+      payload,
+      subspace: alfie,
+    }, alfie);
+
+    assert(otherRes.kind === "success");
+    assert(
+      (await store.ingestEntry(otherRes.entry, otherRes.authToken)).kind ===
+        "success",
+    );
+
+    const partialRes = await store.ingestPayload(
+      {
+        path: otherRes.entry.path,
+        subspace: alfie,
+        timestamp: otherRes.entry.timestamp,
+      },
+      new Blob([payload.subarray(0, 2)]).stream(),
+      true,
+    );
+
+    assert(partialRes.kind === "success");
+
+    // A payload left behind by a failed ingestion, and a partial payload from an abandoned sync.
+    const { digest: orphanDigest } = await payloadDriver.set(
+      new Uint8Array([8, 8, 8, 8, 8]),
+    );
+
+    const abandoned = new Uint8Array([9, 9, 9, 9]);
+    const abandonedDigest = await testSchemePayload.fromBytes(abandoned);
+
+    const received = await payloadDriver.receive({
+      payload: abandoned.subarray(0, 2),
+      offset: 0,
+      expectedLength: 4n,
+      expectedDigest: abandonedDigest,
+    });
+
+    await received.commit(false);
+
+    // An auth token staged for an entry which was never inserted.
+    const strayAuthToken = new Uint8Array([6, 6]);
+    const strayAuthTokenDigest = await testSchemePayload.fromBytes(
+      strayAuthToken,
+    );
+
+    await entryDriver.authTokenDriver.set(strayAuthTokenDigest, strayAuthToken);
+
+    const expected = {
+      payloads: [orphanDigest],
+      partialPayloads: [abandonedDigest],
+      authTokens: [strayAuthTokenDigest],
+      bytesReclaimed: 9n,
+      capped: false,
+    };
+
+    assertEquals(await store.collectGarbage({ dryRun: true }), expected);
+    assert(await payloadDriver.get(orphanDigest));
+
+    assertEquals(await store.collectGarbage(), expected);
+
+    assertEquals(await payloadDriver.get(orphanDigest), undefined);
+    assertEquals(
+      await entryDriver.authTokenDriver.get(strayAuthTokenDigest),
+      undefined,
+    );
+    assertEquals(await store.collectGarbage(), {
+      payloads: [],
+      partialPayloads: [],
+      authTokens: [],
+      bytesReclaimed: 0n,
+      capped: false,
+    });
+
+    // The stored entries' payloads and auth tokens are left alone.
+    assert(await store.getPayload(res.entry));
+    assertEquals(await store.getAuthToken(res.entry), res.authToken);
+    assertEquals(
+      await store.getAuthToken(otherRes.entry),
+      otherRes.authToken,
+    );
+
+    const restRes = await store.ingestPayload(
+      {
+        path: otherRes.entry.path,
+        subspace: alfie,
+        timestamp: otherRes.entry.timestamp,
+      },
+      new Blob([payload.subarray(2)]).stream(),
+      false,
+      2,
+    );
+
+    assert(restRes.kind === "success");
+  });
+
+  await test.step("Stops once maxBytes have been reclaimed", async () => {
+    const store = new TestStore();
+
+    const { payloadDriver } = store.drivers();
+
+    for (let i = 0; i < 3; i++) {
+      await payloadDriver.set(new Uint8Array([i, i, i, i]));
+    }
+
+    const first = await store.collectGarbage({ maxBytes: 5n });
+
+    assertEquals(first.payloads.length, 2);
+    assertEquals(first.bytesReclaimed, 8n);
+    assert(first.capped);
+
+    const second = await store.collectGarbage({ maxBytes: 5n });
+
+    assertEquals(second.payloads.length, 1);
+    assertEquals(second.bytesReclaimed, 4n);
+    assert(!second.capped);
+  });
+
+  await test.step("Does not erase payloads which are being set", async () => {
+    const store = new TestStore();
+
+    const [setRes, collection] = await Promise.all([
+      store.set({
+        path: [new Uint8Array([0])],
+        payload: new Uint8Array([1, 2, 3]),
+        subspace: alfie,
+      }, alfie),
+      store.collectGarbage(),
+    ]);
+
+    assert(setRes.kind === "success");
+    assertEquals(collection.payloads, []);
+    assert(await store.getPayload(setRes.entry));
+  });
+});
+
+Deno.test("Store.evictPayloads", async (test) => {
+  const alfie = TestSubspace.Alfie;
+  const betty = TestSubspace.Betty;
+
+  // Set an entry for each of the given payloads, at paths [0], [1], [2]... with increasing timestamps.
+  async function setEntries(
+    store: TestStore,
+    payloads: Uint8Array[],
+    subspace = alfie,
+  ) {
+    const entries = [];
+
+    for (let i = 0; i < payloads.length; i++) {
+      const res = await store.set(
+        {
+          path: [new Uint8Array([i])],
+          payload: payloads[i],
+          timestamp: BigInt(1000 * (i + 1)),
+          subspace,
+        },
+        subspace,
+      );
+
+      assert(res.kind === "success");
+
+      entries.push(res);
+    }
+
+    return entries;
+  }
+
+  await test.step("Evicts least recently used payloads first", async () => {
+    const store = new TestStore();
+
+    const [first, second, third] = await setEntries(store, [
+      new Uint8Array([1, 1, 1, 1]),
+      new Uint8Array([2, 2, 2, 2]),
+      new Uint8Array([3, 3, 3, 3]),
+    ]);
+
+    assert(await store.getPayload(first.entry));
+
+    const eviction = await store.evictPayloads({
+      maxBytes: 8n,
+      order: { kind: "least_recently_used" },
+    });
+
+    assertEquals(eviction, {
+      payloads: [second.entry.payloadDigest],
+      partialPayloads: [],
+      bytesEvicted: 4n,
+      bytesHeld: 8n,
+    });
+
+    // The entry and its auth token are kept.
+    assert(await store.get(alfie, second.entry.path));
+    assertEquals(await store.getAuthToken(second.entry), second.authToken);
+    assertEquals(await store.getPayload(second.entry), undefined);
+    assert(await store.getPayload(third.entry));
+
+    assertEquals(
+      await store.stats(fullArea()),
+      { count: 3, payloadLength: 12n, availablePayloadLength: 8n },
+    );
+
+    // Already under the quota.
+    assertEquals(
+      (await store.evictPayloads({
+        maxBytes: 8n,
+        order: { kind: "least_recently_used" },
+      })).payloads,
+      [],
+    );
+
+    // The evicted payload can be ingested again.
+    const ingestRes = await store.ingestPayload(
+      {
+        path: second.entry.path,
+        subspace: alfie,
+        timestamp: second.entry.timestamp,
+      },
+      new Blob([new Uint8Array([2, 2, 2, 2])]).stream(),
+    );
+
+    assert(ingestRes.kind === "success");
+
+    assertEquals(
+      await store.stats(fullArea()),
+      { count: 3, payloadLength: 12n, availablePayloadLength: 12n },
+    );
+  });
+
+  await test.step("Evicts largest payloads first", async () => {
+    const store = new TestStore();
+
+    const [, , largest] = await setEntries(store, [
+      new Uint8Array([1]),
+      new Uint8Array([2, 2]),
+      new Uint8Array([3, 3, 3]),
+    ]);
+
+    const eviction = await store.evictPayloads({
+      maxBytes: 3n,
+      order: { kind: "largest_first" },
+    });
+
+    assertEquals(eviction.payloads, [largest.entry.payloadDigest]);
+    assertEquals(eviction.bytesHeld, 3n);
+  });
+
+  await test.step("Evicts payloads outside of prioritised areas first", async () => {
+    const store = new TestStore();
+
+    const [alfieRes] = await setEntries(store, [new Uint8Array([1, 1])]);
+    const [bettyRes] = await setEntries(
+      store,
+      [new Uint8Array([2, 2])],
+      betty,
+    );
+
+    // Used more recently, but not in a prioritised area.
+    assert(await store.getPayload(bettyRes.entry));
+
+    const eviction = await store.evictPayloads({
+      maxBytes: 2n,
+      order: {
+        kind: "area_priority",
+        areas: [{
+          includedSubspaceId: alfie,
+          pathPrefix: [],
+          timeRange: { start: BigInt(0), end: OPEN_END },
+        }],
+      },
+    });
+
+    assertEquals(eviction.payloads, [bettyRes.entry.payloadDigest]);
+    assert(await store.getPayload(alfieRes.entry));
+  });
+
+  await test.step("Evicts partial payloads", async () => {
+    const store = new TestStore();
+    const otherStore = new TestStore();
+
+    const payload = new Uint8Array([1, 2, 3, 4]);
+
+    const otherRes = await otherStore.set({
+      path: [new Uint8Array([0])],
+      payload,
+      subspace: alfie,
+    }, alfie);
+
+    assert(otherRes.kind === "success");
+    assert(
+      (await store.ingestEntry(otherRes.entry, otherRes.authToken)).kind ===
+        "success",
+    );
+
+    const partialRes = await store.ingestPayload(
+      {
+        path: otherRes.entry.path,
+        subspace: alfie,
+        timestamp: otherRes.entry.timestamp,
+      },
+      new Blob([payload.subarray(0, 2)]).stream(),
+      true,
+    );
+
+    assert(partialRes.kind === "success");
+
+    assertEquals(
+      await store.evictPayloads({
+        maxBytes: 0n,
+        order: { kind: "least_recently_used" },
+      }),
+      {
+        payloads: [],
+        partialPayloads: [otherRes.entry.payloadDigest],
+        bytesEvicted: 2n,
+        bytesHeld: 0n,
+      },
+    );
+
+    assert(await store.get(alfie, otherRes.entry.path));
   });
 });
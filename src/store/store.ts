@@ -1,12 +1,33 @@
-import type { EntryDriver, PayloadDriver } from "./storage/types.ts";
 import type {
+  EntryDriver,
+  JournalStep,
+  PayloadDriver,
+} from "./storage/types.ts";
+import type {
+  AreaStats,
+  CollectGarbageOpts,
+  DeleteEvent,
+  Deletion,
   EntryInput,
+  GarbageCollection,
   IngestEvent,
+  IngestEventNoOp,
   IngestPayloadEvent,
+  IntegrityReport,
   Payload,
+  PayloadEviction,
+  PayloadEvictionOrder,
+  PayloadRetentionPolicy,
+  PayloadVerifier,
+  QueryCursor,
+  QueryOpts,
   QueryOrder,
+  QueryPage,
+  QueryPageOpts,
   StoreOpts,
   StoreSchemes,
+  SubscribeOpts,
+  SubscriptionEvent,
 } from "./types.ts";
 import { PayloadDriverMemory } from "./storage/payload_drivers/memory.ts";
 import {
@@ -19,23 +40,72 @@ import {
   type StoreEventsMap,
 } from "./events.ts";
 import type { Storage3d } from "./storage/storage_3d/types.ts";
-import { WillowError } from "../errors.ts";
+import { ValidationError, WillowError } from "../errors.ts";
 import Mutex from "./mutex.ts";
 import { EntryDriverKvStore } from "./storage/entry_drivers/kv_store.ts";
 import { KvDriverInMemory } from "./storage/kv/kv_driver_in_memory.ts";
+import { RadixTree } from "./storage/prefix_iterators/radix_tree.ts";
 import {
+  type Area,
   type AreaOfInterest,
   areaTo3dRange,
   bigintToBytes,
+  decodePath,
+  encodePath,
   type Entry,
+  entryPosition,
+  fullArea,
+  isIncludedArea,
   OPEN_END,
   orderPath,
   type Path,
   type Range3d,
-  successorPath,
   successorPrefix,
 } from "@earthstar/willow-utils";
 import { TypedEventTarget } from "jsr:@derzade/typescript-event-target";
+import { FIFO } from "@korkje/fifo";
+import { encodeBase64 } from "@std/encoding/base64";
+import { decodeBase64Url, encodeBase64Url } from "@std/encoding/base64url";
+import { concat } from "@std/bytes";
+
+/** How many entries and payload bytes of a limited area of interest a query has gone through. */
+type QueryConsumption = {
+  count: number;
+  size: bigint;
+};
+
+/** Identifies the order a {@linkcode QueryCursor} was created for. */
+const QUERY_ORDER_TAGS: Record<QueryOrder, number> = {
+  path: 0,
+  subspace: 1,
+  timestamp: 2,
+};
+
+/** An entry to be ingested, along with the stored entries it will remove. */
+type IngestionPlan<
+  NamespaceId,
+  SubspaceId,
+  PayloadDigest,
+  AuthorisationToken,
+> = {
+  entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
+  authToken: AuthorisationToken;
+  authTokenHash: PayloadDigest;
+  /** The stored entry with the same subspace and path, if any. */
+  replaced:
+    | {
+      entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
+      authTokenHash: PayloadDigest;
+    }
+    | undefined;
+  /** The stored entries whose paths are prefixed by the entry's. */
+  pruned: {
+    entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
+    authTokenHash: PayloadDigest;
+  }[];
+  /** The deletion which caused the ingestion, if any. */
+  deletion?: Deletion<SubspaceId>;
+};
 
 /** A local set of a particular namespace's authorised entries to be written to, read from, and synced with other `Store`s. Applies the concepts of the [Willow Data Model](https://willowprotocol.org/specs/data-model/index.html#data_model) to the set of entries stored inside.
  *
@@ -81,10 +151,22 @@ export class Store<
     Prefingerprint
   >;
 
-  private checkedWriteAheadFlag = Promise.withResolvers<void>();
+  private journalReplayed = Promise.withResolvers<void>();
 
   private ingestionMutex = new Mutex();
 
+  // The number of payloads being written which no stored entry refers to yet.
+  private unreferencedPayloadWrites = 0;
+  private unreferencedPayloadWritesSettled:
+    | PromiseWithResolvers<void>
+    | undefined;
+
+  // Resolves once the garbage collection in progress (if any) has finished.
+  private garbageCollection: Promise<void> | undefined;
+
+  // Payloads read since the store was created, by digest, least recently used first.
+  private payloadUses = new Set<string>();
+
   constructor(
     opts: StoreOpts<
       NamespaceId,
@@ -105,6 +187,7 @@ export class Store<
       new PayloadDriverMemory(opts.schemes.payload);
 
     const entryDriver = opts.entryDriver || new EntryDriverKvStore({
+      namespace: opts.namespace,
       namespaceScheme: opts.schemes.namespace,
       pathScheme: opts.schemes.path,
       payloadScheme: opts.schemes.payload,
@@ -122,43 +205,111 @@ export class Store<
 
     this.payloadDriver = payloadDriver;
 
-    this.checkWriteAheadFlag();
+    this.replayJournal();
   }
 
-  private async checkWriteAheadFlag() {
-    const existingInsert = await this.entryDriver.writeAheadFlag.wasInserting();
-    const existingRemove = await this.entryDriver.writeAheadFlag.wasRemoving();
+  // Complete the mutation which was in progress when the store last stopped, if any.
+  private async replayJournal() {
+    const pending = await this.entryDriver.writeAheadJournal.pending();
 
-    if (existingInsert) {
-      const encodedAuthToken = await this.payloadDriver.get(
-        existingInsert.authTokenHash,
-      );
+    await this.migrateAuthTokens(pending?.steps ?? []);
 
-      if (encodedAuthToken) {
-        const decodedToken = this.schemes.authorisation
-          .tokenEncoding.decode(await encodedAuthToken?.bytes());
-
-        await this.insertEntry({
-          path: existingInsert.entry.path,
-          subspace: existingInsert.entry.subspaceId,
-          hash: existingInsert.entry.payloadDigest,
-          length: existingInsert.entry.payloadLength,
-          timestamp: existingInsert.entry.timestamp,
-          authToken: decodedToken,
-        });
+    if (pending) {
+      if (!pending.committed) {
+        await this.commitSteps(pending.steps);
       }
 
-      await this.entryDriver.writeAheadFlag.unflagInsertion();
+      await this.completeErasures(pending.steps);
+    }
+
+    this.journalReplayed.resolve();
+  }
+
+  // Stores used to keep authorisation tokens in the payload driver, without counting the entries referring to them.
+  // Move the tokens of stored entries (and of entries a pending journal will insert) to the auth token driver.
+  private async migrateAuthTokens(
+    steps: JournalStep<NamespaceId, SubspaceId, PayloadDigest>[],
+  ) {
+    const range = this.areaToRange(fullArea());
+
+    const staged = steps.flatMap((step) =>
+      step.kind === "insert" ? [step.authTokenHash] : []
+    );
+
+    let first: PayloadDigest | undefined = staged[0];
+
+    for await (
+      const { authTokenHash } of this.storage.query({
+        range,
+        maxCount: 1,
+        maxSize: BigInt(0),
+      }, "subspace")
+    ) {
+      first = authTokenHash;
+    }
+
+    // Either there is nothing to migrate, or the store has already been migrated.
+    if (
+      first === undefined ||
+      await this.entryDriver.authTokenDriver.get(first)
+    ) {
+      return;
     }
 
-    if (existingRemove) {
-      await this.storage.remove(existingRemove);
+    const stored: PayloadDigest[] = [];
 
-      // Unflag remove
-      await this.entryDriver.writeAheadFlag.unflagRemoval();
+    for await (
+      const { authTokenHash } of this.storage.query({
+        range,
+        maxCount: 0,
+        maxSize: BigInt(0),
+      }, "subspace")
+    ) {
+      stored.push(authTokenHash);
     }
 
-    this.checkedWriteAheadFlag.resolve();
+    // Tokens moved from the payload driver, by digest. Tokens already held by the auth token driver are left alone.
+    const migrated = new Map<string, PayloadDigest>();
+    const checked = new Set<string>();
+
+    await this.entryDriver.transaction(async () => {
+      for (const authTokenHash of [...stored, ...staged]) {
+        const key = this.digestKey(authTokenHash);
+
+        if (checked.has(key)) {
+          continue;
+        }
+
+        checked.add(key);
+
+        const authTokenPayload = await this.payloadDriver.get(authTokenHash);
+
+        if (
+          !authTokenPayload ||
+          await this.entryDriver.authTokenDriver.get(authTokenHash)
+        ) {
+          continue;
+        }
+
+        await this.entryDriver.authTokenDriver.set(
+          authTokenHash,
+          await authTokenPayload.bytes(),
+        );
+
+        migrated.set(key, authTokenHash);
+      }
+
+      for (const authTokenHash of stored) {
+        if (migrated.has(this.digestKey(authTokenHash))) {
+          await this.entryDriver.authTokenDriver.increment(authTokenHash);
+        }
+      }
+    });
+
+    // Tokens left in the payload driver by an interrupted migration are erased by `collectGarbage`.
+    for (const authTokenHash of migrated.values()) {
+      await this.erasePayloadIfUnreferenced(authTokenHash);
+    }
   }
 
   /** Create a new authorised entry for a given payload, and store both in the store.
@@ -166,13 +317,59 @@ export class Store<
    *
    * Additionally, if the new entry's path is a prefix of already-held older entries, those entries will be removed from the `Store`. See [prefix pruning](https://willowprotocol.org/specs/data-model/index.html#prefix_pruning) for more information.
    */
-  async set(
+  set(
     /** Parameters for the new entry being set. */
     input: EntryInput<SubspaceId>,
     /** The `AuthorisationOpts` configured by `AuthorisationScheme` to produce a valid `AuthorisationToken`, e.g. a keypair for signing.  */
     authorisation: AuthorisationOpts,
   ): Promise<
     IngestEvent<NamespaceId, SubspaceId, PayloadDigest, AuthorisationToken>
+  > {
+    return this.setEntry(input, authorisation);
+  }
+
+  // Wait for any garbage collection to finish, then prevent another from starting until the write has ended.
+  private async beginUnreferencedPayloadWrite() {
+    while (this.garbageCollection) {
+      await this.garbageCollection;
+    }
+
+    this.unreferencedPayloadWrites += 1;
+  }
+
+  private endUnreferencedPayloadWrite() {
+    this.unreferencedPayloadWrites -= 1;
+
+    if (this.unreferencedPayloadWrites === 0) {
+      this.unreferencedPayloadWritesSettled?.resolve();
+    }
+  }
+
+  // Create and ingest a new entry. Used by `set` and the deletion methods.
+  private async setEntry(
+    input: EntryInput<SubspaceId>,
+    authorisation: AuthorisationOpts,
+    deletion?: Deletion<SubspaceId>,
+  ): Promise<
+    IngestEvent<NamespaceId, SubspaceId, PayloadDigest, AuthorisationToken>
+  > {
+    // The payload is written before any stored entry refers to it.
+    await this.beginUnreferencedPayloadWrite();
+
+    try {
+      return await this.createEntry(input, authorisation, deletion);
+    } finally {
+      this.endUnreferencedPayloadWrite();
+    }
+  }
+
+  // Write a new entry's payload, then authorise and ingest the entry.
+  private async createEntry(
+    input: EntryInput<SubspaceId>,
+    authorisation: AuthorisationOpts,
+    deletion?: Deletion<SubspaceId>,
+  ): Promise<
+    IngestEvent<NamespaceId, SubspaceId, PayloadDigest, AuthorisationToken>
   > {
     const timestamp = input.timestamp !== undefined
       ? input.timestamp
@@ -197,7 +394,10 @@ export class Store<
       authorisation,
     );
 
-    const ingestResult = await this.ingestEntry(entry, authToken);
+    const ingestResult = await this.ingest(entry, authToken, {
+      deletion,
+      isLocalSet: true,
+    });
 
     if (ingestResult.kind !== "success") {
       const count = await this.entryDriver.payloadReferenceCounter.count(
@@ -211,6 +411,8 @@ export class Store<
       return ingestResult;
     }
 
+    this.usePayload(digest);
+
     this.dispatchTypedEvent(
       StoreEvents.EntryPayloadSet,
       new EntryPayloadSetEvent(entry, authToken, payload),
@@ -225,7 +427,7 @@ export class Store<
    *
    * Additionally, if the entry's path is a prefix of already-held older entries, those entries will be removed from the `Store`. See [prefix pruning](https://willowprotocol.org/specs/data-model/index.html#prefix_pruning) for more information.
    */
-  async ingestEntry(
+  ingestEntry(
     entry: Entry<NamespaceId, SubspaceId, PayloadDigest>,
     authorisation: AuthorisationToken,
     externalSourceId?: string,
@@ -237,7 +439,261 @@ export class Store<
       AuthorisationToken
     >
   > {
-    await this.checkedWriteAheadFlag.promise;
+    return this.ingest(entry, authorisation, { externalSourceId });
+  }
+
+  /** Attempt to store many authorised entries in the `Store` at once.
+   *
+   * Entries are accepted or rejected as they would be by {@linkcode Store.ingestEntry}, but regardless of their order within the batch: an entry is not ingested if a newer entry in the batch or the store has the same subspace and path, or a path which is a prefix of its own.
+   *
+   * All accepted entries are written together with as few writes to the entry driver as possible. If the entry driver persists its data, either all of them or none of them will be stored.
+   *
+   * @returns One {@linkcode IngestEvent} for each given entry, in the same order.
+   */
+  async ingestEntries(
+    entries: {
+      entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
+      authToken: AuthorisationToken;
+    }[],
+    externalSourceId?: string,
+  ): Promise<
+    IngestEvent<
+      NamespaceId,
+      SubspaceId,
+      PayloadDigest,
+      AuthorisationToken
+    >[]
+  > {
+    await this.journalReplayed.promise;
+
+    const results: (
+      | IngestEvent<
+        NamespaceId,
+        SubspaceId,
+        PayloadDigest,
+        AuthorisationToken
+      >
+      | undefined
+    )[] = new Array(entries.length).fill(undefined);
+
+    // Validate all entries before touching the store.
+    await Promise.all(entries.map(async ({ entry, authToken }, index) => {
+      if (
+        !this.schemes.namespace.isEqual(
+          this.namespace,
+          entry.namespaceId,
+        )
+      ) {
+        results[index] = {
+          kind: "failure",
+          reason: "invalid_entry",
+          message: "Entry's namespace did not match store's namespace.",
+          err: null,
+        };
+      } else if (
+        await this.schemes.authorisation.isAuthorisedWrite(
+          entry,
+          authToken,
+        ) === false
+      ) {
+        results[index] = {
+          kind: "failure",
+          reason: "invalid_entry",
+          message: "Authorisation token does not permit writing of entry",
+          err: null,
+        };
+      }
+    }));
+
+    // Only keep the newest entry for each subspace and path in the batch.
+    const newestAtPath = new Map<string, number>();
+
+    for (let index = 0; index < entries.length; index++) {
+      if (results[index]) {
+        continue;
+      }
+
+      const key = this.pathKey(entries[index].entry);
+      const otherIndex = newestAtPath.get(key);
+
+      if (otherIndex === undefined) {
+        newestAtPath.set(key, index);
+      } else if (
+        this.isNewerEntry(entries[index].entry, entries[otherIndex].entry)
+      ) {
+        results[otherIndex] = {
+          kind: "no_op",
+          reason: "obsolete_from_same_subspace",
+        };
+
+        newestAtPath.set(key, index);
+      } else {
+        results[index] = {
+          kind: "no_op",
+          reason: "obsolete_from_same_subspace",
+        };
+      }
+    }
+
+    // Discard entries with a newer prefix in the batch.
+    const batchPrefixes = new RadixTree<Uint8Array>();
+
+    for (const index of newestAtPath.values()) {
+      const { entry } = entries[index];
+
+      await batchPrefixes.insert(
+        [this.schemes.subspace.encode(entry.subspaceId), ...entry.path],
+        bigintToBytes(entry.timestamp),
+      );
+    }
+
+    for (const index of newestAtPath.values()) {
+      const { entry } = entries[index];
+
+      for await (
+        const [_path, timestampBytes] of batchPrefixes.prefixesOf([
+          this.schemes.subspace.encode(entry.subspaceId),
+          ...entry.path,
+        ])
+      ) {
+        const view = new DataView(timestampBytes.buffer);
+        const prefixTimestamp = view.getBigUint64(0);
+
+        if (prefixTimestamp >= entry.timestamp) {
+          results[index] = {
+            kind: "no_op",
+            reason: "newer_prefix_found",
+          };
+
+          break;
+        }
+      }
+    }
+
+    // The remaining entries can not obsolete each other,
+    // so they only need to be checked against the store.
+    const acquisitionId = await this.ingestionMutex.acquire();
+
+    const plans: {
+      index: number;
+      plan: IngestionPlan<
+        NamespaceId,
+        SubspaceId,
+        PayloadDigest,
+        AuthorisationToken
+      >;
+    }[] = [];
+
+    try {
+      const removed = new Set<string>();
+
+      for (let index = 0; index < entries.length; index++) {
+        if (results[index]) {
+          continue;
+        }
+
+        const { entry, authToken } = entries[index];
+
+        const obsoletion = await this.checkObsoletion(entry);
+
+        if (obsoletion.kind === "no_op") {
+          results[index] = obsoletion;
+
+          continue;
+        }
+
+        plans.push({
+          index,
+          plan: await this.planIngestion(
+            entry,
+            authToken,
+            obsoletion.replaces,
+            removed,
+          ),
+        });
+      }
+
+      if (plans.length > 0) {
+        await this.mutate(this.journalSteps(plans.map(({ plan }) => plan)));
+      }
+    } catch (err) {
+      this.ingestionMutex.release(acquisitionId);
+
+      // Nothing was written, so every entry which was not rejected failed.
+      return results.map((result): IngestEvent<
+        NamespaceId,
+        SubspaceId,
+        PayloadDigest,
+        AuthorisationToken
+      > => {
+        if (result) {
+          return result;
+        }
+
+        return {
+          kind: "failure",
+          reason: "write_failure",
+          message: "Could not write entries to the entry driver.",
+          err: err instanceof Error ? err : null,
+        };
+      });
+    }
+
+    for (const { index, plan } of plans) {
+      this.dispatchRemovalEvents(plan);
+
+      results[index] = {
+        kind: "success",
+        entry: plan.entry,
+        pruned: [
+          ...(plan.replaced ? [plan.replaced.entry] : []),
+          ...plan.pruned.map(({ entry }) => entry),
+        ],
+        authToken: plan.authToken,
+        externalSourceId,
+      };
+    }
+
+    for (const { index } of plans) {
+      this.dispatchTypedEvent(
+        StoreEvents.EntryIngest,
+        new EntryIngestEvent(
+          entries[index].entry,
+          entries[index].authToken,
+          externalSourceId,
+        ),
+      );
+    }
+
+    this.ingestionMutex.release(acquisitionId);
+
+    return results as IngestEvent<
+      NamespaceId,
+      SubspaceId,
+      PayloadDigest,
+      AuthorisationToken
+    >[];
+  }
+
+  // Ingest an entry, recording the deletion which caused it (if any) in emitted events.
+  private async ingest(
+    entry: Entry<NamespaceId, SubspaceId, PayloadDigest>,
+    authorisation: AuthorisationToken,
+    { externalSourceId, deletion, isLocalSet = false }: {
+      externalSourceId?: string;
+      deletion?: Deletion<SubspaceId>;
+      /** Whether the entry was created by {@linkcode Store.set}, in which case its payload is already held. */
+      isLocalSet?: boolean;
+    } = {},
+  ): Promise<
+    IngestEvent<
+      NamespaceId,
+      SubspaceId,
+      PayloadDigest,
+      AuthorisationToken
+    >
+  > {
+    await this.journalReplayed.promise;
 
     const acquisitionId = await this.ingestionMutex.acquire();
 
@@ -274,6 +730,74 @@ export class Store<
       };
     }
 
+    const obsoletion = await this.checkObsoletion(entry);
+
+    if (obsoletion.kind === "no_op") {
+      this.ingestionMutex.release(acquisitionId);
+
+      return obsoletion;
+    }
+
+    const plan = await this.planIngestion(
+      entry,
+      authorisation,
+      obsoletion.replaces,
+      new Set(),
+      deletion,
+    );
+
+    try {
+      await this.mutate(this.journalSteps([plan]));
+    } catch (err) {
+      this.ingestionMutex.release(acquisitionId);
+
+      return {
+        kind: "failure",
+        reason: "write_failure",
+        message: "Could not write entry to the entry driver.",
+        err: err instanceof Error ? err : null,
+      };
+    }
+
+    this.dispatchRemovalEvents(plan);
+
+    // This ingestion is not being triggered by a local set,
+    // so the payload will arrive separately.
+    if (!isLocalSet) {
+      this.dispatchTypedEvent(
+        StoreEvents.EntryIngest,
+        new EntryIngestEvent(entry, authorisation, externalSourceId),
+      );
+    }
+
+    this.ingestionMutex.release(acquisitionId);
+
+    return {
+      kind: "success",
+      entry: entry,
+      pruned: [
+        ...(plan.replaced ? [plan.replaced.entry] : []),
+        ...plan.pruned.map(({ entry }) => entry),
+      ],
+      authToken: authorisation,
+      externalSourceId: externalSourceId,
+    };
+  }
+
+  // Check whether an entry is obsoleted by a stored entry, and which stored entry it would replace if not.
+  private async checkObsoletion(
+    entry: Entry<NamespaceId, SubspaceId, PayloadDigest>,
+  ): Promise<
+    IngestEventNoOp | {
+      kind: "insertable";
+      replaces:
+        | {
+          entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
+          authTokenHash: PayloadDigest;
+        }
+        | undefined;
+    }
+  > {
     const subspacePath = [
       this.schemes.subspace.encode(entry.subspaceId),
       ...entry.path,
@@ -288,8 +812,6 @@ export class Store<
       const prefixTimestamp = view.getBigUint64(0);
 
       if (prefixTimestamp >= entry.timestamp) {
-        this.ingestionMutex.release(acquisitionId);
-
         return {
           kind: "no_op",
           reason: "newer_prefix_found",
@@ -300,7 +822,7 @@ export class Store<
     // Check for collisions with stored entries
 
     for await (
-      const { entry: otherEntry } of this
+      const { entry: otherEntry, authTokenHash: otherAuthTokenHash } of this
         .storage.query(
           {
             range: {
@@ -335,107 +857,451 @@ export class Store<
         break;
       }
 
-      //  If there is something existing and the timestamp is greater than ours, we have a no-op.
-      if (otherEntry.timestamp > entry.timestamp) {
-        this.ingestionMutex.release(acquisitionId);
-
+      if (!this.isNewerEntry(entry, otherEntry)) {
         return {
           kind: "no_op",
           reason: "obsolete_from_same_subspace",
         };
       }
 
-      const payloadDigestOrder = this.schemes.payload.order(
-        entry.payloadDigest,
-        otherEntry.payloadDigest,
-      );
+      return {
+        kind: "insertable",
+        replaces: { entry: otherEntry, authTokenHash: otherAuthTokenHash },
+      };
+    }
 
-      // If the timestamps are the same, and our hash is less, we have a no-op.
-      if (
-        otherEntry.timestamp === entry.timestamp &&
-        payloadDigestOrder === -1
-      ) {
-        this.ingestionMutex.release(acquisitionId);
+    return { kind: "insertable", replaces: undefined };
+  }
 
-        return {
-          kind: "no_op",
-          reason: "obsolete_from_same_subspace",
-        };
-      }
+  // Whether an entry is newer than another entry with the same subspace and path.
+  private isNewerEntry(
+    entry: Entry<NamespaceId, SubspaceId, PayloadDigest>,
+    otherEntry: Entry<NamespaceId, SubspaceId, PayloadDigest>,
+  ): boolean {
+    //  If the other timestamp is greater than ours, ours is older.
+    if (otherEntry.timestamp > entry.timestamp) {
+      return false;
+    }
 
-      // If the timestamps and hashes are the same, and the other payload's length is greater, we have a no-op.
-      if (
-        otherEntry.timestamp === entry.timestamp &&
-        payloadDigestOrder === 0 &&
-        entry.payloadLength < otherEntry.payloadLength
-      ) {
-        this.ingestionMutex.release(acquisitionId);
+    if (otherEntry.timestamp < entry.timestamp) {
+      return true;
+    }
 
-        return {
-          kind: "no_op",
-          reason: "obsolete_from_same_subspace",
-        };
-      }
+    const payloadDigestOrder = this.schemes.payload.order(
+      entry.payloadDigest,
+      otherEntry.payloadDigest,
+    );
 
-      // If all three qualities are the same, neither is newer than the other. So we can also have a no-op.
-      if (
-        otherEntry.timestamp === entry.timestamp &&
-        payloadDigestOrder === 0 &&
-        entry.payloadLength === otherEntry.payloadLength
-      ) {
-        this.ingestionMutex.release(acquisitionId);
+    // If the timestamps are the same, the greater hash wins.
+    if (payloadDigestOrder !== 0) {
+      return payloadDigestOrder === 1;
+    }
 
-        return {
-          kind: "no_op",
-          reason: "obsolete_from_same_subspace",
-        };
+    // If the timestamps and hashes are the same, the greater payload length wins.
+    // If all three qualities are the same, neither is newer than the other.
+    return entry.payloadLength > otherEntry.payloadLength;
+  }
+
+  // Plan the ingestion of an entry in place of the stored entry it replaces (if any), along with the stored entries it prunes.
+  // Stored entries in `removed` are already removed by another plan, and are left out of this one.
+  private async planIngestion(
+    entry: Entry<NamespaceId, SubspaceId, PayloadDigest>,
+    authToken: AuthorisationToken,
+    replaces:
+      | {
+        entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
+        authTokenHash: PayloadDigest;
       }
+      | undefined,
+    removed: Set<string>,
+    deletion?: Deletion<SubspaceId>,
+  ): Promise<
+    IngestionPlan<NamespaceId, SubspaceId, PayloadDigest, AuthorisationToken>
+  > {
+    const encodedAuthToken = this.schemes.authorisation.tokenEncoding.encode(
+      authToken,
+    );
 
-      await this.storage.remove(otherEntry);
+    const authTokenHash = await this.schemes.payload.fromBytes(
+      encodedAuthToken,
+    );
 
-      const toRemovePrefixPath = [
-        this.schemes.subspace.encode(
-          otherEntry.subspaceId,
-        ),
-        ...otherEntry.path,
-      ];
+    // Staged ahead of the entry which refers to it, which counts the reference once inserted.
+    await this.entryDriver.authTokenDriver.set(authTokenHash, encodedAuthToken);
 
-      await this.entryDriver.prefixIterator.remove(
-        toRemovePrefixPath,
-      );
+    const replaced = replaces && !removed.has(this.entryKey(replaces.entry))
+      ? replaces
+      : undefined;
+
+    if (replaced) {
+      removed.add(this.entryKey(replaced.entry));
+    }
+
+    const pruned = [];
+
+    for (
+      const prunable of await this.prunableEntries({
+        path: entry.path,
+        subspace: entry.subspaceId,
+        timestamp: entry.timestamp,
+      })
+    ) {
+      const key = this.entryKey(prunable.entry);
+
+      if (removed.has(key)) {
+        continue;
+      }
+
+      removed.add(key);
+      pruned.push(prunable);
+    }
+
+    return { entry, authToken, authTokenHash, replaced, pruned, deletion };
+  }
+
+  // The steps needed to carry out some ingestion plans.
+  // Payloads and auth tokens are only erased after all entries have been written, as a removed entry's may be used by an inserted one.
+  private journalSteps(
+    plans: IngestionPlan<
+      NamespaceId,
+      SubspaceId,
+      PayloadDigest,
+      AuthorisationToken
+    >[],
+  ): JournalStep<NamespaceId, SubspaceId, PayloadDigest>[] {
+    const steps: JournalStep<NamespaceId, SubspaceId, PayloadDigest>[] = [];
+    const erasures: JournalStep<NamespaceId, SubspaceId, PayloadDigest>[] = [];
+
+    for (const plan of plans) {
+      if (plan.replaced) {
+        steps.push({ kind: "remove", entry: plan.replaced.entry });
+      }
+
+      steps.push({
+        kind: "insert",
+        entry: plan.entry,
+        authTokenHash: plan.authTokenHash,
+      });
+
+      for (const { entry } of plan.pruned) {
+        steps.push({ kind: "remove", entry });
+      }
+
+      const removed = plan.replaced
+        ? [plan.replaced, ...plan.pruned]
+        : plan.pruned;
+
+      for (const { entry, authTokenHash } of removed) {
+        erasures.push(
+          { kind: "erase_auth_token", digest: authTokenHash },
+          { kind: "erase_payload", digest: entry.payloadDigest },
+        );
+      }
+    }
+
+    return [...steps, ...erasures];
+  }
+
+  // Record the steps of a mutation in the journal, then carry them out.
+  private async mutate(
+    steps: JournalStep<NamespaceId, SubspaceId, PayloadDigest>[],
+  ) {
+    await this.entryDriver.writeAheadJournal.record(steps);
+
+    try {
+      await this.commitSteps(steps);
+    } catch (err) {
+      // None of the steps were written, so there is nothing to recover.
+      await this.entryDriver.writeAheadJournal.clear();
+
+      throw err;
+    }
+
+    await this.completeErasures(steps);
+  }
+
+  // Carry out all the steps of a mutation which write to the entry driver, together.
+  private commitSteps(
+    steps: JournalStep<NamespaceId, SubspaceId, PayloadDigest>[],
+  ): Promise<void> {
+    return this.entryDriver.transaction(async () => {
+      for (const step of steps) {
+        await this.applyEntryStep(step);
+      }
+
+      await this.entryDriver.writeAheadJournal.markCommitted();
+    });
+  }
+
+  // Carry out a step which writes to the entry driver.
+  // Steps which were already carried out are skipped, so that replaying a journal is idempotent.
+  private async applyEntryStep(
+    step: JournalStep<NamespaceId, SubspaceId, PayloadDigest>,
+  ) {
+    switch (step.kind) {
+      case "insert": {
+        const { entry, authTokenHash } = step;
+
+        const existing = await this.storage.get(entry.subspaceId, entry.path);
+
+        if (
+          existing &&
+          this.entryKey(existing.entry) === this.entryKey(entry) &&
+          this.schemes.payload.order(
+              existing.entry.payloadDigest,
+              entry.payloadDigest,
+            ) === 0 &&
+          existing.entry.payloadLength === entry.payloadLength
+        ) {
+          return;
+        }
+
+        await this.storage.insert({
+          payloadDigest: entry.payloadDigest,
+          authTokenDigest: authTokenHash,
+          length: entry.payloadLength,
+          path: entry.path,
+          subspace: entry.subspaceId,
+          timestamp: entry.timestamp,
+        });
+
+        await this.entryDriver.prefixIterator.insert(
+          [this.schemes.subspace.encode(entry.subspaceId), ...entry.path],
+          bigintToBytes(entry.timestamp),
+        );
+
+        await this.entryDriver.payloadReferenceCounter.increment(
+          entry.payloadDigest,
+        );
+
+        await this.entryDriver.authTokenDriver.increment(authTokenHash);
+
+        return;
+      }
+      case "remove": {
+        const { entry } = step;
+
+        // The journal doesn't record which authorisation token the removed entry refers to.
+        const existing = await this.storage.get(entry.subspaceId, entry.path);
+
+        const wasRemoved = await this.storage.remove(entry);
+
+        if (!wasRemoved) {
+          return;
+        }
+
+        await this.entryDriver.prefixIterator.remove(
+          [this.schemes.subspace.encode(entry.subspaceId), ...entry.path],
+        );
 
+        await this.entryDriver.payloadReferenceCounter.decrement(
+          entry.payloadDigest,
+        );
+
+        if (existing) {
+          await this.entryDriver.authTokenDriver.decrement(
+            existing.authTokenHash,
+          );
+        }
+      }
+    }
+  }
+
+  // Carry out all the steps of a mutation which erase payloads and auth tokens, then clear the journal.
+  private async completeErasures(
+    steps: JournalStep<NamespaceId, SubspaceId, PayloadDigest>[],
+  ) {
+    for (const step of steps) {
+      switch (step.kind) {
+        case "erase_auth_token":
+          await this.eraseAuthTokenIfUnreferenced(step.digest);
+          break;
+        case "erase_payload":
+          await this.erasePayloadIfUnreferenced(step.digest);
+      }
+    }
+
+    await this.entryDriver.writeAheadJournal.clear();
+  }
+
+  // Dispatch the events for all the entries removed by a plan.
+  private dispatchRemovalEvents(
+    plan: IngestionPlan<
+      NamespaceId,
+      SubspaceId,
+      PayloadDigest,
+      AuthorisationToken
+    >,
+  ) {
+    const { entry, authToken, deletion } = plan;
+
+    if (plan.replaced) {
       this.dispatchTypedEvent(
         StoreEvents.EntryRemove,
-        new EntryRemoveEvent(otherEntry, { entry, authToken: authorisation }),
+        new EntryRemoveEvent(
+          plan.replaced.entry,
+          { entry, authToken },
+          deletion,
+        ),
       );
     }
 
-    const pruned = await this.insertEntry({
-      path: entry.path,
-      subspace: entry.subspaceId,
-      hash: entry.payloadDigest,
-      timestamp: entry.timestamp,
-      length: entry.payloadLength,
-      authToken: authorisation,
-    });
+    for (const pruned of plan.pruned) {
+      this.dispatchTypedEvent(
+        StoreEvents.PayloadRemove,
+        new PayloadRemoveEvent({ entry: pruned.entry, authToken }),
+      );
 
-    // Indicates that this ingestion is not being triggered by a local set,
-    // so the payload will arrive separately.
-    if (externalSourceId) {
       this.dispatchTypedEvent(
-        StoreEvents.EntryIngest,
-        new EntryIngestEvent(entry, authorisation),
+        StoreEvents.EntryRemove,
+        new EntryRemoveEvent(pruned.entry, { entry, authToken }, deletion),
       );
     }
+  }
 
-    this.ingestionMutex.release(acquisitionId);
+  // Erase a payload if no stored entry refers to it.
+  private async erasePayloadIfUnreferenced(digest: PayloadDigest) {
+    const count = await this.entryDriver.payloadReferenceCounter.count(digest);
+
+    if (count === 0) {
+      await this.payloadDriver.erase(digest);
+    }
+  }
+
+  // Count a payload as the most recently used.
+  private usePayload(digest: PayloadDigest) {
+    const key = this.digestKey(digest);
+
+    this.payloadUses.delete(key);
+    this.payloadUses.add(key);
+  }
+
+  // Retrieve a payload on behalf of the store's user, counting it as used.
+  private readPayload(digest: PayloadDigest): Promise<Payload | undefined> {
+    this.usePayload(digest);
+
+    return this.payloadDriver.get(digest);
+  }
+
+  // Erase an auth token if no stored entry refers to it.
+  private async eraseAuthTokenIfUnreferenced(digest: PayloadDigest) {
+    const count = await this.entryDriver.authTokenDriver.count(digest);
+
+    if (count === 0) {
+      await this.entryDriver.authTokenDriver.erase(digest);
+    }
+  }
+
+  /** Delete the entry at a given subspace and path by writing a newer entry with an empty payload (a tombstone) to the same path.
+   *
+   * As per [prefix pruning](https://willowprotocol.org/specs/data-model/index.html#prefix_pruning), the tombstone also removes any older entries whose paths are prefixed by the given path. Use {@linkcode Store.prunableEntries} to check which entries those would be.
+   */
+  async delete(
+    { subspace, path }: { subspace: SubspaceId; path: Path },
+    /** The `AuthorisationOpts` used to authorise the tombstone entry. */
+    authorisation: AuthorisationOpts,
+  ): Promise<
+    DeleteEvent<NamespaceId, SubspaceId, PayloadDigest, AuthorisationToken>
+  > {
+    await this.journalReplayed.promise;
+
+    const existing = await this.storage.get(subspace, path);
+
+    if (!existing) {
+      return {
+        kind: "no_op",
+        reason: "nothing_to_delete",
+      };
+    }
+
+    return this.writeTombstone(
+      { kind: "entry", subspace, path },
+      existing.entry.timestamp,
+      authorisation,
+    );
+  }
+
+  /** Delete all entries in a given subspace whose paths are prefixed by a given path, by writing an entry with an empty payload (a tombstone) to that path which is newer than all of them. */
+  async deletePrefix(
+    { subspace, pathPrefix }: { subspace: SubspaceId; pathPrefix: Path },
+    /** The `AuthorisationOpts` used to authorise the tombstone entry. */
+    authorisation: AuthorisationOpts,
+  ): Promise<
+    DeleteEvent<NamespaceId, SubspaceId, PayloadDigest, AuthorisationToken>
+  > {
+    await this.journalReplayed.promise;
+
+    const prefixKey = [
+      this.schemes.subspace.encode(subspace),
+      ...pathPrefix,
+    ];
+
+    let greatestTimestamp: bigint | undefined;
+
+    for await (
+      const [, timestampBytes] of this.entryDriver.prefixIterator.prefixedBy(
+        prefixKey,
+      )
+    ) {
+      const view = new DataView(timestampBytes.buffer);
+      const timestamp = view.getBigUint64(timestampBytes.byteOffset);
+
+      if (greatestTimestamp === undefined || timestamp > greatestTimestamp) {
+        greatestTimestamp = timestamp;
+      }
+    }
+
+    if (greatestTimestamp === undefined) {
+      return {
+        kind: "no_op",
+        reason: "nothing_to_delete",
+      };
+    }
+
+    return this.writeTombstone(
+      { kind: "prefix", subspace, path: pathPrefix },
+      greatestTimestamp,
+      authorisation,
+    );
+  }
+
+  // Write a tombstone entry newer than the given timestamp. Used by the deletion methods.
+  private async writeTombstone(
+    deletion: Deletion<SubspaceId>,
+    newerThan: bigint,
+    authorisation: AuthorisationOpts,
+  ): Promise<
+    DeleteEvent<NamespaceId, SubspaceId, PayloadDigest, AuthorisationToken>
+  > {
+    const now = BigInt(Date.now() * 1000);
+
+    const result = await this.setEntry(
+      {
+        subspace: deletion.subspace,
+        path: deletion.path,
+        payload: new Uint8Array(),
+        timestamp: now > newerThan ? now : newerThan + BigInt(1),
+      },
+      authorisation,
+      deletion,
+    );
+
+    if (result.kind === "failure") {
+      return result;
+    }
+
+    if (result.kind === "no_op") {
+      return {
+        kind: "no_op",
+        reason: "nothing_to_delete",
+      };
+    }
 
     return {
       kind: "success",
-      entry: entry,
-      pruned,
-      authToken: authorisation,
-      externalSourceId: externalSourceId,
+      tombstone: result.entry,
+      authToken: result.authToken,
+      pruned: result.pruned,
     };
   }
 
@@ -497,123 +1363,6 @@ export class Store<
     return prunableEntries;
   }
 
-  // Put a new entry into storage. Used by several methods in this class.
-  private async insertEntry(
-    {
-      path,
-      subspace,
-      timestamp,
-      hash,
-      length,
-      authToken,
-    }: {
-      path: Path;
-      subspace: SubspaceId;
-      timestamp: bigint;
-      hash: PayloadDigest;
-      length: bigint;
-      authToken: AuthorisationToken;
-    },
-  ): Promise<Entry<NamespaceId, SubspaceId, PayloadDigest>[]> {
-    const encodedToken = this.schemes.authorisation
-      .tokenEncoding.encode(authToken);
-
-    const { digest } = await this.payloadDriver.set(encodedToken);
-
-    await this.entryDriver.writeAheadFlag.flagInsertion({
-      namespaceId: this.namespace,
-      subspaceId: subspace,
-      path: path,
-      payloadDigest: hash,
-      payloadLength: length,
-      timestamp,
-    }, digest);
-
-    const prefixKey = [
-      this.schemes.subspace.encode(subspace),
-      ...path,
-    ];
-
-    await Promise.all([
-      this.storage.insert({
-        payloadDigest: hash,
-        authTokenDigest: digest,
-        length,
-        path,
-        subspace,
-        timestamp,
-      }),
-      this.entryDriver.prefixIterator.insert(
-        prefixKey,
-        bigintToBytes(timestamp),
-      ),
-      this.entryDriver.payloadReferenceCounter.increment(hash),
-    ]);
-
-    // And remove all prefixes with smaller timestamps.
-    const prunableEntries = await this.prunableEntries({
-      path,
-      subspace,
-      timestamp,
-    });
-
-    const prunedEntries = [];
-
-    for (const { entry, authTokenHash } of prunableEntries) {
-      await this.entryDriver.writeAheadFlag.flagRemoval(
-        entry,
-      );
-
-      await Promise.all([
-        this.storage.remove(entry),
-        async () => {
-          const count = await this.entryDriver.payloadReferenceCounter
-            .decrement(entry.payloadDigest);
-
-          if (count === 0) {
-            await this.payloadDriver.erase(
-              entry.payloadDigest,
-            );
-          }
-        },
-        ,
-        this.entryDriver.prefixIterator.remove(
-          [this.schemes.subspace.encode(entry.subspaceId), ...entry.path],
-        ),
-      ]);
-
-      this.dispatchTypedEvent(
-        StoreEvents.PayloadRemove,
-        new PayloadRemoveEvent({ entry, authToken }),
-      );
-
-      await this.payloadDriver.erase(authTokenHash);
-
-      await this.entryDriver.writeAheadFlag.unflagRemoval();
-
-      this.dispatchTypedEvent(
-        StoreEvents.EntryRemove,
-        new EntryRemoveEvent(entry, {
-          entry: {
-            namespaceId: this.namespace,
-            subspaceId: subspace,
-            path,
-            payloadDigest: hash,
-            payloadLength: length,
-            timestamp,
-          },
-          authToken,
-        }),
-      );
-
-      prunedEntries.push(entry);
-    }
-
-    await this.entryDriver.writeAheadFlag.unflagInsertion();
-
-    return prunedEntries;
-  }
-
   /** Attempt to store the corresponding payload for one of the store's entries.
    *
    * A payload will not be ingested if the given entry is not stored in the store; if the hash of the payload does not match the entry's; or if it is already held.
@@ -622,6 +1371,8 @@ export class Store<
    * @param payload - An {@linkcode AsyncIterable} of the bytes to be verified (and possibly ingested).
    * @param [allowPartial=false] - Whether to allow partial payloads. If enabled, does not reject if the ingested data is of a smaller length than the entry's. Defaults to `false`.
    * @param [offset=0] - The offset at which to begin writing the ingested data.
+   * @param outboard - The outboard of the payload's tree hash, if the store's payload scheme has a `tree` scheme. If given, each chunk of the payload is verified as it arrives, and the verified chunks are kept even if the rest of the payload is not. The offset must be at the start of a chunk.
+   * @param externalSourceId - An ID representing the source of this payload, included in the {@linkcode PayloadIngestEvent} emitted once it is complete.
    */
   async ingestPayload(
     entryDetails: {
@@ -632,6 +1383,8 @@ export class Store<
     payload: AsyncIterable<Uint8Array>,
     allowPartial = false,
     offset = 0,
+    outboard?: Uint8Array,
+    externalSourceId?: string,
   ): Promise<IngestPayloadEvent> {
     const getResult = await this.storage.get(
       entryDetails.subspace,
@@ -656,22 +1409,51 @@ export class Store<
       };
     }
 
+    let verifier: PayloadVerifier | undefined;
+
+    if (outboard) {
+      if (!this.schemes.payload.tree) {
+        throw new WillowError(
+          "Can't verify a payload with an outboard without a tree scheme for payloads.",
+        );
+      }
+
+      verifier = await this.schemes.payload.tree.verifier(
+        entry.payloadDigest,
+        entry.payloadLength,
+        outboard,
+      );
+
+      if (!verifier || offset % verifier.chunkSize !== 0) {
+        return {
+          kind: "failure",
+          reason: "data_mismatch",
+        };
+      }
+    }
+
     const result = await this.payloadDriver.receive({
       payload: payload,
       offset,
       expectedDigest: entry.payloadDigest,
       expectedLength: entry.payloadLength,
+      verifier,
     });
 
-    if (
-      (result.length > entry.payloadLength) ||
-      (allowPartial === false && entry.payloadLength !== result.length) ||
-      result.length === entry.payloadLength &&
+    const isComplete = result.length === entry.payloadLength &&
       this.schemes.payload.order(
-        result.digest,
-        entry.payloadDigest,
-      ) !== 0
-    ) {
+          result.digest,
+          entry.payloadDigest,
+        ) === 0;
+
+    const isValid = !result.failedVerification &&
+      (isComplete || (allowPartial && result.length < entry.payloadLength));
+
+    // Verified bytes are known to belong to the payload, so they are kept (and never fetched again) even when the rest of the payload is bad.
+    const hasVerifiedBytes = verifier !== undefined &&
+      result.length > BigInt(offset);
+
+    if (!isValid && !hasVerifiedBytes) {
       await result.reject();
 
       return {
@@ -680,16 +1462,10 @@ export class Store<
       };
     }
 
-    await result.commit(result.length === entry.payloadLength);
+    await result.commit(isComplete);
 
-    if (
-      result.length === entry.payloadLength &&
-      this.schemes.payload.order(
-        result.digest,
-        entry.payloadDigest,
-      ) === 0
-    ) {
-      const complete = await this.payloadDriver.get(entry.payloadDigest);
+    if (isComplete) {
+      const complete = await this.readPayload(entry.payloadDigest);
 
       if (!complete) {
         throw new WillowError(
@@ -707,7 +1483,7 @@ export class Store<
 
       this.dispatchTypedEvent(
         StoreEvents.PayloadIngest,
-        new PayloadIngestEvent(entry, authToken, complete),
+        new PayloadIngestEvent(entry, authToken, complete, externalSourceId),
       );
     }
 
@@ -716,17 +1492,29 @@ export class Store<
     await this.storage.updateAvailablePayload(entry.subspaceId, entry.path);
 
     this.ingestionMutex.release(acquisitionId);
+
+    if (!isValid) {
+      return {
+        kind: "failure",
+        reason: "data_mismatch",
+      };
+    }
+
     return {
       kind: "success",
     };
   }
 
-  /** Retrieve an asynchronous iterator of entry-payload-authorisation triples from the store for a given [`AreaOfInterest`](https://willowprotocol.org/specs/grouping-entries/index.html#aois). */
+  /** Retrieve an asynchronous iterator of entry-payload-authorisation triples from the store for a given [`AreaOfInterest`](https://willowprotocol.org/specs/grouping-entries/index.html#aois).
+   *
+   * Use the `after` option with a {@linkcode QueryCursor} to resume a previous query from where it left off.
+   */
   async *query(
     areaOfInterest: AreaOfInterest<SubspaceId>,
     order: QueryOrder,
     /** Whether to return entries in reverse (descending) order or not. */
     reverse = false,
+    opts: QueryOpts = {},
   ): AsyncIterable<
     [
       Entry<NamespaceId, SubspaceId, PayloadDigest>,
@@ -735,23 +1523,68 @@ export class Store<
     ]
   > {
     for await (
-      const { entry, authTokenHash } of this.storage.query(
-        {
-          range: areaTo3dRange({
-            maxComponentCount: this.schemes.path.maxComponentCount,
-            maxPathComponentLength: this.schemes.path.maxComponentLength,
-            maxPathLength: this.schemes.path.maxPathLength,
-            minimalSubspace: this.schemes.subspace.minimalSubspaceId,
-            successorSubspace: this.schemes.subspace.successor,
-          }, areaOfInterest.area),
-          maxCount: areaOfInterest.maxCount,
-          maxSize: areaOfInterest.maxSize,
-        },
+      const { result } of this.queryConsuming(
+        areaOfInterest,
         order,
         reverse,
+        opts,
       )
     ) {
-      const payload = await this.payloadDriver.get(entry.payloadDigest);
+      yield result;
+    }
+  }
+
+  // Query, yielding each result along with how much of the area of interest's `maxCount` and `maxSize` has been consumed up to and including it (hidden entries included).
+  private async *queryConsuming(
+    areaOfInterest: AreaOfInterest<SubspaceId>,
+    order: QueryOrder,
+    reverse: boolean,
+    opts: QueryOpts,
+  ): AsyncIterable<{
+    result: [
+      Entry<NamespaceId, SubspaceId, PayloadDigest>,
+      Payload | undefined,
+      AuthorisationToken,
+    ];
+    consumed: QueryConsumption;
+  }> {
+    const { after, consumed } = opts.after !== undefined
+      ? this.decodeQueryCursor(opts.after, order)
+      : { after: undefined, consumed: { count: 0, size: BigInt(0) } };
+
+    const { maxCount, maxSize } = areaOfInterest;
+
+    // Zero means unlimited, so a fully consumed limit must be checked here.
+    if (
+      (maxCount !== 0 && consumed.count >= maxCount) ||
+      (maxSize !== BigInt(0) && consumed.size >= maxSize)
+    ) {
+      return;
+    }
+
+    let count = consumed.count;
+    let size = consumed.size;
+
+    for await (
+      const { entry, authTokenHash } of this.storage.query(
+        {
+          range: this.areaToRange(areaOfInterest.area),
+          maxCount: maxCount === 0 ? 0 : maxCount - consumed.count,
+          maxSize: maxSize === BigInt(0) ? maxSize : maxSize - consumed.size,
+        },
+        order,
+        reverse,
+        after,
+      )
+    ) {
+      count += 1;
+      size += entry.payloadLength;
+
+      if (opts.hideTombstones && entry.payloadLength === BigInt(0)) {
+        continue;
+      }
+
+      const payload = await this.readPayload(entry.payloadDigest);
 
       const authToken = await this.getauthTokenByHash(authTokenHash);
 
@@ -759,8 +1592,1182 @@ export class Store<
         continue;
       }
 
-      yield [entry, payload, authToken];
+      yield {
+        result: [entry, payload, authToken],
+        // Only limits which apply need to be carried over.
+        consumed: {
+          count: maxCount === 0 ? 0 : count,
+          size: maxSize === BigInt(0) ? maxSize : size,
+        },
+      };
+    }
+  }
+
+  /** Retrieve a page of at most `limit` entry-payload-authorisation triples for a given [`AreaOfInterest`](https://willowprotocol.org/specs/grouping-entries/index.html#aois), along with a cursor for retrieving the next page.
+   *
+   * Pass the returned cursor as the `after` option of a later call (with the same area of interest and order) to retrieve the following page.
+   */
+  async queryPage(
+    areaOfInterest: AreaOfInterest<SubspaceId>,
+    order: QueryOrder,
+    { limit, reverse = false, ...opts }: QueryPageOpts,
+  ): Promise<
+    QueryPage<NamespaceId, SubspaceId, PayloadDigest, AuthorisationToken>
+  > {
+    const results: QueryPage<
+      NamespaceId,
+      SubspaceId,
+      PayloadDigest,
+      AuthorisationToken
+    >["results"] = [];
+
+    if (limit <= 0) {
+      return { results, cursor: opts.after };
+    }
+
+    for await (
+      const { result, consumed } of this.queryConsuming(
+        areaOfInterest,
+        order,
+        reverse,
+        opts,
+      )
+    ) {
+      results.push(result);
+
+      if (results.length === limit) {
+        return {
+          results,
+          cursor: this.encodeQueryCursor(result[0], order, consumed),
+        };
+      }
+    }
+
+    return { results, cursor: undefined };
+  }
+
+  /** Create a {@linkcode QueryCursor} positioned at a given entry, from which a query in the given order can be resumed.
+   *
+   * Unlike the cursors returned by {@linkcode Store.queryPage}, no entries are counted towards a limited area of interest's `maxCount` or `maxSize` before a cursor created this way.
+   */
+  queryCursor(
+    entry: Entry<NamespaceId, SubspaceId, PayloadDigest>,
+    order: QueryOrder,
+  ): QueryCursor {
+    return this.encodeQueryCursor(entry, order, {
+      count: 0,
+      size: BigInt(0),
+    });
+  }
+
+  // Encode a cursor positioned at an entry, which remembers how much of an area of interest's limits was consumed up to it.
+  private encodeQueryCursor(
+    entry: Entry<NamespaceId, SubspaceId, PayloadDigest>,
+    order: QueryOrder,
+    consumed: QueryConsumption,
+  ): QueryCursor {
+    return encodeBase64Url(concat([
+      new Uint8Array([QUERY_ORDER_TAGS[order]]),
+      bigintToBytes(BigInt(consumed.count)),
+      bigintToBytes(consumed.size),
+      bigintToBytes(entry.timestamp),
+      this.schemes.subspace.encode(entry.subspaceId),
+      encodePath(this.schemes.path, entry.path),
+    ]));
+  }
+
+  // Decode a cursor created by `queryCursor` into the position it refers to.
+  private decodeQueryCursor(cursor: QueryCursor, order: QueryOrder) {
+    let bytes: Uint8Array;
+
+    try {
+      bytes = decodeBase64Url(cursor);
+    } catch {
+      throw new ValidationError("Malformed query cursor.");
+    }
+
+    if (bytes.byteLength < 25) {
+      throw new ValidationError("Malformed query cursor.");
+    }
+
+    if (bytes[0] !== QUERY_ORDER_TAGS[order]) {
+      throw new ValidationError(
+        "Query cursor was created for a query with a different order.",
+      );
+    }
+
+    try {
+      const view = new DataView(bytes.buffer, bytes.byteOffset);
+
+      const consumed = {
+        count: Number(view.getBigUint64(1)),
+        size: view.getBigUint64(9),
+      };
+
+      const timestamp = view.getBigUint64(17);
+
+      const subspace = this.schemes.subspace.decode(bytes.subarray(25));
+
+      const path = decodePath(
+        this.schemes.path,
+        bytes.subarray(25 + this.schemes.subspace.encodedLength(subspace)),
+      );
+
+      return { after: { subspace, path, timestamp }, consumed };
+    } catch {
+      throw new ValidationError("Malformed query cursor.");
+    }
+  }
+
+  /** Subscribe to changes to the entries within a given [`AreaOfInterest`](https://willowprotocol.org/specs/grouping-entries/index.html#aois).
+   *
+   * First yields the entries already held within the area of interest, and then yields entries as they are added to or removed from it, and payloads as they are completely ingested for entries within it.
+   *
+   * If the area of interest has a `maxCount` or `maxSize`, only the newest entries fitting within those limits are yielded. Entries pushed out of this window by newer entries are yielded as removals, and entries moving back into it (e.g. after newer entries were pruned) are yielded as additions.
+   *
+   * The subscription ends when the given `signal` is aborted.
+   */
+  async *subscribe(
+    areaOfInterest: AreaOfInterest<SubspaceId>,
+    opts: SubscribeOpts = {},
+  ): AsyncIterable<
+    SubscriptionEvent<
+      NamespaceId,
+      SubspaceId,
+      PayloadDigest,
+      AuthorisationToken
+    >
+  > {
+    const { order = "path", includeExisting = true, signal } = opts;
+
+    if (signal?.aborted) {
+      return;
+    }
+
+    await this.journalReplayed.promise;
+
+    const isLimited = areaOfInterest.maxCount !== 0 ||
+      areaOfInterest.maxSize !== BigInt(0);
+
+    const isInArea = (entry: Entry<NamespaceId, SubspaceId, PayloadDigest>) =>
+      isIncludedArea(
+        this.schemes.subspace.order,
+        areaOfInterest.area,
+        entryPosition(entry),
+      );
+
+    // Changes to the area, in the order they happened. `null` signals that the subscription was aborted.
+    const changes = new FIFO<
+      | EntryPayloadSetEvent<
+        NamespaceId,
+        SubspaceId,
+        PayloadDigest,
+        AuthorisationToken
+      >
+      | EntryIngestEvent<
+        NamespaceId,
+        SubspaceId,
+        PayloadDigest,
+        AuthorisationToken
+      >
+      | EntryRemoveEvent<
+        NamespaceId,
+        SubspaceId,
+        PayloadDigest,
+        AuthorisationToken
+      >
+      | PayloadIngestEvent<
+        NamespaceId,
+        SubspaceId,
+        PayloadDigest,
+        AuthorisationToken
+      >
+      | null
+    >();
+
+    const onEntryPayloadSet = (
+      event: EntryPayloadSetEvent<
+        NamespaceId,
+        SubspaceId,
+        PayloadDigest,
+        AuthorisationToken
+      >,
+    ) => {
+      if (isInArea(event.detail.entry)) {
+        changes.push(event);
+      }
+    };
+
+    const onEntryIngest = (
+      event: EntryIngestEvent<
+        NamespaceId,
+        SubspaceId,
+        PayloadDigest,
+        AuthorisationToken
+      >,
+    ) => {
+      if (isInArea(event.detail.entry)) {
+        changes.push(event);
+      }
+    };
+
+    const onEntryRemove = (
+      event: EntryRemoveEvent<
+        NamespaceId,
+        SubspaceId,
+        PayloadDigest,
+        AuthorisationToken
+      >,
+    ) => {
+      if (isInArea(event.detail.removed)) {
+        changes.push(event);
+      }
+    };
+
+    const onPayloadIngest = (
+      event: PayloadIngestEvent<
+        NamespaceId,
+        SubspaceId,
+        PayloadDigest,
+        AuthorisationToken
+      >,
+    ) => {
+      if (isInArea(event.detail.entry)) {
+        changes.push(event);
+      }
+    };
+
+    const onAbort = () => {
+      changes.push(null);
+    };
+
+    // Listen before reading existing entries so that no changes are missed.
+    this.addEventListener(StoreEvents.EntryPayloadSet, onEntryPayloadSet);
+    this.addEventListener(StoreEvents.EntryIngest, onEntryIngest);
+    this.addEventListener(StoreEvents.EntryRemove, onEntryRemove);
+    this.addEventListener(StoreEvents.PayloadIngest, onPayloadIngest);
+    signal?.addEventListener("abort", onAbort);
+
+    try {
+      // The entries currently within the window of a limited area of interest, by key.
+      let window = new Map<
+        string,
+        {
+          entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
+          authToken: AuthorisationToken;
+        }
+      >();
+
+      // The keys of entries yielded for an unlimited area of interest while changes are unsettled.
+      const reportedKeys = new Set<string>();
+
+      if (isLimited) {
+        window = await this.windowOf(areaOfInterest);
+
+        if (includeExisting) {
+          const existing = Array.from(window.values()).sort((a, b) =>
+            this.compareEntries(a.entry, b.entry, order)
+          );
+
+          for (const { entry, authToken } of existing) {
+            if (signal?.aborted) {
+              return;
+            }
+
+            yield {
+              kind: "existing",
+              entry,
+              payload: await this.readPayload(entry.payloadDigest),
+              authToken,
+            };
+          }
+        }
+      } else if (includeExisting) {
+        for await (
+          const [entry, payload, authToken] of this.query(areaOfInterest, order)
+        ) {
+          if (signal?.aborted) {
+            return;
+          }
+
+          reportedKeys.add(this.entryKey(entry));
+
+          yield { kind: "existing", entry, payload, authToken };
+        }
+      }
+
+      // Changes queued while existing entries were being read may already be reflected by them.
+      let unsettled = isLimited ? 0 : changes.length;
+
+      for await (const change of changes) {
+        if (change === null) {
+          return;
+        }
+
+        if (isLimited) {
+          if (change instanceof PayloadIngestEvent) {
+            if (window.has(this.entryKey(change.detail.entry))) {
+              yield { kind: "payload", ...change.detail };
+            }
+
+            continue;
+          }
+
+          if (change instanceof EntryRemoveEvent) {
+            const key = this.entryKey(change.detail.removed);
+
+            if (window.has(key)) {
+              window.delete(key);
+
+              yield {
+                kind: "removed",
+                entry: change.detail.removed,
+                reason: "pruned",
+                removedBy: change.detail.removedBy,
+                deletion: change.detail.deletion,
+              };
+            }
+          }
+
+          // Wait until all queued changes have been applied before comparing windows,
+          // so that pruned entries aren't mistaken for ones pushed out of the window.
+          if (changes.length > 0) {
+            continue;
+          }
+
+          const nextWindow = await this.windowOf(areaOfInterest);
+
+          for (const [key, { entry }] of window) {
+            if (!nextWindow.has(key)) {
+              yield { kind: "removed", entry, reason: "out_of_window" };
+            }
+          }
+
+          for (const [key, { entry, authToken }] of nextWindow) {
+            if (!window.has(key)) {
+              yield {
+                kind: "added",
+                entry,
+                payload: await this.readPayload(entry.payloadDigest),
+                authToken,
+              };
+            }
+          }
+
+          window = nextWindow;
+
+          continue;
+        }
+
+        const isUnsettled = unsettled > 0;
+
+        if (isUnsettled) {
+          unsettled--;
+        } else {
+          reportedKeys.clear();
+        }
+
+        if (change instanceof EntryRemoveEvent) {
+          if (
+            isUnsettled &&
+            !reportedKeys.has(this.entryKey(change.detail.removed))
+          ) {
+            continue;
+          }
+
+          yield {
+            kind: "removed",
+            entry: change.detail.removed,
+            reason: "pruned",
+            removedBy: change.detail.removedBy,
+            deletion: change.detail.deletion,
+          };
+        } else if (change instanceof PayloadIngestEvent) {
+          yield { kind: "payload", ...change.detail };
+        } else {
+          if (isUnsettled) {
+            const key = this.entryKey(change.detail.entry);
+
+            if (reportedKeys.has(key)) {
+              continue;
+            }
+
+            reportedKeys.add(key);
+          }
+
+          yield {
+            kind: "added",
+            entry: change.detail.entry,
+            payload: change instanceof EntryPayloadSetEvent
+              ? change.detail.payload
+              : await this.readPayload(change.detail.entry.payloadDigest),
+            authToken: change.detail.authToken,
+          };
+        }
+      }
+    } finally {
+      this.removeEventListener(StoreEvents.EntryPayloadSet, onEntryPayloadSet);
+      this.removeEventListener(StoreEvents.EntryIngest, onEntryIngest);
+      this.removeEventListener(StoreEvents.EntryRemove, onEntryRemove);
+      this.removeEventListener(StoreEvents.PayloadIngest, onPayloadIngest);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  // Get the newest entries of an area of interest which fit within its `maxCount` and `maxSize`, by key.
+  private async windowOf(areaOfInterest: AreaOfInterest<SubspaceId>) {
+    const window = new Map<
+      string,
+      {
+        entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
+        authToken: AuthorisationToken;
+      }
+    >();
+
+    let countUsed = 0;
+    let sizeUsed = BigInt(0);
+
+    for await (
+      const [entry, , authToken] of this.query(
+        {
+          area: areaOfInterest.area,
+          maxCount: 0,
+          maxSize: BigInt(0),
+        },
+        "timestamp",
+        true,
+      )
+    ) {
+      countUsed += 1;
+      sizeUsed += entry.payloadLength;
+
+      if (
+        (areaOfInterest.maxCount !== 0 &&
+          countUsed > areaOfInterest.maxCount) ||
+        (areaOfInterest.maxSize !== BigInt(0) &&
+          sizeUsed > areaOfInterest.maxSize)
+      ) {
+        break;
+      }
+
+      window.set(this.entryKey(entry), { entry, authToken });
+    }
+
+    return window;
+  }
+
+  // Identify an entry by its subspace, path, and timestamp.
+  private entryKey(entry: Entry<NamespaceId, SubspaceId, PayloadDigest>) {
+    return this.pathKey(entry) + `@${entry.timestamp}`;
+  }
+
+  // Identify an entry by its subspace and path.
+  private pathKey(entry: Entry<NamespaceId, SubspaceId, PayloadDigest>) {
+    return [
+      this.schemes.subspace.encode(entry.subspaceId),
+      ...entry.path,
+    ].map((bytes) => encodeBase64(bytes)).join("/");
+  }
+
+  // Compare two entries in the same way as the storage would for a given order.
+  private compareEntries(
+    a: Entry<NamespaceId, SubspaceId, PayloadDigest>,
+    b: Entry<NamespaceId, SubspaceId, PayloadDigest>,
+    order: QueryOrder,
+  ): number {
+    const bySubspace = this.schemes.subspace.order(a.subspaceId, b.subspaceId);
+    const byPath = orderPath(a.path, b.path);
+    const byTime = a.timestamp < b.timestamp
+      ? -1
+      : a.timestamp > b.timestamp
+      ? 1
+      : 0;
+
+    const precedence = order === "path"
+      ? [byPath, byTime, bySubspace]
+      : order === "timestamp"
+      ? [byTime, bySubspace, byPath]
+      : [bySubspace, byPath, byTime];
+
+    return precedence.find((comparison) => comparison !== 0) || 0;
+  }
+
+  /** Check the store's entry and payload drivers for inconsistencies, such as those left behind by a faulty driver or by data corrupted on disk.
+   *
+   * Cross-checks the storage's orderings, the prefix iterator, and the payload and authorisation token reference counts against the stored entries, verifies the digests of all held payloads, and checks every entry's authorisation token. Use {@linkcode Store.repair} to fix the inconsistencies found.
+   */
+  async verify(): Promise<
+    IntegrityReport<NamespaceId, SubspaceId, PayloadDigest>
+  > {
+    await this.journalReplayed.promise;
+
+    const acquisitionId = await this.ingestionMutex.acquire();
+
+    try {
+      const { report } = await this.checkIntegrity(true);
+
+      return report;
+    } finally {
+      this.ingestionMutex.release(acquisitionId);
+    }
+  }
+
+  /** Fix the inconsistencies found by {@linkcode Store.verify}, returning the report of what was found before repairing.
+   *
+   * - Entries missing from some of the storage's orderings are restored to all of them.
+   * - Entries with a missing or invalid authorisation token are removed.
+   * - Corrupt payloads are erased.
+   * - The prefix iterator, payload reference counts, and authorisation token reference counts are rebuilt from the stored entries.
+   * - Payloads no stored entry refers to are erased.
+   *
+   * No events are dispatched for removed entries or erased payloads. Payloads which are being set or ingested while repairing may not yet be referred to by an entry, and be erased.
+   */
+  async repair(): Promise<
+    IntegrityReport<NamespaceId, SubspaceId, PayloadDigest>
+  > {
+    await this.journalReplayed.promise;
+
+    const acquisitionId = await this.ingestionMutex.acquire();
+
+    try {
+      const { report, entries } = await this.checkIntegrity(true);
+
+      const unindexed = new Set(
+        report.unindexedEntries.map((entry) => this.entryKey(entry)),
+      );
+      const untrusted = new Set(
+        [...report.missingAuthTokens, ...report.invalidAuthTokens]
+          .map((entry) => this.entryKey(entry)),
+      );
+      const corrupt = new Set(
+        report.corruptPayloads.map((digest) => this.digestKey(digest)),
+      );
+
+      for (const { entry, authTokenHash } of entries) {
+        const key = this.entryKey(entry);
+
+        if (untrusted.has(key)) {
+          await this.storage.remove(entry);
+        } else if (unindexed.has(key)) {
+          await this.storage.insert({
+            payloadDigest: entry.payloadDigest,
+            authTokenDigest: authTokenHash,
+            length: entry.payloadLength,
+            path: entry.path,
+            subspace: entry.subspaceId,
+            timestamp: entry.timestamp,
+          });
+        }
+      }
+
+      for (const digest of report.corruptPayloads) {
+        await this.payloadDriver.erase(digest);
+      }
+
+      for (const { entry } of entries) {
+        if (
+          !untrusted.has(this.entryKey(entry)) &&
+          corrupt.has(this.digestKey(entry.payloadDigest))
+        ) {
+          await this.storage.updateAvailablePayload(
+            entry.subspaceId,
+            entry.path,
+          );
+        }
+      }
+
+      // Rebuild the derived indexes from the entries which are left.
+      const { report: remaining } = await this.checkIntegrity(false);
+
+      for (const path of remaining.orphanedPrefixes) {
+        await this.entryDriver.prefixIterator.remove(path);
+      }
+
+      for (const entry of remaining.missingPrefixes) {
+        await this.entryDriver.prefixIterator.insert(
+          [this.schemes.subspace.encode(entry.subspaceId), ...entry.path],
+          bigintToBytes(entry.timestamp),
+        );
+      }
+
+      for (
+        const { digest, expected, actual } of remaining.wrongReferenceCounts
+      ) {
+        for (let count = actual; count < expected; count++) {
+          await this.entryDriver.payloadReferenceCounter.increment(digest);
+        }
+
+        for (let count = actual; count > expected; count--) {
+          await this.entryDriver.payloadReferenceCounter.decrement(digest);
+        }
+      }
+
+      for (
+        const { digest, expected, actual } of remaining.wrongAuthTokenCounts
+      ) {
+        if (expected === 0) {
+          await this.entryDriver.authTokenDriver.erase(digest);
+
+          continue;
+        }
+
+        for (let count = actual; count < expected; count++) {
+          await this.entryDriver.authTokenDriver.increment(digest);
+        }
+
+        for (let count = actual; count > expected; count--) {
+          await this.entryDriver.authTokenDriver.decrement(digest);
+        }
+      }
+
+      for (const digest of remaining.orphanedPayloads) {
+        await this.payloadDriver.erase(digest);
+      }
+
+      return report;
+    } finally {
+      this.ingestionMutex.release(acquisitionId);
+    }
+  }
+
+  /** Erase payloads and authorisation tokens which no stored entry refers to, such as the payloads of removed entries, partial payloads left behind by abandoned syncs, and the authorisation tokens of entries which failed to be ingested.
+   *
+   * Waits for payloads being set with {@linkcode Store.set} to be referred to by their entries before starting.
+   */
+  async collectGarbage(
+    { dryRun = false, maxBytes }: CollectGarbageOpts = {},
+  ): Promise<GarbageCollection<PayloadDigest>> {
+    await this.journalReplayed.promise;
+
+    while (this.garbageCollection) {
+      await this.garbageCollection;
+    }
+
+    const collected = Promise.withResolvers<void>();
+
+    this.garbageCollection = collected.promise;
+
+    while (this.unreferencedPayloadWrites > 0) {
+      this.unreferencedPayloadWritesSettled = Promise.withResolvers();
+
+      await this.unreferencedPayloadWritesSettled.promise;
+    }
+
+    const acquisitionId = await this.ingestionMutex.acquire();
+
+    try {
+      // Payloads and auth tokens referred to by stored entries, by digest.
+      const referenced = new Set<string>();
+      const referencedAuthTokens = new Set<string>();
+
+      for await (
+        const { entry, authTokenHash } of this.storage.query({
+          range: this.areaToRange(fullArea()),
+          maxCount: 0,
+          maxSize: BigInt(0),
+        }, "subspace")
+      ) {
+        referenced.add(this.digestKey(entry.payloadDigest));
+        referencedAuthTokens.add(this.digestKey(authTokenHash));
+      }
+
+      const result: GarbageCollection<PayloadDigest> = {
+        payloads: [],
+        partialPayloads: [],
+        authTokens: [],
+        bytesReclaimed: BigInt(0),
+        capped: false,
+      };
+
+      const isCapped = () =>
+        maxBytes !== undefined && result.bytesReclaimed >= maxBytes;
+
+      const held = new Set<string>();
+
+      for await (const digest of this.payloadDriver.digests()) {
+        const key = this.digestKey(digest);
+
+        held.add(key);
+
+        if (referenced.has(key)) {
+          continue;
+        }
+
+        if (isCapped()) {
+          result.capped = true;
+          continue;
+        }
+
+        result.bytesReclaimed += await this.payloadDriver.length(digest);
+        result.payloads.push(digest);
+      }
+
+      for await (const { digest, length } of this.payloadDriver.partials()) {
+        const key = this.digestKey(digest);
+
+        // The rest of the payload may still arrive.
+        if (referenced.has(key) && !held.has(key)) {
+          continue;
+        }
+
+        if (isCapped()) {
+          result.capped = true;
+          break;
+        }
+
+        result.bytesReclaimed += length;
+        result.partialPayloads.push(digest);
+      }
+
+      for await (const digest of this.entryDriver.authTokenDriver.digests()) {
+        if (referencedAuthTokens.has(this.digestKey(digest))) {
+          continue;
+        }
+
+        if (isCapped()) {
+          result.capped = true;
+          break;
+        }
+
+        const encoded = await this.entryDriver.authTokenDriver.get(digest);
+
+        result.bytesReclaimed += BigInt(encoded?.byteLength ?? 0);
+        result.authTokens.push(digest);
+      }
+
+      if (!dryRun) {
+        for (const digest of result.payloads) {
+          await this.payloadDriver.erase(digest);
+
+          this.payloadUses.delete(this.digestKey(digest));
+        }
+
+        for (const digest of result.partialPayloads) {
+          await this.payloadDriver.erasePartial(digest);
+        }
+
+        for (const digest of result.authTokens) {
+          await this.entryDriver.authTokenDriver.erase(digest);
+        }
+      }
+
+      return result;
+    } finally {
+      this.ingestionMutex.release(acquisitionId);
+
+      this.garbageCollection = undefined;
+      collected.resolve();
+    }
+  }
+
+  /** Evict the payloads of stored entries until the store holds no more payload bytes than a retention policy allows, keeping the entries and their authorisation tokens.
+   *
+   * Complete and partial payloads are evicted in the order given by the policy. Evicted payloads no longer count as available in the summaries used by sync, so they can be fetched again in a later sync, or ingested again with {@linkcode Store.ingestPayload}.
+   *
+   * No events are dispatched for evicted payloads. Payloads which are being ingested while evicting may be evicted too.
+   */
+  async evictPayloads(
+    policy: PayloadRetentionPolicy<SubspaceId>,
+  ): Promise<PayloadEviction<PayloadDigest>> {
+    await this.journalReplayed.promise;
+
+    const acquisitionId = await this.ingestionMutex.acquire();
+
+    try {
+      // Payloads referred to by stored entries, by digest.
+      const candidates = new Map<string, {
+        digest: PayloadDigest;
+        entries: Entry<NamespaceId, SubspaceId, PayloadDigest>[];
+        length: bigint;
+        partial: boolean;
+      }>();
+
+      for await (
+        const { entry } of this.storage.query({
+          range: this.areaToRange(fullArea()),
+          maxCount: 0,
+          maxSize: BigInt(0),
+        }, "subspace")
+      ) {
+        const key = this.digestKey(entry.payloadDigest);
+        const candidate = candidates.get(key);
+
+        if (candidate) {
+          candidate.entries.push(entry);
+        } else {
+          candidates.set(key, {
+            digest: entry.payloadDigest,
+            entries: [entry],
+            length: BigInt(0),
+            partial: false,
+          });
+        }
+      }
+
+      const result: PayloadEviction<PayloadDigest> = {
+        payloads: [],
+        partialPayloads: [],
+        bytesEvicted: BigInt(0),
+        bytesHeld: BigInt(0),
+      };
+
+      for await (const digest of this.payloadDriver.digests()) {
+        const length = await this.payloadDriver.length(digest);
+        const candidate = candidates.get(this.digestKey(digest));
+
+        result.bytesHeld += length;
+
+        if (candidate) {
+          candidate.length = length;
+        }
+      }
+
+      for await (const { digest, length } of this.payloadDriver.partials()) {
+        const candidate = candidates.get(this.digestKey(digest));
+
+        result.bytesHeld += length;
+
+        // Partial payloads lingering beside complete ones are left to `collectGarbage`.
+        if (candidate && candidate.length === BigInt(0)) {
+          candidate.length = length;
+          candidate.partial = true;
+        }
+      }
+
+      if (result.bytesHeld <= policy.maxBytes) {
+        return result;
+      }
+
+      // Payloads used since the store was created, least recently used first.
+      const uses = new Map(
+        Array.from(this.payloadUses, (key, index) => [key, index]),
+      );
+
+      // The newest timestamp of the entries referring to each payload, used to break ties between unused payloads.
+      const newest = (
+        entries: Entry<NamespaceId, SubspaceId, PayloadDigest>[],
+      ) =>
+        entries.reduce(
+          (timestamp, entry) =>
+            entry.timestamp > timestamp ? entry.timestamp : timestamp,
+          BigInt(0),
+        );
+
+      const evictable = Array.from(candidates).filter(([, candidate]) =>
+        candidate.length > BigInt(0)
+      ).map(([key, candidate]) => ({
+        key,
+        ...candidate,
+        use: uses.get(key) ?? -1,
+        newest: newest(candidate.entries),
+        priority: this.evictionPriority(policy.order, candidate.entries),
+      }));
+
+      evictable.sort((a, b) => {
+        if (a.priority !== b.priority) {
+          return b.priority - a.priority;
+        }
+
+        if (policy.order.kind === "largest_first" && a.length !== b.length) {
+          return a.length > b.length ? -1 : 1;
+        }
+
+        if (a.use !== b.use) {
+          return a.use - b.use;
+        }
+
+        if (a.newest !== b.newest) {
+          return a.newest < b.newest ? -1 : 1;
+        }
+
+        return 0;
+      });
+
+      for (const candidate of evictable) {
+        if (result.bytesHeld <= policy.maxBytes) {
+          break;
+        }
+
+        if (candidate.partial) {
+          await this.payloadDriver.erasePartial(candidate.digest);
+
+          result.partialPayloads.push(candidate.digest);
+        } else {
+          await this.payloadDriver.erase(candidate.digest);
+
+          // So that summaries of ranges including these entries no longer count the payload as available.
+          await this.entryDriver.transaction(async () => {
+            for (const entry of candidate.entries) {
+              await this.storage.updateAvailablePayload(
+                entry.subspaceId,
+                entry.path,
+              );
+            }
+          });
+
+          result.payloads.push(candidate.digest);
+        }
+
+        this.payloadUses.delete(candidate.key);
+
+        result.bytesEvicted += candidate.length;
+        result.bytesHeld -= candidate.length;
+      }
+
+      return result;
+    } finally {
+      this.ingestionMutex.release(acquisitionId);
+    }
+  }
+
+  // How soon the payload of some entries should be evicted according to an eviction order, higher being sooner.
+  private evictionPriority(
+    order: PayloadEvictionOrder<SubspaceId>,
+    entries: Entry<NamespaceId, SubspaceId, PayloadDigest>[],
+  ): number {
+    if (order.kind !== "area_priority") {
+      return 0;
+    }
+
+    let priority = order.areas.length;
+
+    for (const entry of entries) {
+      const index = order.areas.findIndex((area) =>
+        isIncludedArea(this.schemes.subspace.order, area, entryPosition(entry))
+      );
+
+      if (index !== -1 && index < priority) {
+        priority = index;
+      }
     }
+
+    return priority;
+  }
+
+  // Find the inconsistencies between the entry and payload drivers, along with all stored entries.
+  // Digests of held payloads are only verified if `checkDigests` is true, as this reads every payload.
+  private async checkIntegrity(checkDigests: boolean): Promise<{
+    report: IntegrityReport<NamespaceId, SubspaceId, PayloadDigest>;
+    entries: {
+      entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
+      authTokenHash: PayloadDigest;
+    }[];
+  }> {
+    const report: IntegrityReport<NamespaceId, SubspaceId, PayloadDigest> = {
+      unindexedEntries: [],
+      missingAuthTokens: [],
+      invalidAuthTokens: [],
+      corruptPayloads: [],
+      missingPrefixes: [],
+      orphanedPrefixes: [],
+      wrongReferenceCounts: [],
+      orphanedPayloads: [],
+      wrongAuthTokenCounts: [],
+    };
+
+    // All stored entries by key, including those missing from the ordering queried below.
+    const stored = new Map<
+      string,
+      {
+        entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
+        authTokenHash: PayloadDigest;
+      }
+    >();
+
+    for await (const unindexed of this.storage.unindexedEntries()) {
+      report.unindexedEntries.push(unindexed.entry);
+      stored.set(this.entryKey(unindexed.entry), unindexed);
+    }
+
+    for await (
+      const result of this.storage.query({
+        range: this.areaToRange(fullArea()),
+        maxCount: 0,
+        maxSize: BigInt(0),
+      }, "subspace")
+    ) {
+      stored.set(this.entryKey(result.entry), result);
+    }
+
+    // All held payloads by encoded digest.
+    const held = new Map<string, PayloadDigest>();
+
+    for await (const digest of this.payloadDriver.digests()) {
+      const key = this.digestKey(digest);
+
+      held.set(key, digest);
+
+      const payload = checkDigests
+        ? await this.payloadDriver.get(digest)
+        : undefined;
+
+      if (!payload) {
+        continue;
+      }
+
+      const actualDigest = await this.schemes.payload.fromBytes(
+        await payload.stream(),
+      );
+
+      if (this.schemes.payload.order(actualDigest, digest) !== 0) {
+        report.corruptPayloads.push(digest);
+      }
+    }
+
+    // All paths in the prefix iterator, by the same key as `pathKey`.
+    const prefixes = new Map<string, { path: Path; timestamp: bigint }>();
+
+    for await (
+      const [path, timestampBytes] of this.entryDriver.prefixIterator
+        .prefixedBy([])
+    ) {
+      const view = new DataView(
+        timestampBytes.buffer,
+        timestampBytes.byteOffset,
+      );
+
+      prefixes.set(path.map((component) => encodeBase64(component)).join("/"), {
+        path,
+        timestamp: view.getBigUint64(0),
+      });
+    }
+
+    const references = new Map<
+      string,
+      { digest: PayloadDigest; count: number }
+    >();
+    const authTokenReferences = new Map<
+      string,
+      { digest: PayloadDigest; count: number }
+    >();
+
+    for (const { entry, authTokenHash } of stored.values()) {
+      const payloadKey = this.digestKey(entry.payloadDigest);
+      const authTokenKey = this.digestKey(authTokenHash);
+
+      const payloadReferences = references.get(payloadKey) ??
+        { digest: entry.payloadDigest, count: 0 };
+
+      payloadReferences.count += 1;
+      references.set(payloadKey, payloadReferences);
+
+      const tokenReferences = authTokenReferences.get(authTokenKey) ??
+        { digest: authTokenHash, count: 0 };
+
+      tokenReferences.count += 1;
+      authTokenReferences.set(authTokenKey, tokenReferences);
+
+      const authTokenEncoded = await this.entryDriver.authTokenDriver.get(
+        authTokenHash,
+      );
+
+      if (!authTokenEncoded) {
+        report.missingAuthTokens.push(entry);
+      } else if (
+        (checkDigests &&
+          this.schemes.payload.order(
+              await this.schemes.payload.fromBytes(authTokenEncoded),
+              authTokenHash,
+            ) !== 0) ||
+        !(await this.isValidAuthToken(entry, authTokenHash))
+      ) {
+        report.invalidAuthTokens.push(entry);
+      }
+
+      const pathKey = this.pathKey(entry);
+      const prefix = prefixes.get(pathKey);
+
+      if (!prefix || prefix.timestamp !== entry.timestamp) {
+        report.missingPrefixes.push(entry);
+      }
+
+      prefixes.delete(pathKey);
+    }
+
+    for (const { path } of prefixes.values()) {
+      report.orphanedPrefixes.push(path);
+    }
+
+    // Held payloads no entry refers to should have no references either.
+    for (const [key, digest] of held) {
+      if (!references.has(key)) {
+        references.set(key, { digest, count: 0 });
+        report.orphanedPayloads.push(digest);
+      }
+    }
+
+    for (const { digest, count } of references.values()) {
+      const actual = await this.entryDriver.payloadReferenceCounter.count(
+        digest,
+      );
+
+      if (actual !== count) {
+        report.wrongReferenceCounts.push({ digest, expected: count, actual });
+      }
+    }
+
+    // Likewise for held authorisation tokens.
+    for await (const digest of this.entryDriver.authTokenDriver.digests()) {
+      const key = this.digestKey(digest);
+
+      if (!authTokenReferences.has(key)) {
+        authTokenReferences.set(key, { digest, count: 0 });
+      }
+    }
+
+    for (const { digest, count } of authTokenReferences.values()) {
+      const actual = await this.entryDriver.authTokenDriver.count(digest);
+
+      if (actual !== count) {
+        report.wrongAuthTokenCounts.push({ digest, expected: count, actual });
+      }
+    }
+
+    return { report, entries: Array.from(stored.values()) };
+  }
+
+  // Whether a held authorisation token can be decoded, and permits writing a given entry.
+  private async isValidAuthToken(
+    entry: Entry<NamespaceId, SubspaceId, PayloadDigest>,
+    authTokenHash: PayloadDigest,
+  ): Promise<boolean> {
+    try {
+      const authToken = await this.getauthTokenByHash(authTokenHash);
+
+      return authToken !== undefined &&
+        await this.schemes.authorisation.isAuthorisedWrite(entry, authToken);
+    } catch {
+      return false;
+    }
+  }
+
+  // Identify a payload by its digest.
+  private digestKey(digest: PayloadDigest) {
+    return encodeBase64(this.schemes.payload.encode(digest));
+  }
+
+  /** Count the entries within a given [`Area`](https://willowprotocol.org/specs/grouping-entries/index.html#areas). */
+  async count(area: Area<SubspaceId>): Promise<number> {
+    const { count } = await this.stats(area);
+
+    return count;
+  }
+
+  /** Count the entries within a given [`Area`](https://willowprotocol.org/specs/grouping-entries/index.html#areas), along with the total length of their payloads and how many of those bytes are held locally. */
+  async stats(area: Area<SubspaceId>): Promise<AreaStats> {
+    await this.journalReplayed.promise;
+
+    return this.storage.stats(this.areaToRange(area));
+  }
+
+  private areaToRange(area: Area<SubspaceId>): Range3d<SubspaceId> {
+    return areaTo3dRange({
+      maxComponentCount: this.schemes.path.maxComponentCount,
+      maxPathComponentLength: this.schemes.path.maxComponentLength,
+      maxPathLength: this.schemes.path.maxPathLength,
+      minimalSubspace: this.schemes.subspace.minimalSubspaceId,
+      successorSubspace: this.schemes.subspace.successor,
+    }, area);
   }
 
   /** Summarise a given [`Range`](https://willowprotocol.org/specs/grouping-entries/index.html#ranges) into a `PreFingerprint` mapping to the set of entries included by that range.
@@ -814,7 +2821,7 @@ export class Store<
         order === "newest" ? true : false,
       )
     ) {
-      const payload = await this.payloadDriver.get(entry.payloadDigest);
+      const payload = await this.readPayload(entry.payloadDigest);
 
       const authToken = await this.getauthTokenByHash(authTokenHash);
 
@@ -832,47 +2839,82 @@ export class Store<
   getPayload(
     entry: Entry<NamespaceId, SubspaceId, PayloadDigest>,
   ): Promise<Payload | undefined> {
-    return this.payloadDriver.get(entry.payloadDigest);
+    return this.readPayload(entry.payloadDigest);
+  }
+
+  /** Retrieve the entry at a given subspace and path, along with its payload and `AuthorisationToken`, if held in storage. */
+  async get(
+    subspace: SubspaceId,
+    path: Path,
+  ): Promise<
+    {
+      entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
+      payload: Payload | undefined;
+      authToken: AuthorisationToken;
+    } | undefined
+  > {
+    await this.journalReplayed.promise;
+
+    const result = await this.storage.get(subspace, path);
+
+    if (!result) {
+      return;
+    }
+
+    const [payload, authToken] = await Promise.all([
+      this.readPayload(result.entry.payloadDigest),
+      this.getauthTokenByHash(result.authTokenHash),
+    ]);
+
+    if (!authToken) {
+      throw new WillowError(
+        "Malformed storage. No authorisation token for stored entry.",
+      );
+    }
+
+    return { entry: result.entry, payload, authToken };
+  }
+
+  /** Retrieve the entries at many subspace-path pairs at once. Results are returned in the same order as the given pairs, with `undefined` for those where no entry is held. */
+  getMany(
+    subspacePaths: { subspace: SubspaceId; path: Path }[],
+  ): Promise<
+    ({
+      entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
+      payload: Payload | undefined;
+      authToken: AuthorisationToken;
+    } | undefined)[]
+  > {
+    return Promise.all(
+      subspacePaths.map(({ subspace, path }) => this.get(subspace, path)),
+    );
   }
 
   /** Retrieve a `AuthorisationToken` for a given entry, if held in storage. */
   async getAuthToken(
     entry: Entry<NamespaceId, SubspaceId, PayloadDigest>,
   ): Promise<AuthorisationToken | undefined> {
-    let authToken: AuthorisationToken | undefined;
+    const result = await this.get(entry.subspaceId, entry.path);
 
-    for await (
-      const [, , token] of this.queryRange({
-        subspaceRange: {
-          start: entry.subspaceId,
-          end: this.schemes.subspace.successor(entry.subspaceId) || OPEN_END,
-        },
-        pathRange: {
-          start: entry.path,
-          end: successorPath(entry.path, this.schemes.path) || OPEN_END,
-        },
-        timeRange: {
-          start: entry.timestamp,
-          end: entry.timestamp + 1n,
-        },
-      }, "newest")
-    ) {
-      authToken = token;
+    if (!result || result.entry.timestamp !== entry.timestamp) {
+      return;
     }
 
-    return authToken;
+    return result.authToken;
   }
 
   /** Retrieve an `AuthorisationToken` by hash, if held in storage. */
   private async getauthTokenByHash(
     authTokenHash: PayloadDigest,
   ): Promise<AuthorisationToken | undefined> {
-    const authTokenPayload = await this.payloadDriver.get(authTokenHash);
+    const authTokenEncoded = await this.entryDriver.authTokenDriver.get(
+      authTokenHash,
+    );
 
-    if (!authTokenPayload) {
+    if (!authTokenEncoded) {
       return;
     }
-    const authTokenEncoded = await authTokenPayload.bytes();
+
     const authToken = this.schemes.authorisation.tokenEncoding
       .decode(authTokenEncoded);
 
@@ -0,0 +1,247 @@
+import {
+  assert,
+  assertEquals,
+  assertNotStrictEquals,
+  assertRejects,
+} from "@std/assert";
+import { fullArea } from "@earthstar/willow-utils";
+import { StoreManager } from "./store_manager.ts";
+import { EntryDriverKvStore } from "./storage/entry_drivers/kv_store.ts";
+import { KvDriverInMemory } from "./storage/kv/kv_driver_in_memory.ts";
+import { PayloadDriverMemory } from "./storage/payload_drivers/memory.ts";
+import {
+  TestNamespace,
+  testSchemeAuthorisation,
+  testSchemeFingerprint,
+  testSchemeNamespace,
+  testSchemePath,
+  testSchemePayload,
+  testSchemeSubspace,
+  TestSubspace,
+} from "../test/test_schemes.ts";
+
+function makeManager() {
+  const entryKv = new KvDriverInMemory();
+  const payloadDrivers = new Map<
+    TestNamespace,
+    PayloadDriverMemory<ArrayBuffer>
+  >();
+
+  let made = 0;
+
+  const manager = new StoreManager({
+    schemes: {
+      namespace: testSchemeNamespace,
+      subspace: testSchemeSubspace,
+      path: testSchemePath,
+      payload: testSchemePayload,
+      authorisation: testSchemeAuthorisation,
+      fingerprint: testSchemeFingerprint,
+    },
+    makeDrivers: (namespace) => {
+      made++;
+
+      const payloadDriver = payloadDrivers.get(namespace) ||
+        new PayloadDriverMemory(testSchemePayload);
+
+      payloadDrivers.set(namespace, payloadDriver);
+
+      return Promise.resolve({
+        payloadDriver,
+        entryDriver: new EntryDriverKvStore({
+          namespace,
+          kvDriver: entryKv,
+          namespaceScheme: testSchemeNamespace,
+          subspaceScheme: testSchemeSubspace,
+          pathScheme: testSchemePath,
+          payloadScheme: testSchemePayload,
+          fingerprintScheme: testSchemeFingerprint,
+          getPayloadLength: (digest) => payloadDriver.length(digest),
+        }),
+      });
+    },
+  });
+
+  return { manager, payloadDrivers, made: () => made };
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items = [];
+
+  for await (const item of iterable) {
+    items.push(item);
+  }
+
+  return items;
+}
+
+Deno.test("StoreManager", async (test) => {
+  await test.step("Caches stores per namespace", async () => {
+    const { manager } = makeManager();
+
+    const [a, b] = await Promise.all([
+      manager.getStore(TestNamespace.Family),
+      manager.getStore(TestNamespace.Family),
+    ]);
+
+    assert(a === b);
+    assertEquals(a.namespace, TestNamespace.Family);
+
+    const c = await manager.getStore(TestNamespace.Project);
+
+    assertNotStrictEquals(a, c);
+    assertEquals(c.namespace, TestNamespace.Project);
+  });
+
+  await test.step("Lists known namespaces", async () => {
+    const { manager } = makeManager();
+
+    assertEquals(await collect(manager.namespaces()), []);
+
+    await manager.getStore(TestNamespace.Bookclub);
+    await manager.getStore(TestNamespace.Family);
+
+    assertEquals(
+      (await collect(manager.namespaces())).sort(),
+      [TestNamespace.Family, TestNamespace.Bookclub],
+    );
+
+    assert(await manager.has(TestNamespace.Bookclub));
+    assert(!(await manager.has(TestNamespace.Vibes)));
+  });
+
+  await test.step("Reopens closed stores with their data", async () => {
+    const { manager } = makeManager();
+
+    const store = await manager.getStore(TestNamespace.Gardening);
+
+    await store.set({
+      path: [new Uint8Array([1])],
+      payload: new Uint8Array([1, 2, 3]),
+      subspace: TestSubspace.Alfie,
+    }, TestSubspace.Alfie);
+
+    await manager.close(TestNamespace.Gardening);
+
+    const reopened = await manager.getStore(TestNamespace.Gardening);
+
+    assert(reopened !== store);
+
+    const entries = await collect(reopened.query({
+      area: fullArea(),
+      maxCount: 0,
+      maxSize: BigInt(0),
+    }, "path"));
+
+    assertEquals(entries.length, 1);
+  });
+
+  await test.step("Deletes a namespace with its entries and payloads", async () => {
+    const { manager, payloadDrivers } = makeManager();
+
+    const family = await manager.getStore(TestNamespace.Family);
+    const project = await manager.getStore(TestNamespace.Project);
+
+    const res = await family.set({
+      path: [new Uint8Array([1])],
+      payload: new Uint8Array([1, 2, 3]),
+      subspace: TestSubspace.Alfie,
+    }, TestSubspace.Alfie);
+
+    await project.set({
+      path: [new Uint8Array([1])],
+      payload: new Uint8Array([4, 5, 6]),
+      subspace: TestSubspace.Alfie,
+    }, TestSubspace.Alfie);
+
+    assert(res.kind === "success");
+
+    await manager.delete(TestNamespace.Family);
+
+    assertEquals(await collect(manager.namespaces()), [TestNamespace.Project]);
+
+    const familyPayloads = payloadDrivers.get(TestNamespace.Family)!;
+
+    assertEquals(await familyPayloads.get(res.entry.payloadDigest), undefined);
+
+    const recreated = await manager.getStore(TestNamespace.Family);
+
+    assertEquals(
+      await collect(recreated.query({
+        area: fullArea(),
+        maxCount: 0,
+        maxSize: BigInt(0),
+      }, "path")),
+      [],
+    );
+
+    assertEquals(
+      (await collect(project.query({
+        area: fullArea(),
+        maxCount: 0,
+        maxSize: BigInt(0),
+      }, "path"))).length,
+      1,
+    );
+  });
+
+  await test.step("Closes all stores even if one failed to open", async () => {
+    const disposed: TestNamespace[] = [];
+
+    const manager = new StoreManager({
+      schemes: {
+        namespace: testSchemeNamespace,
+        subspace: testSchemeSubspace,
+        path: testSchemePath,
+        payload: testSchemePayload,
+        authorisation: testSchemeAuthorisation,
+        fingerprint: testSchemeFingerprint,
+      },
+      makeDrivers: (namespace) => {
+        if (namespace === TestNamespace.Family) {
+          return Promise.reject(new Error("Could not open"));
+        }
+
+        const payloadDriver = new PayloadDriverMemory(testSchemePayload);
+
+        return Promise.resolve({
+          payloadDriver,
+          entryDriver: new EntryDriverKvStore({
+            namespace,
+            kvDriver: new KvDriverInMemory(),
+            namespaceScheme: testSchemeNamespace,
+            subspaceScheme: testSchemeSubspace,
+            pathScheme: testSchemePath,
+            payloadScheme: testSchemePayload,
+            fingerprintScheme: testSchemeFingerprint,
+            getPayloadLength: (digest) => payloadDriver.length(digest),
+          }),
+          dispose: () => {
+            disposed.push(namespace);
+            return Promise.resolve();
+          },
+        });
+      },
+    });
+
+    const failed = assertRejects(() => manager.getStore(TestNamespace.Family));
+    const opened = manager.getStore(TestNamespace.Project);
+
+    // Both stores are still opening.
+    await assertRejects(() => manager.closeAll(), AggregateError);
+
+    await failed;
+    await opened;
+
+    assertEquals(disposed, [TestNamespace.Project]);
+  });
+
+  await test.step("Does not open unknown namespaces to delete them", async () => {
+    const { manager, made } = makeManager();
+
+    await manager.delete(TestNamespace.Vibes);
+
+    assertEquals(made(), 0);
+    assertEquals(await collect(manager.namespaces()), []);
+  });
+});
@@ -0,0 +1,283 @@
+import { encodeBase64 } from "@std/encoding/base64";
+import { fullArea } from "@earthstar/willow-utils";
+import { Store } from "./store.ts";
+import type { EntryDriver, PayloadDriver } from "./storage/types.ts";
+import type { KvDriver } from "./storage/kv/types.ts";
+import { KvDriverInMemory } from "./storage/kv/kv_driver_in_memory.ts";
+import type { StoreSchemes } from "./types.ts";
+
+/** The drivers used by the {@linkcode Store} of a single namespace. */
+export type StoreDrivers<
+  NamespaceId,
+  SubspaceId,
+  PayloadDigest,
+  Prefingerprint,
+> = {
+  entryDriver: EntryDriver<
+    NamespaceId,
+    SubspaceId,
+    PayloadDigest,
+    Prefingerprint
+  >;
+  /** The driver used to store the namespace's payloads. Must not be shared with other namespaces, as deleting a namespace erases all payloads its entries refer to. */
+  payloadDriver: PayloadDriver<PayloadDigest>;
+  /** Called when the manager closes the namespace's `Store`, e.g. to close a database connection. */
+  dispose?: () => Promise<void>;
+};
+
+export type StoreManagerOpts<
+  NamespaceId,
+  SubspaceId,
+  PayloadDigest,
+  AuthorisationOpts,
+  AuthorisationToken,
+  Prefingerprint,
+  Fingerprint,
+> = {
+  /** The parameter schemes used by every managed `Store`. */
+  schemes: StoreSchemes<
+    NamespaceId,
+    SubspaceId,
+    PayloadDigest,
+    AuthorisationOpts,
+    AuthorisationToken,
+    Prefingerprint,
+    Fingerprint
+  >;
+  /** Produce the drivers to be used by the `Store` of a given namespace. Called at most once per namespace until that namespace's store is closed. */
+  makeDrivers: (
+    namespace: NamespaceId,
+  ) => Promise<
+    StoreDrivers<NamespaceId, SubspaceId, PayloadDigest, Prefingerprint>
+  >;
+  /** An optional driver used to persist which namespaces the manager knows about. Defaults to an in-memory driver. */
+  kvDriver?: KvDriver;
+};
+
+/** Creates, caches, and deletes a {@linkcode Store} for each of many namespaces.
+ *
+ * {@linkcode StoreManager.getStore} can be passed directly to a {@linkcode WgpsMessenger} or {@linkcode ingestDrop}.
+ */
+export class StoreManager<
+  NamespaceId,
+  SubspaceId,
+  PayloadDigest,
+  AuthorisationOpts,
+  AuthorisationToken,
+  Prefingerprint,
+  Fingerprint,
+> {
+  private schemes: StoreSchemes<
+    NamespaceId,
+    SubspaceId,
+    PayloadDigest,
+    AuthorisationOpts,
+    AuthorisationToken,
+    Prefingerprint,
+    Fingerprint
+  >;
+
+  private makeDrivers: (
+    namespace: NamespaceId,
+  ) => Promise<
+    StoreDrivers<NamespaceId, SubspaceId, PayloadDigest, Prefingerprint>
+  >;
+
+  private kvDriver: KvDriver;
+
+  /** Opened stores and their drivers, keyed by the base64 encoding of their namespace. */
+  private opened = new Map<
+    string,
+    Promise<{
+      store: Store<
+        NamespaceId,
+        SubspaceId,
+        PayloadDigest,
+        AuthorisationOpts,
+        AuthorisationToken,
+        Prefingerprint,
+        Fingerprint
+      >;
+      drivers: StoreDrivers<
+        NamespaceId,
+        SubspaceId,
+        PayloadDigest,
+        Prefingerprint
+      >;
+    }>
+  >();
+
+  constructor(
+    opts: StoreManagerOpts<
+      NamespaceId,
+      SubspaceId,
+      PayloadDigest,
+      AuthorisationOpts,
+      AuthorisationToken,
+      Prefingerprint,
+      Fingerprint
+    >,
+  ) {
+    this.schemes = opts.schemes;
+    this.makeDrivers = opts.makeDrivers;
+    this.kvDriver = opts.kvDriver || new KvDriverInMemory();
+  }
+
+  private getKey(namespace: NamespaceId): string {
+    return encodeBase64(this.schemes.namespace.encode(namespace));
+  }
+
+  private open(namespace: NamespaceId) {
+    const key = this.getKey(namespace);
+
+    const existing = this.opened.get(key);
+
+    if (existing) {
+      return existing;
+    }
+
+    const opening = (async () => {
+      const drivers = await this.makeDrivers(namespace);
+
+      await this.kvDriver.set(
+        ["namespaces", this.schemes.namespace.encode(namespace)],
+        true,
+      );
+
+      const store = new Store({
+        namespace,
+        schemes: this.schemes,
+        entryDriver: drivers.entryDriver,
+        payloadDriver: drivers.payloadDriver,
+      });
+
+      return { store, drivers };
+    })();
+
+    this.opened.set(key, opening);
+
+    // Don't cache failed attempts, so that they can be retried.
+    opening.catch(() => {
+      this.opened.delete(key);
+    });
+
+    return opening;
+  }
+
+  /** Return the {@linkcode Store} for a given namespace, creating it if it has not been opened yet. */
+  getStore = async (
+    namespace: NamespaceId,
+  ): Promise<
+    Store<
+      NamespaceId,
+      SubspaceId,
+      PayloadDigest,
+      AuthorisationOpts,
+      AuthorisationToken,
+      Prefingerprint,
+      Fingerprint
+    >
+  > => {
+    const { store } = await this.open(namespace);
+
+    return store;
+  };
+
+  /** Whether the manager knows of a given namespace. */
+  async has(namespace: NamespaceId): Promise<boolean> {
+    const known = await this.kvDriver.get<boolean>([
+      "namespaces",
+      this.schemes.namespace.encode(namespace),
+    ]);
+
+    return known === true;
+  }
+
+  /** Retrieve an asynchronous iterator of all namespaces the manager has opened a `Store` for and not since deleted. */
+  async *namespaces(): AsyncIterable<NamespaceId> {
+    for await (
+      const { key } of this.kvDriver.list<boolean>({ prefix: ["namespaces"] })
+    ) {
+      yield this.schemes.namespace.decode(key[1] as Uint8Array);
+    }
+  }
+
+  /** Close the `Store` of a given namespace, disposing of its drivers. The namespace remains known, and its store can be opened again with {@linkcode StoreManager.getStore}. */
+  async close(namespace: NamespaceId): Promise<void> {
+    const key = this.getKey(namespace);
+
+    const opening = this.opened.get(key);
+
+    if (!opening) {
+      return;
+    }
+
+    this.opened.delete(key);
+
+    const { drivers } = await opening;
+
+    await drivers.dispose?.();
+  }
+
+  /** Close the stores of all namespaces.
+   *
+   * Every store is closed even if others fail to open or dispose of their drivers, after which the failures are thrown together as an `AggregateError`.
+   */
+  async closeAll(): Promise<void> {
+    const openings = Array.from(this.opened.values());
+
+    this.opened.clear();
+
+    const results = await Promise.allSettled(
+      openings.map(async (opening) => {
+        const { drivers } = await opening;
+
+        await drivers.dispose?.();
+      }),
+    );
+
+    const errors = [];
+
+    for (const result of results) {
+      if (result.status === "rejected") {
+        errors.push(result.reason);
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new AggregateError(errors, "Could not close all stores");
+    }
+  }
+
+  /** Permanently delete a namespace, erasing all of its entries, payloads, and authorisation tokens, and forget about it. Does nothing if the manager does not know of the namespace. */
+  async delete(namespace: NamespaceId): Promise<void> {
+    // Don't create drivers for a namespace only to erase them.
+    if (
+      !this.opened.has(this.getKey(namespace)) && !(await this.has(namespace))
+    ) {
+      return;
+    }
+
+    const { store, drivers } = await this.open(namespace);
+
+    for await (
+      const [entry] of store.query({
+        area: fullArea(),
+        maxCount: 0,
+        maxSize: BigInt(0),
+      }, "subspace")
+    ) {
+      await drivers.payloadDriver.erase(entry.payloadDigest);
+    }
+
+    // Authorisation tokens are stored by the entry driver, so are cleared with it.
+    await drivers.entryDriver.clear();
+
+    await this.close(namespace);
+
+    await this.kvDriver.delete([
+      "namespaces",
+      this.schemes.namespace.encode(namespace),
+    ]);
+  }
+}
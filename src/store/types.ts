@@ -1,4 +1,5 @@
 import type {
+  Area,
   EncodingScheme,
   Entry,
   Path,
@@ -36,6 +37,33 @@ export type PayloadScheme<PayloadDigest> = EncodingScheme<PayloadDigest> & {
   order: (a: PayloadDigest, b: PayloadDigest) => -1 | 0 | 1;
   /** Used to initialise some variables used during a WGPS sync session.  */
   defaultDigest: PayloadDigest;
+  /** Lets payloads be verified chunk by chunk as they are received, if `PayloadDigest` is the root of a tree hash. */
+  tree?: PayloadTreeScheme<PayloadDigest>;
+};
+
+/** Configures the verification of payloads chunk by chunk, for a `PayloadDigest` which is the root of a tree hash (such as BLAKE3 with a [Bao](https://github.com/oconnor663/bao)-style outboard).
+ *
+ * The outboard of a payload holds the rest of the tree, so that each chunk of the payload can be checked against the digest as soon as it arrives.
+ */
+export type PayloadTreeScheme<PayloadDigest> = {
+  /** Produce the outboard of a payload, to be sent alongside its bytes. */
+  outboard: (
+    bytes: Uint8Array | AsyncIterable<Uint8Array>,
+  ) => Promise<Uint8Array>;
+  /** Check an outboard against the digest and length of a payload, returning a verifier for the payload's chunks, or `undefined` if the outboard does not match. */
+  verifier: (
+    digest: PayloadDigest,
+    length: bigint,
+    outboard: Uint8Array,
+  ) => Promise<PayloadVerifier | undefined>;
+};
+
+/** Verifies the chunks of a single payload. */
+export type PayloadVerifier = {
+  /** The length of every chunk but the last, which may be shorter. */
+  chunkSize: number;
+  /** Check whether the chunk at the given index belongs to the payload. */
+  verifyChunk: (index: number, chunk: Uint8Array) => Promise<boolean>;
 };
 
 /** Configures the [`AuthorisationToken`](https://willowprotocol.org/specs/data-model/index.html#AuthorisationToken) and [`is_authorised_write`](https://willowprotocol.org/specs/data-model/index.html#is_authorised_write) parameters of the [Willow data model](https://willowprotocol.org/specs/data-model/index.html#data_model), used to restrict write access to a Willow data store. */
@@ -199,6 +227,54 @@ export type IngestEventSuccess<
   externalSourceId?: string;
 };
 
+/** Describes a deletion requested via {@linkcode Store.delete} or {@linkcode Store.deletePrefix}. */
+export type Deletion<SubspaceId> = {
+  /** Whether a single entry or all entries prefixed by a path were deleted. */
+  kind: "entry" | "prefix";
+  /** The subspace in which entries were deleted. */
+  subspace: SubspaceId;
+  /** The path of the deleted entry, or the prefix of all deleted entries. */
+  path: Path;
+};
+
+/** Emitted after a deletion did not take place because there was nothing to delete. */
+export type DeleteEventNoOp = {
+  kind: "no_op";
+  reason: "nothing_to_delete";
+};
+
+/** Emitted after a successful deletion. */
+export type DeleteEventSuccess<
+  NamespaceId,
+  SubspaceId,
+  PayloadDigest,
+  AuthorisationToken,
+> = {
+  kind: "success";
+  /** The empty-payload entry written to prune the deleted entries. */
+  tombstone: Entry<NamespaceId, SubspaceId, PayloadDigest>;
+  /** The `AuthorisationToken` generated for the tombstone. */
+  authToken: AuthorisationToken;
+  /** The entries which were removed by this deletion. */
+  pruned: Entry<NamespaceId, SubspaceId, PayloadDigest>[];
+};
+
+/** Emitted after a deletion. */
+export type DeleteEvent<
+  NamespaceId,
+  SubspaceId,
+  PayloadDigest,
+  AuthorisationToken,
+> =
+  | IngestEventFailure
+  | DeleteEventNoOp
+  | DeleteEventSuccess<
+    NamespaceId,
+    SubspaceId,
+    PayloadDigest,
+    AuthorisationToken
+  >;
+
 /** THe order in which to return entries. */
 export type QueryOrder =
   /** By path, then timestamp, then subspace */
@@ -224,6 +300,237 @@ export type IngestEvent<
     AuthorisationToken
   >;
 
+/** An opaque, serialisable position in the results of a query, used to resume it from where it left off. Created by {@linkcode Store.queryPage} and {@linkcode Store.queryCursor}. */
+export type QueryCursor = string;
+
+/** Options for {@linkcode Store.query}. */
+export type QueryOpts = {
+  /** Whether to omit tombstones (entries with an empty payload, such as those written by {@linkcode Store.delete}) from results. Tombstones still count towards an `AreaOfInterest`'s `maxCount`. Defaults to `false`. */
+  hideTombstones?: boolean;
+  /** Only return entries which come strictly after the entry this cursor was created for, in the query's order. Cursors returned by {@linkcode Store.queryPage} remember the entries and payload bytes of a limited area of interest's `maxCount` and `maxSize` which were used up before them, so resumed queries never exceed those limits in total. */
+  after?: QueryCursor;
+};
+
+/** Options for {@linkcode Store.queryPage}. */
+export type QueryPageOpts = QueryOpts & {
+  /** The maximum number of entries in the page. */
+  limit: number;
+  /** Whether to return entries in reverse (descending) order or not. Defaults to `false`. */
+  reverse?: boolean;
+};
+
+/** A page of results returned by {@linkcode Store.queryPage}. */
+export type QueryPage<
+  NamespaceId,
+  SubspaceId,
+  PayloadDigest,
+  AuthorisationToken,
+> = {
+  results: [
+    Entry<NamespaceId, SubspaceId, PayloadDigest>,
+    Payload | undefined,
+    AuthorisationToken,
+  ][];
+  /** A cursor for retrieving the next page, or `undefined` if there are no more results. */
+  cursor: QueryCursor | undefined;
+};
+
+/** The number of entries within an area and the sizes of their payloads, as returned by {@linkcode Store.stats}. */
+export type AreaStats = {
+  /** The number of entries. */
+  count: number;
+  /** The sum of the entries' payload lengths. */
+  payloadLength: bigint;
+  /** The sum of the entries' locally available payload bytes. */
+  availablePayloadLength: bigint;
+};
+
+/** The inconsistencies found in a store's entry and payload drivers, as returned by {@linkcode Store.verify}. */
+export type IntegrityReport<NamespaceId, SubspaceId, PayloadDigest> = {
+  /** Entries which are missing from, or stored differently in, some of the storage's orderings. */
+  unindexedEntries: Entry<NamespaceId, SubspaceId, PayloadDigest>[];
+  /** Entries whose authorisation token is not held. */
+  missingAuthTokens: Entry<NamespaceId, SubspaceId, PayloadDigest>[];
+  /** Entries whose held authorisation token does not match its digest, or does not permit writing the entry. */
+  invalidAuthTokens: Entry<NamespaceId, SubspaceId, PayloadDigest>[];
+  /** Digests of held payloads whose bytes do not match the digest. */
+  corruptPayloads: PayloadDigest[];
+  /** Entries whose subspace and path are missing from the prefix iterator, or recorded with another timestamp. */
+  missingPrefixes: Entry<NamespaceId, SubspaceId, PayloadDigest>[];
+  /** Keys of the prefix iterator which belong to no stored entry, each an encoded subspace followed by a path. */
+  orphanedPrefixes: Path[];
+  /** Payload reference counts which do not match the number of stored entries referring to the payload. */
+  wrongReferenceCounts: {
+    digest: PayloadDigest;
+    expected: number;
+    actual: number;
+  }[];
+  /** Digests of held payloads which are not the payload of any stored entry. */
+  orphanedPayloads: PayloadDigest[];
+  /** Authorisation token reference counts which do not match the number of stored entries referring to the token. */
+  wrongAuthTokenCounts: {
+    digest: PayloadDigest;
+    expected: number;
+    actual: number;
+  }[];
+};
+
+/** Options for {@linkcode Store.collectGarbage}. */
+export type CollectGarbageOpts = {
+  /** Whether to only report the garbage which would be collected, without erasing any of it. Defaults to `false`. */
+  dryRun?: boolean;
+  /** Stop collecting once this many bytes have been reclaimed, leaving the rest to later runs. The last payload collected may take the total over. Defaults to no limit. */
+  maxBytes?: bigint;
+};
+
+/** The garbage erased by {@linkcode Store.collectGarbage}, or which would have been erased in a dry run. */
+export type GarbageCollection<PayloadDigest> = {
+  /** Digests of complete payloads which no stored entry refers to. */
+  payloads: PayloadDigest[];
+  /** Expected digests of partial payloads which no stored entry refers to, or which are already held in full. */
+  partialPayloads: PayloadDigest[];
+  /** Digests of authorisation tokens which no stored entry refers to, such as those of entries which failed to be ingested. */
+  authTokens: PayloadDigest[];
+  /** The total number of bytes of the collected payloads and authorisation tokens. */
+  bytesReclaimed: bigint;
+  /** Whether some garbage was left uncollected because `maxBytes` was reached. */
+  capped: boolean;
+};
+
+/** The order in which {@linkcode Store.evictPayloads} evicts payloads.
+ *
+ * - `"least_recently_used"` evicts the payloads which were least recently set, ingested, or read first. Payloads unused since the store was created count as least recently used, those of the oldest entries first.
+ * - `"largest_first"` evicts the largest payloads first.
+ * - `"area_priority"` evicts the payloads of entries included by none of the given areas first, followed by those of entries included by the last of them, and so on. Payloads of the same priority are evicted least recently used first.
+ */
+export type PayloadEvictionOrder<SubspaceId> =
+  | { kind: "least_recently_used" }
+  | { kind: "largest_first" }
+  | { kind: "area_priority"; areas: Area<SubspaceId>[] };
+
+/** Describes how many payload bytes a {@linkcode Store} may hold, and which payloads to evict to stay under that limit. */
+export type PayloadRetentionPolicy<SubspaceId> = {
+  /** The number of complete and partial payload bytes the store may hold. */
+  maxBytes: bigint;
+  /** The order in which payloads are evicted. */
+  order: PayloadEvictionOrder<SubspaceId>;
+};
+
+/** The payloads evicted by {@linkcode Store.evictPayloads}. */
+export type PayloadEviction<PayloadDigest> = {
+  /** Digests of the evicted complete payloads. */
+  payloads: PayloadDigest[];
+  /** Expected digests of the evicted partial payloads. */
+  partialPayloads: PayloadDigest[];
+  /** The total number of bytes of the evicted payloads. */
+  bytesEvicted: bigint;
+  /** The number of payload bytes still held. This may exceed the policy's `maxBytes` when payloads which no stored entry refers to are held, as those are left to {@linkcode Store.collectGarbage}. */
+  bytesHeld: bigint;
+};
+
+/** Options for {@linkcode Store.subscribe}. */
+export type SubscribeOpts = {
+  /** The order in which already-held entries are yielded. Defaults to `"path"`. */
+  order?: QueryOrder;
+  /** Whether to first yield the entries already held within the area of interest. Defaults to `true`. */
+  includeExisting?: boolean;
+  /** A signal which ends the subscription when aborted. */
+  signal?: AbortSignal;
+};
+
+/** Yielded by a subscription for each entry already held within its area of interest when it began. */
+export type SubscriptionEventExisting<
+  NamespaceId,
+  SubspaceId,
+  PayloadDigest,
+  AuthorisationToken,
+> = {
+  kind: "existing";
+  entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
+  /** The entry's payload, if any of it is held. */
+  payload: Payload | undefined;
+  authToken: AuthorisationToken;
+};
+
+/** Yielded by a subscription after an entry was added to its area of interest, or moved back into its `maxCount` / `maxSize` window. */
+export type SubscriptionEventAdded<
+  NamespaceId,
+  SubspaceId,
+  PayloadDigest,
+  AuthorisationToken,
+> = {
+  kind: "added";
+  entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
+  /** The entry's payload, if any of it is held. Payloads of entries ingested from other peers usually arrive later, see {@linkcode SubscriptionEventPayload}. */
+  payload: Payload | undefined;
+  authToken: AuthorisationToken;
+};
+
+/** Yielded by a subscription after an entry was removed from its area of interest. */
+export type SubscriptionEventRemoved<
+  NamespaceId,
+  SubspaceId,
+  PayloadDigest,
+  AuthorisationToken,
+> = {
+  kind: "removed";
+  entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
+  /** Whether the entry was removed from the store by a newer entry, or is still held but was pushed out of the area of interest's `maxCount` / `maxSize` window by newer entries. */
+  reason: "pruned" | "out_of_window";
+  /** The entry which pruned the removed entry. */
+  removedBy?: {
+    entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
+    authToken: AuthorisationToken;
+  };
+  /** The deletion which pruned the removed entry, if it was written by {@linkcode Store.delete} or {@linkcode Store.deletePrefix}. */
+  deletion?: Deletion<SubspaceId>;
+};
+
+/** Yielded by a subscription after the payload of an entry within its area of interest was completely ingested. */
+export type SubscriptionEventPayload<
+  NamespaceId,
+  SubspaceId,
+  PayloadDigest,
+  AuthorisationToken,
+> = {
+  kind: "payload";
+  entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
+  payload: Payload;
+  authToken: AuthorisationToken;
+};
+
+/** Yielded by {@linkcode Store.subscribe}. */
+export type SubscriptionEvent<
+  NamespaceId,
+  SubspaceId,
+  PayloadDigest,
+  AuthorisationToken,
+> =
+  | SubscriptionEventExisting<
+    NamespaceId,
+    SubspaceId,
+    PayloadDigest,
+    AuthorisationToken
+  >
+  | SubscriptionEventAdded<
+    NamespaceId,
+    SubspaceId,
+    PayloadDigest,
+    AuthorisationToken
+  >
+  | SubscriptionEventRemoved<
+    NamespaceId,
+    SubspaceId,
+    PayloadDigest,
+    AuthorisationToken
+  >
+  | SubscriptionEventPayload<
+    NamespaceId,
+    SubspaceId,
+    PayloadDigest,
+    AuthorisationToken
+  >;
+
 /** The (possibly partial) data associated with a {@link SignedEntry}. */
 export type Payload = {
   /** Retrieves the payload's available data all at once in a single {@link Uint8Array}. */
@@ -0,0 +1,190 @@
+// An in-memory implementation of the parts of the Origin Private File System used by the OPFS drivers, as Deno doesn't have one.
+
+import { concat } from "@std/bytes";
+
+type FileData = { bytes: Uint8Array; locked: boolean };
+
+class ShimSyncAccessHandle {
+  constructor(private data: FileData) {}
+
+  read(buffer: Uint8Array, opts: { at?: number } = {}): number {
+    const bytes = this.data.bytes.subarray(
+      opts.at ?? 0,
+      (opts.at ?? 0) + buffer.byteLength,
+    );
+
+    buffer.set(bytes);
+
+    return bytes.byteLength;
+  }
+
+  write(buffer: Uint8Array, opts: { at?: number } = {}): number {
+    const at = opts.at ?? 0;
+    const end = at + buffer.byteLength;
+
+    if (end > this.data.bytes.byteLength) {
+      this.truncate(end);
+    }
+
+    this.data.bytes.set(buffer, at);
+
+    return buffer.byteLength;
+  }
+
+  truncate(size: number) {
+    const bytes = new Uint8Array(size);
+
+    bytes.set(this.data.bytes.subarray(0, size));
+
+    this.data.bytes = bytes;
+  }
+
+  getSize(): number {
+    return this.data.bytes.byteLength;
+  }
+
+  flush() {}
+
+  close() {
+    this.data.locked = false;
+  }
+}
+
+class ShimFileHandle {
+  readonly kind = "file";
+
+  constructor(
+    public name: string,
+    private parent: ShimDirectoryHandle,
+    private data: FileData,
+  ) {}
+
+  getFile(): Promise<File> {
+    if (this.data.locked) {
+      return Promise.reject(
+        new DOMException("The file is locked.", "NoModificationAllowedError"),
+      );
+    }
+
+    return Promise.resolve(new File([this.data.bytes.slice()], this.name));
+  }
+
+  createSyncAccessHandle(): Promise<ShimSyncAccessHandle> {
+    if (this.data.locked) {
+      return Promise.reject(
+        new DOMException("The file is locked.", "NoModificationAllowedError"),
+      );
+    }
+
+    this.data.locked = true;
+
+    return Promise.resolve(new ShimSyncAccessHandle(this.data));
+  }
+
+  move(destination: ShimDirectoryHandle, name: string): Promise<void> {
+    this.parent.handles.delete(this.name);
+
+    destination.handles.set(
+      name,
+      new ShimFileHandle(name, destination, this.data),
+    );
+
+    this.name = name;
+    this.parent = destination;
+
+    return Promise.resolve();
+  }
+}
+
+class ShimDirectoryHandle {
+  readonly kind = "directory";
+
+  handles = new Map<string, ShimFileHandle | ShimDirectoryHandle>();
+
+  constructor(readonly name: string) {}
+
+  getDirectoryHandle(
+    name: string,
+    opts: { create?: boolean } = {},
+  ): Promise<ShimDirectoryHandle> {
+    const existing = this.handles.get(name);
+
+    if (existing instanceof ShimDirectoryHandle) {
+      return Promise.resolve(existing);
+    }
+
+    if (existing || !opts.create) {
+      return Promise.reject(
+        new DOMException("No directory with that name.", "NotFoundError"),
+      );
+    }
+
+    const directory = new ShimDirectoryHandle(name);
+
+    this.handles.set(name, directory);
+
+    return Promise.resolve(directory);
+  }
+
+  getFileHandle(
+    name: string,
+    opts: { create?: boolean } = {},
+  ): Promise<ShimFileHandle> {
+    const existing = this.handles.get(name);
+
+    if (existing instanceof ShimFileHandle) {
+      return Promise.resolve(existing);
+    }
+
+    if (existing || !opts.create) {
+      return Promise.reject(
+        new DOMException("No file with that name.", "NotFoundError"),
+      );
+    }
+
+    const file = new ShimFileHandle(name, this, {
+      bytes: new Uint8Array(),
+      locked: false,
+    });
+
+    this.handles.set(name, file);
+
+    return Promise.resolve(file);
+  }
+
+  removeEntry(name: string): Promise<void> {
+    if (!this.handles.delete(name)) {
+      return Promise.reject(
+        new DOMException("No entry with that name.", "NotFoundError"),
+      );
+    }
+
+    return Promise.resolve();
+  }
+
+  async *entries(): AsyncIterable<
+    [string, ShimFileHandle | ShimDirectoryHandle]
+  > {
+    yield* [...this.handles.entries()];
+  }
+}
+
+/** Create the root of an empty, in-memory origin private file system. */
+export function createOpfsRoot(): FileSystemDirectoryHandle {
+  return new ShimDirectoryHandle("") as unknown as FileSystemDirectoryHandle;
+}
+
+/** Append bytes to a file in a shimmed origin private file system, e.g. to simulate a write which was interrupted. */
+export async function appendToShimFile(
+  directory: FileSystemDirectoryHandle,
+  name: string,
+  bytes: Uint8Array,
+) {
+  const handle = await (directory as unknown as ShimDirectoryHandle)
+    .getFileHandle(name);
+
+  // deno-lint-ignore no-explicit-any
+  const data = (handle as any).data as FileData;
+
+  data.bytes = concat([data.bytes, bytes]);
+}
@@ -386,6 +386,110 @@ export const testSchemePayload: PayloadScheme<ArrayBuffer> = {
   defaultDigest: new Uint8Array(32),
 };
 
+// The chunk size of testSchemePayloadTree, kept small so that tests can use short payloads.
+const TREE_CHUNK_SIZE = 16;
+
+async function sha256(...parts: Uint8Array[]) {
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", concat(parts)));
+}
+
+// The hashes of each chunk of a payload, which make up its outboard.
+async function treeLeaves(bytes: Uint8Array) {
+  const leaves = [];
+
+  for (let i = 0; i < bytes.byteLength; i += TREE_CHUNK_SIZE) {
+    leaves.push(
+      await sha256(new Uint8Array([0]), bytes.subarray(i, i + TREE_CHUNK_SIZE)),
+    );
+  }
+
+  return leaves;
+}
+
+// Hash the leaves pairwise up to a single root, which is then bound to the payload's length.
+async function treeRoot(leaves: Uint8Array[], length: bigint) {
+  let level = leaves;
+
+  while (level.length > 1) {
+    const next = [];
+
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(
+        i + 1 < level.length
+          ? await sha256(new Uint8Array([1]), level[i], level[i + 1])
+          : level[i],
+      );
+    }
+
+    level = next;
+  }
+
+  return sha256(new Uint8Array([2]), bigintToBytes(length), ...level);
+}
+
+/** A payload scheme whose digests are the roots of a simple tree hash, with an outboard holding the hashes of every chunk. */
+export const testSchemePayloadTree: PayloadScheme<ArrayBuffer> = {
+  ...testSchemePayload,
+  async fromBytes(bytes) {
+    const chunks = [];
+
+    for await (
+      const chunk of bytes instanceof Uint8Array ? [bytes] : bytes
+    ) {
+      chunks.push(chunk);
+    }
+
+    const collected = concat(chunks);
+
+    return treeRoot(
+      await treeLeaves(collected),
+      BigInt(collected.byteLength),
+    );
+  },
+  tree: {
+    async outboard(bytes) {
+      const chunks = [];
+
+      for await (
+        const chunk of bytes instanceof Uint8Array ? [bytes] : bytes
+      ) {
+        chunks.push(chunk);
+      }
+
+      return concat(await treeLeaves(concat(chunks)));
+    },
+    async verifier(digest, length, outboard) {
+      const leaves = [];
+
+      for (let i = 0; i < outboard.byteLength; i += 32) {
+        leaves.push(outboard.subarray(i, i + 32));
+      }
+
+      const root = await treeRoot(leaves, length);
+
+      if (
+        leaves.length !== Math.ceil(Number(length) / TREE_CHUNK_SIZE) ||
+        orderBytes(root, new Uint8Array(digest)) !== 0
+      ) {
+        return undefined;
+      }
+
+      return {
+        chunkSize: TREE_CHUNK_SIZE,
+        async verifyChunk(index, chunk) {
+          if (index >= leaves.length) {
+            return false;
+          }
+
+          const leaf = await sha256(new Uint8Array([0]), chunk);
+
+          return orderBytes(leaf, leaves[index]) === 0;
+        },
+      };
+    },
+  },
+};
+
 export function addBytes(a: Uint8Array, b: Uint8Array, length: number) {
   const bytes = new Uint8Array(length);
 
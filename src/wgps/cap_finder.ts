@@ -66,6 +66,13 @@ export class CapFinder<
     this.namespaceMap.set(key, new Set([handle]));
   }
 
+  /** Stop finding a capability handle, e.g. because the capability is no longer of interest. */
+  removeCap(handle: bigint) {
+    for (const handles of this.namespaceMap.values()) {
+      handles.delete(handle);
+    }
+  }
+
   findCapHandle(
     entry: Entry<NamespaceId, SubspaceId, PayloadDigest>,
   ): bigint | undefined {
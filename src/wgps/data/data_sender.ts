@@ -21,7 +21,8 @@ type DataSendEntryPack<
   offset: number;
   staticTokenHandle: bigint;
   dynamicToken: DynamicToken;
-  payload: Payload;
+  /** The payload to send after the entry, if any. */
+  payload: Payload | undefined;
 };
 
 type DataBindPayloadRequestPack = {
@@ -70,12 +71,26 @@ export class DataSender<
     | DataBindPayloadRequestPack
   >();
 
+  /** Queue an entry to be sent, followed by its payload (from the given offset) unless `withPayload` is false. */
   async queueEntry(
     entry: Entry<NamespaceId, SubspaceId, PayloadDigest>,
     staticTokenHandle: bigint,
     dynamicToken: DynamicToken,
     offset: number,
+    withPayload = true,
   ) {
+    if (!withPayload) {
+      this.internalQueue.push({
+        entry,
+        dynamicToken,
+        staticTokenHandle,
+        payload: undefined,
+        offset,
+      });
+
+      return;
+    }
+
     const store = await this.opts.getStore(entry.namespaceId);
 
     const payload = await store.getPayload(entry);
@@ -137,6 +152,10 @@ export class DataSender<
         };
       }
 
+      if (pack.payload === undefined) {
+        continue;
+      }
+
       const payloadIterator = await pack.payload.stream(pack.offset);
 
       for await (const chunk of payloadIterator) {
@@ -58,6 +58,8 @@ export class PayloadIngester<
       bytes: Uint8Array,
       entryLength: bigint,
     ) => Uint8Array;
+    /** Identifies where ingested payloads came from in the store's events. */
+    externalSourceId?: string;
   }) {
     this.processReceivedPayload = opts.processReceivedPayload;
 
@@ -101,11 +103,18 @@ export class PayloadIngester<
 
           fifo.push(transformed);
 
-          store.ingestPayload({
-            path: entry.path,
-            subspace: entry.subspaceId,
-            timestamp: entry.timestamp,
-          }, new CancellableIngestion(fifo));
+          store.ingestPayload(
+            {
+              path: entry.path,
+              subspace: entry.subspaceId,
+              timestamp: entry.timestamp,
+            },
+            new CancellableIngestion(fifo),
+            false,
+            0,
+            undefined,
+            opts.externalSourceId,
+          );
 
           this.currentIngestion = {
             kind: "active",
@@ -0,0 +1,55 @@
+import { assert, assertEquals } from "@std/assert";
+import { Plumtree } from "./plumtree.ts";
+
+const pairA = { ours: 0n, theirs: 0n };
+const pairB = { ours: 0n, theirs: 1n };
+
+Deno.test("Plumtree.shouldPush", () => {
+  const plumtree = new Plumtree();
+
+  assert(plumtree.shouldPush([pairA]));
+
+  plumtree.setEagerness(pairA, false);
+
+  assert(!plumtree.shouldPush([pairA]));
+  assert(plumtree.shouldPush([pairA, pairB]));
+
+  plumtree.setEagerness(pairB, false);
+
+  assert(!plumtree.shouldPush([pairA, pairB]));
+
+  plumtree.setEagerness(pairA, true);
+
+  assert(plumtree.shouldPush([pairA, pairB]));
+});
+
+Deno.test("Plumtree.receivedEntry", async (test) => {
+  await test.step("prunes pairs which sent a redundant entry", () => {
+    const plumtree = new Plumtree();
+
+    assertEquals(plumtree.receivedEntry([pairA, pairB], true), [
+      { pair: pairA, isEager: false },
+      { pair: pairB, isEager: false },
+    ]);
+
+    assert(!plumtree.isEager([pairA, pairB]));
+
+    // Already lazy, so nothing changes.
+    assertEquals(plumtree.receivedEntry([pairA], true), []);
+  });
+
+  await test.step("grafts pairs which lazily sent a new entry", () => {
+    const plumtree = new Plumtree();
+
+    // Eager pairs stay eager.
+    assertEquals(plumtree.receivedEntry([pairA], false), []);
+
+    plumtree.receivedEntry([pairA], true);
+
+    assertEquals(plumtree.receivedEntry([pairA], false), [
+      { pair: pairA, isEager: true },
+    ]);
+
+    assert(plumtree.isEager([pairA]));
+  });
+});
@@ -0,0 +1,67 @@
+/** The handles of one of our areas of interest and one of the other peer's, which intersect. */
+export type AoiPair = {
+  ours: bigint;
+  theirs: bigint;
+};
+
+/** Decides whether to push payloads to the other peer along with the entries forwarded to them, and whether to ask them to do the same, so that peers with many connections form a push-lazy-push multicast tree (plumtree), as described in _Epidemic Broadcast Trees_ by Leitão, Pereira and Rodrigues.
+ *
+ * Entries are always forwarded, but their payloads are only pushed for areas which the receiving peer has asked to receive them eagerly with [`DataSetMetadata`](https://willowprotocol.org/specs/sync/index.html#DataSetMetadata). Both peers start out eager.
+ *
+ * - When we receive an entry and payload we already had, the connection is redundant, so we ask the other peer to be lazy (pruning it from the tree).
+ * - When we lazily receive an entry we didn't have, we ask the other peer to be eager again (grafting it back onto the tree), and request the payload ourselves.
+ */
+export class Plumtree {
+  /** Whether the other peer wants payloads pushed eagerly, by pair. */
+  private eagernessTheirs = new Map<string, boolean>();
+  /** Whether we have asked the other peer to push payloads eagerly, by pair. */
+  private eagernessOurs = new Map<string, boolean>();
+
+  /** Record the other peer's preference for a pair, as sent with `DataSetMetadata`. */
+  setEagerness(pair: AoiPair, isEager: boolean) {
+    this.eagernessTheirs.set(pairKey(pair), isEager);
+  }
+
+  /** Whether the other peer wants payloads pushed for an entry included in the given pairs. */
+  shouldPush(pairs: AoiPair[]): boolean {
+    return pairs.some((pair) =>
+      this.eagernessTheirs.get(pairKey(pair)) ?? true
+    );
+  }
+
+  /** Whether we have asked the other peer to push payloads for an entry included in the given pairs. */
+  isEager(pairs: AoiPair[]): boolean {
+    return pairs.some((pair) => this.eagernessOurs.get(pairKey(pair)) ?? true);
+  }
+
+  /** Record that the other peer sent us an entry included in the given pairs, and whether we already had it and its payload.
+   *
+   * @returns The preferences to send to the other peer with `DataSetMetadata`, if any have changed.
+   */
+  receivedEntry(
+    pairs: AoiPair[],
+    redundant: boolean,
+  ): { pair: AoiPair; isEager: boolean }[] {
+    const changes = [];
+
+    if (redundant) {
+      for (const pair of pairs) {
+        if (this.eagernessOurs.get(pairKey(pair)) ?? true) {
+          this.eagernessOurs.set(pairKey(pair), false);
+          changes.push({ pair, isEager: false });
+        }
+      }
+    } else if (!this.isEager(pairs)) {
+      for (const pair of pairs) {
+        this.eagernessOurs.set(pairKey(pair), true);
+        changes.push({ pair, isEager: true });
+      }
+    }
+
+    return changes;
+  }
+}
+
+function pairKey({ ours, theirs }: AoiPair): string {
+  return `${ours}_${theirs}`;
+}
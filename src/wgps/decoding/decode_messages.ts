@@ -109,6 +109,57 @@ export type DecodeMessagesOpts<
   ) => Area<SubspaceId>;
 } & ReconcileMsgTrackerOpts<NamespaceId, SubspaceId, PayloadDigest>;
 
+/** A message decoded from the other peer, along with the number of bytes it was encoded with. */
+export type DecodedSyncMessage<
+  ReadCapability,
+  SyncSignature,
+  PsiGroup,
+  SubspaceCapability,
+  SyncSubspaceSignature,
+  Fingerprint,
+  StaticToken,
+  DynamicToken,
+  NamespaceId,
+  SubspaceId,
+  PayloadDigest,
+> = {
+  message: SyncMessage<
+    ReadCapability,
+    SyncSignature,
+    PsiGroup,
+    SubspaceCapability,
+    SyncSubspaceSignature,
+    Fingerprint,
+    StaticToken,
+    DynamicToken,
+    NamespaceId,
+    SubspaceId,
+    PayloadDigest
+  >;
+  byteLength: number;
+};
+
+// Counts the bytes pruned by decoders, i.e. the length of the messages they decoded.
+class MeasuredBytes extends GrowingBytes {
+  private pruned = 0;
+
+  override prune(length: number) {
+    this.pruned += length;
+
+    super.prune(length);
+  }
+
+  // Get the number of bytes pruned since this was last called.
+  takePruned(): number {
+    const pruned = this.pruned;
+
+    this.pruned = 0;
+
+    return pruned;
+  }
+}
+
+/** Decode messages received from the other peer, along with their lengths in bytes. */
 export async function* decodeMessages<
   ReadCapability,
   Receiver,
@@ -151,6 +202,72 @@ export async function* decodeMessages<
     PayloadDigest,
     AuthorisationOpts
   >,
+): AsyncIterable<
+  DecodedSyncMessage<
+    ReadCapability,
+    SyncSignature,
+    PsiGroup,
+    SubspaceCapability,
+    SyncSubspaceSignature,
+    Fingerprint,
+    StaticToken,
+    DynamicToken,
+    NamespaceId,
+    SubspaceId,
+    PayloadDigest
+  >
+> {
+  const bytes = new MeasuredBytes(opts.transport);
+
+  for await (const message of decodeEachMessage(opts, bytes)) {
+    yield { message, byteLength: bytes.takePruned() };
+  }
+}
+
+// Decode messages one by one, pruning exactly the bytes of each from `bytes` before yielding it.
+async function* decodeEachMessage<
+  ReadCapability,
+  Receiver,
+  SyncSignature,
+  ReceiverSecretKey,
+  PsiGroup,
+  PsiScalar,
+  SubspaceCapability,
+  SubspaceReceiver,
+  SyncSubspaceSignature,
+  SubspaceSecretKey,
+  Prefingerprint,
+  Fingerprint,
+  AuthorisationToken,
+  StaticToken,
+  DynamicToken,
+  NamespaceId,
+  SubspaceId,
+  PayloadDigest,
+  AuthorisationOpts,
+>(
+  opts: DecodeMessagesOpts<
+    ReadCapability,
+    Receiver,
+    SyncSignature,
+    ReceiverSecretKey,
+    PsiGroup,
+    PsiScalar,
+    SubspaceCapability,
+    SubspaceReceiver,
+    SyncSubspaceSignature,
+    SubspaceSecretKey,
+    Prefingerprint,
+    Fingerprint,
+    AuthorisationToken,
+    StaticToken,
+    DynamicToken,
+    NamespaceId,
+    SubspaceId,
+    PayloadDigest,
+    AuthorisationOpts
+  >,
+  bytes: GrowingBytes,
 ): AsyncIterable<
   SyncMessage<
     ReadCapability,
@@ -168,8 +285,6 @@ export async function* decodeMessages<
 > {
   const reconcileMsgTracker = new ReconcileMsgTracker(opts);
 
-  const bytes = new GrowingBytes(opts.transport);
-
   while (!opts.transport.isClosed) {
     await bytes.nextAbsolute(1);
 
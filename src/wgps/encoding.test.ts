@@ -780,7 +780,11 @@ Deno.test("Encoding roundtrip test", async () => {
     ArrayBuffer
   >[] = [];
 
+  const encodedLengths: number[] = [];
+  const decodedLengths: number[] = [];
+
   onAsyncIterate(msgEncoder, ({ message }) => {
+    encodedLengths.push(message.byteLength);
     alfie.send(message);
   });
 
@@ -859,8 +863,9 @@ Deno.test("Encoding roundtrip test", async () => {
         });
       },
     }),
-    (message) => {
+    ({ message, byteLength }) => {
       messages.push(message);
+      decodedLengths.push(byteLength);
     },
   );
 
@@ -879,4 +884,5 @@ Deno.test("Encoding roundtrip test", async () => {
   await delay(15);
 
   assertEquals(messages, [...vectors, ...sendEntryVectors]);
+  assertEquals(decodedLengths, encodedLengths);
 });
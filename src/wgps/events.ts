@@ -0,0 +1,260 @@
+import type { Area, Entry, Range3d } from "@earthstar/willow-utils";
+
+export const WgpsMessengerEvents = {
+  IntersectionFind: "intersectionfind",
+  CapabilityBind: "capabilitybind",
+  RangeReconcile: "rangereconcile",
+  AreaReconcile: "areareconcile",
+  EntryReceive: "entryreceive",
+  EntrySend: "entrysend",
+  PayloadReceive: "payloadreceive",
+  PayloadSend: "payloadsend",
+  Error: "error",
+  Close: "close",
+} as const;
+
+export type WgpsMessengerEventsMap<
+  NamespaceId,
+  SubspaceId,
+  PayloadDigest,
+> = {
+  [WgpsMessengerEvents.IntersectionFind]: IntersectionFindEvent<
+    NamespaceId,
+    SubspaceId
+  >;
+  [WgpsMessengerEvents.CapabilityBind]: CapabilityBindEvent<
+    NamespaceId,
+    SubspaceId
+  >;
+  [WgpsMessengerEvents.RangeReconcile]: RangeReconcileEvent<
+    NamespaceId,
+    SubspaceId
+  >;
+  [WgpsMessengerEvents.AreaReconcile]: AreaReconcileEvent<
+    NamespaceId,
+    SubspaceId
+  >;
+  [WgpsMessengerEvents.EntryReceive]: EntryReceiveEvent<
+    NamespaceId,
+    SubspaceId,
+    PayloadDigest
+  >;
+  [WgpsMessengerEvents.EntrySend]: EntrySendEvent<
+    NamespaceId,
+    SubspaceId,
+    PayloadDigest
+  >;
+  [WgpsMessengerEvents.PayloadReceive]: PayloadReceiveEvent<
+    NamespaceId,
+    SubspaceId,
+    PayloadDigest
+  >;
+  [WgpsMessengerEvents.PayloadSend]: PayloadSendEvent<
+    NamespaceId,
+    SubspaceId,
+    PayloadDigest
+  >;
+  [WgpsMessengerEvents.Error]: SyncErrorEvent;
+  [WgpsMessengerEvents.Close]: SyncCloseEvent;
+};
+
+/** Emitted after a {@linkcode WgpsMessenger} finds that both peers have read access to a namespace, using [private area intersection](https://willowprotocol.org/specs/pai/index.html#private_area_intersection). */
+export class IntersectionFindEvent<NamespaceId, SubspaceId>
+  extends CustomEvent<{
+    namespace: NamespaceId;
+    /** The area our read capability for the namespace grants access to. */
+    area: Area<SubspaceId>;
+  }> {
+  constructor(namespace: NamespaceId, area: Area<SubspaceId>) {
+    super(WgpsMessengerEvents.IntersectionFind, {
+      detail: {
+        namespace,
+        area,
+      },
+    });
+  }
+}
+
+/** Emitted after a {@linkcode WgpsMessenger} binds a read capability, either ours or the other peer's. */
+export class CapabilityBindEvent<NamespaceId, SubspaceId> extends CustomEvent<{
+  namespace: NamespaceId;
+  /** The area the capability grants read access to. */
+  area: Area<SubspaceId>;
+  /** Whether the capability is ours, rather than the other peer's. */
+  ours: boolean;
+}> {
+  constructor(namespace: NamespaceId, area: Area<SubspaceId>, ours: boolean) {
+    super(WgpsMessengerEvents.CapabilityBind, {
+      detail: {
+        namespace,
+        area,
+        ours,
+      },
+    });
+  }
+}
+
+/** Emitted after a {@linkcode WgpsMessenger} has finished reconciling a range with the other peer, either because both peers already had the same entries, or because they have sent each other the entries they were missing. */
+export class RangeReconcileEvent<NamespaceId, SubspaceId> extends CustomEvent<{
+  namespace: NamespaceId;
+  /** The intersection of the areas of interest being reconciled. */
+  area: Area<SubspaceId>;
+  range: Range3d<SubspaceId>;
+}> {
+  constructor(
+    namespace: NamespaceId,
+    area: Area<SubspaceId>,
+    range: Range3d<SubspaceId>,
+  ) {
+    super(WgpsMessengerEvents.RangeReconcile, {
+      detail: {
+        namespace,
+        area,
+        range,
+      },
+    });
+  }
+}
+
+/** Emitted once a {@linkcode WgpsMessenger} has reconciled all of the intersection of one of our areas of interest with one of the other peer's, i.e. once no ranges of it are still pending. */
+export class AreaReconcileEvent<NamespaceId, SubspaceId> extends CustomEvent<{
+  namespace: NamespaceId;
+  /** The intersection of the areas of interest which were reconciled. */
+  area: Area<SubspaceId>;
+}> {
+  constructor(namespace: NamespaceId, area: Area<SubspaceId>) {
+    super(WgpsMessengerEvents.AreaReconcile, {
+      detail: {
+        namespace,
+        area,
+      },
+    });
+  }
+}
+
+/** Emitted after a {@linkcode WgpsMessenger} receives an {@linkcode Entry} from the other peer and ingests it. */
+export class EntryReceiveEvent<NamespaceId, SubspaceId, PayloadDigest>
+  extends CustomEvent<{
+    namespace: NamespaceId;
+    /** The area of interest the entry was received for. */
+    area: Area<SubspaceId>;
+    entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
+  }> {
+  constructor(
+    namespace: NamespaceId,
+    area: Area<SubspaceId>,
+    entry: Entry<NamespaceId, SubspaceId, PayloadDigest>,
+  ) {
+    super(WgpsMessengerEvents.EntryReceive, {
+      detail: {
+        namespace,
+        area,
+        entry,
+      },
+    });
+  }
+}
+
+/** Emitted after a {@linkcode WgpsMessenger} sends an {@linkcode Entry} to the other peer. */
+export class EntrySendEvent<NamespaceId, SubspaceId, PayloadDigest>
+  extends CustomEvent<{
+    namespace: NamespaceId;
+    /** The area of interest the entry was sent for. */
+    area: Area<SubspaceId>;
+    entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
+  }> {
+  constructor(
+    namespace: NamespaceId,
+    area: Area<SubspaceId>,
+    entry: Entry<NamespaceId, SubspaceId, PayloadDigest>,
+  ) {
+    super(WgpsMessengerEvents.EntrySend, {
+      detail: {
+        namespace,
+        area,
+        entry,
+      },
+    });
+  }
+}
+
+/** Emitted after a {@linkcode WgpsMessenger} receives some bytes of an entry's payload from the other peer. */
+export class PayloadReceiveEvent<NamespaceId, SubspaceId, PayloadDigest>
+  extends CustomEvent<{
+    namespace: NamespaceId;
+    /** The area of interest the payload was received for. */
+    area: Area<SubspaceId>;
+    entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
+    /** How many bytes were received. */
+    amount: bigint;
+  }> {
+  constructor(
+    namespace: NamespaceId,
+    area: Area<SubspaceId>,
+    entry: Entry<NamespaceId, SubspaceId, PayloadDigest>,
+    amount: bigint,
+  ) {
+    super(WgpsMessengerEvents.PayloadReceive, {
+      detail: {
+        namespace,
+        area,
+        entry,
+        amount,
+      },
+    });
+  }
+}
+
+/** Emitted after a {@linkcode WgpsMessenger} sends some bytes of an entry's payload to the other peer. */
+export class PayloadSendEvent<NamespaceId, SubspaceId, PayloadDigest>
+  extends CustomEvent<{
+    namespace: NamespaceId;
+    /** The area of interest the payload was sent for. */
+    area: Area<SubspaceId>;
+    entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
+    /** How many bytes were sent. */
+    amount: bigint;
+  }> {
+  constructor(
+    namespace: NamespaceId,
+    area: Area<SubspaceId>,
+    entry: Entry<NamespaceId, SubspaceId, PayloadDigest>,
+    amount: bigint,
+  ) {
+    super(WgpsMessengerEvents.PayloadSend, {
+      detail: {
+        namespace,
+        area,
+        entry,
+        amount,
+      },
+    });
+  }
+}
+
+/** Emitted when a {@linkcode WgpsMessenger} encounters an error, such as the other peer sending an invalid message. Errors concern the whole session, which is closed afterwards. */
+export class SyncErrorEvent extends CustomEvent<{
+  error: Error;
+}> {
+  constructor(error: Error) {
+    super(WgpsMessengerEvents.Error, {
+      detail: {
+        error,
+      },
+    });
+  }
+}
+
+/** Emitted once a {@linkcode WgpsMessenger}'s session has closed, whether by calling {@linkcode WgpsMessenger.close}, the other peer closing the transport, or an error. */
+export class SyncCloseEvent extends CustomEvent<{
+  /** The error which closed the session, if any. */
+  error?: Error;
+}> {
+  constructor(error?: Error) {
+    super(WgpsMessengerEvents.Close, {
+      detail: {
+        error,
+      },
+    });
+  }
+}
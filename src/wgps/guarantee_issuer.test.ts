@@ -0,0 +1,56 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { GuaranteeIssuer } from "./guarantee_issuer.ts";
+import { WgpsMessageValidationError } from "../errors.ts";
+
+Deno.test("Guarantee issuer", () => {
+  const issuer = new GuaranteeIssuer(BigInt(16));
+
+  assertEquals(issuer.issue(), BigInt(16));
+  assertEquals(issuer.issue(), BigInt(0));
+
+  issuer.receive(6);
+  issuer.receive(4);
+
+  assertEquals(issuer.outstanding, BigInt(6));
+  assertEquals(issuer.buffered, BigInt(10));
+
+  // Less than half the buffer is free, and there are still messages to process.
+  issuer.process(4);
+
+  assertEquals(issuer.issue(), BigInt(0));
+
+  issuer.process(6);
+
+  assertEquals(issuer.issue(), BigInt(10));
+  assertEquals(issuer.outstanding, BigInt(16));
+
+  issuer.receive(2);
+  issuer.process(2);
+
+  // Everything has been processed, so even a small amount is issued.
+  assertEquals(issuer.issue(), BigInt(2));
+});
+
+Deno.test("Guarantee issuer (receiving without guarantees)", () => {
+  const issuer = new GuaranteeIssuer(BigInt(8));
+
+  issuer.issue();
+
+  assertThrows(() => issuer.receive(9), WgpsMessageValidationError);
+});
+
+Deno.test("Guarantee issuer (absolution)", () => {
+  const issuer = new GuaranteeIssuer(BigInt(8));
+
+  issuer.issue();
+
+  issuer.pleading = true;
+
+  issuer.absolve(BigInt(8));
+
+  assertEquals(issuer.outstanding, BigInt(0));
+  assertThrows(() => issuer.absolve(BigInt(1)), WgpsMessageValidationError);
+
+  assertEquals(issuer.issue(), BigInt(8));
+  assertEquals(issuer.pleading, false);
+});
@@ -0,0 +1,71 @@
+import { WgpsMessageValidationError } from "../errors.ts";
+
+/** Keeps track of the guarantees issued to the other peer for a logical channel, and of the bytes they have used to fill our buffer for it.
+ *
+ * https://willowprotocol.org/specs/resource-control/index.html#resource_control_overview
+ */
+export class GuaranteeIssuer {
+  /** The guarantees the other peer has not yet used or absolved. */
+  outstanding = BigInt(0);
+
+  /** Bytes which have been received but not yet processed. */
+  buffered = BigInt(0);
+
+  /** Whether we have pleaded with the other peer to absolve their guarantees, and not issued any since. */
+  pleading = false;
+
+  /** Create a new issuer for a buffer of the given size, in bytes. */
+  constructor(readonly capacity: bigint) {}
+
+  /** Record a message received from the other peer, which uses up some of their guarantees. */
+  receive(byteLength: number) {
+    const bytes = BigInt(byteLength);
+
+    if (bytes > this.outstanding) {
+      throw new WgpsMessageValidationError(
+        "Partner sent a message without enough guarantees.",
+      );
+    }
+
+    this.outstanding -= bytes;
+    this.buffered += bytes;
+  }
+
+  /** Record that a received message has been processed, freeing up space in the buffer. */
+  process(byteLength: number) {
+    this.buffered -= BigInt(byteLength);
+  }
+
+  /** Record the other peer absolving us of some of the guarantees issued to them. */
+  absolve(amount: bigint) {
+    if (amount > this.outstanding) {
+      throw new WgpsMessageValidationError(
+        "Partner absolved more guarantees than they were issued.",
+      );
+    }
+
+    this.outstanding -= amount;
+  }
+
+  /** Issue guarantees for the free space in the buffer.
+   *
+   * Guarantees are issued in batches of at least half the buffer, unless every received message has been processed (in which case the other peer might be waiting for enough guarantees to send a large message).
+   *
+   * @returns The amount of guarantees to send to the other peer, which may be zero.
+   */
+  issue(): bigint {
+    const free = this.capacity - this.buffered - this.outstanding;
+
+    if (
+      free <= BigInt(0) ||
+      (free < this.capacity / BigInt(2) && this.buffered > BigInt(0))
+    ) {
+      return BigInt(0);
+    }
+
+    this.outstanding += free;
+    this.pleading = false;
+
+    return free;
+  }
+}
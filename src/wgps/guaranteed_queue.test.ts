@@ -72,4 +72,8 @@ Deno.test("Guaranteed queue (pleading for absolution)", () => {
 
   assertEquals(absolved, BigInt(6));
   assertEquals(queue.guarantees, BigInt(8));
+
+  // Already holding less than the target.
+  assertEquals(queue.plead(BigInt(10)), BigInt(0));
+  assertEquals(queue.guarantees, BigInt(8));
 });
@@ -30,9 +30,13 @@ export class GuaranteedQueue {
 
   /** Received a plea from the server to shrink the buffer to a certain size.
    *
-   * This implementation always absolves them.
+   * This implementation always absolves as many guarantees as it can, and returns how many that was (which may be zero if we already hold no more than the target).
    */
   plead(targetSize: bigint): bigint {
+    if (this.guarantees <= targetSize) {
+      return BigInt(0);
+    }
+
     const absolveAmount = this.guarantees - targetSize;
 
     this.guarantees -= absolveAmount;
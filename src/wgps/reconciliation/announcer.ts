@@ -95,7 +95,8 @@ export class Announcer<
     this.staticTokenHandleStoreOurs = opts.staticTokenHandleStoreOurs;
   }
 
-  private getStaticTokenHandle(
+  /** Get the handle of a static token, binding it if it isn't bound yet. Newly bound static tokens must be sent to the other peer before anything which refers to their handle. */
+  getStaticTokenHandle(
     staticToken: StaticToken,
   ): { handle: bigint; alreadyExisted: boolean } {
     const encoded = this.authorisationTokenScheme.encodings.staticToken.encode(
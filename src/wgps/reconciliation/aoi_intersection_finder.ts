@@ -21,6 +21,10 @@ export class AoiIntersectionFinder<NamespaceId, SubspaceId> {
   private handlesOursNamespaceMap = new Map<bigint, NamespaceId>();
   private handlesTheirsNamespaceMap = new Map<bigint, NamespaceId>();
 
+  /** Handles which are no longer of interest, and so should not intersect with any handles added later. */
+  private handlesOursRemoved = new Set<bigint>();
+  private handlesTheirsRemoved = new Set<bigint>();
+
   private intersectingAoiQueue = new FIFO<
     { namespace: NamespaceId; ours: bigint; theirs: bigint }
   >();
@@ -47,6 +51,10 @@ export class AoiIntersectionFinder<NamespaceId, SubspaceId> {
       ? this.handlesTheirsNamespaceMap
       : this.handlesOursNamespaceMap;
 
+    const otherHandlesRemoved = ours
+      ? this.handlesTheirsRemoved
+      : this.handlesOursRemoved;
+
     const handleStore = ours ? this.handlesOurs : this.handlesTheirs;
     const otherHandleStore = ours ? this.handlesTheirs : this.handlesOurs;
 
@@ -58,6 +66,10 @@ export class AoiIntersectionFinder<NamespaceId, SubspaceId> {
         continue;
       }
 
+      if (otherHandlesRemoved.has(otherHandle)) {
+        continue;
+      }
+
       const aoi = handleStore.get(handle);
 
       if (!aoi) {
@@ -88,6 +100,15 @@ export class AoiIntersectionFinder<NamespaceId, SubspaceId> {
     }
   }
 
+  /** Stop finding intersections with an AOI handle. The handle can still be resolved to its namespace, as messages referring to it may still be underway. */
+  removeAoiHandle(handle: bigint, ours: boolean): void {
+    const handlesRemoved = ours
+      ? this.handlesOursRemoved
+      : this.handlesTheirsRemoved;
+
+    handlesRemoved.add(handle);
+  }
+
   handleToNamespaceId(handle: bigint, ours: boolean): NamespaceId | undefined {
     const handleNamespaceMap = ours
       ? this.handlesOursNamespaceMap
@@ -98,6 +119,14 @@ export class AoiIntersectionFinder<NamespaceId, SubspaceId> {
 
   async *intersections() {
     for await (const intersection of this.intersectingAoiQueue) {
+      // Either handle may have been removed since the intersection was found.
+      if (
+        this.handlesOursRemoved.has(intersection.ours) ||
+        this.handlesTheirsRemoved.has(intersection.theirs)
+      ) {
+        continue;
+      }
+
       yield intersection;
     }
   }
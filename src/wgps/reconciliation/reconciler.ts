@@ -8,6 +8,7 @@ import { WillowError } from "../../errors.ts";
 import type { Store } from "../../store/store.ts";
 import type { FingerprintScheme, SubspaceScheme } from "../../store/types.ts";
 import { COVERS_NONE, IS_ALFIE, type SyncRole } from "../types.ts";
+import { ReconciliationProgress } from "./reconciliation_progress.ts";
 
 export type ReconcilerOpts<
   Prefingerprint,
@@ -88,6 +89,12 @@ export class Reconciler<
 
   range = Promise.withResolvers<Range3d<SubspaceId>>();
 
+  /** Which ranges are still being reconciled. Updated by whoever sends and receives this reconciler's messages. */
+  progress: ReconciliationProgress<SubspaceId>;
+
+  /** Whether this reconciler has been stopped, after which it no longer sends or responds to anything. */
+  stopped = false;
+
   constructor(
     opts: ReconcilerOpts<
       Prefingerprint,
@@ -102,6 +109,7 @@ export class Reconciler<
     this.fingerprintScheme = opts.fingerprintScheme;
     this.subspaceScheme = opts.subspaceScheme;
     this.store = opts.store;
+    this.progress = new ReconciliationProgress(opts.subspaceScheme);
 
     this.determineRange(opts.aoiOurs, opts.aoiTheirs);
 
@@ -156,6 +164,10 @@ export class Reconciler<
     fingerprint: Fingerprint,
     yourRangeCounter: number,
   ) {
+    if (this.stopped) {
+      return;
+    }
+
     const { fingerprint: fingerprintOurs, size } = await this.store.summarise(
       range,
     );
@@ -210,14 +222,27 @@ export class Reconciler<
     }
   }
 
+  /** Stop reconciling, e.g. because one of the areas of interest is no longer of interest. */
+  stop() {
+    this.stopped = true;
+  }
+
   async *fingerprints() {
     for await (const details of this.fingerprintQueue) {
+      if (this.stopped) {
+        return;
+      }
+
       yield details;
     }
   }
 
   async *entryAnnouncements() {
     for await (const announcement of this.announceQueue) {
+      if (this.stopped) {
+        return;
+      }
+
       yield announcement;
     }
   }
@@ -60,25 +60,25 @@ export class ReconcilerMap<
 
     if (existingInnerMap) {
       existingInnerMap.set(aoiHandleTheirs, reconciler);
-    }
-
-    const newInnerMap = new Map<
-      /** Their AOI handle */
-      bigint,
-      Reconciler<
-        NamespaceId,
-        SubspaceId,
-        PayloadDigest,
-        AuthorisationOpts,
-        AuthorisationToken,
-        Prefingerprint,
-        Fingerprint
-      >
-    >();
+    } else {
+      const newInnerMap = new Map<
+        /** Their AOI handle */
+        bigint,
+        Reconciler<
+          NamespaceId,
+          SubspaceId,
+          PayloadDigest,
+          AuthorisationOpts,
+          AuthorisationToken,
+          Prefingerprint,
+          Fingerprint
+        >
+      >();
 
-    newInnerMap.set(aoiHandleTheirs, reconciler);
+      newInnerMap.set(aoiHandleTheirs, reconciler);
 
-    this.map.set(aoiHandleOurs, newInnerMap);
+      this.map.set(aoiHandleOurs, newInnerMap);
+    }
 
     const maybeEventually = this.eventuallyMap.get(
       `${aoiHandleOurs}_${aoiHandleTheirs}`,
@@ -148,4 +148,49 @@ export class ReconcilerMap<
 
     return reconciler;
   }
+
+  /** Iterate over all reconcilers for one of our AOI handles, or one of theirs. */
+  *reconcilersForHandle(
+    aoiHandle: bigint,
+    ours: boolean,
+  ): Iterable<
+    Reconciler<
+      NamespaceId,
+      SubspaceId,
+      PayloadDigest,
+      AuthorisationOpts,
+      AuthorisationToken,
+      Prefingerprint,
+      Fingerprint
+    >
+  > {
+    for (const [aoiHandleOurs, aoiHandleTheirs, reconciler] of this) {
+      if ((ours ? aoiHandleOurs : aoiHandleTheirs) === aoiHandle) {
+        yield reconciler;
+      }
+    }
+  }
+
+  /** Iterate through every reconciler, along with the handles of the pair of areas of interest it reconciles (ours first). */
+  *[Symbol.iterator](): Iterator<
+    [
+      bigint,
+      bigint,
+      Reconciler<
+        NamespaceId,
+        SubspaceId,
+        PayloadDigest,
+        AuthorisationOpts,
+        AuthorisationToken,
+        Prefingerprint,
+        Fingerprint
+      >,
+    ]
+  > {
+    for (const [aoiHandleOurs, innerMap] of this.map) {
+      for (const [aoiHandleTheirs, reconciler] of innerMap) {
+        yield [aoiHandleOurs, aoiHandleTheirs, reconciler];
+      }
+    }
+  }
 }
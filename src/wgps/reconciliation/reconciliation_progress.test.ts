@@ -0,0 +1,145 @@
+import { assert, assertEquals } from "@std/assert";
+import { delay } from "@std/async";
+import { OPEN_END, type Range3d } from "@earthstar/willow-utils";
+import { ReconciliationProgress } from "./reconciliation_progress.ts";
+import { testSchemeSubspace, TestSubspace } from "../../test/test_schemes.ts";
+import { COVERS_NONE } from "../types.ts";
+
+function rangeOf(
+  start: TestSubspace,
+  end: TestSubspace,
+): Range3d<TestSubspace> {
+  return {
+    subspaceRange: { start, end },
+    pathRange: { start: [], end: OPEN_END },
+    timeRange: { start: 0n, end: OPEN_END },
+  };
+}
+
+const whole = rangeOf(TestSubspace.Alfie, TestSubspace.Phoebe);
+const left = rangeOf(TestSubspace.Alfie, TestSubspace.Dalton);
+const right = rangeOf(TestSubspace.Dalton, TestSubspace.Phoebe);
+
+Deno.test("ReconciliationProgress", async (test) => {
+  await test.step("is not complete before reconciliation starts", () => {
+    const progress = new ReconciliationProgress(testSchemeSubspace);
+
+    assert(!progress.isComplete());
+    assertEquals(progress.pendingRanges(), []);
+  });
+
+  await test.step("completes when equal fingerprints are covered", () => {
+    const alfie = new ReconciliationProgress(testSchemeSubspace);
+    const betty = new ReconciliationProgress(testSchemeSubspace);
+
+    alfie.sentFingerprint(0n, whole, COVERS_NONE);
+    betty.receivedFingerprint(0n, whole, COVERS_NONE);
+
+    assertEquals(alfie.pendingRanges(), [whole]);
+    assertEquals(betty.pendingRanges(), [whole]);
+
+    const announcement = {
+      range: whole,
+      count: 0n,
+      wantResponse: false,
+      covers: 0n,
+    };
+
+    betty.sentAnnouncement(announcement);
+    alfie.receivedAnnouncement(announcement);
+
+    assert(alfie.isComplete());
+    assert(betty.isComplete());
+  });
+
+  await test.step("completes once split ranges are covered and responded to", () => {
+    const alfie = new ReconciliationProgress(testSchemeSubspace);
+    const betty = new ReconciliationProgress(testSchemeSubspace);
+
+    alfie.sentFingerprint(0n, whole, COVERS_NONE);
+    betty.receivedFingerprint(0n, whole, COVERS_NONE);
+
+    // Betty splits the range in two, covering Alfie's fingerprint with the second half.
+    betty.sentFingerprint(0n, left, COVERS_NONE);
+    betty.sentFingerprint(1n, right, 0n);
+    alfie.receivedFingerprint(0n, left, COVERS_NONE);
+    alfie.receivedFingerprint(1n, right, 0n);
+
+    assertEquals(alfie.pendingRanges(), [left, right]);
+    assertEquals(betty.pendingRanges(), [left, right]);
+
+    // The left halves are equal.
+    const leftAnnouncement = {
+      range: left,
+      count: 0n,
+      wantResponse: false,
+      covers: 0n,
+    };
+
+    alfie.sentAnnouncement(leftAnnouncement);
+    betty.receivedAnnouncement(leftAnnouncement);
+
+    // Alfie sends the entries of the right half, and wants Betty's in return.
+    const rightAnnouncement = {
+      range: right,
+      count: 2n,
+      wantResponse: true,
+      covers: 1n,
+    };
+
+    alfie.sentAnnouncement(rightAnnouncement);
+    betty.receivedAnnouncement(rightAnnouncement);
+
+    assertEquals(alfie.pendingRanges(), [right]);
+    assertEquals(betty.pendingRanges(), [right, right]);
+
+    betty.receivedEntry();
+    betty.receivedEntry();
+
+    assertEquals(betty.pendingRanges(), [right]);
+
+    const response = {
+      range: right,
+      count: 1n,
+      wantResponse: false,
+      covers: COVERS_NONE,
+    };
+
+    betty.sentAnnouncement(response);
+    alfie.receivedAnnouncement(response);
+
+    assert(betty.isComplete());
+    assert(!alfie.isComplete());
+
+    alfie.receivedEntry();
+
+    assert(alfie.isComplete());
+  });
+
+  await test.step("yields each time it completes", async () => {
+    const progress = new ReconciliationProgress(testSchemeSubspace);
+
+    let completions = 0;
+
+    (async () => {
+      for await (const _ of progress.completions()) {
+        completions++;
+      }
+    })();
+
+    progress.receivedFingerprint(0n, whole, COVERS_NONE);
+    progress.sentAnnouncement({
+      range: whole,
+      count: 0n,
+      wantResponse: false,
+      covers: 0n,
+    });
+
+    // Staying complete doesn't count as completing again.
+    progress.receivedEntry();
+
+    await delay(0);
+
+    assertEquals(completions, 1);
+  });
+});
@@ -0,0 +1,212 @@
+import {
+  OPEN_END,
+  orderPath,
+  orderTimestamp,
+  type Range3d,
+} from "@earthstar/willow-utils";
+import { FIFO } from "@korkje/fifo";
+import type { SubspaceScheme } from "../../store/types.ts";
+import { COVERS_NONE } from "../types.ts";
+
+type Announcement<SubspaceId> = {
+  range: Range3d<SubspaceId>;
+  count: bigint;
+  wantResponse: boolean;
+  covers: bigint | typeof COVERS_NONE;
+};
+
+/** Tracks which ranges of the intersection of two areas of interest are still being reconciled, using the `covers` field of [`ReconciliationSendFingerprint`](https://willowprotocol.org/specs/sync/index.html#ReconciliationSendFingerprint) and [`ReconciliationAnnounceEntries`](https://willowprotocol.org/specs/sync/index.html#ReconciliationAnnounceEntries) messages.
+ *
+ * A range is pending until:
+ * - the other peer has covered the fingerprint we sent for it, or we have covered theirs,
+ * - the entries announced for it have been received,
+ * - and an announcement wanting a response has been responded to.
+ */
+export class ReconciliationProgress<SubspaceId> {
+  private subspaceScheme: SubspaceScheme<SubspaceId>;
+
+  /** Ranges of the fingerprints we sent which the other peer has not yet covered, by their range counter. */
+  private fingerprintsOurs = new Map<bigint, Range3d<SubspaceId>>();
+  /** Ranges of the fingerprints the other peer sent which we have not yet covered, by their range counter. */
+  private fingerprintsTheirs = new Map<bigint, Range3d<SubspaceId>>();
+
+  /** Ranges we announced entries for, which the other peer has yet to respond to. */
+  private awaitedResponses: Range3d<SubspaceId>[] = [];
+  /** Ranges the other peer announced entries for, which we have yet to respond to. */
+  private owedResponses: Range3d<SubspaceId>[] = [];
+
+  /** Ranges the other peer announced entries for, along with how many of those entries have yet to be received. */
+  private announcementsTheirs: {
+    range: Range3d<SubspaceId>;
+    remaining: bigint;
+  }[] = [];
+
+  // Nothing has been reconciled before any messages have been exchanged.
+  private started = false;
+  private complete = false;
+
+  private completionQueue = new FIFO<void>();
+
+  constructor(subspaceScheme: SubspaceScheme<SubspaceId>) {
+    this.subspaceScheme = subspaceScheme;
+  }
+
+  /** Record a fingerprint we sent, which was the `rangeCounter`-th fingerprint we sent. */
+  sentFingerprint(
+    rangeCounter: bigint,
+    range: Range3d<SubspaceId>,
+    covers: bigint | typeof COVERS_NONE,
+  ) {
+    this.fingerprintsOurs.set(rangeCounter, range);
+
+    if (covers !== COVERS_NONE) {
+      this.fingerprintsTheirs.delete(covers);
+    }
+
+    this.update();
+  }
+
+  /** Record a fingerprint the other peer sent, which was the `rangeCounter`-th fingerprint we received. */
+  receivedFingerprint(
+    rangeCounter: bigint,
+    range: Range3d<SubspaceId>,
+    covers: bigint | typeof COVERS_NONE,
+  ) {
+    this.fingerprintsTheirs.set(rangeCounter, range);
+
+    if (covers !== COVERS_NONE) {
+      this.fingerprintsOurs.delete(covers);
+    }
+
+    this.update();
+  }
+
+  /** Record an announcement we sent, once all of its entries have been sent. */
+  sentAnnouncement(announcement: Announcement<SubspaceId>) {
+    if (announcement.covers !== COVERS_NONE) {
+      this.fingerprintsTheirs.delete(announcement.covers);
+    } else if (!announcement.wantResponse) {
+      // An announcement which covers no fingerprint is a response to an announcement of theirs.
+      this.removeRange(this.owedResponses, announcement.range);
+    }
+
+    if (announcement.wantResponse) {
+      this.awaitedResponses.push(announcement.range);
+    }
+
+    this.update();
+  }
+
+  /** Record an announcement the other peer sent, before any of its entries have been received. */
+  receivedAnnouncement(announcement: Announcement<SubspaceId>) {
+    if (announcement.covers !== COVERS_NONE) {
+      this.fingerprintsOurs.delete(announcement.covers);
+    } else if (!announcement.wantResponse) {
+      this.removeRange(this.awaitedResponses, announcement.range);
+    }
+
+    if (announcement.wantResponse) {
+      this.owedResponses.push(announcement.range);
+    }
+
+    if (announcement.count > 0n) {
+      this.announcementsTheirs.push({
+        range: announcement.range,
+        remaining: announcement.count,
+      });
+    }
+
+    this.update();
+  }
+
+  /** Record that an announced entry (and as much of its payload as the other peer is going to send) has been received. */
+  receivedEntry() {
+    const [announcement] = this.announcementsTheirs;
+
+    if (!announcement) {
+      return;
+    }
+
+    announcement.remaining -= 1n;
+
+    if (announcement.remaining <= 0n) {
+      this.announcementsTheirs.shift();
+    }
+
+    this.update();
+  }
+
+  /** The ranges which are still being reconciled. */
+  pendingRanges(): Range3d<SubspaceId>[] {
+    return [
+      ...this.fingerprintsOurs.values(),
+      ...this.fingerprintsTheirs.values(),
+      ...this.awaitedResponses,
+      ...this.owedResponses,
+      ...this.announcementsTheirs.map(({ range }) => range),
+    ];
+  }
+
+  /** Whether reconciliation has begun, and no ranges are pending. */
+  isComplete(): boolean {
+    return this.started && this.pendingRanges().length === 0;
+  }
+
+  /** Yields each time reconciliation becomes complete. */
+  async *completions(): AsyncIterable<void> {
+    for await (const completion of this.completionQueue) {
+      yield completion;
+    }
+  }
+
+  private update() {
+    this.started = true;
+
+    const complete = this.isComplete();
+
+    if (complete && !this.complete) {
+      this.completionQueue.push();
+    }
+
+    this.complete = complete;
+  }
+
+  private removeRange(
+    ranges: Range3d<SubspaceId>[],
+    range: Range3d<SubspaceId>,
+  ) {
+    const index = ranges.findIndex((candidate) =>
+      isEqualRange3d(this.subspaceScheme.order, candidate, range)
+    );
+
+    if (index !== -1) {
+      ranges.splice(index, 1);
+    }
+  }
+}
+
+function isEqualRange<ValueType>(
+  order: (a: ValueType, b: ValueType) => number,
+  a: { start: ValueType; end: ValueType | typeof OPEN_END },
+  b: { start: ValueType; end: ValueType | typeof OPEN_END },
+): boolean {
+  if (order(a.start, b.start) !== 0) {
+    return false;
+  }
+
+  if (a.end === OPEN_END || b.end === OPEN_END) {
+    return a.end === b.end;
+  }
+
+  return order(a.end, b.end) === 0;
+}
+
+function isEqualRange3d<SubspaceId>(
+  order: (a: SubspaceId, b: SubspaceId) => number,
+  a: Range3d<SubspaceId>,
+  b: Range3d<SubspaceId>,
+): boolean {
+  return isEqualRange(order, a.subspaceRange, b.subspaceRange) &&
+    isEqualRange(orderPath, a.pathRange, b.pathRange) &&
+    isEqualRange(orderTimestamp, a.timeRange, b.timeRange);
+}
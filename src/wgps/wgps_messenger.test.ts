@@ -15,7 +15,8 @@ import {
   testSchemeSubspaceCap,
   TestSubspace,
 } from "../test/test_schemes.ts";
-import { MsgKind } from "./types.ts";
+import { LogicalChannel, MsgKind } from "./types.ts";
+import { WgpsMessengerEvents } from "./events.ts";
 import { delay } from "@std/async";
 import { Store } from "../store/store.ts";
 import type { EntryDriver, PayloadDriver } from "../store/storage/types.ts";
@@ -50,10 +51,11 @@ type WgpsScenario = {
 
 const scenarioMemory: WgpsScenario = {
   name: "Memory",
-  getDrivers: () => {
+  getDrivers: (_id, namespace) => {
     const payloadDriver = new PayloadDriverMemory(testSchemePayload);
 
     const entryDriver = new EntryDriverKvStore({
+      namespace,
       fingerprintScheme: testSchemeFingerprint,
       subspaceScheme: testSchemeSubspace,
       pathScheme: testSchemePath,
@@ -91,6 +93,7 @@ class ScenarioPersisted implements WgpsScenario {
     const kv = await Deno.openKv(`./test/${id}/${namespace}/kv`);
 
     const entryDriver = new EntryDriverKvStore({
+      namespace,
       fingerprintScheme: testSchemeFingerprint,
       subspaceScheme: testSchemeSubspace,
       pathScheme: testSchemePath,
@@ -1841,6 +1844,1317 @@ function testWgpsMessenger(scenario: WgpsScenario) {
     },
   );
 
+  Deno.test(
+    `Adding and removing interests during a session (${scenario.name})`,
+    async (test) => {
+      await test.step("sync", async () => {
+        const [alfie, betty] = transportPairInMemory();
+
+        const challengeHash = async (bytes: Uint8Array) => {
+          return new Uint8Array(await crypto.subtle.digest("SHA-256", bytes));
+        };
+
+        const storeMapAlfie = new StoreMap(
+          async (namespace) => {
+            const drivers = await scenario.getDrivers("alfie", namespace);
+
+            const store = new Store({
+              namespace,
+              schemes: {
+                authorisation: testSchemeAuthorisation,
+                fingerprint: testSchemeFingerprint,
+                namespace: testSchemeNamespace,
+                path: testSchemePath,
+                payload: testSchemePayload,
+                subspace: testSchemeSubspace,
+              },
+              ...drivers,
+            });
+
+            return store;
+          },
+          {
+            authorisation: testSchemeAuthorisation,
+            fingerprint: testSchemeFingerprint,
+            namespace: testSchemeNamespace,
+            path: testSchemePath,
+            payload: testSchemePayload,
+            subspace: testSchemeSubspace,
+          },
+        );
+
+        const storeFamilyAlfie = await storeMapAlfie.get(TestNamespace.Family);
+
+        for (const pathStart of [1, 2]) {
+          for (let i = 0; i < 5; i++) {
+            await storeFamilyAlfie.set({
+              subspace: TestSubspace.Gemma,
+              payload: new TextEncoder().encode(
+                `Originated from Alfie! (${i})`,
+              ),
+              path: [
+                new Uint8Array([pathStart]),
+                crypto.getRandomValues(new Uint8Array(4)),
+              ],
+            }, TestSubspace.Gemma);
+          }
+        }
+
+        const authorisationAlfie = {
+          capability: {
+            namespace: TestNamespace.Family,
+            subspace: TestSubspace.Gemma,
+            path: [],
+            receiver: TestSubspace.Alfie,
+            time: {
+              start: BigInt(0),
+              end: OPEN_END,
+            },
+          } as TestReadCap,
+        };
+
+        const messengerAlfie = new WgpsMessenger({
+          challengeHash,
+          challengeLength: 128,
+          challengeHashLength: 32,
+          maxPayloadSizePower: 8,
+          transport: alfie,
+          schemes: {
+            subspaceCap: testSchemeSubspaceCap,
+            namespace: testSchemeNamespace,
+            accessControl: testSchemeAccessControl,
+            pai: testSchemePai,
+            path: testSchemePath,
+            subspace: testSchemeSubspace,
+            authorisationToken: testSchemeAuthorisationToken,
+            fingerprint: testSchemeFingerprint,
+            authorisation: testSchemeAuthorisation,
+            payload: testSchemePayload,
+          },
+          getStore: (namespace) => {
+            return storeMapAlfie.get(namespace);
+          },
+          interests: new Map([[
+            authorisationAlfie,
+            [{
+              area: {
+                includedSubspaceId: TestSubspace.Gemma,
+                pathPrefix: [],
+                timeRange: {
+                  start: BigInt(0),
+                  end: OPEN_END,
+                },
+              },
+              maxCount: 0,
+              maxSize: BigInt(0),
+            }],
+          ]]),
+          transformPayload: (bytes) => bytes,
+          processReceivedPayload: (bytes) => bytes,
+        });
+
+        const storeMapBetty = new StoreMap(
+          async (namespace) => {
+            const drivers = await scenario.getDrivers("betty", namespace);
+            const store = new Store({
+              namespace,
+              schemes: {
+                authorisation: testSchemeAuthorisation,
+                fingerprint: testSchemeFingerprint,
+                namespace: testSchemeNamespace,
+                path: testSchemePath,
+                payload: testSchemePayload,
+                subspace: testSchemeSubspace,
+              },
+              ...drivers,
+            });
+
+            return store;
+          },
+          {
+            authorisation: testSchemeAuthorisation,
+            fingerprint: testSchemeFingerprint,
+            namespace: testSchemeNamespace,
+            path: testSchemePath,
+            payload: testSchemePayload,
+            subspace: testSchemeSubspace,
+          },
+        );
+
+        const storeFamilyBetty = await storeMapBetty.get(TestNamespace.Family);
+
+        const authorisationBettyOne = {
+          capability: {
+            namespace: TestNamespace.Family,
+            subspace: TestSubspace.Gemma,
+            path: [new Uint8Array([1])],
+            receiver: TestSubspace.Betty,
+            time: {
+              start: BigInt(0),
+              end: OPEN_END,
+            },
+          } as TestReadCap,
+        };
+
+        const authorisationBettyTwo = {
+          capability: {
+            namespace: TestNamespace.Family,
+            subspace: TestSubspace.Gemma,
+            path: [new Uint8Array([2])],
+            receiver: TestSubspace.Betty,
+            time: {
+              start: BigInt(0),
+              end: OPEN_END,
+            },
+          } as TestReadCap,
+        };
+
+        const aoiOf = (pathStart: number) => ({
+          area: {
+            includedSubspaceId: TestSubspace.Gemma,
+            pathPrefix: [new Uint8Array([pathStart])],
+            timeRange: {
+              start: BigInt(0),
+              end: OPEN_END,
+            },
+          },
+          maxCount: 0,
+          maxSize: BigInt(0),
+        });
+
+        const messengerBetty = new WgpsMessenger({
+          challengeHash,
+          challengeLength: 128,
+          challengeHashLength: 32,
+          maxPayloadSizePower: 8,
+          transport: betty,
+          schemes: {
+            subspaceCap: testSchemeSubspaceCap,
+            namespace: testSchemeNamespace,
+            accessControl: testSchemeAccessControl,
+            pai: testSchemePai,
+            path: testSchemePath,
+            subspace: testSchemeSubspace,
+            authorisationToken: testSchemeAuthorisationToken,
+            fingerprint: testSchemeFingerprint,
+            authorisation: testSchemeAuthorisation,
+            payload: testSchemePayload,
+          },
+          getStore: (namespace) => {
+            return storeMapBetty.get(namespace);
+          },
+          interests: new Map([[authorisationBettyOne, [aoiOf(1)]]]),
+          transformPayload: (bytes) => bytes,
+          processReceivedPayload: (bytes) => bytes,
+        });
+
+        let errors = 0;
+
+        for (const messenger of [messengerAlfie, messengerBetty]) {
+          messenger.addEventListener(WgpsMessengerEvents.Error, () => {
+            errors++;
+          });
+        }
+
+        const range: Range3d<TestSubspace> = {
+          subspaceRange: {
+            start: TestSubspace.Gemma,
+            end: TestSubspace.Dalton,
+          },
+          pathRange: {
+            start: [],
+            end: OPEN_END,
+          },
+          timeRange: {
+            start: 0n,
+            end: OPEN_END,
+          },
+        };
+
+        await delay(20 * scenario.timeMultiplier);
+
+        const { size: bettySizeBefore } = await storeFamilyBetty.summarise(
+          range,
+        );
+
+        assertEquals(bettySizeBefore, 5);
+
+        // Adding an authorisation starts reconciling its areas of interest.
+        messengerBetty.addInterests(authorisationBettyTwo, [aoiOf(2)]);
+
+        await delay(20 * scenario.timeMultiplier);
+
+        const { size: bettySizeAdded } = await storeFamilyBetty.summarise(
+          range,
+        );
+
+        assertEquals(bettySizeAdded, 10);
+
+        // Once removed, Betty's first area of interest should not be reconciled with Alfie's new one.
+        messengerBetty.removeInterests(authorisationBettyOne);
+
+        await delay(5 * scenario.timeMultiplier);
+
+        for (let i = 0; i < 5; i++) {
+          await storeFamilyAlfie.set({
+            subspace: TestSubspace.Gemma,
+            payload: new TextEncoder().encode(`Added later by Alfie! (${i})`),
+            path: [
+              new Uint8Array([1]),
+              crypto.getRandomValues(new Uint8Array(4)),
+            ],
+          }, TestSubspace.Gemma);
+        }
+
+        messengerAlfie.addInterests(authorisationAlfie, [aoiOf(1)]);
+
+        await delay(20 * scenario.timeMultiplier);
+
+        const { size: bettySizeRemoved } = await storeFamilyBetty.summarise(
+          range,
+        );
+
+        assertEquals(bettySizeRemoved, 10);
+        assertEquals(errors, 0);
+
+        messengerAlfie.close();
+        messengerBetty.close();
+      });
+
+      await scenario.dispose();
+    },
+  );
+
+  Deno.test(
+    `Payload requests for removed areas of interest (${scenario.name})`,
+    async (test) => {
+      await test.step("sync", async () => {
+        const [alfie, betty] = transportPairInMemory();
+
+        const challengeHash = async (bytes: Uint8Array) => {
+          return new Uint8Array(await crypto.subtle.digest("SHA-256", bytes));
+        };
+
+        const storeMapAlfie = new StoreMap(
+          async (namespace) => {
+            const drivers = await scenario.getDrivers("alfie", namespace);
+
+            const store = new Store({
+              namespace,
+              schemes: {
+                authorisation: testSchemeAuthorisation,
+                fingerprint: testSchemeFingerprint,
+                namespace: testSchemeNamespace,
+                path: testSchemePath,
+                payload: testSchemePayload,
+                subspace: testSchemeSubspace,
+              },
+              ...drivers,
+            });
+
+            return store;
+          },
+          {
+            authorisation: testSchemeAuthorisation,
+            fingerprint: testSchemeFingerprint,
+            namespace: testSchemeNamespace,
+            path: testSchemePath,
+            payload: testSchemePayload,
+            subspace: testSchemeSubspace,
+          },
+        );
+
+        const storeFamilyAlfie = await storeMapAlfie.get(TestNamespace.Family);
+
+        for (const pathStart of [1, 2]) {
+          for (let i = 0; i < 5; i++) {
+            await storeFamilyAlfie.set({
+              subspace: TestSubspace.Gemma,
+              payload: new TextEncoder().encode(
+                `Originated from Alfie! (${pathStart}, ${i})`,
+              ),
+              path: [new Uint8Array([pathStart]), new Uint8Array([i])],
+            }, TestSubspace.Gemma);
+          }
+        }
+
+        const authorisationOf = (
+          receiver: TestSubspace,
+          path: Uint8Array[],
+        ) => ({
+          capability: {
+            namespace: TestNamespace.Family,
+            subspace: TestSubspace.Gemma,
+            path,
+            receiver,
+            time: {
+              start: BigInt(0),
+              end: OPEN_END,
+            },
+          } as TestReadCap,
+        });
+
+        const aoiOf = (pathStart: number) => ({
+          area: {
+            includedSubspaceId: TestSubspace.Gemma,
+            pathPrefix: [new Uint8Array([pathStart])],
+            timeRange: {
+              start: BigInt(0),
+              end: OPEN_END,
+            },
+          },
+          maxCount: 0,
+          maxSize: BigInt(0),
+        });
+
+        const authorisationAlfieOne = authorisationOf(TestSubspace.Alfie, [
+          new Uint8Array([1]),
+        ]);
+        const authorisationAlfieTwo = authorisationOf(TestSubspace.Alfie, [
+          new Uint8Array([2]),
+        ]);
+
+        let removed = false;
+
+        const messengerAlfie = new WgpsMessenger({
+          challengeHash,
+          challengeLength: 128,
+          challengeHashLength: 32,
+          maxPayloadSizePower: 8,
+          transport: alfie,
+          schemes: {
+            subspaceCap: testSchemeSubspaceCap,
+            namespace: testSchemeNamespace,
+            accessControl: testSchemeAccessControl,
+            pai: testSchemePai,
+            path: testSchemePath,
+            subspace: testSchemeSubspace,
+            authorisationToken: testSchemeAuthorisationToken,
+            fingerprint: testSchemeFingerprint,
+            authorisation: testSchemeAuthorisation,
+            payload: testSchemePayload,
+          },
+          getStore: (namespace) => {
+            return storeMapAlfie.get(namespace);
+          },
+          interests: new Map([
+            [authorisationAlfieOne, [aoiOf(1)]],
+            [authorisationAlfieTwo, [aoiOf(2)]],
+          ]),
+          transformPayload: (bytes) => bytes,
+          processReceivedPayload: (bytes) => bytes,
+          onMessage: (message) => {
+            // Stop being interested in the first area just as Betty asks for one of its payloads.
+            if (
+              message.kind === MsgKind.DataBindPayloadRequest && !removed
+            ) {
+              removed = true;
+              messengerAlfie.removeInterests(authorisationAlfieOne);
+            }
+          },
+        });
+
+        const storeMapBetty = new StoreMap(
+          async (namespace) => {
+            const drivers = await scenario.getDrivers("betty", namespace);
+            const store = new Store({
+              namespace,
+              schemes: {
+                authorisation: testSchemeAuthorisation,
+                fingerprint: testSchemeFingerprint,
+                namespace: testSchemeNamespace,
+                path: testSchemePath,
+                payload: testSchemePayload,
+                subspace: testSchemeSubspace,
+              },
+              ...drivers,
+            });
+
+            return store;
+          },
+          {
+            authorisation: testSchemeAuthorisation,
+            fingerprint: testSchemeFingerprint,
+            namespace: testSchemeNamespace,
+            path: testSchemePath,
+            payload: testSchemePayload,
+            subspace: testSchemeSubspace,
+          },
+        );
+
+        const storeFamilyBetty = await storeMapBetty.get(TestNamespace.Family);
+
+        const authorisationBetty = authorisationOf(TestSubspace.Betty, []);
+
+        // Betty's maximum payload size is too small for payloads to be sent during reconciliation, so she requests each of them.
+        const messengerBetty = new WgpsMessenger({
+          challengeHash,
+          challengeLength: 128,
+          challengeHashLength: 32,
+          maxPayloadSizePower: 2,
+          transport: betty,
+          schemes: {
+            subspaceCap: testSchemeSubspaceCap,
+            namespace: testSchemeNamespace,
+            accessControl: testSchemeAccessControl,
+            pai: testSchemePai,
+            path: testSchemePath,
+            subspace: testSchemeSubspace,
+            authorisationToken: testSchemeAuthorisationToken,
+            fingerprint: testSchemeFingerprint,
+            authorisation: testSchemeAuthorisation,
+            payload: testSchemePayload,
+          },
+          getStore: (namespace) => {
+            return storeMapBetty.get(namespace);
+          },
+          interests: new Map([[authorisationBetty, [aoiOf(1)]]]),
+          transformPayload: (bytes) => bytes,
+          processReceivedPayload: (bytes) => bytes,
+        });
+
+        let errors = 0;
+
+        for (const messenger of [messengerAlfie, messengerBetty]) {
+          messenger.addEventListener(WgpsMessengerEvents.Error, () => {
+            errors++;
+          });
+        }
+
+        await delay(20 * scenario.timeMultiplier);
+
+        assert(removed);
+
+        // These payloads are requested after the one which was not sent.
+        messengerBetty.addInterests(authorisationBetty, [aoiOf(2)]);
+
+        await delay(20 * scenario.timeMultiplier);
+
+        const received: string[] = [];
+
+        for await (
+          const [, payload] of storeFamilyBetty.query(aoiOf(2), "path")
+        ) {
+          assert(payload);
+          received.push(new TextDecoder().decode(await payload.bytes()));
+        }
+
+        assertEquals(
+          received,
+          [0, 1, 2, 3, 4].map((i) => `Originated from Alfie! (2, ${i})`),
+        );
+
+        assertEquals(errors, 0);
+
+        messengerAlfie.close();
+        messengerBetty.close();
+      });
+
+      await scenario.dispose();
+    },
+  );
+
+  Deno.test(
+    `Failing to submit an authorisation for private area intersection (${scenario.name})`,
+    async (test) => {
+      const challengeHash = async (bytes: Uint8Array) => {
+        return new Uint8Array(await crypto.subtle.digest("SHA-256", bytes));
+      };
+
+      const storeMap = new StoreMap(
+        async (namespace) => {
+          const drivers = await scenario.getDrivers("alfie", namespace);
+
+          return new Store({
+            namespace,
+            schemes: {
+              authorisation: testSchemeAuthorisation,
+              fingerprint: testSchemeFingerprint,
+              namespace: testSchemeNamespace,
+              path: testSchemePath,
+              payload: testSchemePayload,
+              subspace: testSchemeSubspace,
+            },
+            ...drivers,
+          });
+        },
+        {
+          authorisation: testSchemeAuthorisation,
+          fingerprint: testSchemeFingerprint,
+          namespace: testSchemeNamespace,
+          path: testSchemePath,
+          payload: testSchemePayload,
+          subspace: testSchemeSubspace,
+        },
+      );
+
+      const authorisation = {
+        capability: {
+          namespace: TestNamespace.Family,
+          subspace: TestSubspace.Gemma,
+          path: [],
+          receiver: TestSubspace.Alfie,
+          time: {
+            start: BigInt(0),
+            end: OPEN_END,
+          },
+        } as TestReadCap,
+      };
+
+      const aoi = {
+        area: {
+          includedSubspaceId: TestSubspace.Gemma,
+          pathPrefix: [],
+          timeRange: {
+            start: BigInt(0),
+            end: OPEN_END,
+          },
+        },
+        maxCount: 0,
+        maxSize: BigInt(0),
+      };
+
+      const makeMessenger = (withInterests: boolean) => {
+        const [alfie] = transportPairInMemory();
+
+        const messenger = new WgpsMessenger({
+          challengeHash,
+          challengeLength: 128,
+          challengeHashLength: 32,
+          maxPayloadSizePower: 8,
+          transport: alfie,
+          schemes: {
+            subspaceCap: testSchemeSubspaceCap,
+            namespace: testSchemeNamespace,
+            accessControl: testSchemeAccessControl,
+            pai: {
+              ...testSchemePai,
+              fragmentToGroup: () =>
+                Promise.reject(new Error("Could not hash fragment")),
+            },
+            path: testSchemePath,
+            subspace: testSchemeSubspace,
+            authorisationToken: testSchemeAuthorisationToken,
+            fingerprint: testSchemeFingerprint,
+            authorisation: testSchemeAuthorisation,
+            payload: testSchemePayload,
+          },
+          getStore: (namespace) => {
+            return storeMap.get(namespace);
+          },
+          interests: withInterests
+            ? new Map([[authorisation, [aoi]]])
+            : new Map(),
+          transformPayload: (bytes) => bytes,
+          processReceivedPayload: (bytes) => bytes,
+        });
+
+        const errors: Error[] = [];
+        let closed = false;
+
+        messenger.addEventListener(WgpsMessengerEvents.Error, (event) => {
+          errors.push(event.detail.error);
+        });
+
+        messenger.addEventListener(WgpsMessengerEvents.Close, () => {
+          closed = true;
+        });
+
+        return { messenger, errors, isClosed: () => closed };
+      };
+
+      await test.step("when the session starts", async () => {
+        const { errors, isClosed } = makeMessenger(true);
+
+        await delay(5 * scenario.timeMultiplier);
+
+        assertEquals(errors.map((error) => error.message), [
+          "Could not hash fragment",
+        ]);
+        assert(isClosed());
+      });
+
+      await test.step("when interests are added", async () => {
+        const { messenger, errors, isClosed } = makeMessenger(false);
+
+        await delay(5 * scenario.timeMultiplier);
+
+        assertEquals(errors, []);
+
+        messenger.addInterests(authorisation, [aoi]);
+
+        await delay(5 * scenario.timeMultiplier);
+
+        assertEquals(errors.map((error) => error.message), [
+          "Could not hash fragment",
+        ]);
+        assert(isClosed());
+      });
+
+      await scenario.dispose();
+    },
+  );
+
+  Deno.test(
+    `Live forwarding of new entries after reconciliation (${scenario.name})`,
+    async (test) => {
+      await test.step("sync", async () => {
+        const [alfie, betty] = transportPairInMemory();
+
+        const challengeHash = async (bytes: Uint8Array) => {
+          return new Uint8Array(await crypto.subtle.digest("SHA-256", bytes));
+        };
+
+        const storeMapAlfie = new StoreMap(
+          async (namespace) => {
+            const drivers = await scenario.getDrivers("alfie", namespace);
+
+            const store = new Store({
+              namespace,
+              schemes: {
+                authorisation: testSchemeAuthorisation,
+                fingerprint: testSchemeFingerprint,
+                namespace: testSchemeNamespace,
+                path: testSchemePath,
+                payload: testSchemePayload,
+                subspace: testSchemeSubspace,
+              },
+              ...drivers,
+            });
+
+            return store;
+          },
+          {
+            authorisation: testSchemeAuthorisation,
+            fingerprint: testSchemeFingerprint,
+            namespace: testSchemeNamespace,
+            path: testSchemePath,
+            payload: testSchemePayload,
+            subspace: testSchemeSubspace,
+          },
+        );
+
+        const storeFamilyAlfie = await storeMapAlfie.get(TestNamespace.Family);
+
+        for (let i = 0; i < 5; i++) {
+          await storeFamilyAlfie.set({
+            subspace: TestSubspace.Gemma,
+            payload: new TextEncoder().encode(`Originated from Alfie! (${i})`),
+            path: [crypto.getRandomValues(new Uint8Array(4))],
+          }, TestSubspace.Gemma);
+        }
+
+        const authorisationAlfie = {
+          capability: {
+            namespace: TestNamespace.Family,
+            subspace: TestSubspace.Gemma,
+            path: [],
+            receiver: TestSubspace.Alfie,
+            time: {
+              start: BigInt(0),
+              end: OPEN_END,
+            },
+          } as TestReadCap,
+        };
+
+        const messengerAlfie = new WgpsMessenger({
+          challengeHash,
+          challengeLength: 128,
+          challengeHashLength: 32,
+          maxPayloadSizePower: 8,
+          transport: alfie,
+          schemes: {
+            subspaceCap: testSchemeSubspaceCap,
+            namespace: testSchemeNamespace,
+            accessControl: testSchemeAccessControl,
+            pai: testSchemePai,
+            path: testSchemePath,
+            subspace: testSchemeSubspace,
+            authorisationToken: testSchemeAuthorisationToken,
+            fingerprint: testSchemeFingerprint,
+            authorisation: testSchemeAuthorisation,
+            payload: testSchemePayload,
+          },
+          getStore: (namespace) => {
+            return storeMapAlfie.get(namespace);
+          },
+          interests: new Map([[
+            authorisationAlfie,
+            [{
+              area: {
+                includedSubspaceId: TestSubspace.Gemma,
+                pathPrefix: [],
+                timeRange: {
+                  start: BigInt(0),
+                  end: OPEN_END,
+                },
+              },
+              maxCount: 0,
+              maxSize: BigInt(0),
+            }],
+          ]]),
+          transformPayload: (bytes) => bytes,
+          processReceivedPayload: (bytes) => bytes,
+        });
+
+        const storeMapBetty = new StoreMap(
+          async (namespace) => {
+            const drivers = await scenario.getDrivers("betty", namespace);
+            const store = new Store({
+              namespace,
+              schemes: {
+                authorisation: testSchemeAuthorisation,
+                fingerprint: testSchemeFingerprint,
+                namespace: testSchemeNamespace,
+                path: testSchemePath,
+                payload: testSchemePayload,
+                subspace: testSchemeSubspace,
+              },
+              ...drivers,
+            });
+
+            return store;
+          },
+          {
+            authorisation: testSchemeAuthorisation,
+            fingerprint: testSchemeFingerprint,
+            namespace: testSchemeNamespace,
+            path: testSchemePath,
+            payload: testSchemePayload,
+            subspace: testSchemeSubspace,
+          },
+        );
+
+        const storeFamilyBetty = await storeMapBetty.get(TestNamespace.Family);
+
+        const authorisationBetty = {
+          capability: {
+            namespace: TestNamespace.Family,
+            subspace: TestSubspace.Gemma,
+            path: [],
+            receiver: TestSubspace.Betty,
+            time: {
+              start: BigInt(0),
+              end: OPEN_END,
+            },
+          } as TestReadCap,
+        };
+
+        const messengerBetty = new WgpsMessenger({
+          challengeHash,
+          challengeLength: 128,
+          challengeHashLength: 32,
+          maxPayloadSizePower: 8,
+          transport: betty,
+          schemes: {
+            subspaceCap: testSchemeSubspaceCap,
+            namespace: testSchemeNamespace,
+            accessControl: testSchemeAccessControl,
+            pai: testSchemePai,
+            path: testSchemePath,
+            subspace: testSchemeSubspace,
+            authorisationToken: testSchemeAuthorisationToken,
+            fingerprint: testSchemeFingerprint,
+            authorisation: testSchemeAuthorisation,
+            payload: testSchemePayload,
+          },
+          getStore: (namespace) => {
+            return storeMapBetty.get(namespace);
+          },
+          interests: new Map([[
+            authorisationBetty,
+            [{
+              area: {
+                includedSubspaceId: TestSubspace.Gemma,
+                pathPrefix: [],
+                timeRange: {
+                  start: BigInt(0),
+                  end: OPEN_END,
+                },
+              },
+              maxCount: 0,
+              maxSize: BigInt(0),
+            }],
+          ]]),
+          transformPayload: (bytes) => bytes,
+          processReceivedPayload: (bytes) => bytes,
+        });
+
+        let errors = 0;
+
+        for (const messenger of [messengerAlfie, messengerBetty]) {
+          messenger.addEventListener(WgpsMessengerEvents.Error, () => {
+            errors++;
+          });
+        }
+
+        const range: Range3d<TestSubspace> = {
+          subspaceRange: {
+            start: TestSubspace.Gemma,
+            end: TestSubspace.Dalton,
+          },
+          pathRange: {
+            start: [],
+            end: OPEN_END,
+          },
+          timeRange: {
+            start: 0n,
+            end: OPEN_END,
+          },
+        };
+
+        await delay(20 * scenario.timeMultiplier);
+
+        const { size: bettySizeBefore } = await storeFamilyBetty.summarise(
+          range,
+        );
+
+        assertEquals(bettySizeBefore, 5);
+
+        // Entries set after reconciliation are forwarded with their payloads.
+        const paths = [];
+
+        for (let i = 0; i < 3; i++) {
+          const path = [crypto.getRandomValues(new Uint8Array(4))];
+
+          await storeFamilyAlfie.set({
+            subspace: TestSubspace.Gemma,
+            payload: new TextEncoder().encode(`Set later by Alfie! (${i})`),
+            path,
+          }, TestSubspace.Gemma);
+
+          paths.push(path);
+        }
+
+        await delay(20 * scenario.timeMultiplier);
+
+        const { size: bettySizeForwarded } = await storeFamilyBetty.summarise(
+          range,
+        );
+
+        assertEquals(bettySizeForwarded, 8);
+
+        for (const [i, path] of paths.entries()) {
+          const result = await storeFamilyBetty.get(TestSubspace.Gemma, path);
+
+          assert(result?.payload);
+          assertEquals(
+            new TextDecoder().decode(await result.payload.bytes()),
+            `Set later by Alfie! (${i})`,
+          );
+        }
+
+        // Forwarding works in both directions.
+        await storeFamilyBetty.set({
+          subspace: TestSubspace.Gemma,
+          payload: new TextEncoder().encode("Set later by Betty!"),
+          path: [crypto.getRandomValues(new Uint8Array(4))],
+        }, TestSubspace.Gemma);
+
+        await delay(20 * scenario.timeMultiplier);
+
+        const { size: alfieSizeForwarded } = await storeFamilyAlfie.summarise(
+          range,
+        );
+
+        assertEquals(alfieSizeForwarded, 9);
+
+        // Entries ingested from elsewhere are forwarded with payloads their store already held.
+        const storeFamilyCarol = new Store({
+          namespace: TestNamespace.Family,
+          schemes: {
+            authorisation: testSchemeAuthorisation,
+            fingerprint: testSchemeFingerprint,
+            namespace: testSchemeNamespace,
+            path: testSchemePath,
+            payload: testSchemePayload,
+            subspace: testSchemeSubspace,
+          },
+          ...await scenario.getDrivers("carol", TestNamespace.Family),
+        });
+
+        const ingestedPath = [crypto.getRandomValues(new Uint8Array(4))];
+
+        const setByCarol = await storeFamilyCarol.set({
+          subspace: TestSubspace.Gemma,
+          payload: new TextEncoder().encode("Set later by Alfie! (0)"),
+          path: ingestedPath,
+        }, TestSubspace.Gemma);
+
+        assert(setByCarol.kind === "success");
+
+        await storeFamilyAlfie.ingestEntry(
+          setByCarol.entry,
+          setByCarol.authToken,
+          "carol",
+        );
+
+        await delay(20 * scenario.timeMultiplier);
+
+        const ingested = await storeFamilyBetty.get(
+          TestSubspace.Gemma,
+          ingestedPath,
+        );
+
+        assert(ingested?.payload);
+        assertEquals(
+          new TextDecoder().decode(await ingested.payload.bytes()),
+          "Set later by Alfie! (0)",
+        );
+
+        assertEquals(errors, 0);
+
+        messengerAlfie.close();
+        messengerBetty.close();
+      });
+
+      await scenario.dispose();
+    },
+  );
+
+  Deno.test(
+    `Reconciliation with small channel buffers under memory pressure (${scenario.name})`,
+    async (test) => {
+      await test.step("sync", async () => {
+        const [alfie, betty] = transportPairInMemory();
+
+        const challengeHash = async (bytes: Uint8Array) => {
+          return new Uint8Array(await crypto.subtle.digest("SHA-256", bytes));
+        };
+
+        const storeMapAlfie = new StoreMap(
+          async (namespace) => {
+            const drivers = await scenario.getDrivers("alfie", namespace);
+
+            const store = new Store({
+              namespace,
+              schemes: {
+                authorisation: testSchemeAuthorisation,
+                fingerprint: testSchemeFingerprint,
+                namespace: testSchemeNamespace,
+                path: testSchemePath,
+                payload: testSchemePayload,
+                subspace: testSchemeSubspace,
+              },
+              ...drivers,
+            });
+
+            return store;
+          },
+          {
+            authorisation: testSchemeAuthorisation,
+            fingerprint: testSchemeFingerprint,
+            namespace: testSchemeNamespace,
+            path: testSchemePath,
+            payload: testSchemePayload,
+            subspace: testSchemeSubspace,
+          },
+        );
+
+        const storeFamilyAlfie = await storeMapAlfie.get(TestNamespace.Family);
+
+        for (let i = 0; i < 20; i++) {
+          await storeFamilyAlfie.set({
+            subspace: TestSubspace.Gemma,
+            payload: new TextEncoder().encode(`Originated from Alfie! (${i})`),
+            path: [crypto.getRandomValues(new Uint8Array(4))],
+          }, TestSubspace.Gemma);
+        }
+
+        const authorisationAlfie = {
+          capability: {
+            namespace: TestNamespace.Family,
+            subspace: TestSubspace.Gemma,
+            path: [],
+            receiver: TestSubspace.Alfie,
+            time: {
+              start: BigInt(0),
+              end: OPEN_END,
+            },
+          } as TestReadCap,
+        };
+
+        let pleas = 0;
+
+        const messengerAlfie = new WgpsMessenger({
+          challengeHash,
+          challengeLength: 128,
+          challengeHashLength: 32,
+          maxPayloadSizePower: 8,
+          transport: alfie,
+          schemes: {
+            subspaceCap: testSchemeSubspaceCap,
+            namespace: testSchemeNamespace,
+            accessControl: testSchemeAccessControl,
+            pai: testSchemePai,
+            path: testSchemePath,
+            subspace: testSchemeSubspace,
+            authorisationToken: testSchemeAuthorisationToken,
+            fingerprint: testSchemeFingerprint,
+            authorisation: testSchemeAuthorisation,
+            payload: testSchemePayload,
+          },
+          getStore: (namespace) => {
+            return storeMapAlfie.get(namespace);
+          },
+          interests: new Map([[
+            authorisationAlfie,
+            [{
+              area: {
+                includedSubspaceId: TestSubspace.Gemma,
+                pathPrefix: [],
+                timeRange: {
+                  start: BigInt(0),
+                  end: OPEN_END,
+                },
+              },
+              maxCount: 0,
+              maxSize: BigInt(0),
+            }],
+          ]]),
+          transformPayload: (bytes) => bytes,
+          processReceivedPayload: (bytes) => bytes,
+          onMessage: (message) => {
+            if (message.kind === MsgKind.ControlPlead) {
+              pleas++;
+            }
+          },
+        });
+
+        const storeMapBetty = new StoreMap(
+          async (namespace) => {
+            const drivers = await scenario.getDrivers("betty", namespace);
+            const store = new Store({
+              namespace,
+              schemes: {
+                authorisation: testSchemeAuthorisation,
+                fingerprint: testSchemeFingerprint,
+                namespace: testSchemeNamespace,
+                path: testSchemePath,
+                payload: testSchemePayload,
+                subspace: testSchemeSubspace,
+              },
+              ...drivers,
+            });
+
+            return store;
+          },
+          {
+            authorisation: testSchemeAuthorisation,
+            fingerprint: testSchemeFingerprint,
+            namespace: testSchemeNamespace,
+            path: testSchemePath,
+            payload: testSchemePayload,
+            subspace: testSchemeSubspace,
+          },
+        );
+
+        const storeFamilyBetty = await storeMapBetty.get(TestNamespace.Family);
+
+        const authorisationBetty = {
+          capability: {
+            namespace: TestNamespace.Family,
+            subspace: TestSubspace.Gemma,
+            path: [],
+            receiver: TestSubspace.Betty,
+            time: {
+              start: BigInt(0),
+              end: OPEN_END,
+            },
+          } as TestReadCap,
+        };
+
+        const messengerBetty = new WgpsMessenger({
+          challengeHash,
+          challengeLength: 128,
+          challengeHashLength: 32,
+          maxPayloadSizePower: 8,
+          transport: betty,
+          schemes: {
+            subspaceCap: testSchemeSubspaceCap,
+            namespace: testSchemeNamespace,
+            accessControl: testSchemeAccessControl,
+            pai: testSchemePai,
+            path: testSchemePath,
+            subspace: testSchemeSubspace,
+            authorisationToken: testSchemeAuthorisationToken,
+            fingerprint: testSchemeFingerprint,
+            authorisation: testSchemeAuthorisation,
+            payload: testSchemePayload,
+          },
+          getStore: (namespace) => {
+            return storeMapBetty.get(namespace);
+          },
+          interests: new Map([[
+            authorisationBetty,
+            [{
+              area: {
+                includedSubspaceId: TestSubspace.Gemma,
+                pathPrefix: [],
+                timeRange: {
+                  start: BigInt(0),
+                  end: OPEN_END,
+                },
+              },
+              maxCount: 0,
+              maxSize: BigInt(0),
+            }],
+          ]]),
+          transformPayload: (bytes) => bytes,
+          processReceivedPayload: (bytes) => bytes,
+          channelBufferSizes: {
+            [LogicalChannel.ReconciliationChannel]: 1024,
+            [LogicalChannel.DataChannel]: 1024,
+            [LogicalChannel.IntersectionChannel]: 512,
+            [LogicalChannel.CapabilityChannel]: 512,
+            [LogicalChannel.AreaOfInterestChannel]: 512,
+            [LogicalChannel.PayloadRequestChannel]: 512,
+            [LogicalChannel.StaticTokenChannel]: 512,
+          },
+          // Pressure whenever anything is buffered at all.
+          memoryLimit: 0,
+        });
+
+        let errors = 0;
+
+        for (const messenger of [messengerAlfie, messengerBetty]) {
+          messenger.addEventListener(WgpsMessengerEvents.Error, () => {
+            errors++;
+          });
+        }
+
+        const range: Range3d<TestSubspace> = {
+          subspaceRange: {
+            start: TestSubspace.Gemma,
+            end: TestSubspace.Dalton,
+          },
+          pathRange: {
+            start: [],
+            end: OPEN_END,
+          },
+          timeRange: {
+            start: 0n,
+            end: OPEN_END,
+          },
+        };
+
+        await delay(20 * scenario.timeMultiplier);
+
+        const { size: bettySize } = await storeFamilyBetty.summarise(range);
+
+        assertEquals(bettySize, 20);
+        assert(pleas > 0);
+        assertEquals(errors, 0);
+
+        messengerAlfie.close();
+        messengerBetty.close();
+      });
+
+      await scenario.dispose();
+    },
+  );
+
+  Deno.test(
+    `Guarantees for the largest maximum payload size (${scenario.name})`,
+    async (test) => {
+      await test.step("sync", async () => {
+        const [alfie, betty] = transportPairInMemory();
+
+        const challengeHash = async (bytes: Uint8Array) => {
+          return new Uint8Array(await crypto.subtle.digest("SHA-256", bytes));
+        };
+
+        const storeMap = new StoreMap(
+          async (namespace) => {
+            const drivers = await scenario.getDrivers("alfie", namespace);
+
+            return new Store({
+              namespace,
+              schemes: {
+                authorisation: testSchemeAuthorisation,
+                fingerprint: testSchemeFingerprint,
+                namespace: testSchemeNamespace,
+                path: testSchemePath,
+                payload: testSchemePayload,
+                subspace: testSchemeSubspace,
+              },
+              ...drivers,
+            });
+          },
+          {
+            authorisation: testSchemeAuthorisation,
+            fingerprint: testSchemeFingerprint,
+            namespace: testSchemeNamespace,
+            path: testSchemePath,
+            payload: testSchemePayload,
+            subspace: testSchemeSubspace,
+          },
+        );
+
+        const reconciliationGuarantees: bigint[] = [];
+
+        const [messengerAlfie, messengerBetty] = [alfie, betty].map(
+          (transport) =>
+            new WgpsMessenger({
+              challengeHash,
+              challengeLength: 128,
+              challengeHashLength: 32,
+              maxPayloadSizePower: 64,
+              transport,
+              schemes: {
+                subspaceCap: testSchemeSubspaceCap,
+                namespace: testSchemeNamespace,
+                accessControl: testSchemeAccessControl,
+                pai: testSchemePai,
+                path: testSchemePath,
+                subspace: testSchemeSubspace,
+                authorisationToken: testSchemeAuthorisationToken,
+                fingerprint: testSchemeFingerprint,
+                authorisation: testSchemeAuthorisation,
+                payload: testSchemePayload,
+              },
+              getStore: (namespace) => {
+                return storeMap.get(namespace);
+              },
+              interests: new Map(),
+              transformPayload: (bytes) => bytes,
+              processReceivedPayload: (bytes) => bytes,
+              onMessage: (message) => {
+                if (
+                  message.kind === MsgKind.ControlIssueGuarantee &&
+                  message.channel === LogicalChannel.ReconciliationChannel
+                ) {
+                  reconciliationGuarantees.push(message.amount);
+                }
+              },
+            }),
+        );
+
+        let errors = 0;
+
+        for (const messenger of [messengerAlfie, messengerBetty]) {
+          messenger.addEventListener(WgpsMessengerEvents.Error, () => {
+            errors++;
+          });
+        }
+
+        await delay(5 * scenario.timeMultiplier);
+
+        // The reconciliation channel's buffer is as large as a guarantee can be.
+        assertEquals(reconciliationGuarantees, [
+          BigInt(2) ** BigInt(64) - BigInt(1),
+          BigInt(2) ** BigInt(64) - BigInt(1),
+        ]);
+        assertEquals(errors, 0);
+
+        messengerAlfie.close();
+        messengerBetty.close();
+      });
+
+      await scenario.dispose();
+    },
+  );
+
   Deno.test(
     `Full Reconciliation of joint equivalent capabilities (${scenario.name})`,
     async (test) => {
@@ -2625,6 +3939,85 @@ function testWgpsMessenger(scenario: WgpsScenario) {
           },
         });
 
+        const eventCounts = {
+          intersections: 0,
+          capabilitiesOurs: 0,
+          capabilitiesTheirs: 0,
+          rangesReconciled: 0,
+          areasReconciled: 0,
+          entriesReceived: 0,
+          entriesSent: 0,
+          payloadBytesReceived: 0n,
+          errors: 0,
+          closes: 0,
+        };
+
+        messengerBetty.addEventListener(
+          WgpsMessengerEvents.IntersectionFind,
+          (event) => {
+            assertEquals(event.detail.namespace, TestNamespace.Family);
+            eventCounts.intersections++;
+          },
+        );
+
+        messengerBetty.addEventListener(
+          WgpsMessengerEvents.CapabilityBind,
+          (event) => {
+            assertEquals(event.detail.namespace, TestNamespace.Family);
+
+            if (event.detail.ours) {
+              eventCounts.capabilitiesOurs++;
+            } else {
+              eventCounts.capabilitiesTheirs++;
+            }
+          },
+        );
+
+        messengerBetty.addEventListener(
+          WgpsMessengerEvents.RangeReconcile,
+          (event) => {
+            assertEquals(event.detail.area.pathPrefix, [new Uint8Array([1])]);
+            eventCounts.rangesReconciled++;
+          },
+        );
+
+        messengerBetty.addEventListener(
+          WgpsMessengerEvents.AreaReconcile,
+          (event) => {
+            assertEquals(event.detail.namespace, TestNamespace.Family);
+            assertEquals(event.detail.area.pathPrefix, [new Uint8Array([1])]);
+            eventCounts.areasReconciled++;
+          },
+        );
+
+        messengerBetty.addEventListener(
+          WgpsMessengerEvents.EntryReceive,
+          (event) => {
+            assertEquals(event.detail.namespace, TestNamespace.Family);
+            assertEquals(event.detail.area.pathPrefix, [new Uint8Array([1])]);
+            eventCounts.entriesReceived++;
+          },
+        );
+
+        messengerBetty.addEventListener(WgpsMessengerEvents.EntrySend, () => {
+          eventCounts.entriesSent++;
+        });
+
+        messengerBetty.addEventListener(
+          WgpsMessengerEvents.PayloadReceive,
+          (event) => {
+            eventCounts.payloadBytesReceived += event.detail.amount;
+          },
+        );
+
+        messengerBetty.addEventListener(WgpsMessengerEvents.Error, () => {
+          eventCounts.errors++;
+        });
+
+        messengerBetty.addEventListener(WgpsMessengerEvents.Close, () => {
+          eventCounts.closes++;
+        });
+
         await delay(20 * scenario.timeMultiplier);
 
         const range: Range3d<TestSubspace> = {
@@ -2645,8 +4038,21 @@ function testWgpsMessenger(scenario: WgpsScenario) {
         assertEquals(reconciliationSendPayloadCounter, 10);
         assertEquals(dataSendPayloadCounter, 10);
 
+        assertEquals(eventCounts.intersections, 1);
+        assertEquals(eventCounts.capabilitiesOurs, 1);
+        assertEquals(eventCounts.capabilitiesTheirs, 1);
+        assert(eventCounts.rangesReconciled > 0);
+        assertEquals(eventCounts.areasReconciled, 1);
+        assertEquals(eventCounts.entriesReceived, 20);
+        assertEquals(eventCounts.entriesSent, 0);
+        // Ten payloads of 16 bytes and ten of 17 bytes.
+        assertEquals(eventCounts.payloadBytesReceived, 330n);
+        assertEquals(eventCounts.errors, 0);
+
         messengerAlfie.close();
         messengerBetty.close();
+
+        assertEquals(eventCounts.closes, 1);
       });
 
       await scenario.dispose();
@@ -12,6 +12,7 @@ import { PaiFinder } from "./pai/pai_finder.ts";
 import {
   type AreaOfInterestChannelMsg,
   type CapabilityChannelMsg,
+  COVERS_NONE,
   type DataChannelMsg,
   HandleType,
   type IntersectionChannelMsg,
@@ -28,9 +29,10 @@ import {
   type Transport,
 } from "./types.ts";
 import type { Intersection } from "./pai/types.ts";
-import { onAsyncIterate } from "./util.ts";
 
 import { GuaranteedQueue } from "./guaranteed_queue.ts";
+import { GuaranteeIssuer } from "./guarantee_issuer.ts";
+import { msgLogicalChannels } from "./channels.ts";
 import { AoiIntersectionFinder } from "./reconciliation/aoi_intersection_finder.ts";
 import { Reconciler } from "./reconciliation/reconciler.ts";
 import { ReconcilerMap } from "./reconciliation/reconciler_map.ts";
@@ -38,19 +40,43 @@ import { Announcer } from "./reconciliation/announcer.ts";
 import { CapFinder } from "./cap_finder.ts";
 import { DataSender } from "./data/data_sender.ts";
 import { PayloadIngester } from "./data/payload_ingester.ts";
+import { type AoiPair, Plumtree } from "./data/plumtree.ts";
 import type { Store } from "../store/store.ts";
 import {
+  type EntryIngestEvent,
+  type EntryPayloadSetEvent,
+  type PayloadIngestEvent,
+  StoreEvents,
+} from "../store/events.ts";
+import {
+  AreaReconcileEvent,
+  CapabilityBindEvent,
+  EntryReceiveEvent,
+  EntrySendEvent,
+  IntersectionFindEvent,
+  PayloadReceiveEvent,
+  PayloadSendEvent,
+  RangeReconcileEvent,
+  SyncCloseEvent,
+  SyncErrorEvent,
+  WgpsMessengerEvents,
+  type WgpsMessengerEventsMap,
+} from "./events.ts";
+import {
+  type Area,
   areaIsIncluded,
   type AreaOfInterest,
   defaultEntry,
   type Entry,
   entryPosition,
+  fullArea,
   intersectArea,
   isIncluded3d,
   isIncludedArea,
   orderBytes,
   type Range3d,
 } from "@earthstar/willow-utils";
+import { TypedEventTarget } from "@derzade/typescript-event-target";
 
 /** Return a {@link Store} for a given `NamespaceId`. */
 export type GetStoreFn<
@@ -135,7 +161,7 @@ export type WgpsMessengerOpts<
     AuthorisationOpts
   >;
 
-  /** A map of {@link ReadAuthorisation} to [`AreaOfInterest`](https://willowprotocol.org/specs/grouping-entries/index.html#aois), which it proves read access to. */
+  /** A map of {@link ReadAuthorisation} to [`AreaOfInterest`](https://willowprotocol.org/specs/grouping-entries/index.html#aois), which it proves read access to. More can be added and removed during the session with {@linkcode WgpsMessenger.addInterests} and {@linkcode WgpsMessenger.removeInterests}. */
   interests: Map<
     ReadAuthorisation<ReadCapability, SubspaceCapability>,
     AreaOfInterest<SubspaceId>[]
@@ -159,11 +185,40 @@ export type WgpsMessengerOpts<
     entryLength: bigint,
   ) => Uint8Array;
 
+  /** The number of bytes to buffer for messages received on each logical channel, which is the amount of guarantees issued to the other peer for it. Each must be at least as large as the largest message expected on its channel.
+   *
+   * Defaults to 1 MiB for each channel, plus the maximum payload size for the reconciliation channel (but no more than 2^64 - 1 bytes).
+   */
+  channelBufferSizes?: Partial<Record<LogicalChannel, number>>;
+
+  /** The number of received bytes which may be buffered across all logical channels before asking the other peer to stop sending with [`ControlPlead`](https://willowprotocol.org/specs/resource-control/index.html#ControlPlead), until enough of them have been processed. Defaults to no limit beyond the channels' buffer sizes. */
+  memoryLimit?: number;
+
   /** Used for internal testing. `message` has type any to not expose internal API. */
   onMessage?: (message: any, isAlfie: boolean) => void;
 };
 
+const DEFAULT_CHANNEL_BUFFER_SIZE = 2 ** 20;
+
+// Guarantees are encoded as U64s, so no buffer can be larger than this.
+const MAX_CHANNEL_BUFFER_SIZE = BigInt(2) ** BigInt(64) - BigInt(1);
+
+// A message received on a logical channel, along with the number of bytes it takes up in that channel's buffer.
+type BufferedMsg<Msg> = {
+  message: Msg;
+  byteLength: number;
+};
+
+// One of our capabilities bound during a session, along with the areas of interest bound for it.
+type CapBinding<NamespaceId> = {
+  namespace: NamespaceId;
+  capHandle: bigint;
+  aoiHandles: bigint[];
+};
+
 /** Coordinates an open-ended synchronisation session between two peers using the [Willow General Purpose Sync Protocol](https://willowprotocol.org/specs/sync/index.html#sync).
+ *
+ * Dispatches events describing the progress of the session, which are listed in {@linkcode WgpsMessengerEvents}.
  */
 export class WgpsMessenger<
   ReadCapability,
@@ -185,6 +240,8 @@ export class WgpsMessenger<
   SubspaceId,
   PayloadDigest,
   AuthorisationOpts,
+> extends TypedEventTarget<
+  WgpsMessengerEventsMap<NamespaceId, SubspaceId, PayloadDigest>
 > {
   private closed = false;
 
@@ -193,6 +250,18 @@ export class WgpsMessenger<
     AreaOfInterest<SubspaceId>[]
   >;
 
+  /** The capabilities we have bound for each of our authorisations, and the areas of interest bound with them. */
+  private bindings = new Map<
+    ReadAuthorisation<ReadCapability, SubspaceCapability>,
+    CapBinding<NamespaceId>[]
+  >();
+
+  /** The areas of interest removed with {@linkcode WgpsMessenger.removeInterests}, whose payloads are no longer sent to the other peer. */
+  private removedAreas: {
+    namespace: NamespaceId;
+    area: Area<SubspaceId>;
+  }[] = [];
+
   private transport: ReadyTransport;
   private encoder: MessageEncoder<
     ReadCapability,
@@ -223,34 +292,52 @@ export class WgpsMessenger<
   private outChannelPayloadRequest = new GuaranteedQueue();
   private outChannelStaticToken = new GuaranteedQueue();
 
+  /** Guarantees issued to the other peer, and the bytes buffered with them, for each logical channel. */
+  private guaranteeIssuers = new Map<LogicalChannel, GuaranteeIssuer>();
+  private memoryLimit?: bigint;
+
   private inChannelReconciliation = new FIFO<
-    ReconciliationChannelMsg<
-      DynamicToken,
-      Fingerprint,
-      NamespaceId,
-      SubspaceId,
-      PayloadDigest
+    BufferedMsg<
+      ReconciliationChannelMsg<
+        DynamicToken,
+        Fingerprint,
+        NamespaceId,
+        SubspaceId,
+        PayloadDigest
+      >
     >
   >();
   private inChannelData = new FIFO<
-    DataChannelMsg<
-      DynamicToken,
-      NamespaceId,
-      SubspaceId,
-      PayloadDigest
+    BufferedMsg<
+      DataChannelMsg<
+        DynamicToken,
+        NamespaceId,
+        SubspaceId,
+        PayloadDigest
+      >
     >
   >();
-  private inChannelIntersection = new FIFO<IntersectionChannelMsg<PsiGroup>>();
+  private inChannelIntersection = new FIFO<
+    BufferedMsg<IntersectionChannelMsg<PsiGroup>>
+  >();
   private inChannelCapability = new FIFO<
-    CapabilityChannelMsg<ReadCapability, SyncSignature>
+    BufferedMsg<
+      CapabilityChannelMsg<ReadCapability, SyncSignature>
+    >
   >();
   private inChannelAreaOfInterest = new FIFO<
-    AreaOfInterestChannelMsg<SubspaceId>
+    BufferedMsg<
+      AreaOfInterestChannelMsg<SubspaceId>
+    >
   >();
   private inChannelPayloadRequest = new FIFO<
-    PayloadRequestChannelMsg<NamespaceId, SubspaceId, PayloadDigest>
+    BufferedMsg<
+      PayloadRequestChannelMsg<NamespaceId, SubspaceId, PayloadDigest>
+    >
+  >();
+  private inChannelStaticToken = new FIFO<
+    BufferedMsg<StaticTokenChannelMsg<StaticToken>>
   >();
-  private inChannelStaticToken = new FIFO<StaticTokenChannelMsg<StaticToken>>();
   private inChannelNone = new FIFO<
     NoChannelMsg<PsiGroup, SubspaceCapability, SyncSubspaceSignature>
   >();
@@ -311,6 +398,7 @@ export class WgpsMessenger<
 
   // Reconciliation
 
+  private myRangeCounter = 0n;
   private yourRangeCounter = 0;
 
   private getStore: GetStoreFn<
@@ -349,8 +437,21 @@ export class WgpsMessenger<
 
   private currentlyReceivingEntries: {
     namespace: NamespaceId;
+    area: Area<SubspaceId>;
     range: Range3d<SubspaceId>;
     remaining: bigint;
+    wantResponse: boolean;
+    reconciler: Reconciler<
+      NamespaceId,
+      SubspaceId,
+      PayloadDigest,
+      AuthorisationOpts,
+      AuthorisationToken,
+      Prefingerprint,
+      Fingerprint
+    >;
+    /** The most recently received entry, which any payload received belongs to. */
+    entry?: Entry<NamespaceId, SubspaceId, PayloadDigest>;
   } | undefined;
 
   private reconciliationPayloadIngester: PayloadIngester<
@@ -379,6 +480,8 @@ export class WgpsMessenger<
   private currentlyReceivedEntry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
   private currentlyReceivedOffset = 0n;
   private currentlyReceivedLimit = 0n;
+  /** The entry payloads received on the data channel belong to. Unlike `currentlyReceivedEntry`, this is only updated once previously received payloads have been handled. */
+  private currentlyIngestedEntry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
 
   private handlesPayloadRequestsOurs = new HandleStore<{
     offset: bigint;
@@ -410,6 +513,33 @@ export class WgpsMessenger<
     AuthorisationOpts
   >;
 
+  /** Identifies entries and payloads received from the other peer in stores' events, so that they are not forwarded back to them. */
+  private externalSourceId = crypto.randomUUID();
+
+  private plumtree = new Plumtree();
+
+  /** Entries which stores have received from anywhere but the other peer, to forward to them. */
+  private forwardQueue = new FIFO<{
+    entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
+    authToken: AuthorisationToken;
+    /** Whether the entry has already been forwarded, without its payload. */
+    entryForwarded: boolean;
+  }>();
+
+  /** The stores whose new entries are forwarded, each with a function to stop listening to them. */
+  private forwardingStores = new Map<
+    Store<
+      NamespaceId,
+      SubspaceId,
+      PayloadDigest,
+      AuthorisationOpts,
+      AuthorisationToken,
+      Prefingerprint,
+      Fingerprint
+    >,
+    () => void
+  >();
+
   private onMessage?: (message: any, isAlfie: boolean) => void;
 
   constructor(
@@ -435,43 +565,62 @@ export class WgpsMessenger<
       AuthorisationOpts
     >,
   ) {
+    super();
+
     if (opts.maxPayloadSizePower < 0 || opts.maxPayloadSizePower > 64) {
       throw new ValidationError(
         "maxPayloadSizePower must be a natural number less than or equal to 64",
       );
     }
 
-    for (const [authorisation, areas] of opts.interests) {
-      if (areas.length === 0) {
-        throw new WillowError("No Areas of Interest given for authorisation");
+    this.schemes = opts.schemes;
+
+    for (
+      const channel of [
+        LogicalChannel.ReconciliationChannel,
+        LogicalChannel.DataChannel,
+        LogicalChannel.IntersectionChannel,
+        LogicalChannel.CapabilityChannel,
+        LogicalChannel.AreaOfInterestChannel,
+        LogicalChannel.PayloadRequestChannel,
+        LogicalChannel.StaticTokenChannel,
+      ]
+    ) {
+      // The other peer may send reconciled payloads up to our maximum payload size in one message.
+      const unclampedSize = channel === LogicalChannel.ReconciliationChannel
+        ? BigInt(DEFAULT_CHANNEL_BUFFER_SIZE) +
+          BigInt(2) ** BigInt(opts.maxPayloadSizePower)
+        : BigInt(DEFAULT_CHANNEL_BUFFER_SIZE);
+
+      const defaultSize = unclampedSize < MAX_CHANNEL_BUFFER_SIZE
+        ? unclampedSize
+        : MAX_CHANNEL_BUFFER_SIZE;
+
+      const size = opts.channelBufferSizes?.[channel];
+
+      if (size !== undefined && (!Number.isInteger(size) || size <= 0)) {
+        throw new ValidationError(
+          "Channel buffer sizes must be positive integers",
+        );
       }
 
-      // Get granted area of authorisation
-      const grantedArea = opts.schemes.accessControl.getGrantedArea(
-        authorisation.capability,
+      this.guaranteeIssuers.set(
+        channel,
+        new GuaranteeIssuer(size === undefined ? defaultSize : BigInt(size)),
       );
+    }
 
-      for (const aoi of areas) {
-        // Check that AOI area is in granted area.
-        const isWithin = areaIsIncluded(
-          opts.schemes.subspace.order,
-          aoi.area,
-          grantedArea,
-        );
+    if (opts.memoryLimit !== undefined) {
+      this.memoryLimit = BigInt(opts.memoryLimit);
+    }
 
-        if (!isWithin) {
-          throw new WillowError(
-            "Given authorisation is not within authorisation's granted area",
-          );
-        }
-      }
+    for (const [authorisation, areas] of opts.interests) {
+      this.checkInterests(authorisation, areas);
     }
 
     this.getStore = opts.getStore;
 
-    this.interests = opts.interests;
-
-    this.schemes = opts.schemes;
+    this.interests = new Map(opts.interests);
 
     this.nonce = crypto.getRandomValues(new Uint8Array(opts.challengeLength));
 
@@ -508,6 +657,7 @@ export class WgpsMessenger<
     this.reconciliationPayloadIngester = new PayloadIngester({
       getStore: this.getStore,
       processReceivedPayload: opts.processReceivedPayload,
+      externalSourceId: this.externalSourceId,
     });
 
     // Data
@@ -522,6 +672,7 @@ export class WgpsMessenger<
       this.schemes.subspace.minimalSubspaceId,
       this.schemes.payload.defaultDigest,
     );
+    this.currentlyIngestedEntry = this.currentlyReceivedEntry;
 
     this.capFinder = new CapFinder({
       handleStoreOurs: this.handlesCapsOurs,
@@ -541,6 +692,7 @@ export class WgpsMessenger<
     this.dataPayloadIngester = new PayloadIngester({
       getStore: this.getStore,
       processReceivedPayload: opts.processReceivedPayload,
+      externalSourceId: this.externalSourceId,
     });
 
     this.onMessage = opts.onMessage;
@@ -590,35 +742,35 @@ export class WgpsMessenger<
       },
     });
 
-    onAsyncIterate(this.outChannelReconciliation, async (message) => {
+    this.iterate(this.outChannelReconciliation, async (message) => {
       await this.transport.send(message);
     });
 
-    onAsyncIterate(this.outChannelData, async (message) => {
+    this.iterate(this.outChannelData, async (message) => {
       await this.transport.send(message);
     });
 
-    onAsyncIterate(this.outChannelIntersection, async (message) => {
+    this.iterate(this.outChannelIntersection, async (message) => {
       await this.transport.send(message);
     });
 
-    onAsyncIterate(this.outChannelCapability, async (message) => {
+    this.iterate(this.outChannelCapability, async (message) => {
       await this.transport.send(message);
     });
 
-    onAsyncIterate(this.outChannelAreaOfInterest, async (message) => {
+    this.iterate(this.outChannelAreaOfInterest, async (message) => {
       await this.transport.send(message);
     });
 
-    onAsyncIterate(this.outChannelPayloadRequest, async (message) => {
+    this.iterate(this.outChannelPayloadRequest, async (message) => {
       await this.transport.send(message);
     });
 
-    onAsyncIterate(this.outChannelStaticToken, async (message) => {
+    this.iterate(this.outChannelStaticToken, async (message) => {
       await this.transport.send(message);
     });
 
-    onAsyncIterate(this.encoder, async ({ channel, message }) => {
+    this.iterate(this.encoder, async ({ channel, message }) => {
       switch (channel) {
         case LogicalChannel.ReconciliationChannel: {
           this.outChannelReconciliation.push(message);
@@ -694,34 +846,7 @@ export class WgpsMessenger<
       },
       // TODO: this might need to be async and use handleStore.getEventually
       aoiHandlesToArea: (senderHandle, receiverHandle) => {
-        const senderAoi = this.handlesAoisTheirs.get(senderHandle);
-        const receiverAoi = this.handlesAoisOurs.get(receiverHandle);
-
-        if (!senderAoi) {
-          throw new WgpsMessageValidationError(
-            "Failed to retrieve unbound sender AOI handle",
-          );
-        }
-
-        if (!receiverAoi) {
-          throw new WgpsMessageValidationError(
-            "Failed to retrieve unbound receiver AOI handle",
-          );
-        }
-
-        const intersectingArea = intersectArea(
-          this.schemes.subspace.order,
-          senderAoi.area,
-          receiverAoi.area,
-        );
-
-        if (!intersectingArea) {
-          throw new WgpsMessageValidationError(
-            "No intersecting area between two AOI handles",
-          );
-        }
-
-        return intersectingArea;
+        return this.intersectAois(receiverHandle, senderHandle);
       },
       aoiHandlesToNamespace: (senderHandle, receiverHandle) => {
         const reconciler = this.reconcilerMap.getReconciler(
@@ -737,9 +862,15 @@ export class WgpsMessenger<
     });
 
     // Begin handling decoded messages
-    onAsyncIterate(decodedMessages, (msg) => {
+    this.iterate(decodedMessages, ({ message: msg, byteLength }) => {
+      const channel = msgLogicalChannels[msg.kind];
+
+      if (channel !== null) {
+        this.receivedOnChannel(channel, byteLength);
+      }
+
       if (this.onMessage) {
-          this.onMessage(msg, this.transport.role === IS_ALFIE);
+        this.onMessage(msg, this.transport.role === IS_ALFIE);
       }
 
       if (msg.kind === MsgKind.DataSendEntry) {
@@ -758,31 +889,31 @@ export class WgpsMessenger<
 
       switch (msg.kind) {
         case MsgKind.PaiBindFragment:
-          this.inChannelIntersection.push(msg);
+          this.inChannelIntersection.push({ message: msg, byteLength });
           break;
         case MsgKind.SetupBindReadCapability:
-          this.inChannelCapability.push(msg);
+          this.inChannelCapability.push({ message: msg, byteLength });
           break;
         case MsgKind.SetupBindAreaOfInterest:
-          this.inChannelAreaOfInterest.push(msg);
+          this.inChannelAreaOfInterest.push({ message: msg, byteLength });
           break;
         case MsgKind.SetupBindStaticToken:
-          this.inChannelStaticToken.push(msg);
+          this.inChannelStaticToken.push({ message: msg, byteLength });
           break;
         case MsgKind.ReconciliationSendFingerprint:
         case MsgKind.ReconciliationAnnounceEntries:
         case MsgKind.ReconciliationSendEntry:
         case MsgKind.ReconciliationSendPayload:
         case MsgKind.ReconciliationTerminatePayload:
-          this.inChannelReconciliation.push(msg);
+          this.inChannelReconciliation.push({ message: msg, byteLength });
           break;
         case MsgKind.DataSendEntry:
         case MsgKind.DataReplyPayload:
         case MsgKind.DataSendPayload:
-          this.inChannelData.push(msg);
+          this.inChannelData.push({ message: msg, byteLength });
           break;
         case MsgKind.DataBindPayloadRequest:
-          this.inChannelPayloadRequest.push(msg);
+          this.inChannelPayloadRequest.push({ message: msg, byteLength });
           break;
         default:
           this.inChannelNone.push(msg);
@@ -792,35 +923,60 @@ export class WgpsMessenger<
     });
 
     // Handle received messages
-    onAsyncIterate(this.inChannelReconciliation, async (msg) => {
-      await this.handleMsgReconciliation(msg);
-    });
+    this.iterate(
+      this.inChannelReconciliation,
+      async ({ message, byteLength }) => {
+        await this.handleMsgReconciliation(message);
+        this.processedOnChannel(
+          LogicalChannel.ReconciliationChannel,
+          byteLength,
+        );
+      },
+    );
 
-    onAsyncIterate(this.inChannelData, async (msg) => {
-      await this.handleMsgData(msg);
+    this.iterate(this.inChannelData, async ({ message, byteLength }) => {
+      await this.handleMsgData(message);
+      this.processedOnChannel(LogicalChannel.DataChannel, byteLength);
     });
 
-    onAsyncIterate(this.inChannelIntersection, (msg) => {
-      this.handleMsgIntersection(msg);
+    this.iterate(this.inChannelIntersection, ({ message, byteLength }) => {
+      this.handleMsgIntersection(message);
+      this.processedOnChannel(LogicalChannel.IntersectionChannel, byteLength);
     });
 
-    onAsyncIterate(this.inChannelCapability, async (msg) => {
-      await this.handleMsgCapability(msg);
+    this.iterate(this.inChannelCapability, async ({ message, byteLength }) => {
+      await this.handleMsgCapability(message);
+      this.processedOnChannel(LogicalChannel.CapabilityChannel, byteLength);
     });
 
-    onAsyncIterate(this.inChannelAreaOfInterest, async (msg) => {
-      await this.handleMsgAreaOfInterest(msg);
-    });
+    this.iterate(
+      this.inChannelAreaOfInterest,
+      async ({ message, byteLength }) => {
+        await this.handleMsgAreaOfInterest(message);
+        this.processedOnChannel(
+          LogicalChannel.AreaOfInterestChannel,
+          byteLength,
+        );
+      },
+    );
 
-    onAsyncIterate(this.inChannelPayloadRequest, async (msg) => {
-      await this.handleMsgPayloadRequest(msg);
-    });
+    this.iterate(
+      this.inChannelPayloadRequest,
+      async ({ message, byteLength }) => {
+        await this.handleMsgPayloadRequest(message);
+        this.processedOnChannel(
+          LogicalChannel.PayloadRequestChannel,
+          byteLength,
+        );
+      },
+    );
 
-    onAsyncIterate(this.inChannelStaticToken, (msg) => {
-      this.handleMsgStaticToken(msg);
+    this.iterate(this.inChannelStaticToken, ({ message, byteLength }) => {
+      this.handleMsgStaticToken(message);
+      this.processedOnChannel(LogicalChannel.StaticTokenChannel, byteLength);
     });
 
-    onAsyncIterate(this.inChannelNone, async (msg) => {
+    this.iterate(this.inChannelNone, async (msg) => {
       await this.handleMsg(msg);
     });
 
@@ -846,7 +1002,8 @@ export class WgpsMessenger<
     await this.transport.send(commitment);
 
     // Give announcer the other peer's maximumPayloadSize.
-    this.announcer.otherMaximumPayloadSize = await this.transport.maximumPayloadSize;
+    this.announcer.otherMaximumPayloadSize = await this.transport
+      .maximumPayloadSize;
 
     // Wait until we have the received commitment.
     await this.transport.receivedCommitment;
@@ -858,54 +1015,15 @@ export class WgpsMessenger<
       nonce: this.nonce,
     });
 
-    this.encoder.encode({
-      kind: MsgKind.ControlIssueGuarantee,
-      channel: LogicalChannel.ReconciliationChannel,
-      amount: BigInt(Number.MAX_SAFE_INTEGER),
-    });
-
-    this.encoder.encode({
-      kind: MsgKind.ControlIssueGuarantee,
-      channel: LogicalChannel.DataChannel,
-      amount: BigInt(Number.MAX_SAFE_INTEGER),
-    });
-
-    this.encoder.encode({
-      kind: MsgKind.ControlIssueGuarantee,
-      channel: LogicalChannel.IntersectionChannel,
-      amount: BigInt(Number.MAX_SAFE_INTEGER),
-    });
-
-    this.encoder.encode({
-      kind: MsgKind.ControlIssueGuarantee,
-      channel: LogicalChannel.CapabilityChannel,
-      amount: BigInt(Number.MAX_SAFE_INTEGER),
-    });
-
-    this.encoder.encode({
-      kind: MsgKind.ControlIssueGuarantee,
-      channel: LogicalChannel.AreaOfInterestChannel,
-      amount: BigInt(Number.MAX_SAFE_INTEGER),
-    });
-
-    this.encoder.encode({
-      kind: MsgKind.ControlIssueGuarantee,
-      channel: LogicalChannel.PayloadRequestChannel,
-      amount: BigInt(Number.MAX_SAFE_INTEGER),
-    });
-
-    this.encoder.encode({
-      kind: MsgKind.ControlIssueGuarantee,
-      channel: LogicalChannel.StaticTokenChannel,
-      amount: BigInt(Number.MAX_SAFE_INTEGER),
-    });
+    // Let the other peer fill our buffers.
+    this.issueGuarantees();
   }
 
   private setupPai(
     authorisations: ReadAuthorisation<ReadCapability, SubspaceCapability>[],
   ) {
     // Hook up the PAI finder
-    onAsyncIterate(this.paiFinder.fragmentBinds(), (bind) => {
+    this.iterate(this.paiFinder.fragmentBinds(), (bind) => {
       this.encoder.encode({
         kind: MsgKind.PaiBindFragment,
         groupMember: bind.group,
@@ -913,7 +1031,7 @@ export class WgpsMessenger<
       });
     });
 
-    onAsyncIterate(this.paiFinder.fragmentReplies(), (reply) => {
+    this.iterate(this.paiFinder.fragmentReplies(), (reply) => {
       this.encoder.encode({
         kind: MsgKind.PaiReplyFragment,
         handle: reply.handle,
@@ -921,14 +1039,14 @@ export class WgpsMessenger<
       });
     });
 
-    onAsyncIterate(this.paiFinder.subspaceCapRequests(), (handle) => {
+    this.iterate(this.paiFinder.subspaceCapRequests(), (handle) => {
       this.encoder.encode({
         kind: MsgKind.PaiRequestSubspaceCapability,
         handle,
       });
     });
 
-    onAsyncIterate(this.paiFinder.subspaceCapReplies(), async (reply) => {
+    this.iterate(this.paiFinder.subspaceCapReplies(), async (reply) => {
       const receiver = this.schemes.subspaceCap.getReceiver(reply.subspaceCap);
       const secretKey = await this.schemes.subspaceCap.getSecretKey(receiver);
 
@@ -952,7 +1070,7 @@ export class WgpsMessenger<
       });
     });
 
-    onAsyncIterate(
+    this.iterate(
       this.paiFinder.intersections(),
       async ({ namespace, authorisation, handle }) => {
         // Encode and sign the challenge using the receiver of the read cap.
@@ -970,6 +1088,22 @@ export class WgpsMessenger<
           await this.ourChallenge.promise,
         );
 
+        const aois = this.interests.get(authorisation);
+
+        // The authorisation's interests may have been removed since it was submitted.
+        if (!aois) {
+          return;
+        }
+
+        const grantedArea = this.schemes.accessControl.getGrantedArea(
+          authorisation.capability,
+        );
+
+        this.dispatchTypedEvent(
+          WgpsMessengerEvents.IntersectionFind,
+          new IntersectionFindEvent(namespace, grantedArea),
+        );
+
         const capHandle = this.handlesCapsOurs.bind(authorisation.capability);
 
         this.capFinder.addCap(capHandle);
@@ -982,39 +1116,47 @@ export class WgpsMessenger<
           signature,
         });
 
-        const aois = this.interests.get(authorisation);
-
-        if (!aois) {
-          throw new WillowError("No interests known for a given authorisation");
-        }
+        this.dispatchTypedEvent(
+          WgpsMessengerEvents.CapabilityBind,
+          new CapabilityBindEvent(namespace, grantedArea, true),
+        );
 
-        // And areas of interest.
-        for (const aoi of aois) {
-          const handle = this.handlesAoisOurs.bind(aoi);
+        const binding: CapBinding<NamespaceId> = {
+          namespace,
+          capHandle,
+          aoiHandles: [],
+        };
 
-          this.aoiIntersectionFinder.addAoiHandleForNamespace(
-            handle,
-            namespace,
-            true,
-          );
+        this.bindings.set(authorisation, [
+          ...this.bindings.get(authorisation) ?? [],
+          binding,
+        ]);
 
-          this.encoder.encode({
-            kind: MsgKind.SetupBindAreaOfInterest,
-            areaOfInterest: aoi,
-            authorisation: capHandle,
-          });
-        }
+        // And areas of interest.
+        this.bindAreasOfInterest(binding, aois);
       },
     );
 
     for (const auth of authorisations) {
-      this.paiFinder.submitAuthorisation(auth);
+      this.submitAuthorisation(auth);
     }
   }
 
   private setupReconciliation() {
     // When our announcer releases an 'announcement pack' (everything needed to announce and send some entries)...
-    onAsyncIterate(this.announcer.announcementPacks(), async (pack) => {
+    this.iterate(this.announcer.announcementPacks(), async (pack) => {
+      const reconciler = this.reconcilerMap.getReconciler(
+        pack.announcement.senderHandle,
+        pack.announcement.receiverHandle,
+      );
+
+      const { namespace } = reconciler.store;
+
+      const area = this.intersectAois(
+        pack.announcement.senderHandle,
+        pack.announcement.receiverHandle,
+      );
+
       // Bind any static tokens first.
       for (const staticToken of pack.staticTokenBinds) {
         this.encoder.encode({
@@ -1023,6 +1165,11 @@ export class WgpsMessenger<
         });
       }
 
+      // The areas of interest may have been removed since this was queued, but the static tokens above are bound regardless.
+      if (reconciler.stopped) {
+        return;
+      }
+
       // Then announce the entries.
       this.encoder.encode({
         kind: MsgKind.ReconciliationAnnounceEntries,
@@ -1044,22 +1191,52 @@ export class WgpsMessenger<
           staticTokenHandle: entry.staticTokenHandle,
         });
 
+        this.dispatchTypedEvent(
+          WgpsMessengerEvents.EntrySend,
+          new EntrySendEvent(namespace, area, entry.lengthyEntry.entry),
+        );
+
         if (entry.payload !== null) {
-            this.encoder.encode({
-              kind: MsgKind.ReconciliationSendPayload,
-              amount: entry.lengthyEntry.available,
-              bytes: await entry.payload.bytes(),
-            });
+          this.encoder.encode({
+            kind: MsgKind.ReconciliationSendPayload,
+            amount: entry.lengthyEntry.available,
+            bytes: await entry.payload.bytes(),
+          });
+
+          this.dispatchTypedEvent(
+            WgpsMessengerEvents.PayloadSend,
+            new PayloadSendEvent(
+              namespace,
+              area,
+              entry.lengthyEntry.entry,
+              entry.lengthyEntry.available,
+            ),
+          );
         }
 
         this.encoder.encode({
           kind: MsgKind.ReconciliationTerminatePayload,
         });
       }
+
+      reconciler.progress.sentAnnouncement({
+        range: pack.announcement.range,
+        count: BigInt(pack.announcement.count),
+        wantResponse: pack.announcement.wantResponse,
+        covers: pack.announcement.covers,
+      });
+
+      // Without a response, the range has been reconciled once these entries are sent.
+      if (!pack.announcement.wantResponse) {
+        this.dispatchTypedEvent(
+          WgpsMessengerEvents.RangeReconcile,
+          new RangeReconcileEvent(namespace, area, pack.announcement.range),
+        );
+      }
     });
 
     // Whenever the area of interest intersection finder finds an intersection from the setup phase...
-    onAsyncIterate(
+    this.iterate(
       this.aoiIntersectionFinder.intersections(),
       async (intersection) => {
         const store = await this.getStore(intersection.namespace);
@@ -1093,8 +1270,22 @@ export class WgpsMessenger<
           reconciler,
         );
 
+        // Once reconciling, keep the other peer up to date with new entries too.
+        this.forwardFrom(store);
+
+        // Whenever the reconciler has reconciled everything...
+        this.iterate(reconciler.progress.completions(), () => {
+          this.dispatchTypedEvent(
+            WgpsMessengerEvents.AreaReconcile,
+            new AreaReconcileEvent(
+              intersection.namespace,
+              this.intersectAois(intersection.ours, intersection.theirs),
+            ),
+          );
+        });
+
         // Whenever the reconciler emits a fingerprint...
-        onAsyncIterate(
+        this.iterate(
           reconciler.fingerprints(),
           ({ fingerprint, range, covers }) => {
             // Send a ReconciliationSendFingerprint message
@@ -1107,11 +1298,19 @@ export class WgpsMessenger<
               receiverHandle: intersection.theirs,
               covers,
             });
+
+            reconciler.progress.sentFingerprint(
+              this.myRangeCounter,
+              range,
+              covers,
+            );
+
+            this.myRangeCounter += 1n;
           },
         );
 
         // Whenever the reconciler emits an announcement...
-        onAsyncIterate(reconciler.entryAnnouncements(), (announcement) => {
+        this.iterate(reconciler.entryAnnouncements(), (announcement) => {
           // Let the announcer figure out what to do.
           this.announcer.queueAnnounce({
             namespace: intersection.namespace,
@@ -1128,11 +1327,24 @@ export class WgpsMessenger<
   }
 
   private setupData() {
-    onAsyncIterate(this.dataSender.messages(), (msg) => {
+    this.iterate(this.forwardQueue, async (forwarded) => {
+      await this.forward(forwarded);
+    });
+
+    this.iterate(this.dataSender.messages(), (msg) => {
       this.encoder.encode(msg);
 
       if (msg.kind === MsgKind.DataSendEntry) {
         this.currentlySentEntry = msg.entry;
+
+        this.dispatchTypedEvent(
+          WgpsMessengerEvents.EntrySend,
+          new EntrySendEvent(
+            msg.entry.namespaceId,
+            this.areaOfInterestIncluding(msg.entry),
+            msg.entry,
+          ),
+        );
       } else if (msg.kind === MsgKind.DataReplyPayload) {
         const request = this.handlesPayloadRequestsTheirs.get(msg.handle);
 
@@ -1143,6 +1355,16 @@ export class WgpsMessenger<
         }
 
         this.currentlySentEntry = request.entry;
+      } else {
+        this.dispatchTypedEvent(
+          WgpsMessengerEvents.PayloadSend,
+          new PayloadSendEvent(
+            this.currentlySentEntry.namespaceId,
+            this.areaOfInterestIncluding(this.currentlySentEntry),
+            this.currentlySentEntry,
+            msg.amount,
+          ),
+        );
       }
     });
   }
@@ -1236,7 +1458,11 @@ export class WgpsMessenger<
         break;
       }
       case MsgKind.DataSetMetadata: {
-        // Do nothing (for now);
+        // Remember: the sender's handle is theirs.
+        this.plumtree.setEagerness(
+          { ours: message.receiverHandle, theirs: message.senderHandle },
+          message.isEager,
+        );
         break;
       }
       case MsgKind.ControlIssueGuarantee: {
@@ -1266,17 +1492,23 @@ export class WgpsMessenger<
         break;
       }
       case MsgKind.ControlAbsolve: {
-        // Silently ignore.
+        this.guaranteeIssuers.get(message.channel)?.absolve(message.amount);
+
+        this.issueGuarantees();
         break;
       }
       case MsgKind.ControlPlead: {
-        const absolved = this.outChannelIntersection.plead(message.target);
+        const absolved = this.outChannel(message.channel).plead(
+          message.target,
+        );
 
-        this.encoder.encode({
-          kind: MsgKind.ControlAbsolve,
-          channel: message.channel,
-          amount: absolved,
-        });
+        if (absolved > BigInt(0)) {
+          this.encoder.encode({
+            kind: MsgKind.ControlAbsolve,
+            channel: message.channel,
+            amount: absolved,
+          });
+        }
 
         break;
       }
@@ -1308,6 +1540,14 @@ export class WgpsMessenger<
                 mine: true,
               });
             }
+
+            break;
+          }
+          case HandleType.AreaOfInterestHandle: {
+            // The other peer is no longer interested in one of their areas of interest.
+            if (message.mine) {
+              this.stopReconciling(message.handle, false);
+            }
           }
         }
         break;
@@ -1332,6 +1572,12 @@ export class WgpsMessenger<
           message.senderHandle,
         );
 
+        reconciler.progress.receivedFingerprint(
+          BigInt(this.yourRangeCounter),
+          message.range,
+          message.covers,
+        );
+
         await reconciler.respond(
           message.range,
           message.fingerprint,
@@ -1360,11 +1606,23 @@ export class WgpsMessenger<
         this.currentlyReceivingEntries = {
           remaining: message.count,
           namespace: reconciler.store.namespace,
+          area: this.intersectAois(
+            message.receiverHandle,
+            message.senderHandle,
+          ),
           range: message.range,
+          wantResponse: message.wantResponse,
+          reconciler,
         };
 
+        reconciler.progress.receivedAnnouncement(message);
+
+        if (message.count === 0n) {
+          this.receivedAllAnnouncedEntries();
+        }
+
         // If a response is wanted... queue up announcement
-        if (message.wantResponse) {
+        if (message.wantResponse && !reconciler.stopped) {
           this.announcer.queueAnnounce({
             namespace: reconciler.store.namespace,
             store: reconciler.store,
@@ -1372,7 +1630,8 @@ export class WgpsMessenger<
             wantResponse: false,
             receiverHandle: message.senderHandle,
             senderHandle: message.receiverHandle,
-            covers: message.covers,
+            // The announcement being responded to is what covered one of our fingerprints, so the response doesn't cover any of theirs.
+            covers: COVERS_NONE,
           });
         }
 
@@ -1421,7 +1680,7 @@ export class WgpsMessenger<
         const result = await store.ingestEntry(
           message.entry.entry,
           authToken,
-          "TODO_DEFINE_THIS_WHEN_PLUMTREES_GROW",
+          this.externalSourceId,
         );
 
         if (result.kind === "failure") {
@@ -1431,6 +1690,16 @@ export class WgpsMessenger<
         }
 
         this.currentlyReceivingEntries.remaining -= 1n;
+        this.currentlyReceivingEntries.entry = message.entry.entry;
+
+        this.dispatchTypedEvent(
+          WgpsMessengerEvents.EntryReceive,
+          new EntryReceiveEvent(
+            this.currentlyReceivingEntries.namespace,
+            this.currentlyReceivingEntries.area,
+            message.entry.entry,
+          ),
+        );
 
         this.reconciliationPayloadIngester.target(
           message.entry.entry,
@@ -1443,36 +1712,39 @@ export class WgpsMessenger<
         // Ingest for the currently targeted entry.
         this.reconciliationPayloadIngester.push(message.bytes, false);
 
+        const receiving = this.currentlyReceivingEntries;
+
+        if (receiving?.entry) {
+          this.dispatchTypedEvent(
+            WgpsMessengerEvents.PayloadReceive,
+            new PayloadReceiveEvent(
+              receiving.namespace,
+              receiving.area,
+              receiving.entry,
+              message.amount,
+            ),
+          );
+        }
+
         break;
       }
       case MsgKind.ReconciliationTerminatePayload: {
         const entryToRequestPayloadFor = this.reconciliationPayloadIngester
           .terminate();
 
-        if (entryToRequestPayloadFor) {
-          // Request the payload.
-
-          const capHandle = this.capFinder.findCapHandle(
-            entryToRequestPayloadFor,
-          );
-
-          if (capHandle === undefined) {
-            throw new WillowError(
-              "Couldn't get a capability for a given entry",
-            );
-          }
+        this.currentlyReceivingEntries?.reconciler.progress.receivedEntry();
 
-          this.handlesPayloadRequestsOurs.bind({
-            entry: entryToRequestPayloadFor,
-            offset: 0n,
-          });
+        // The last announced entry has been sent in full.
+        if (this.currentlyReceivingEntries?.remaining === 0n) {
+          this.receivedAllAnnouncedEntries();
+        }
 
-          this.encoder.encode({
-            kind: MsgKind.DataBindPayloadRequest,
-            entry: entryToRequestPayloadFor,
-            offset: 0n,
-            capability: capHandle,
-          });
+        // Payloads are not requested for areas which are no longer of interest.
+        if (
+          entryToRequestPayloadFor &&
+          !this.currentlyReceivingEntries?.reconciler.stopped
+        ) {
+          this.requestPayload(entryToRequestPayloadFor);
         }
       }
     }
@@ -1502,12 +1774,52 @@ export class WgpsMessenger<
 
         const store = await this.getStore(message.entry.namespaceId);
 
-        const result = await store.ingestEntry(message.entry, authToken);
+        const result = await store.ingestEntry(
+          message.entry,
+          authToken,
+          this.externalSourceId,
+        );
 
         if (result.kind === "failure") {
           throw new WgpsMessageValidationError(result.message);
         }
 
+        this.currentlyIngestedEntry = message.entry;
+
+        const pairs = this.aoiPairsIncluding(message.entry);
+
+        // We already had everything the other peer sent us.
+        const redundant = result.kind === "no_op" &&
+          await store.getPayload(message.entry) !== undefined;
+
+        const changes = this.plumtree.receivedEntry(pairs, redundant);
+
+        for (const { pair, isEager } of changes) {
+          this.encoder.encode({
+            kind: MsgKind.DataSetMetadata,
+            isEager,
+            senderHandle: pair.ours,
+            receiverHandle: pair.theirs,
+          });
+        }
+
+        // The other peer is being lazy for these areas, so the payload won't follow unless we ask for it.
+        if (
+          result.kind === "success" && message.entry.payloadLength > 0n &&
+          pairs.length > 0 && !this.plumtree.isEager(pairs)
+        ) {
+          this.requestPayload(message.entry);
+        }
+
+        this.dispatchTypedEvent(
+          WgpsMessengerEvents.EntryReceive,
+          new EntryReceiveEvent(
+            message.entry.namespaceId,
+            this.areaOfInterestIncluding(message.entry),
+            message.entry,
+          ),
+        );
+
         this.dataPayloadIngester.target(message.entry);
 
         break;
@@ -1527,6 +1839,16 @@ export class WgpsMessenger<
 
         this.dataPayloadIngester.push(message.bytes, endHere);
 
+        this.dispatchTypedEvent(
+          WgpsMessengerEvents.PayloadReceive,
+          new PayloadReceiveEvent(
+            this.currentlyIngestedEntry.namespaceId,
+            this.areaOfInterestIncluding(this.currentlyIngestedEntry),
+            this.currentlyIngestedEntry,
+            message.amount,
+          ),
+        );
+
         break;
       }
       case MsgKind.DataReplyPayload: {
@@ -1540,6 +1862,7 @@ export class WgpsMessenger<
 
         this.currentlyReceivedLimit = result.entry.payloadLength;
         this.currentlyReceivedOffset = result.offset;
+        this.currentlyIngestedEntry = result.entry;
         this.dataPayloadIngester.target(result.entry);
 
         break;
@@ -1581,6 +1904,15 @@ export class WgpsMessenger<
     this.handlesCapsTheirs.bind(message.capability);
 
     this.paiFinder.receivedReadCapForIntersection(message.handle);
+
+    this.dispatchTypedEvent(
+      WgpsMessengerEvents.CapabilityBind,
+      new CapabilityBindEvent(
+        this.schemes.accessControl.getGrantedNamespace(message.capability),
+        this.schemes.accessControl.getGrantedArea(message.capability),
+        false,
+      ),
+    );
   }
 
   private async handleMsgAreaOfInterest(
@@ -1660,11 +1992,17 @@ export class WgpsMessenger<
       throw new WgpsMessageValidationError("Entry not covered by capability");
     }
 
+    // The handle is bound even if the payload is not sent, so that our handles stay in step with the other peer's.
     const handle = this.handlesPayloadRequestsTheirs.bind({
       entry: message.entry,
       offset: message.offset,
     });
 
+    // Payloads are no longer sent for areas of interest we have removed.
+    if (this.isOnlyInRemovedAreas(message.entry)) {
+      return;
+    }
+
     this.dataSender.queuePayloadRequest(handle);
   }
 
@@ -1674,8 +2012,571 @@ export class WgpsMessenger<
     this.handlesStaticTokensTheirs.bind(message.staticToken);
   }
 
-  close() {
+  // Account for a message received on a logical channel, and plead with the other peer to stop sending if too much is buffered.
+  private receivedOnChannel(channel: LogicalChannel, byteLength: number) {
+    this.guaranteeIssuers.get(channel)?.receive(byteLength);
+
+    if (!this.isUnderMemoryPressure()) {
+      return;
+    }
+
+    // Only plead for the channels which are filling up.
+    for (const [fillingChannel, issuer] of this.guaranteeIssuers) {
+      if (
+        issuer.pleading || issuer.buffered === BigInt(0) ||
+        issuer.outstanding === BigInt(0)
+      ) {
+        continue;
+      }
+
+      issuer.pleading = true;
+
+      this.encoder.encode({
+        kind: MsgKind.ControlPlead,
+        channel: fillingChannel,
+        target: BigInt(0),
+      });
+    }
+  }
+
+  // Account for a received message having been processed, and issue guarantees for the space it freed up.
+  private processedOnChannel(channel: LogicalChannel, byteLength: number) {
+    this.guaranteeIssuers.get(channel)?.process(byteLength);
+
+    this.issueGuarantees();
+  }
+
+  // Issue guarantees for the free space in each channel's buffer.
+  private issueGuarantees() {
+    const underPressure = this.isUnderMemoryPressure();
+
+    for (const [channel, issuer] of this.guaranteeIssuers) {
+      // Under memory pressure, hold back the channels which are filling up, but not the others: buffered messages may be waiting on them.
+      if (underPressure && issuer.buffered > BigInt(0)) {
+        continue;
+      }
+
+      const amount = issuer.issue();
+
+      if (amount > BigInt(0)) {
+        this.encoder.encode({
+          kind: MsgKind.ControlIssueGuarantee,
+          channel,
+          amount,
+        });
+      }
+    }
+  }
+
+  private isUnderMemoryPressure(): boolean {
+    if (this.memoryLimit === undefined) {
+      return false;
+    }
+
+    let buffered = BigInt(0);
+
+    for (const issuer of this.guaranteeIssuers.values()) {
+      buffered += issuer.buffered;
+    }
+
+    return buffered > this.memoryLimit;
+  }
+
+  private outChannel(channel: LogicalChannel): GuaranteedQueue {
+    switch (channel) {
+      case LogicalChannel.ReconciliationChannel:
+        return this.outChannelReconciliation;
+      case LogicalChannel.DataChannel:
+        return this.outChannelData;
+      case LogicalChannel.IntersectionChannel:
+        return this.outChannelIntersection;
+      case LogicalChannel.CapabilityChannel:
+        return this.outChannelCapability;
+      case LogicalChannel.AreaOfInterestChannel:
+        return this.outChannelAreaOfInterest;
+      case LogicalChannel.PayloadRequestChannel:
+        return this.outChannelPayloadRequest;
+      case LogicalChannel.StaticTokenChannel:
+        return this.outChannelStaticToken;
+    }
+  }
+
+  // Bind a payload request for an entry, and send it to the other peer.
+  private requestPayload(entry: Entry<NamespaceId, SubspaceId, PayloadDigest>) {
+    const capHandle = this.capFinder.findCapHandle(entry);
+
+    if (capHandle === undefined) {
+      throw new WillowError(
+        "Couldn't get a capability for a given entry",
+      );
+    }
+
+    this.handlesPayloadRequestsOurs.bind({
+      entry,
+      offset: 0n,
+    });
+
+    this.encoder.encode({
+      kind: MsgKind.DataBindPayloadRequest,
+      entry,
+      offset: 0n,
+      capability: capHandle,
+    });
+  }
+
+  // Forward the new entries and payloads a store receives from anywhere but the other peer.
+  private forwardFrom(
+    store: Store<
+      NamespaceId,
+      SubspaceId,
+      PayloadDigest,
+      AuthorisationOpts,
+      AuthorisationToken,
+      Prefingerprint,
+      Fingerprint
+    >,
+  ) {
+    if (this.forwardingStores.has(store)) {
+      return;
+    }
+
+    // Set locally, so both the entry and its payload are new.
+    const onEntryPayloadSet = (
+      event: EntryPayloadSetEvent<
+        NamespaceId,
+        SubspaceId,
+        PayloadDigest,
+        AuthorisationToken
+      >,
+    ) => {
+      this.forwardQueue.push({
+        entry: event.detail.entry,
+        authToken: event.detail.authToken,
+        entryForwarded: false,
+      });
+    };
+
+    // Ingested from elsewhere. The payload arrives separately (if at all), unless the store already held it.
+    const onEntryIngest = (
+      event: EntryIngestEvent<
+        NamespaceId,
+        SubspaceId,
+        PayloadDigest,
+        AuthorisationToken
+      >,
+    ) => {
+      if (event.detail.externalSourceId === this.externalSourceId) {
+        return;
+      }
+
+      this.forwardQueue.push({
+        entry: event.detail.entry,
+        authToken: event.detail.authToken,
+        entryForwarded: false,
+      });
+    };
+
+    const onPayloadIngest = (
+      event: PayloadIngestEvent<
+        NamespaceId,
+        SubspaceId,
+        PayloadDigest,
+        AuthorisationToken
+      >,
+    ) => {
+      if (event.detail.externalSourceId === this.externalSourceId) {
+        return;
+      }
+
+      this.forwardQueue.push({
+        entry: event.detail.entry,
+        authToken: event.detail.authToken,
+        entryForwarded: true,
+      });
+    };
+
+    store.addEventListener(StoreEvents.EntryPayloadSet, onEntryPayloadSet);
+    store.addEventListener(StoreEvents.EntryIngest, onEntryIngest);
+    store.addEventListener(StoreEvents.PayloadIngest, onPayloadIngest);
+
+    this.forwardingStores.set(store, () => {
+      store.removeEventListener(StoreEvents.EntryPayloadSet, onEntryPayloadSet);
+      store.removeEventListener(StoreEvents.EntryIngest, onEntryIngest);
+      store.removeEventListener(StoreEvents.PayloadIngest, onPayloadIngest);
+    });
+  }
+
+  // Send an entry to the other peer if it is in the intersection of our areas of interest and theirs, along with its payload if they want it pushed.
+  private async forward(
+    { entry, authToken, entryForwarded }: {
+      entry: Entry<NamespaceId, SubspaceId, PayloadDigest>;
+      authToken: AuthorisationToken;
+      entryForwarded: boolean;
+    },
+  ) {
+    const pairs = this.aoiPairsIncluding(entry);
+
+    if (pairs.length === 0) {
+      return;
+    }
+
+    const store = await this.getStore(entry.namespaceId);
+
+    const withPayload = entry.payloadLength > 0n &&
+      this.plumtree.shouldPush(pairs) &&
+      await store.getPayload(entry) !== undefined;
+
+    // The other peer can request the payload of the entry they already have.
+    if (entryForwarded && !withPayload) {
+      return;
+    }
+
+    const [staticToken, dynamicToken] = this.schemes.authorisationToken
+      .decomposeAuthToken(authToken);
+
+    const { handle: staticTokenHandle, alreadyExisted } = this.announcer
+      .getStaticTokenHandle(staticToken);
+
+    if (!alreadyExisted) {
+      this.encoder.encode({
+        kind: MsgKind.SetupBindStaticToken,
+        staticToken,
+      });
+    }
+
+    await this.dataSender.queueEntry(
+      entry,
+      staticTokenHandle,
+      dynamicToken,
+      0,
+      withPayload,
+    );
+  }
+
+  // The pairs of our areas of interest and theirs which are still being synced, and whose intersection includes an entry.
+  private aoiPairsIncluding(
+    entry: Entry<NamespaceId, SubspaceId, PayloadDigest>,
+  ): AoiPair[] {
+    const position = entryPosition(entry);
+    const pairs = [];
+
+    for (const [ours, theirs, reconciler] of this.reconcilerMap) {
+      if (
+        reconciler.stopped ||
+        !this.schemes.namespace.isEqual(
+          reconciler.store.namespace,
+          entry.namespaceId,
+        )
+      ) {
+        continue;
+      }
+
+      const area = this.intersectAois(ours, theirs);
+
+      if (isIncludedArea(this.schemes.subspace.order, area, position)) {
+        pairs.push({ ours, theirs });
+      }
+    }
+
+    return pairs;
+  }
+
+  // Dispatch an event once all entries of the current announcement have been received, if the range they were announced for is now reconciled.
+  private receivedAllAnnouncedEntries() {
+    const receiving = this.currentlyReceivingEntries;
+
+    // Otherwise, the range is reconciled once we have sent our entries in response.
+    if (!receiving || receiving.wantResponse) {
+      return;
+    }
+
+    this.dispatchTypedEvent(
+      WgpsMessengerEvents.RangeReconcile,
+      new RangeReconcileEvent(
+        receiving.namespace,
+        receiving.area,
+        receiving.range,
+      ),
+    );
+  }
+
+  // The area in which one of our areas of interest and one of theirs intersect.
+  private intersectAois(
+    aoiHandleOurs: bigint,
+    aoiHandleTheirs: bigint,
+  ): Area<SubspaceId> {
+    const aoiOurs = this.handlesAoisOurs.get(aoiHandleOurs);
+    const aoiTheirs = this.handlesAoisTheirs.get(aoiHandleTheirs);
+
+    if (!aoiTheirs) {
+      throw new WgpsMessageValidationError(
+        "Failed to retrieve unbound AOI handle of the other peer",
+      );
+    }
+
+    if (!aoiOurs) {
+      throw new WgpsMessageValidationError(
+        "Failed to retrieve unbound AOI handle of our own",
+      );
+    }
+
+    const intersectingArea = intersectArea(
+      this.schemes.subspace.order,
+      aoiTheirs.area,
+      aoiOurs.area,
+    );
+
+    if (!intersectingArea) {
+      throw new WgpsMessageValidationError(
+        "No intersecting area between two AOI handles",
+      );
+    }
+
+    return intersectingArea;
+  }
+
+  // The area of the first of our areas of interest which includes an entry, or the full area if none do.
+  private areaOfInterestIncluding(
+    entry: Entry<NamespaceId, SubspaceId, PayloadDigest>,
+  ): Area<SubspaceId> {
+    return this.findAreaOfInterest(entry) ?? fullArea<SubspaceId>();
+  }
+
+  // The area of the first of our areas of interest which includes an entry.
+  private findAreaOfInterest(
+    entry: Entry<NamespaceId, SubspaceId, PayloadDigest>,
+  ): Area<SubspaceId> | undefined {
+    const position = entryPosition(entry);
+
+    for (const [authorisation, aois] of this.interests) {
+      const namespace = this.schemes.accessControl.getGrantedNamespace(
+        authorisation.capability,
+      );
+
+      if (!this.schemes.namespace.isEqual(namespace, entry.namespaceId)) {
+        continue;
+      }
+
+      for (const aoi of aois) {
+        if (isIncludedArea(this.schemes.subspace.order, aoi.area, position)) {
+          return aoi.area;
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  // Whether an entry is included by one of the areas of interest we have removed, and none of those we still have.
+  private isOnlyInRemovedAreas(
+    entry: Entry<NamespaceId, SubspaceId, PayloadDigest>,
+  ): boolean {
+    if (this.findAreaOfInterest(entry)) {
+      return false;
+    }
+
+    const position = entryPosition(entry);
+
+    return this.removedAreas.some(({ namespace, area }) =>
+      this.schemes.namespace.isEqual(namespace, entry.namespaceId) &&
+      isIncludedArea(this.schemes.subspace.order, area, position)
+    );
+  }
+
+  // Check that an authorisation grants read access to all of the given areas of interest.
+  private checkInterests(
+    authorisation: ReadAuthorisation<ReadCapability, SubspaceCapability>,
+    areas: AreaOfInterest<SubspaceId>[],
+  ) {
+    if (areas.length === 0) {
+      throw new WillowError("No Areas of Interest given for authorisation");
+    }
+
+    // Get granted area of authorisation
+    const grantedArea = this.schemes.accessControl.getGrantedArea(
+      authorisation.capability,
+    );
+
+    for (const aoi of areas) {
+      // Check that AOI area is in granted area.
+      const isWithin = areaIsIncluded(
+        this.schemes.subspace.order,
+        aoi.area,
+        grantedArea,
+      );
+
+      if (!isWithin) {
+        throw new WillowError(
+          "Given authorisation is not within authorisation's granted area",
+        );
+      }
+    }
+  }
+
+  // Bind areas of interest for one of our bound capabilities, and look for intersections with the other peer's.
+  private bindAreasOfInterest(
+    binding: CapBinding<NamespaceId>,
+    aois: AreaOfInterest<SubspaceId>[],
+  ) {
+    for (const aoi of aois) {
+      const handle = this.handlesAoisOurs.bind(aoi);
+
+      binding.aoiHandles.push(handle);
+
+      this.aoiIntersectionFinder.addAoiHandleForNamespace(
+        handle,
+        binding.namespace,
+        true,
+      );
+
+      this.encoder.encode({
+        kind: MsgKind.SetupBindAreaOfInterest,
+        areaOfInterest: aoi,
+        authorisation: binding.capHandle,
+      });
+    }
+  }
+
+  // Stop reconciling one of our areas of interest or one of theirs. The handle stays bound, as messages referring to it may still be underway.
+  private stopReconciling(aoiHandle: bigint, ours: boolean) {
+    this.aoiIntersectionFinder.removeAoiHandle(aoiHandle, ours);
+
+    for (
+      const reconciler of this.reconcilerMap.reconcilersForHandle(
+        aoiHandle,
+        ours,
+      )
+    ) {
+      reconciler.stop();
+    }
+  }
+
+  // Call a callback with each value of an iterable, in order. Anything thrown is reported as an error which closes the session.
+  private iterate<ValueType>(
+    iterable: AsyncIterable<ValueType>,
+    callback: (value: ValueType) => void | Promise<void>,
+    onEnd?: () => void,
+  ) {
+    (async () => {
+      for await (const value of iterable) {
+        await callback(value);
+      }
+
+      if (onEnd) {
+        onEnd();
+      }
+    })().catch((err) => this.fail(err));
+  }
+
+  // Submit an authorisation for private area intersection. Anything thrown is reported as an error which closes the session.
+  private submitAuthorisation(
+    authorisation: ReadAuthorisation<ReadCapability, SubspaceCapability>,
+  ) {
+    this.paiFinder.submitAuthorisation(authorisation).catch((err) =>
+      this.fail(err)
+    );
+  }
+
+  // Report an error and close the session.
+  private fail(err: unknown) {
+    // Things may fail as the session winds down.
+    if (this.closed) {
+      return;
+    }
+
+    const error = err instanceof Error ? err : new WillowError(`${err}`);
+
+    this.dispatchTypedEvent(
+      WgpsMessengerEvents.Error,
+      new SyncErrorEvent(error),
+    );
+
+    this.shutdown(error);
+  }
+
+  private shutdown(error?: Error) {
+    if (this.closed) {
+      return;
+    }
+
     this.closed = true;
     this.transport.close();
+
+    for (const stopForwarding of this.forwardingStores.values()) {
+      stopForwarding();
+    }
+
+    this.dispatchTypedEvent(
+      WgpsMessengerEvents.Close,
+      new SyncCloseEvent(error),
+    );
+  }
+
+  /** Add areas of interest to sync during the session, which the given {@link ReadAuthorisation} proves read access to.
+   *
+   * If the authorisation is new to the session, it is first submitted for [private area intersection](https://willowprotocol.org/specs/pai/index.html#private_area_intersection). Otherwise, the areas of interest are bound alongside its capability right away.
+   */
+  addInterests(
+    authorisation: ReadAuthorisation<ReadCapability, SubspaceCapability>,
+    aois: AreaOfInterest<SubspaceId>[],
+  ) {
+    this.checkInterests(authorisation, aois);
+
+    const existing = this.interests.get(authorisation);
+
+    this.interests.set(authorisation, [...existing ?? [], ...aois]);
+
+    if (!existing) {
+      this.submitAuthorisation(authorisation);
+
+      return;
+    }
+
+    for (const binding of this.bindings.get(authorisation) ?? []) {
+      this.bindAreasOfInterest(binding, aois);
+    }
+  }
+
+  /** Stop syncing all areas of interest added for a {@link ReadAuthorisation}, and tell the other peer to stop syncing them too. */
+  removeInterests(
+    authorisation: ReadAuthorisation<ReadCapability, SubspaceCapability>,
+  ) {
+    const aois = this.interests.get(authorisation);
+
+    if (!aois) {
+      throw new WillowError("No interests known for the given authorisation");
+    }
+
+    this.interests.delete(authorisation);
+
+    const namespace = this.schemes.accessControl.getGrantedNamespace(
+      authorisation.capability,
+    );
+
+    for (const aoi of aois) {
+      this.removedAreas.push({ namespace, area: aoi.area });
+    }
+
+    for (const binding of this.bindings.get(authorisation) ?? []) {
+      this.capFinder.removeCap(binding.capHandle);
+
+      for (const handle of binding.aoiHandles) {
+        this.stopReconciling(handle, true);
+
+        this.encoder.encode({
+          kind: MsgKind.ControlFree,
+          handle,
+          handleType: HandleType.AreaOfInterestHandle,
+          mine: true,
+        });
+      }
+    }
+
+    this.bindings.delete(authorisation);
+  }
+
+  /** Close the sync session. */
+  close() {
+    this.shutdown();
   }
 }